@@ -1,7 +1,12 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  experimental: {
+    serverActions: {
+      // Receipt uploads send up to five 5 MB files in one request
+      bodySizeLimit: "26mb",
+    },
+  },
 };
 
 export default nextConfig;
@@ -0,0 +1,77 @@
+// PesoPilot service worker: keeps the app shell available offline and wakes
+// open pages to send expenses queued while the device was offline.
+
+const CACHE_NAME = "pesopilot-v1";
+const PRECACHE_URLS = ["/manifest.webmanifest", "/icon.svg"];
+// Page to fall back on when a page was never visited while online
+const OFFLINE_FALLBACK = "/dashboard";
+const SYNC_TAG = "sync-expenses";
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(caches.open(CACHE_NAME).then((cache) => cache.addAll(PRECACHE_URLS)));
+  self.skipWaiting();
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(keys.filter((key) => key !== CACHE_NAME).map((key) => caches.delete(key)))
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+async function cacheResponse(request, response) {
+  // Redirects (e.g. to the login page) can't be replayed for a navigation
+  if (response.ok && !response.redirected) {
+    const cache = await caches.open(CACHE_NAME);
+    await cache.put(request, response.clone());
+  }
+  return response;
+}
+
+// Pages: always try the network so data is fresh, and fall back to the last
+// copy seen when offline
+async function networkFirst(request) {
+  try {
+    return await cacheResponse(request, await fetch(request));
+  } catch (error) {
+    const cached = (await caches.match(request)) || (await caches.match(OFFLINE_FALLBACK));
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+// Build assets have content hashes in their names, so a cached copy never goes stale
+async function cacheFirst(request) {
+  const cached = await caches.match(request);
+  return cached || cacheResponse(request, await fetch(request));
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+
+  // Server actions are POSTs and Supabase is another origin; leave those alone
+  if (request.method !== "GET" || url.origin !== self.location.origin) return;
+
+  if (request.mode === "navigate") {
+    event.respondWith(networkFirst(request));
+  } else if (url.pathname.startsWith("/_next/static/") || PRECACHE_URLS.includes(url.pathname)) {
+    event.respondWith(cacheFirst(request));
+  }
+});
+
+// Background Sync: the browser fires this once the connection is back. The
+// queue lives in the page's IndexedDB and is sent with the page's server
+// actions, so ask any open page to send it.
+self.addEventListener("sync", (event) => {
+  if (event.tag !== SYNC_TAG) return;
+  event.waitUntil(
+    self.clients
+      .matchAll({ type: "window" })
+      .then((clients) => clients.forEach((client) => client.postMessage({ type: SYNC_TAG })))
+  );
+});
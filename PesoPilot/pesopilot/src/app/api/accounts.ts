@@ -0,0 +1,343 @@
+"use server";
+
+import { createClient } from "@/utils/supabase/server";
+import { revalidatePath } from "next/cache";
+
+// ============================================
+// ACCOUNT API FUNCTIONS
+// ============================================
+
+export type AccountType = "cash" | "ewallet" | "bank" | "credit_card";
+
+export interface Account {
+  id: string;
+  user_id: string;
+  name: string;
+  type: AccountType;
+  opening_balance: number;
+  archived: boolean;
+  created_at: string;
+}
+
+export interface AccountBalance extends Account {
+  inflow: number;
+  outflow: number;
+  balance: number;
+}
+
+export interface Transfer {
+  id: string;
+  user_id: string;
+  from_account_id: string;
+  to_account_id: string;
+  amount: number;
+  description: string | null;
+  date: string;
+  created_at: string;
+}
+
+// Supabase returns at most 1000 rows per request
+const FETCH_PAGE_SIZE = 1000;
+
+/**
+ * Every row a query returns, fetched a page at a time. The query must have a
+ * stable order. Returns null if a page can't be read.
+ */
+async function fetchAllPages<T>(
+  label: string,
+  fetchPage: (
+    from: number,
+    to: number
+  ) => PromiseLike<{ data: T[] | null; error: { message: string } | null }>
+): Promise<T[] | null> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += FETCH_PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + FETCH_PAGE_SIZE - 1);
+
+    if (error) {
+      console.error(`Error fetching ${label}:`, error);
+      return null;
+    }
+
+    rows.push(...(data || []));
+    if (!data || data.length < FETCH_PAGE_SIZE) return rows;
+  }
+}
+
+export async function getAccounts(
+  includeArchived: boolean = false
+): Promise<Account[]> {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return [];
+
+  let query = supabase
+    .from("accounts")
+    .select("*")
+    .eq("user_id", user.id)
+    .order("created_at", { ascending: true });
+
+  if (!includeArchived) {
+    query = query.eq("archived", false);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error("Error fetching accounts:", error);
+    return [];
+  }
+
+  return data || [];
+}
+
+export async function createAccount(
+  name: string,
+  type: AccountType,
+  openingBalance: number
+): Promise<{ success: boolean; error?: string; account?: Account }> {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return { success: false, error: "Not authenticated" };
+
+  const { data, error } = await supabase
+    .from("accounts")
+    .insert({
+      user_id: user.id,
+      name: name.trim(),
+      type,
+      opening_balance: openingBalance,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error("Error creating account:", error);
+    return { success: false, error: error.message };
+  }
+
+  revalidatePath("/dashboard");
+  return { success: true, account: data };
+}
+
+export async function archiveAccount(
+  accountId: string,
+  archived: boolean = true
+): Promise<{ success: boolean; error?: string }> {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return { success: false, error: "Not authenticated" };
+
+  const { error } = await supabase
+    .from("accounts")
+    .update({ archived })
+    .eq("id", accountId)
+    .eq("user_id", user.id);
+
+  if (error) {
+    console.error("Error archiving account:", error);
+    return { success: false, error: error.message };
+  }
+
+  revalidatePath("/dashboard");
+  return { success: true };
+}
+
+/**
+ * Running balance of every account: opening balance plus linked incomes and
+ * incoming transfers, minus linked expenses and outgoing transfers.
+ */
+export async function getAccountBalances(): Promise<AccountBalance[]> {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return [];
+
+  // A long history runs past one page, and a missing page would skew every balance
+  const [{ data: accounts, error }, expenses, incomes, transfers] = await Promise.all([
+    supabase
+      .from("accounts")
+      .select("*")
+      .eq("user_id", user.id)
+      .order("created_at", { ascending: true }),
+    fetchAllPages<{ account_id: string; amount: number }>("account expenses", (from, to) =>
+      supabase
+        .from("expenses")
+        .select("account_id, amount")
+        .eq("user_id", user.id)
+        .is("deleted_at", null)
+        .not("account_id", "is", null)
+        .order("id")
+        .range(from, to)
+    ),
+    fetchAllPages<{ account_id: string; amount: number }>("account incomes", (from, to) =>
+      supabase
+        .from("incomes")
+        .select("account_id, amount")
+        .eq("user_id", user.id)
+        .not("account_id", "is", null)
+        .order("id")
+        .range(from, to)
+    ),
+    fetchAllPages<{ from_account_id: string; to_account_id: string; amount: number }>(
+      "transfers",
+      (from, to) =>
+        supabase
+          .from("transfers")
+          .select("from_account_id, to_account_id, amount")
+          .eq("user_id", user.id)
+          .order("id")
+          .range(from, to)
+    ),
+  ]);
+
+  if (error) {
+    console.error("Error fetching account balances:", error);
+    return [];
+  }
+  if (!expenses || !incomes || !transfers) return [];
+
+  const inflow: Record<string, number> = {};
+  const outflow: Record<string, number> = {};
+
+  expenses.forEach((expense) => {
+    outflow[expense.account_id] = (outflow[expense.account_id] || 0) + Number(expense.amount);
+  });
+  incomes.forEach((income) => {
+    inflow[income.account_id] = (inflow[income.account_id] || 0) + Number(income.amount);
+  });
+  transfers.forEach((transfer) => {
+    const amount = Number(transfer.amount);
+    outflow[transfer.from_account_id] = (outflow[transfer.from_account_id] || 0) + amount;
+    inflow[transfer.to_account_id] = (inflow[transfer.to_account_id] || 0) + amount;
+  });
+
+  return (accounts || []).map((account) => {
+    const accountInflow = inflow[account.id] || 0;
+    const accountOutflow = outflow[account.id] || 0;
+    return {
+      ...account,
+      inflow: accountInflow,
+      outflow: accountOutflow,
+      balance: Number(account.opening_balance) + accountInflow - accountOutflow,
+    };
+  });
+}
+
+// ============================================
+// TRANSFER API FUNCTIONS
+// ============================================
+
+export async function getTransfers(): Promise<Transfer[]> {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return [];
+
+  const { data, error } = await supabase
+    .from("transfers")
+    .select("*")
+    .eq("user_id", user.id)
+    .order("date", { ascending: false })
+    .limit(50);
+
+  if (error) {
+    console.error("Error fetching transfers:", error);
+    return [];
+  }
+
+  return data || [];
+}
+
+export async function transferBetweenAccounts(
+  fromAccountId: string,
+  toAccountId: string,
+  amount: number,
+  date: string,
+  description: string
+): Promise<{ success: boolean; error?: string; transfer?: Transfer }> {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return { success: false, error: "Not authenticated" };
+
+  if (fromAccountId === toAccountId) {
+    return { success: false, error: "Choose two different accounts" };
+  }
+
+  const { data: owned } = await supabase
+    .from("accounts")
+    .select("id")
+    .eq("user_id", user.id)
+    .in("id", [fromAccountId, toAccountId]);
+
+  if (!owned || owned.length !== 2) return { success: false, error: "Account not found" };
+
+  const { data, error } = await supabase
+    .from("transfers")
+    .insert({
+      user_id: user.id,
+      from_account_id: fromAccountId,
+      to_account_id: toAccountId,
+      amount,
+      date,
+      description,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error("Error creating transfer:", error);
+    return { success: false, error: error.message };
+  }
+
+  revalidatePath("/dashboard");
+  return { success: true, transfer: data };
+}
+
+export async function deleteTransfer(
+  transferId: string
+): Promise<{ success: boolean; error?: string }> {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return { success: false, error: "Not authenticated" };
+
+  const { error } = await supabase
+    .from("transfers")
+    .delete()
+    .eq("id", transferId)
+    .eq("user_id", user.id);
+
+  if (error) {
+    console.error("Error deleting transfer:", error);
+    return { success: false, error: error.message };
+  }
+
+  revalidatePath("/dashboard");
+  return { success: true };
+}
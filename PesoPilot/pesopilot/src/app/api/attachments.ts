@@ -0,0 +1,171 @@
+"use server";
+
+import { createClient } from "@/utils/supabase/server";
+import { removeAttachmentFiles } from "@/utils/supabase/attachments";
+import {
+  attachmentError,
+  attachmentExtension,
+  MAX_ATTACHMENTS_PER_UPLOAD,
+  RECEIPTS_BUCKET,
+} from "@/utils/attachments";
+
+// ============================================
+// RECEIPT ATTACHMENT API FUNCTIONS
+// ============================================
+
+export interface ExpenseAttachment {
+  id: string;
+  expense_id: string;
+  user_id: string;
+  storage_path: string;
+  file_name: string;
+  content_type: string;
+  size_bytes: number;
+  created_at: string;
+  // Signed URL, valid for SIGNED_URL_TTL_SECONDS after it was fetched
+  url: string | null;
+}
+
+const SIGNED_URL_TTL_SECONDS = 10 * 60;
+
+/** Attachments of the given expenses, keyed by expense id. */
+export async function getExpenseAttachments(
+  expenseIds: string[]
+): Promise<Record<string, ExpenseAttachment[]>> {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user || expenseIds.length === 0) return {};
+
+  const { data, error } = await supabase
+    .from("expense_attachments")
+    .select("*")
+    .in("expense_id", expenseIds)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    console.error("Error fetching attachments:", error);
+    return {};
+  }
+
+  if (!data || data.length === 0) return {};
+
+  const { data: signed, error: signError } = await supabase.storage
+    .from(RECEIPTS_BUCKET)
+    .createSignedUrls(
+      data.map((attachment) => attachment.storage_path),
+      SIGNED_URL_TTL_SECONDS
+    );
+
+  if (signError) console.error("Error signing attachment URLs:", signError);
+
+  const urls = new Map((signed || []).map((item) => [item.path, item.signedUrl]));
+
+  return data.reduce((grouped, attachment) => {
+    (grouped[attachment.expense_id] ??= []).push({
+      ...attachment,
+      url: urls.get(attachment.storage_path) ?? null,
+    });
+    return grouped;
+  }, {} as Record<string, ExpenseAttachment[]>);
+}
+
+/** Upload the "files" entries of the form data as receipts of an expense. */
+export async function uploadExpenseAttachments(
+  expenseId: string,
+  formData: FormData
+): Promise<{ success: boolean; error?: string }> {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return { success: false, error: "Not authenticated" };
+
+  const files = formData.getAll("files").filter((file): file is File => file instanceof File);
+  if (files.length === 0) return { success: true };
+  if (files.length > MAX_ATTACHMENTS_PER_UPLOAD) {
+    return { success: false, error: `Attach at most ${MAX_ATTACHMENTS_PER_UPLOAD} files at a time` };
+  }
+
+  const invalid = files.map(attachmentError).find(Boolean);
+  if (invalid) return { success: false, error: invalid };
+
+  // Only whoever logged the expense can attach receipts to it
+  const { data: expense } = await supabase
+    .from("expenses")
+    .select("id")
+    .eq("id", expenseId)
+    .eq("user_id", user.id)
+    .is("deleted_at", null)
+    .maybeSingle();
+
+  if (!expense) return { success: false, error: "Expense not found" };
+
+  for (const file of files) {
+    // From the checked type, never the file name, so the stored object can't
+    // pretend to be something else
+    const fileExt = attachmentExtension(file.type);
+    const storagePath = `${user.id}/${expenseId}/${crypto.randomUUID()}.${fileExt}`;
+
+    const { error: uploadError } = await supabase.storage
+      .from(RECEIPTS_BUCKET)
+      .upload(storagePath, file, { contentType: file.type });
+
+    if (uploadError) {
+      console.error("Error uploading attachment:", uploadError);
+      return { success: false, error: `Failed to upload ${file.name}` };
+    }
+
+    const { error } = await supabase.from("expense_attachments").insert({
+      expense_id: expenseId,
+      user_id: user.id,
+      storage_path: storagePath,
+      file_name: file.name,
+      content_type: file.type,
+      size_bytes: file.size,
+    });
+
+    if (error) {
+      console.error("Error saving attachment:", error);
+      await removeAttachmentFiles(supabase, [storagePath]);
+      return { success: false, error: error.message };
+    }
+  }
+
+  return { success: true };
+}
+
+export async function deleteExpenseAttachment(
+  attachmentId: string
+): Promise<{ success: boolean; error?: string }> {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return { success: false, error: "Not authenticated" };
+
+  const { data, error } = await supabase
+    .from("expense_attachments")
+    .delete()
+    .eq("id", attachmentId)
+    .eq("user_id", user.id)
+    .select("storage_path")
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error deleting attachment:", error);
+    return { success: false, error: error.message };
+  }
+
+  if (!data) return { success: false, error: "Attachment not found" };
+
+  await removeAttachmentFiles(supabase, [data.storage_path]);
+  return { success: true };
+}
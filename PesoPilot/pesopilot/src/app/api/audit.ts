@@ -0,0 +1,148 @@
+"use server";
+
+import { createClient } from "@/utils/supabase/server";
+import { getWorkspace, workspaceFilter } from "@/utils/supabase/workspace";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Budget, Expense } from "./budget";
+import type { AuditAction, AuditTable, AuditValues } from "@/utils/audit";
+
+// ============================================
+// AUDIT TRAIL API FUNCTIONS
+// ============================================
+
+export interface AuditEvent {
+  id: string;
+  action: AuditAction;
+  changed_by: string | null;
+  changed_at: string;
+  old_values: AuditValues | null;
+  new_values: AuditValues | null;
+}
+
+export interface ChangeHistory {
+  /** Newest first */
+  events: AuditEvent[];
+  /** Who made the changes, by user id */
+  actorNames: Record<string, string>;
+  /** Accounts mentioned in the changes, by id */
+  accountNames: Record<string, string>;
+}
+
+const EMPTY_HISTORY: ChangeHistory = { events: [], actorNames: {}, accountNames: {} };
+
+/** The logged changes to one row, with the names needed to show them. */
+async function getChangeHistory(
+  supabase: SupabaseClient,
+  userId: string,
+  table: AuditTable,
+  recordId: string
+): Promise<ChangeHistory> {
+  const { data, error } = await supabase
+    .from("audit_log")
+    .select("id, action, changed_by, changed_at, old_values, new_values")
+    .eq("table_name", table)
+    .eq("record_id", recordId)
+    .order("changed_at", { ascending: false });
+
+  if (error) {
+    console.error("Error fetching change history:", error);
+    return EMPTY_HISTORY;
+  }
+
+  const events: AuditEvent[] = data || [];
+  const actorIds = Array.from(
+    new Set(events.flatMap((event) => (event.changed_by ? [event.changed_by] : [])))
+  );
+  const accountIds = Array.from(
+    new Set(
+      events.flatMap((event) =>
+        [event.old_values?.account_id, event.new_values?.account_id].filter(
+          (id): id is string => typeof id === "string"
+        )
+      )
+    )
+  );
+
+  const [{ data: members }, { data: accounts }] = await Promise.all([
+    actorIds.length > 0
+      ? supabase
+          .from("household_members")
+          .select("user_id, email, display_name")
+          .in("user_id", actorIds)
+      : Promise.resolve({ data: [] }),
+    accountIds.length > 0
+      ? supabase.from("accounts").select("id, name").in("id", accountIds)
+      : Promise.resolve({ data: [] }),
+  ]);
+
+  const actorNames: Record<string, string> = {};
+  actorIds.forEach((id) => {
+    const member = (members || []).find((row) => row.user_id === id);
+    actorNames[id] =
+      id === userId ? "You" : member?.display_name || member?.email || "Former member";
+  });
+
+  const accountNames: Record<string, string> = {};
+  (accounts || []).forEach((account) => {
+    accountNames[account.id] = account.name;
+  });
+
+  return { events, actorNames, accountNames };
+}
+
+/**
+ * An expense and everything that has happened to it. The expense is null
+ * once it has been deleted for good, but its history is still returned.
+ */
+export async function getExpenseDetail(
+  expenseId: string
+): Promise<{ expense: Expense | null; history: ChangeHistory }> {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return { expense: null, history: EMPTY_HISTORY };
+
+  // Trashed expenses are included so their history can still be read
+  const [{ data: expense, error }, history] = await Promise.all([
+    supabase.from("expenses").select("*").eq("id", expenseId).maybeSingle(),
+    getChangeHistory(supabase, user.id, "expenses", expenseId),
+  ]);
+
+  if (error) console.error("Error fetching expense:", error);
+
+  return { expense: expense ?? null, history };
+}
+
+/** The current workspace's budget and every change made to it. */
+export async function getBudgetDetail(): Promise<{
+  budget: Budget | null;
+  history: ChangeHistory;
+}> {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return { budget: null, history: EMPTY_HISTORY };
+
+  const workspace = await getWorkspace(supabase, user.id);
+
+  const { data: budget, error } = await supabase
+    .from("budgets")
+    .select("*")
+    .or(workspaceFilter(workspace))
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error fetching budget:", error);
+    return { budget: null, history: EMPTY_HISTORY };
+  }
+
+  if (!budget) return { budget: null, history: EMPTY_HISTORY };
+
+  return { budget, history: await getChangeHistory(supabase, user.id, "budgets", budget.id) };
+}
@@ -1,7 +1,36 @@
 "use server";
 
 import { createClient } from "@/utils/supabase/server";
+import { getWorkspace, workspaceFilter, type Workspace } from "@/utils/supabase/workspace";
+import { getAttachmentPaths, removeAttachmentFiles } from "@/utils/supabase/attachments";
+import { getBudgetVersions, getSpendingByPeriod } from "@/utils/supabase/budgetVersions";
+import { getUserToday } from "@/utils/supabase/timezone";
 import { revalidatePath } from "next/cache";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Income } from "./income";
+import type { HouseholdMember } from "./household";
+import type { RecurringRule } from "./recurring";
+import { getOccurrences } from "@/utils/recurring";
+import { colorForName } from "@/utils/categories";
+import { BASE_CURRENCY, convertToPeso, isCurrencyCode } from "@/utils/currency";
+import { repaymentCashFlow, type DebtDirection } from "@/utils/debts";
+import {
+  addDays,
+  DEFAULT_PERIOD,
+  getPeriodRange,
+  getPreviousPeriod,
+  listPeriodsBetween,
+  MAX_SEMI_MONTHLY_START_DAY,
+  samePeriodSettings,
+  type BudgetPeriod,
+  type PeriodRange,
+  type PeriodSettings,
+} from "@/utils/period";
+import { computeRollover, type RolloverMode } from "@/utils/rollover";
+import { versionOn } from "@/utils/budgetHistory";
+import { purgeCutoff } from "@/utils/trash";
+import { parseTags } from "@/utils/tags";
+import type { ExpenseFilters } from "@/utils/transactions";
 
 // ============================================
 // BUDGET API FUNCTIONS
@@ -10,11 +39,40 @@ import { revalidatePath } from "next/cache";
 export interface Budget {
   id: string;
   user_id: string;
+  household_id: string | null;
   amount: number;
-  period: "weekly" | "monthly";
+  period: BudgetPeriod;
+  period_start_day: number | null;
+  period_anchor: string | null;
+  rollover_mode: RolloverMode;
+  rollover_cap: number | null;
+  rollover_since: string | null;
   created_at: string;
 }
 
+function periodSettingsError(settings: PeriodSettings): string | null {
+  const day = settings.period_start_day;
+  if (day === null) {
+    return settings.period === "biweekly" && !settings.period_anchor
+      ? "Choose the first day of a bi-weekly period"
+      : null;
+  }
+  if (!Number.isInteger(day)) return "The start day must be a whole number";
+
+  switch (settings.period) {
+    case "weekly":
+      return day >= 0 && day <= 6 ? null : "Choose a weekday to start the week on";
+    case "semi_monthly":
+      return day >= 1 && day <= MAX_SEMI_MONTHLY_START_DAY
+        ? null
+        : `Semi-monthly periods start on a day from 1 to ${MAX_SEMI_MONTHLY_START_DAY}`;
+    case "monthly":
+      return day >= 1 && day <= 31 ? null : "Monthly periods start on a day from 1 to 31";
+    default:
+      return "Bi-weekly periods start from a date, not a day";
+  }
+}
+
 export async function getBudget(): Promise<Budget | null> {
   const supabase = await createClient();
 
@@ -24,10 +82,12 @@ export async function getBudget(): Promise<Budget | null> {
 
   if (!user) return null;
 
+  const workspace = await getWorkspace(supabase, user.id);
+
   const { data, error } = await supabase
     .from("budgets")
     .select("*")
-    .eq("user_id", user.id)
+    .or(workspaceFilter(workspace))
     .single();
 
   if (error && error.code !== "PGRST116") {
@@ -40,7 +100,9 @@ export async function getBudget(): Promise<Budget | null> {
 
 export async function setBudget(
   amount: number,
-  period: "weekly" | "monthly"
+  schedule: PeriodSettings,
+  rolloverMode: RolloverMode = "none",
+  rolloverCap: number | null = null
 ): Promise<{ success: boolean; error?: string }> {
   const supabase = await createClient();
 
@@ -50,25 +112,66 @@ export async function setBudget(
 
   if (!user) return { success: false, error: "Not authenticated" };
 
+  const [workspace, today] = await Promise.all([
+    getWorkspace(supabase, user.id),
+    getUserToday(supabase, user.id),
+  ]);
+
+  const invalidSchedule = periodSettingsError(schedule);
+  if (invalidSchedule) return { success: false, error: invalidSchedule };
+
+  if (rolloverCap !== null && (!Number.isFinite(rolloverCap) || rolloverCap <= 0)) {
+    return { success: false, error: "The rollover cap must be greater than zero" };
+  }
+
   // Check if budget already exists
   const { data: existingBudget } = await supabase
     .from("budgets")
-    .select("id")
-    .eq("user_id", user.id)
+    .select("id, period, period_start_day, period_anchor, rollover_mode, rollover_since")
+    .or(workspaceFilter(workspace))
     .single();
 
+  // Start carrying from the last completed period when rollover is switched
+  // on, and start over when the periods change since old leftovers no
+  // longer line up with the new periods
+  let rolloverSince: string | null = null;
+  if (rolloverMode !== "none") {
+    const keepHistory =
+      existingBudget?.rollover_since &&
+      existingBudget.rollover_mode !== "none" &&
+      samePeriodSettings(existingBudget, schedule);
+    rolloverSince = keepHistory
+      ? existingBudget.rollover_since
+      : getPreviousPeriod(schedule, getPeriodRange(schedule, today)).start;
+  }
+
+  const settings = {
+    amount,
+    period: schedule.period,
+    period_start_day: schedule.period_start_day,
+    period_anchor: schedule.period === "biweekly" ? schedule.period_anchor : null,
+    rollover_mode: rolloverMode,
+    rollover_cap: rolloverMode === "none" ? null : rolloverCap,
+    rollover_since: rolloverSince,
+  };
+
+  let budgetId = existingBudget?.id;
   let error;
   if (existingBudget) {
     // Update existing budget
     ({ error } = await supabase
       .from("budgets")
-      .update({ amount, period })
+      .update(settings)
       .eq("id", existingBudget.id));
   } else {
     // Insert new budget
-    ({ error } = await supabase
+    let inserted;
+    ({ data: inserted, error } = await supabase
       .from("budgets")
-      .insert({ user_id: user.id, amount, period }));
+      .insert({ user_id: user.id, household_id: workspace.householdId, ...settings })
+      .select("id")
+      .single());
+    budgetId = inserted?.id;
   }
 
   if (error) {
@@ -76,24 +179,139 @@ export async function setBudget(
     return { success: false, error: error.message };
   }
 
+  // Keep earlier periods on the amount they had. The change applies from the
+  // start of the current period and replaces any made since then
+  const effectiveFrom = getPeriodRange(schedule, today).start;
+  ({ error } = await supabase
+    .from("budget_versions")
+    .delete()
+    .eq("budget_id", budgetId)
+    .gte("effective_from", effectiveFrom));
+
+  if (!error) {
+    ({ error } = await supabase.from("budget_versions").insert({
+      budget_id: budgetId,
+      amount,
+      period: settings.period,
+      period_start_day: settings.period_start_day,
+      period_anchor: settings.period_anchor,
+      effective_from: effectiveFrom,
+    }));
+  }
+
+  if (error) {
+    console.error("Error recording budget version:", error);
+    return { success: false, error: error.message };
+  }
+
   revalidatePath("/dashboard");
   return { success: true };
 }
 
-export async function updateBudget(
-  budgetId: string,
-  amount: number,
-  period: "weekly" | "monthly"
+// ============================================
+// CATEGORY BUDGET API FUNCTIONS
+// ============================================
+
+export interface CategoryBudget {
+  id: string;
+  user_id: string;
+  budget_id: string;
+  category: string;
+  amount: number;
+  created_at: string;
+}
+
+export async function getCategoryBudgets(): Promise<CategoryBudget[]> {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return [];
+
+  const workspace = await getWorkspace(supabase, user.id);
+
+  const { data: budget } = await supabase
+    .from("budgets")
+    .select("id")
+    .or(workspaceFilter(workspace))
+    .single();
+
+  if (!budget) return [];
+
+  const { data, error } = await supabase
+    .from("category_budgets")
+    .select("*")
+    .eq("budget_id", budget.id)
+    .order("category", { ascending: true });
+
+  if (error) {
+    console.error("Error fetching category budgets:", error);
+    return [];
+  }
+
+  return data || [];
+}
+
+export async function setCategoryBudget(
+  category: string,
+  amount: number
 ): Promise<{ success: boolean; error?: string }> {
   const supabase = await createClient();
 
-  const { error } = await supabase
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return { success: false, error: "Not authenticated" };
+
+  const workspace = await getWorkspace(supabase, user.id);
+
+  // Category limits hang off the overall budget
+  const { data: budget } = await supabase
     .from("budgets")
-    .update({ amount, period })
-    .eq("id", budgetId);
+    .select("id")
+    .or(workspaceFilter(workspace))
+    .single();
+
+  if (!budget) return { success: false, error: "Set an overall budget first" };
+
+  const { error } = await supabase
+    .from("category_budgets")
+    .upsert(
+      { user_id: user.id, budget_id: budget.id, category, amount },
+      { onConflict: "budget_id,category" }
+    );
 
   if (error) {
-    console.error("Error updating budget:", error);
+    console.error("Error setting category budget:", error);
+    return { success: false, error: error.message };
+  }
+
+  revalidatePath("/dashboard");
+  return { success: true };
+}
+
+export async function deleteCategoryBudget(
+  categoryBudgetId: string
+): Promise<{ success: boolean; error?: string }> {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return { success: false, error: "Not authenticated" };
+
+  // RLS limits this to the user's own limits and those of shared budgets
+  const { error } = await supabase
+    .from("category_budgets")
+    .delete()
+    .eq("id", categoryBudgetId);
+
+  if (error) {
+    console.error("Error deleting category budget:", error);
     return { success: false, error: error.message };
   }
 
@@ -112,7 +330,49 @@ export interface Expense {
   category: string;
   description: string;
   date: string;
+  account_id: string | null;
+  household_id: string | null;
+  // amount is always in pesos; these record what was paid in another currency
+  currency: string;
+  original_amount: number | null;
+  exchange_rate: number | null;
+  tags: string[];
   created_at: string;
+  updated_at: string;
+  /** Set while the expense is in the trash */
+  deleted_at: string | null;
+}
+
+/** What was actually paid for an expense in a currency other than pesos. */
+export interface ForeignAmount {
+  currency: string;
+  amount: number;
+  rate: number;
+}
+
+/**
+ * Columns for an expense's amount. For a foreign amount the peso amount is
+ * recomputed from it so the two can never disagree.
+ */
+function amountColumns(amount: number, foreign: ForeignAmount | null) {
+  if (!foreign || foreign.currency === BASE_CURRENCY) {
+    return { amount, currency: BASE_CURRENCY, original_amount: null, exchange_rate: null };
+  }
+
+  return {
+    amount: convertToPeso(foreign.amount, foreign.rate),
+    currency: foreign.currency,
+    original_amount: foreign.amount,
+    exchange_rate: foreign.rate,
+  };
+}
+
+function foreignAmountError(foreign: ForeignAmount | null): string | null {
+  if (!foreign || foreign.currency === BASE_CURRENCY) return null;
+  if (!isCurrencyCode(foreign.currency)) return "Choose a valid currency";
+  if (!(foreign.amount > 0)) return "Amount must be greater than zero";
+  if (!(foreign.rate > 0)) return `Enter the ${foreign.currency} to PHP exchange rate`;
+  return null;
 }
 
 export interface ExpenseSummary {
@@ -126,7 +386,11 @@ export async function addExpense(
   amount: number,
   category: string,
   description: string,
-  date: string
+  date: string,
+  accountId: string | null = null,
+  foreign: ForeignAmount | null = null,
+  // Set by the offline queue so that sending the same expense twice saves it once
+  expenseId: string | null = null
 ): Promise<{ success: boolean; error?: string; expense?: Expense }> {
   const supabase = await createClient();
 
@@ -136,18 +400,37 @@ export async function addExpense(
 
   if (!user) return { success: false, error: "Not authenticated" };
 
+  const foreignError = foreignAmountError(foreign);
+  if (foreignError) return { success: false, error: foreignError };
+
+  const workspace = await getWorkspace(supabase, user.id);
+
   const { data, error } = await supabase
     .from("expenses")
     .insert({
+      ...(expenseId ? { id: expenseId } : {}),
       user_id: user.id,
-      amount,
+      household_id: workspace.householdId,
+      ...amountColumns(amount, foreign),
       category,
       description,
       date,
+      account_id: accountId,
     })
     .select()
     .single();
 
+  // Already saved on an earlier attempt whose response never arrived
+  if (error?.code === "23505" && expenseId) {
+    const { data: saved } = await supabase
+      .from("expenses")
+      .select("*")
+      .eq("id", expenseId)
+      .eq("user_id", user.id)
+      .maybeSingle();
+    if (saved) return { success: true, expense: saved };
+  }
+
   if (error) {
     console.error("Error adding expense:", error);
     return { success: false, error: error.message };
@@ -169,10 +452,13 @@ export async function getExpenses(
 
   if (!user) return [];
 
+  const workspace = await getWorkspace(supabase, user.id);
+
   let query = supabase
     .from("expenses")
     .select("*")
-    .eq("user_id", user.id)
+    .or(workspaceFilter(workspace))
+    .is("deleted_at", null)
     .order("date", { ascending: false });
 
   if (startDate) {
@@ -193,36 +479,492 @@ export async function getExpenses(
   return data || [];
 }
 
+export interface ExpensePage {
+  expenses: Expense[];
+  nextCursor: string | null;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * One page of the transaction history. Pagination is keyset-based: the
+ * cursor is the sort value and id of the last row already shown, so pages
+ * stay stable while new expenses are added.
+ */
+export async function searchExpenses(
+  filters: ExpenseFilters,
+  cursor: string | null = null,
+  pageSize: number = 25
+): Promise<ExpensePage> {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return { expenses: [], nextCursor: null };
+
+  const workspace = await getWorkspace(supabase, user.id);
+  const limit = Math.min(Math.max(1, pageSize), 100);
+  const sort = filters.sort ?? "date_desc";
+  const column = sort.startsWith("amount") ? "amount" : "date";
+  const ascending = sort.endsWith("asc");
+
+  let query = supabase.from("expenses").select("*").is("deleted_at", null);
+
+  if (filters.search) {
+    const escaped = filters.search.replace(/[\\%_]/g, (char) => `\\${char}`);
+    query = query.ilike("description", `%${escaped}%`);
+  }
+  if (filters.category) query = query.eq("category", filters.category);
+  if (filters.minAmount !== undefined) query = query.gte("amount", filters.minAmount);
+  if (filters.maxAmount !== undefined) query = query.lte("amount", filters.maxAmount);
+  if (filters.startDate) query = query.gte("date", filters.startDate);
+  if (filters.endDate) query = query.lte("date", filters.endDate);
+
+  // Rows after the cursor: past it on the sort column, or tied on the sort
+  // column and past it on id. Both parts go into a single or() alongside
+  // the workspace filter.
+  let scope = workspaceFilter(workspace);
+  if (cursor) {
+    const separator = cursor.lastIndexOf("|");
+    const value = cursor.slice(0, separator);
+    const id = cursor.slice(separator + 1);
+    const validValue =
+      column === "amount" ? Number.isFinite(Number(value)) : /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+    if (separator < 0 || !validValue || !UUID_PATTERN.test(id)) {
+      return { expenses: [], nextCursor: null };
+    }
+
+    const op = ascending ? "gt" : "lt";
+    scope = `and(${scope},or(${column}.${op}.${value},and(${column}.eq.${value},id.${op}.${id})))`;
+  }
+
+  const { data, error } = await query
+    .or(scope)
+    .order(column, { ascending })
+    .order("id", { ascending })
+    .limit(limit + 1);
+
+  if (error) {
+    console.error("Error searching expenses:", error);
+    return { expenses: [], nextCursor: null };
+  }
+
+  const rows = (data || []) as Expense[];
+  const expenses = rows.slice(0, limit);
+  const last = expenses[expenses.length - 1];
+
+  return {
+    expenses,
+    nextCursor: rows.length > limit && last ? `${last[column]}|${last.id}` : null,
+  };
+}
+
+export async function updateExpense(
+  expenseId: string,
+  amount: number,
+  category: string,
+  description: string,
+  date: string,
+  accountId: string | null = null,
+  foreign: ForeignAmount | null = null
+): Promise<{ success: boolean; error?: string; expense?: Expense }> {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return { success: false, error: "Not authenticated" };
+
+  const foreignError = foreignAmountError(foreign);
+  if (foreignError) return { success: false, error: foreignError };
+
+  // Scope the update to the current user so an expense id alone is never
+  // enough to modify someone else's row
+  const { data, error } = await supabase
+    .from("expenses")
+    .update({
+      ...amountColumns(amount, foreign),
+      category,
+      description,
+      date,
+      account_id: accountId,
+    })
+    .eq("id", expenseId)
+    .eq("user_id", user.id)
+    .is("deleted_at", null)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error updating expense:", error);
+    return { success: false, error: error.message };
+  }
+
+  if (!data) return { success: false, error: "Expense not found" };
+
+  revalidatePath("/dashboard");
+  return { success: true, expense: data };
+}
+
+/** Move an expense to the trash. It can be restored until it is purged. */
 export async function deleteExpense(
   expenseId: string
 ): Promise<{ success: boolean; error?: string }> {
   const supabase = await createClient();
 
-  const { error } = await supabase
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return { success: false, error: "Not authenticated" };
+
+  const { data, error } = await supabase
     .from("expenses")
-    .delete()
-    .eq("id", expenseId);
+    .update({ deleted_at: new Date().toISOString() })
+    .eq("id", expenseId)
+    .eq("user_id", user.id)
+    .is("deleted_at", null)
+    .select("id");
 
   if (error) {
     console.error("Error deleting expense:", error);
     return { success: false, error: error.message };
   }
 
+  if (!data || data.length === 0) return { success: false, error: "Expense not found" };
+
+  await purgeExpiredExpenses(supabase, user.id);
+
   revalidatePath("/dashboard");
   return { success: true };
 }
 
+// ============================================
+// EXPENSE TRASH API FUNCTIONS
+// ============================================
+
+// Keeps each id list comfortably inside a request URL
+const PURGE_BATCH_SIZE = 100;
+
+/**
+ * Permanently delete expenses along with their receipt files. Attachment
+ * rows go with the expense, so their files are looked up first.
+ */
+async function purgeExpenses(supabase: SupabaseClient, expenseIds: string[]): Promise<string | null> {
+  for (let from = 0; from < expenseIds.length; from += PURGE_BATCH_SIZE) {
+    const batch = expenseIds.slice(from, from + PURGE_BATCH_SIZE);
+    const attachmentPaths = await getAttachmentPaths(supabase, batch);
+
+    const { data, error } = await supabase
+      .from("expenses")
+      .delete()
+      .in("id", batch)
+      .not("deleted_at", "is", null)
+      .select("id");
+
+    if (error) {
+      console.error("Error purging expenses:", error);
+      return error.message;
+    }
+
+    if (data && data.length > 0) {
+      await removeAttachmentFiles(supabase, attachmentPaths);
+    }
+  }
+  return null;
+}
+
+/** Purge the user's expenses that have been in the trash past the retention window. */
+async function purgeExpiredExpenses(supabase: SupabaseClient, userId: string): Promise<void> {
+  const { data } = await supabase
+    .from("expenses")
+    .select("id")
+    .eq("user_id", userId)
+    .lt("deleted_at", purgeCutoff());
+
+  await purgeExpenses(supabase, (data || []).map((expense) => expense.id));
+}
+
+/** The user's deleted expenses, most recently deleted first. */
+export async function getDeletedExpenses(): Promise<Expense[]> {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return [];
+
+  await purgeExpiredExpenses(supabase, user.id);
+
+  const { data, error } = await supabase
+    .from("expenses")
+    .select("*")
+    .eq("user_id", user.id)
+    .not("deleted_at", "is", null)
+    .order("deleted_at", { ascending: false });
+
+  if (error) {
+    console.error("Error fetching deleted expenses:", error);
+    return [];
+  }
+
+  return data || [];
+}
+
+export async function restoreExpense(
+  expenseId: string
+): Promise<{ success: boolean; error?: string }> {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return { success: false, error: "Not authenticated" };
+
+  const { data, error } = await supabase
+    .from("expenses")
+    .update({ deleted_at: null })
+    .eq("id", expenseId)
+    .eq("user_id", user.id)
+    .not("deleted_at", "is", null)
+    .select("id");
+
+  if (error) {
+    console.error("Error restoring expense:", error);
+    return { success: false, error: error.message };
+  }
+
+  if (!data || data.length === 0) return { success: false, error: "Expense not found in the trash" };
+
+  revalidatePath("/dashboard");
+  return { success: true };
+}
+
+/** Permanently delete one expense from the trash, or all of them. */
+export async function purgeDeletedExpenses(
+  expenseId?: string
+): Promise<{ success: boolean; error?: string }> {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return { success: false, error: "Not authenticated" };
+
+  let query = supabase
+    .from("expenses")
+    .select("id")
+    .eq("user_id", user.id)
+    .not("deleted_at", "is", null);
+  if (expenseId) query = query.eq("id", expenseId);
+
+  const { data } = await query;
+  const error = await purgeExpenses(supabase, (data || []).map((expense) => expense.id));
+  if (error) return { success: false, error };
+
+  revalidatePath("/dashboard");
+  return { success: true };
+}
+
+// ============================================
+// BULK EXPENSE API FUNCTIONS
+// ============================================
+
+export type BulkExpenseAction =
+  | { type: "recategorize"; category: string }
+  | { type: "move_date"; date: string }
+  | { type: "add_tags"; tags: string[] }
+  | { type: "delete" }
+  | { type: "restore" };
+
+export interface BulkExpenseResult {
+  expenseId: string;
+  success: boolean;
+  error?: string;
+}
+
+// Keeps one bulk change to a size the database applies quickly
+const MAX_BULK_EXPENSES = 500;
+
+function bulkActionError(action: BulkExpenseAction): string | null {
+  switch (action.type) {
+    case "recategorize":
+      return action.category.trim() ? null : "Choose a category";
+    case "move_date":
+      return /^\d{4}-\d{2}-\d{2}$/.test(action.date) ? null : "Choose a date";
+    case "add_tags":
+      return parseTags(action.tags.join(",")).length > 0 ? null : "Enter at least one tag";
+    default:
+      return null;
+  }
+}
+
+/**
+ * Apply one change to many of the user's expenses at once. The change is
+ * all or nothing: every row gets a result, and if any row fails none of
+ * them are changed.
+ */
+export async function bulkUpdateExpenses(
+  expenseIds: string[],
+  action: BulkExpenseAction
+): Promise<{ success: boolean; error?: string; results: BulkExpenseResult[] }> {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return { success: false, error: "Not authenticated", results: [] };
+
+  if (expenseIds.length === 0) {
+    return { success: false, error: "Select at least one expense", results: [] };
+  }
+  if (expenseIds.length > MAX_BULK_EXPENSES) {
+    return {
+      success: false,
+      error: `Select at most ${MAX_BULK_EXPENSES} expenses at a time`,
+      results: [],
+    };
+  }
+  const actionError = bulkActionError(action);
+  if (actionError) return { success: false, error: actionError, results: [] };
+
+  const { data, error } = await supabase.rpc("bulk_update_expenses", {
+    expense_ids: expenseIds,
+    bulk_action: action.type,
+    new_category: action.type === "recategorize" ? action.category.trim() : null,
+    new_date: action.type === "move_date" ? action.date : null,
+    new_tags: action.type === "add_tags" ? parseTags(action.tags.join(",")) : null,
+  });
+
+  if (error) {
+    console.error("Error applying bulk expense change:", error);
+    return { success: false, error: error.message, results: [] };
+  }
+
+  const results: BulkExpenseResult[] = (
+    (data || []) as { expense_id: string; ok: boolean; problem: string | null }[]
+  ).map((row) => ({
+    expenseId: row.expense_id,
+    success: row.ok,
+    ...(row.problem ? { error: row.problem } : {}),
+  }));
+
+  const failed = results.filter((result) => !result.success).length;
+  if (failed > 0) {
+    return {
+      success: false,
+      error: `${failed} of ${results.length} expenses can't be changed, so none were`,
+      results,
+    };
+  }
+
+  if (action.type === "delete") await purgeExpiredExpenses(supabase, user.id);
+
+  revalidatePath("/dashboard");
+  return { success: true, results };
+}
+
 // ============================================
 // BUDGET CALCULATIONS
 // ============================================
 
-export async function getBudgetSummary(): Promise<{
+export interface UpcomingCharge {
+  rule_id: string;
+  date: string;
+  amount: number;
+  category: string;
+  description: string | null;
+}
+
+export interface CategoryBudgetStatus {
+  id: string;
+  category: string;
+  limit: number;
+  spent: number;
+  remaining: number;
+  percentage: number;
+}
+
+export interface MemberSpending {
+  user_id: string;
+  name: string;
+  spent: number;
+}
+
+export interface BudgetSummary {
+  householdId: string | null;
+  currentUserId: string | null;
+  members: HouseholdMember[];
+  memberSpending: MemberSpending[];
   budget: Budget | null;
+  /** Carried in from earlier periods: positive for a surplus, negative for a deficit */
+  rollover: number;
+  /** The budget amount plus the rollover; remaining and percentageUsed are against this */
+  effectiveBudget: number;
   totalSpent: number;
   remaining: number;
   percentageUsed: number;
   expenses: Expense[];
-}> {
+  totalIncome: number;
+  /** Net utang repayments posted to cash flow; never part of totalSpent */
+  debtRepayments: number;
+  netCashFlow: number;
+  incomes: Income[];
+  startDate: string;
+  endDate: string;
+  /** Whether the period contains today; earlier and later ones can be browsed */
+  isCurrentPeriod: boolean;
+  upcomingCharges: UpcomingCharge[];
+  upcomingTotal: number;
+  categoryBudgets: CategoryBudgetStatus[];
+}
+
+/**
+ * Amount carried into `current` under the budget's rollover setting, from
+ * the budget and spending in every period since rollover started.
+ */
+async function getRollover(
+  supabase: SupabaseClient,
+  workspace: Workspace,
+  budget: Budget,
+  current: PeriodRange
+): Promise<number> {
+  if (budget.rollover_mode === "none" || !budget.rollover_since) return 0;
+
+  const periods = listPeriodsBetween(budget, budget.rollover_since, current);
+  if (periods.length === 0) return 0;
+
+  const [versions, spent] = await Promise.all([
+    getBudgetVersions(supabase, budget),
+    getSpendingByPeriod(supabase, workspace, periods),
+  ]);
+  if (!spent) return 0;
+
+  // Each period is held to the amount budgeted at the time
+  const cap = budget.rollover_cap === null ? null : Number(budget.rollover_cap);
+  return computeRollover(
+    budget.rollover_mode,
+    cap,
+    periods.map((period, index) => ({
+      budget: Number(versionOn(versions, period.start)?.amount ?? budget.amount),
+      spent: spent[index],
+    }))
+  );
+}
+
+/**
+ * Budget, spending and cash flow for one period: the given range, or the
+ * period containing today.
+ */
+export async function getBudgetSummary(range?: PeriodRange): Promise<BudgetSummary> {
   const supabase = await createClient();
 
   const {
@@ -231,60 +973,206 @@ export async function getBudgetSummary(): Promise<{
 
   if (!user) {
     return {
+      householdId: null,
+      currentUserId: null,
+      members: [],
+      memberSpending: [],
       budget: null,
+      rollover: 0,
+      effectiveBudget: 0,
       totalSpent: 0,
       remaining: 0,
       percentageUsed: 0,
       expenses: [],
+      totalIncome: 0,
+      debtRepayments: 0,
+      netCashFlow: 0,
+      incomes: [],
+      startDate: "",
+      endDate: "",
+      isCurrentPeriod: true,
+      upcomingCharges: [],
+      upcomingTotal: 0,
+      categoryBudgets: [],
     };
   }
 
+  const [workspace, today] = await Promise.all([
+    getWorkspace(supabase, user.id),
+    getUserToday(supabase, user.id),
+  ]);
+
   // Get budget
   const { data: budget } = await supabase
     .from("budgets")
     .select("*")
-    .eq("user_id", user.id)
+    .or(workspaceFilter(workspace))
     .single();
 
   // Calculate date range based on budget period
-  const now = new Date();
-  let startDate: Date;
-  let endDate: Date;
-
-  if (budget?.period === "weekly") {
-    // Start from beginning of current week (Sunday)
-    startDate = new Date(now);
-    startDate.setDate(now.getDate() - now.getDay());
-    startDate.setHours(0, 0, 0, 0);
-    endDate = new Date(startDate);
-    endDate.setDate(startDate.getDate() + 6);
-  } else {
-    // Monthly - start from beginning of current month
-    startDate = new Date(now.getFullYear(), now.getMonth(), 1);
-    endDate = new Date(now.getFullYear(), now.getMonth() + 1, 0);
-  }
-
-  // Get expenses for the period
-  const { data: expenses } = await supabase
-    .from("expenses")
-    .select("*")
-    .eq("user_id", user.id)
-    .gte("date", startDate.toISOString().split("T")[0])
-    .lte("date", endDate.toISOString().split("T")[0])
-    .order("date", { ascending: false });
+  const currentPeriod = getPeriodRange(budget ?? DEFAULT_PERIOD, today);
+  const period = range && range.start <= range.end ? range : currentPeriod;
+  const periodStart = period.start;
+  const periodEnd = period.end;
+
+  // Get expenses, incomes, active recurring rules, category limits,
+  // utang repayments and, in a household, its members. Recurring rules and
+  // debts are personal, so they only count toward the personal budget.
+  const [
+    { data: expenses },
+    { data: incomes },
+    { data: recurringRules },
+    { data: categoryLimits },
+    { data: repayments },
+    { data: debts },
+    { data: members },
+    rollover,
+    versions,
+  ] = await Promise.all([
+    supabase
+      .from("expenses")
+      .select("*")
+      .or(workspaceFilter(workspace))
+      .is("deleted_at", null)
+      .gte("date", periodStart)
+      .lte("date", periodEnd)
+      .order("date", { ascending: false }),
+    supabase
+      .from("incomes")
+      .select("*")
+      .or(workspaceFilter(workspace))
+      .gte("date", periodStart)
+      .lte("date", periodEnd)
+      .order("date", { ascending: false }),
+    workspace.householdId
+      ? Promise.resolve({ data: [] })
+      : supabase
+          .from("recurring_expenses")
+          .select("*")
+          .eq("user_id", user.id)
+          .eq("status", "active"),
+    budget
+      ? supabase
+          .from("category_budgets")
+          .select("*")
+          .eq("budget_id", budget.id)
+          .order("category", { ascending: true })
+      : Promise.resolve({ data: [] }),
+    workspace.householdId
+      ? Promise.resolve({ data: [] })
+      : supabase
+          .from("debt_payments")
+          .select("debt_id, amount")
+          .eq("user_id", user.id)
+          .eq("post_to_cash_flow", true)
+          .gte("date", periodStart)
+          .lte("date", periodEnd),
+    workspace.householdId
+      ? Promise.resolve({ data: [] })
+      : supabase.from("debts").select("id, direction").eq("user_id", user.id),
+    workspace.householdId
+      ? supabase
+          .from("household_members")
+          .select("*")
+          .eq("household_id", workspace.householdId)
+          .eq("status", "active")
+      : Promise.resolve({ data: [] }),
+    budget ? getRollover(supabase, workspace, budget, period) : Promise.resolve(0),
+    // Past periods are measured against what was budgeted at the time
+    budget && periodStart < currentPeriod.start
+      ? getBudgetVersions(supabase, budget)
+      : Promise.resolve([]),
+  ]);
 
   const expensesList = expenses || [];
+  const incomesList = incomes || [];
   const totalSpent = expensesList.reduce((sum, exp) => sum + Number(exp.amount), 0);
-  const budgetAmount = budget ? Number(budget.amount) : 0;
-  const remaining = Math.max(0, budgetAmount - totalSpent);
-  const percentageUsed = budgetAmount > 0 ? (totalSpent / budgetAmount) * 100 : 0;
+  const totalIncome = incomesList.reduce((sum, inc) => sum + Number(inc.amount), 0);
+  const debtDirections = new Map<string, DebtDirection>(
+    (debts || []).map((debt) => [debt.id, debt.direction])
+  );
+  const debtRepayments = repaymentCashFlow(
+    (repayments || []).flatMap((payment) => {
+      const direction = debtDirections.get(payment.debt_id);
+      return direction ? [{ amount: payment.amount, direction }] : [];
+    })
+  );
+  const baseAmount = budget ? Number(versionOn(versions, periodStart)?.amount ?? budget.amount) : 0;
+  const budgetAmount = budget ? baseAmount + rollover : 0;
+  const remaining = budgetAmount - totalSpent;
+  // A carried deficit can eat the whole budget, which counts as fully used
+  const percentageUsed =
+    budgetAmount > 0 ? (totalSpent / budgetAmount) * 100 : budget && totalSpent > 0 ? 100 : 0;
+
+  // Preview recurring charges still to come before the period ends
+  const tomorrow = addDays(today, 1);
+  const upcomingFrom = periodStart > tomorrow ? periodStart : tomorrow;
+  const upcomingCharges: UpcomingCharge[] = ((recurringRules || []) as RecurringRule[])
+    .flatMap((rule) =>
+      getOccurrences(rule, upcomingFrom, periodEnd).map((date) => ({
+        rule_id: rule.id,
+        date,
+        amount: Number(rule.amount),
+        category: rule.category,
+        description: rule.description,
+      }))
+    )
+    .sort((a, b) => a.date.localeCompare(b.date));
+  const upcomingTotal = upcomingCharges.reduce((sum, charge) => sum + charge.amount, 0);
+
+  // Spending against each category limit
+  const spentByCategory: Record<string, number> = {};
+  expensesList.forEach((exp) => {
+    spentByCategory[exp.category] = (spentByCategory[exp.category] || 0) + Number(exp.amount);
+  });
+  const categoryBudgets: CategoryBudgetStatus[] = ((categoryLimits || []) as CategoryBudget[])
+    .map((limit) => {
+      const limitAmount = Number(limit.amount);
+      const spent = spentByCategory[limit.category] || 0;
+      return {
+        id: limit.id,
+        category: limit.category,
+        limit: limitAmount,
+        spent,
+        remaining: Math.max(0, limitAmount - spent),
+        percentage: limitAmount > 0 ? (spent / limitAmount) * 100 : 0,
+      };
+    });
+
+  // Who spent what in a shared household
+  const membersList = (members || []) as HouseholdMember[];
+  const memberSpending: MemberSpending[] = membersList
+    .map((member) => ({
+      user_id: member.user_id as string,
+      name: member.display_name || member.email,
+      spent: expensesList
+        .filter((exp) => exp.user_id === member.user_id)
+        .reduce((sum, exp) => sum + Number(exp.amount), 0),
+    }))
+    .sort((a, b) => b.spent - a.spent);
 
   return {
+    householdId: workspace.householdId,
+    currentUserId: user.id,
+    members: membersList,
+    memberSpending,
     budget: budget || null,
+    rollover,
+    effectiveBudget: budgetAmount,
     totalSpent,
     remaining,
     percentageUsed: Math.min(percentageUsed, 100),
     expenses: expensesList,
+    totalIncome,
+    debtRepayments,
+    netCashFlow: totalIncome - totalSpent + debtRepayments,
+    incomes: incomesList,
+    startDate: periodStart,
+    endDate: periodEnd,
+    isCurrentPeriod: periodStart <= today && today <= periodEnd,
+    upcomingCharges,
+    upcomingTotal,
+    categoryBudgets,
   };
 }
 
@@ -301,9 +1189,11 @@ export interface CategoryData {
 export interface SpendingData {
   date: string;
   amount: number;
+  income: number;
 }
 
-export async function getExpensesByCategory(): Promise<CategoryData[]> {
+/** Spending per category in the given range, or the current month by default. */
+export async function getExpensesByCategory(range?: PeriodRange): Promise<CategoryData[]> {
   const supabase = await createClient();
 
   const {
@@ -312,17 +1202,27 @@ export async function getExpensesByCategory(): Promise<CategoryData[]> {
 
   if (!user) return [];
 
-  // Get expenses from current month
-  const now = new Date();
-  const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1);
-  const endOfMonth = new Date(now.getFullYear(), now.getMonth() + 1, 0);
+  const [workspace, today] = await Promise.all([
+    getWorkspace(supabase, user.id),
+    getUserToday(supabase, user.id),
+  ]);
 
-  const { data, error } = await supabase
-    .from("expenses")
-    .select("category, amount")
-    .eq("user_id", user.id)
-    .gte("date", startOfMonth.toISOString().split("T")[0])
-    .lte("date", endOfMonth.toISOString().split("T")[0]);
+  // Get expenses from current month
+  const { start, end } = range ?? getPeriodRange(DEFAULT_PERIOD, today);
+
+  const [{ data, error }, { data: categories }] = await Promise.all([
+    supabase
+      .from("expenses")
+      .select("category, amount")
+      .or(workspaceFilter(workspace))
+      .is("deleted_at", null)
+      .gte("date", start)
+      .lte("date", end),
+    supabase
+      .from("categories")
+      .select("name, color")
+      .eq("user_id", user.id),
+  ]);
 
   if (error) {
     console.error("Error fetching category data:", error);
@@ -336,28 +1236,25 @@ export async function getExpensesByCategory(): Promise<CategoryData[]> {
     categoryTotals[category] = (categoryTotals[category] || 0) + Number(expense.amount);
   });
 
-  // Convert to array and assign colors
-  const colors = [
-    "#3B82F6", // blue
-    "#EF4444", // red
-    "#10B981", // green
-    "#F59E0B", // yellow
-    "#8B5CF6", // purple
-    "#EC4899", // pink
-    "#06B6D4", // cyan
-    "#F97316", // orange
-    "#84CC16", // lime
-  ];
-
-  return Object.entries(categoryTotals).map(([name, value], index) => ({
+  // Use each category's own colour so it stays the same from month to month
+  const colors = new Map<string, string>(
+    (categories || []).map((category) => [category.name, category.color])
+  );
+
+  return Object.entries(categoryTotals).map(([name, value]) => ({
     name,
     value,
-    color: colors[index % colors.length],
+    color: colors.get(name) ?? colorForName(name),
   }));
 }
 
+/**
+ * Daily spending and income over the last `days` days, or over the given
+ * range up to today.
+ */
 export async function getSpendingOverTime(
-  days: number = 30
+  days: number = 30,
+  range?: PeriodRange
 ): Promise<SpendingData[]> {
   const supabase = await createClient();
 
@@ -367,42 +1264,61 @@ export async function getSpendingOverTime(
 
   if (!user) return [];
 
-  // Calculate date range
-  const endDate = new Date();
-  const startDate = new Date();
-  startDate.setDate(endDate.getDate() - days);
+  const [workspace, today] = await Promise.all([
+    getWorkspace(supabase, user.id),
+    getUserToday(supabase, user.id),
+  ]);
 
-  const { data, error } = await supabase
-    .from("expenses")
-    .select("date, amount")
-    .eq("user_id", user.id)
-    .gte("date", startDate.toISOString().split("T")[0])
-    .lte("date", endDate.toISOString().split("T")[0])
-    .order("date", { ascending: true });
-
-  if (error) {
-    console.error("Error fetching spending data:", error);
+  // Calculate date range
+  const endDate = range && range.end < today ? range.end : today;
+  const startDate = range ? range.start : addDays(endDate, -days);
+
+  const [
+    { data, error },
+    { data: incomeData, error: incomeError },
+  ] = await Promise.all([
+    supabase
+      .from("expenses")
+      .select("date, amount")
+      .or(workspaceFilter(workspace))
+      .is("deleted_at", null)
+      .gte("date", startDate)
+      .lte("date", endDate)
+      .order("date", { ascending: true }),
+    supabase
+      .from("incomes")
+      .select("date, amount")
+      .or(workspaceFilter(workspace))
+      .gte("date", startDate)
+      .lte("date", endDate),
+  ]);
+
+  if (error || incomeError) {
+    console.error("Error fetching spending data:", error || incomeError);
     return [];
   }
 
-  // Aggregate by date
+  // Aggregate outflow and inflow by date
   const dailyTotals: Record<string, number> = {};
   data?.forEach((expense) => {
     const date = expense.date;
     dailyTotals[date] = (dailyTotals[date] || 0) + Number(expense.amount);
   });
 
+  const dailyIncome: Record<string, number> = {};
+  incomeData?.forEach((income) => {
+    const date = income.date;
+    dailyIncome[date] = (dailyIncome[date] || 0) + Number(income.amount);
+  });
+
   // Fill in missing dates with 0
   const result: SpendingData[] = [];
-  const currentDate = new Date(startDate);
-
-  while (currentDate <= endDate) {
-    const dateStr = currentDate.toISOString().split("T")[0];
+  for (let date = startDate; date <= endDate; date = addDays(date, 1)) {
     result.push({
-      date: dateStr,
-      amount: dailyTotals[dateStr] || 0,
+      date,
+      amount: dailyTotals[date] || 0,
+      income: dailyIncome[date] || 0,
     });
-    currentDate.setDate(currentDate.getDate() + 1);
   }
 
   return result;
@@ -0,0 +1,373 @@
+"use server";
+
+import { createClient } from "@/utils/supabase/server";
+import { revalidatePath } from "next/cache";
+import { DEFAULT_CATEGORIES } from "@/utils/categories";
+
+// ============================================
+// CATEGORY API FUNCTIONS
+// ============================================
+
+export interface Category {
+  id: string;
+  user_id: string;
+  name: string;
+  color: string;
+  icon: string;
+  parent_id: string | null;
+  archived: boolean;
+  created_at: string;
+}
+
+// Tables that store a category by name and must follow renames and merges
+const CATEGORY_REFERENCES = ["expenses", "recurring_expenses"] as const;
+
+export async function getCategories(
+  includeArchived: boolean = false
+): Promise<Category[]> {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return [];
+
+  const { data, error } = await supabase
+    .from("categories")
+    .select("*")
+    .eq("user_id", user.id)
+    .order("name", { ascending: true });
+
+  if (error) {
+    console.error("Error fetching categories:", error);
+    return [];
+  }
+
+  // First visit: give the user the starter set so forms are never empty
+  if (!data || data.length === 0) {
+    const { data: seeded, error: seedError } = await supabase
+      .from("categories")
+      .upsert(
+        DEFAULT_CATEGORIES.map((preset) => ({ ...preset, user_id: user.id })),
+        { onConflict: "user_id,name", ignoreDuplicates: true }
+      )
+      .select()
+      .order("name", { ascending: true });
+
+    if (seedError) {
+      console.error("Error seeding categories:", seedError);
+      return [];
+    }
+
+    return seeded || [];
+  }
+
+  return includeArchived ? data : data.filter((category) => !category.archived);
+}
+
+export async function createCategory(
+  name: string,
+  color: string,
+  icon: string,
+  parentId: string | null
+): Promise<{ success: boolean; error?: string; category?: Category }> {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return { success: false, error: "Not authenticated" };
+
+  const trimmed = name.trim();
+  if (!trimmed) return { success: false, error: "Category name is required" };
+
+  if (parentId) {
+    const invalidParent = await parentError(user.id, null, parentId);
+    if (invalidParent) return { success: false, error: invalidParent };
+  }
+
+  const { data, error } = await supabase
+    .from("categories")
+    .insert({
+      user_id: user.id,
+      name: trimmed,
+      color,
+      icon,
+      parent_id: parentId,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error("Error creating category:", error);
+    return {
+      success: false,
+      error: error.code === "23505" ? "A category with that name already exists" : error.message,
+    };
+  }
+
+  revalidatePath("/dashboard");
+  return { success: true, category: data };
+}
+
+export async function updateCategory(
+  categoryId: string,
+  changes: { name?: string; color?: string; icon?: string; parent_id?: string | null }
+): Promise<{ success: boolean; error?: string }> {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return { success: false, error: "Not authenticated" };
+
+  const { data: existing } = await supabase
+    .from("categories")
+    .select("*")
+    .eq("id", categoryId)
+    .eq("user_id", user.id)
+    .single();
+
+  if (!existing) return { success: false, error: "Category not found" };
+
+  if (changes.parent_id) {
+    const invalidParent = await parentError(user.id, categoryId, changes.parent_id);
+    if (invalidParent) return { success: false, error: invalidParent };
+  }
+
+  const newName = changes.name?.trim();
+  if (changes.name !== undefined && !newName) {
+    return { success: false, error: "Category name is required" };
+  }
+
+  const { error } = await supabase
+    .from("categories")
+    .update({ ...changes, ...(newName ? { name: newName } : {}) })
+    .eq("id", categoryId);
+
+  if (error) {
+    console.error("Error updating category:", error);
+    return {
+      success: false,
+      error: error.code === "23505" ? "A category with that name already exists" : error.message,
+    };
+  }
+
+  // A rename re-points every historical row that used the old name
+  if (newName && newName !== existing.name) {
+    const repointError = await repointCategory(user.id, existing.name, newName);
+    if (repointError) return { success: false, error: repointError };
+  }
+
+  revalidatePath("/dashboard");
+  return { success: true };
+}
+
+export async function mergeCategories(
+  sourceId: string,
+  targetId: string
+): Promise<{ success: boolean; error?: string }> {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return { success: false, error: "Not authenticated" };
+
+  if (sourceId === targetId) {
+    return { success: false, error: "Choose a different category to merge into" };
+  }
+
+  const { data: pair } = await supabase
+    .from("categories")
+    .select("*")
+    .eq("user_id", user.id)
+    .in("id", [sourceId, targetId]);
+
+  const source = pair?.find((category) => category.id === sourceId);
+  const target = pair?.find((category) => category.id === targetId);
+
+  if (!source || !target) return { success: false, error: "Category not found" };
+
+  // Merging into one of its own children moves that child up into its place
+  const targetParentId = target.parent_id === source.id ? source.parent_id : target.parent_id;
+
+  const { data: children, error: childrenError } = await supabase
+    .from("categories")
+    .select("id")
+    .eq("user_id", user.id)
+    .eq("parent_id", source.id)
+    .neq("id", target.id);
+
+  if (childrenError) {
+    console.error("Error fetching subcategories:", childrenError);
+    return { success: false, error: childrenError.message };
+  }
+
+  // Categories only go two levels deep
+  if (children && children.length > 0 && targetParentId) {
+    return {
+      success: false,
+      error: `${source.name} has subcategories, so it can only be merged into a top-level category`,
+    };
+  }
+
+  const repointError = await repointCategory(user.id, source.name, target.name);
+  if (repointError) return { success: false, error: repointError };
+
+  if (targetParentId !== target.parent_id) {
+    const { error: moveError } = await supabase
+      .from("categories")
+      .update({ parent_id: targetParentId })
+      .eq("id", target.id)
+      .eq("user_id", user.id);
+
+    if (moveError) {
+      console.error("Error moving merged category:", moveError);
+      return { success: false, error: moveError.message };
+    }
+  }
+
+  // Children of the merged category now live under the target
+  const { error: reparentError } = await supabase
+    .from("categories")
+    .update({ parent_id: target.id })
+    .eq("user_id", user.id)
+    .eq("parent_id", source.id)
+    .neq("id", target.id);
+
+  if (reparentError) {
+    console.error("Error moving subcategories:", reparentError);
+    return { success: false, error: reparentError.message };
+  }
+
+  const { error } = await supabase
+    .from("categories")
+    .delete()
+    .eq("id", source.id);
+
+  if (error) {
+    console.error("Error merging categories:", error);
+    return { success: false, error: error.message };
+  }
+
+  revalidatePath("/dashboard");
+  return { success: true };
+}
+
+export async function archiveCategory(
+  categoryId: string,
+  archived: boolean = true
+): Promise<{ success: boolean; error?: string }> {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return { success: false, error: "Not authenticated" };
+
+  const { error } = await supabase
+    .from("categories")
+    .update({ archived })
+    .eq("id", categoryId)
+    .eq("user_id", user.id);
+
+  if (error) {
+    console.error("Error archiving category:", error);
+    return { success: false, error: error.message };
+  }
+
+  revalidatePath("/dashboard");
+  return { success: true };
+}
+
+/**
+ * Why `parentId` can't be the parent of `categoryId` (null for a new
+ * category): it must be one of the user's own categories, and not the
+ * category itself or one of its descendants.
+ */
+async function parentError(
+  userId: string,
+  categoryId: string | null,
+  parentId: string
+): Promise<string | null> {
+  const supabase = await createClient();
+  const seen = new Set<string>();
+
+  for (let ancestorId: string | null = parentId; ancestorId; ) {
+    if (ancestorId === categoryId) return "A category cannot be its own parent";
+    // Stops on a loop already in the data rather than walking it forever
+    if (seen.has(ancestorId)) break;
+    seen.add(ancestorId);
+
+    const { data: ancestor }: { data: { parent_id: string | null } | null } = await supabase
+      .from("categories")
+      .select("parent_id")
+      .eq("id", ancestorId)
+      .eq("user_id", userId)
+      .maybeSingle();
+
+    if (!ancestor) return "Parent category not found";
+    ancestorId = ancestor.parent_id;
+  }
+
+  return null;
+}
+
+/**
+ * Move every row stored under `fromName` to `toName`. Category limits are
+ * unique per budget, so a limit that would collide with one already set on
+ * the target is dropped rather than moved.
+ */
+async function repointCategory(
+  userId: string,
+  fromName: string,
+  toName: string
+): Promise<string | null> {
+  const supabase = await createClient();
+
+  for (const table of CATEGORY_REFERENCES) {
+    const { error } = await supabase
+      .from(table)
+      .update({ category: toName })
+      .eq("user_id", userId)
+      .eq("category", fromName);
+
+    if (error) {
+      console.error(`Error re-pointing ${table}:`, error);
+      return error.message;
+    }
+  }
+
+  const { data: limits } = await supabase
+    .from("category_budgets")
+    .select("id, budget_id, category")
+    .eq("user_id", userId)
+    .in("category", [fromName, toName]);
+
+  for (const limit of limits || []) {
+    if (limit.category !== fromName) continue;
+
+    const collides = limits?.some(
+      (other) => other.category === toName && other.budget_id === limit.budget_id
+    );
+    const { error } = collides
+      ? await supabase.from("category_budgets").delete().eq("id", limit.id)
+      : await supabase
+          .from("category_budgets")
+          .update({ category: toName })
+          .eq("id", limit.id);
+
+    if (error) {
+      console.error("Error re-pointing category budgets:", error);
+      return error.message;
+    }
+  }
+
+  return null;
+}
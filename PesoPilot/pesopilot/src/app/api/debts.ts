@@ -0,0 +1,292 @@
+"use server";
+
+import { createClient } from "@/utils/supabase/server";
+import { revalidatePath } from "next/cache";
+import { getUserToday } from "@/utils/supabase/timezone";
+import { isDebtOverdue, type DebtDirection } from "@/utils/debts";
+
+// ============================================
+// UTANG (DEBT) API FUNCTIONS
+// ============================================
+
+export interface Debt {
+  id: string;
+  user_id: string;
+  counterparty: string;
+  direction: DebtDirection;
+  amount: number;
+  description: string | null;
+  date: string;
+  due_date: string | null;
+  created_at: string;
+}
+
+export interface DebtBalance extends Debt {
+  paid: number;
+  outstanding: number;
+  overdue: boolean;
+}
+
+export interface DebtInput {
+  counterparty: string;
+  direction: DebtDirection;
+  amount: number;
+  description: string;
+  date: string;
+  due_date: string | null;
+}
+
+export interface DebtPayment {
+  id: string;
+  debt_id: string;
+  user_id: string;
+  amount: number;
+  date: string;
+  note: string | null;
+  post_to_cash_flow: boolean;
+  created_at: string;
+}
+
+function debtError(input: DebtInput): string | null {
+  if (!input.counterparty.trim()) return "Enter who the money is with";
+  if (!Number.isFinite(input.amount) || input.amount <= 0) {
+    return "The amount must be greater than zero";
+  }
+  if (input.due_date && input.due_date < input.date) {
+    return "The due date can't be before the loan date";
+  }
+  return null;
+}
+
+/** Every debt with how much has been repaid and what is still owed. */
+export async function getDebts(): Promise<DebtBalance[]> {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return [];
+
+  const [{ data: debts, error }, { data: payments }] = await Promise.all([
+    supabase
+      .from("debts")
+      .select("*")
+      .eq("user_id", user.id)
+      .order("date", { ascending: false }),
+    supabase
+      .from("debt_payments")
+      .select("debt_id, amount")
+      .eq("user_id", user.id),
+  ]);
+
+  if (error) {
+    console.error("Error fetching debts:", error);
+    return [];
+  }
+
+  const paid: Record<string, number> = {};
+  payments?.forEach((payment) => {
+    paid[payment.debt_id] = (paid[payment.debt_id] || 0) + Number(payment.amount);
+  });
+
+  const today = await getUserToday(supabase, user.id);
+
+  return (debts || []).map((debt) => {
+    const debtPaid = paid[debt.id] || 0;
+    const outstanding = Math.max(0, Number(debt.amount) - debtPaid);
+    return {
+      ...debt,
+      paid: debtPaid,
+      outstanding,
+      overdue: isDebtOverdue({ ...debt, outstanding }, today),
+    };
+  });
+}
+
+export async function createDebt(
+  input: DebtInput
+): Promise<{ success: boolean; error?: string; debt?: Debt }> {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return { success: false, error: "Not authenticated" };
+
+  const invalid = debtError(input);
+  if (invalid) return { success: false, error: invalid };
+
+  const { data, error } = await supabase
+    .from("debts")
+    .insert({
+      user_id: user.id,
+      counterparty: input.counterparty.trim(),
+      direction: input.direction,
+      amount: input.amount,
+      description: input.description.trim() || null,
+      date: input.date,
+      due_date: input.due_date || null,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error("Error creating debt:", error);
+    return { success: false, error: error.message };
+  }
+
+  revalidatePath("/dashboard");
+  return { success: true, debt: data };
+}
+
+export async function deleteDebt(
+  debtId: string
+): Promise<{ success: boolean; error?: string }> {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return { success: false, error: "Not authenticated" };
+
+  const { error } = await supabase
+    .from("debts")
+    .delete()
+    .eq("id", debtId)
+    .eq("user_id", user.id);
+
+  if (error) {
+    console.error("Error deleting debt:", error);
+    return { success: false, error: error.message };
+  }
+
+  revalidatePath("/dashboard");
+  return { success: true };
+}
+
+// ============================================
+// REPAYMENT API FUNCTIONS
+// ============================================
+
+export async function getDebtPayments(debtId: string): Promise<DebtPayment[]> {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return [];
+
+  const { data, error } = await supabase
+    .from("debt_payments")
+    .select("*")
+    .eq("debt_id", debtId)
+    .eq("user_id", user.id)
+    .order("date", { ascending: false })
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    console.error("Error fetching debt payments:", error);
+    return [];
+  }
+
+  return data || [];
+}
+
+/**
+ * Record a full or partial repayment. With `postToCashFlow` it shows up in
+ * the dashboard's net cash flow (money in for a loan you gave, money out for
+ * one you took) without counting as spending.
+ */
+export async function addDebtPayment(
+  debtId: string,
+  amount: number,
+  date: string,
+  note: string,
+  postToCashFlow: boolean
+): Promise<{ success: boolean; error?: string; payment?: DebtPayment }> {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return { success: false, error: "Not authenticated" };
+
+  if (!Number.isFinite(amount) || amount <= 0) {
+    return { success: false, error: "The amount must be greater than zero" };
+  }
+
+  const [{ data: debt }, { data: payments }] = await Promise.all([
+    supabase
+      .from("debts")
+      .select("amount")
+      .eq("id", debtId)
+      .eq("user_id", user.id)
+      .single(),
+    supabase
+      .from("debt_payments")
+      .select("amount")
+      .eq("debt_id", debtId)
+      .eq("user_id", user.id),
+  ]);
+
+  if (!debt) return { success: false, error: "Debt not found" };
+
+  const outstanding =
+    Number(debt.amount) - (payments || []).reduce((sum, payment) => sum + Number(payment.amount), 0);
+  // Compare in centavos so a final payment of the exact balance isn't rejected
+  if (Math.round(amount * 100) > Math.round(outstanding * 100)) {
+    return { success: false, error: "The repayment is more than what is still owed" };
+  }
+
+  const { data, error } = await supabase
+    .from("debt_payments")
+    .insert({
+      debt_id: debtId,
+      user_id: user.id,
+      amount,
+      date,
+      note: note.trim() || null,
+      post_to_cash_flow: postToCashFlow,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error("Error adding debt payment:", error);
+    return { success: false, error: error.message };
+  }
+
+  revalidatePath("/dashboard");
+  return { success: true, payment: data };
+}
+
+export async function deleteDebtPayment(
+  paymentId: string
+): Promise<{ success: boolean; error?: string }> {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return { success: false, error: "Not authenticated" };
+
+  const { error } = await supabase
+    .from("debt_payments")
+    .delete()
+    .eq("id", paymentId)
+    .eq("user_id", user.id);
+
+  if (error) {
+    console.error("Error deleting debt payment:", error);
+    return { success: false, error: error.message };
+  }
+
+  revalidatePath("/dashboard");
+  return { success: true };
+}
@@ -0,0 +1,85 @@
+"use server";
+
+import { createClient } from "@/utils/supabase/server";
+import { getBudgetVersions } from "@/utils/supabase/budgetVersions";
+import { getWorkspace, workspaceFilter } from "@/utils/supabase/workspace";
+import type { Expense } from "./budget";
+import type { ExportData } from "@/utils/export";
+
+// ============================================
+// EXPORT API FUNCTIONS
+// ============================================
+
+// Supabase returns at most 1000 rows per request
+const FETCH_PAGE_SIZE = 1000;
+
+/**
+ * Every expense in the date range (optionally limited to some categories)
+ * plus the budget and its versions, for building CSV, XLSX and PDF exports in the browser.
+ */
+export async function getExportData(
+  startDate: string,
+  endDate: string,
+  categories: string[] = []
+): Promise<{ success: boolean; error?: string; data?: ExportData }> {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return { success: false, error: "Not authenticated" };
+
+  if (startDate > endDate) {
+    return { success: false, error: "The start date must be before the end date" };
+  }
+
+  const workspace = await getWorkspace(supabase, user.id);
+
+  const { data: budget } = await supabase
+    .from("budgets")
+    .select("*")
+    .or(workspaceFilter(workspace))
+    .maybeSingle();
+  const budgetVersions = budget ? await getBudgetVersions(supabase, budget) : [];
+
+  const expenses: Expense[] = [];
+  for (let from = 0; ; from += FETCH_PAGE_SIZE) {
+    let query = supabase
+      .from("expenses")
+      .select("*")
+      .or(workspaceFilter(workspace))
+      .is("deleted_at", null)
+      .gte("date", startDate)
+      .lte("date", endDate);
+
+    if (categories.length > 0) {
+      query = query.in("category", categories);
+    }
+
+    const { data, error } = await query
+      .order("date", { ascending: true })
+      .order("id", { ascending: true })
+      .range(from, from + FETCH_PAGE_SIZE - 1);
+
+    if (error) {
+      console.error("Error fetching expenses for export:", error);
+      return { success: false, error: error.message };
+    }
+
+    expenses.push(...(data || []));
+    if (!data || data.length < FETCH_PAGE_SIZE) break;
+  }
+
+  return {
+    success: true,
+    data: {
+      startDate,
+      endDate,
+      categories,
+      expenses,
+      budget: budget || null,
+      budgetVersions,
+    },
+  };
+}
@@ -0,0 +1,353 @@
+"use server";
+
+import { createClient } from "@/utils/supabase/server";
+import { revalidatePath } from "next/cache";
+import { getUserToday } from "@/utils/supabase/timezone";
+import { getGoalPace, type GoalPace } from "@/utils/goals";
+
+// ============================================
+// SAVINGS GOAL API FUNCTIONS
+// ============================================
+
+export interface SavingsGoal {
+  id: string;
+  user_id: string;
+  name: string;
+  target_amount: number;
+  target_date: string;
+  account_id: string | null;
+  archived: boolean;
+  created_at: string;
+}
+
+export interface SavingsGoalProgress extends SavingsGoal, GoalPace {
+  account_name: string | null;
+}
+
+export interface SavingsGoalInput {
+  name: string;
+  target_amount: number;
+  target_date: string;
+  account_id: string | null;
+}
+
+export type GoalContributionType = "contribution" | "withdrawal";
+
+export interface GoalContribution {
+  id: string;
+  goal_id: string;
+  user_id: string;
+  type: GoalContributionType;
+  amount: number;
+  date: string;
+  note: string | null;
+  created_at: string;
+}
+
+function goalError(input: SavingsGoalInput): string | null {
+  if (!input.name.trim()) return "Give the goal a name";
+  if (!Number.isFinite(input.target_amount) || input.target_amount <= 0) {
+    return "The target amount must be greater than zero";
+  }
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(input.target_date)) return "Choose a target date";
+  return null;
+}
+
+/** Every goal with how much has been saved and whether it is on pace. */
+export async function getGoals(
+  includeArchived: boolean = false
+): Promise<SavingsGoalProgress[]> {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return [];
+
+  let query = supabase
+    .from("savings_goals")
+    .select("*, account:accounts(name)")
+    .eq("user_id", user.id)
+    .order("target_date", { ascending: true });
+
+  if (!includeArchived) {
+    query = query.eq("archived", false);
+  }
+
+  const [{ data: goals, error }, { data: contributions }] = await Promise.all([
+    query,
+    supabase
+      .from("goal_contributions")
+      .select("goal_id, type, amount")
+      .eq("user_id", user.id),
+  ]);
+
+  if (error) {
+    console.error("Error fetching savings goals:", error);
+    return [];
+  }
+
+  const saved: Record<string, number> = {};
+  contributions?.forEach((entry) => {
+    const amount = entry.type === "withdrawal" ? -Number(entry.amount) : Number(entry.amount);
+    saved[entry.goal_id] = (saved[entry.goal_id] || 0) + amount;
+  });
+
+  const today = await getUserToday(supabase, user.id);
+
+  return (goals || []).map(({ account, ...goal }) => ({
+    ...goal,
+    account_name: (account as { name: string } | null)?.name ?? null,
+    ...getGoalPace(
+      goal.target_amount,
+      goal.created_at.split("T")[0],
+      goal.target_date,
+      saved[goal.id] || 0,
+      today
+    ),
+  }));
+}
+
+export async function createGoal(
+  input: SavingsGoalInput
+): Promise<{ success: boolean; error?: string; goal?: SavingsGoal }> {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return { success: false, error: "Not authenticated" };
+
+  const invalid = goalError(input);
+  if (invalid) return { success: false, error: invalid };
+
+  const { data, error } = await supabase
+    .from("savings_goals")
+    .insert({
+      user_id: user.id,
+      name: input.name.trim(),
+      target_amount: input.target_amount,
+      target_date: input.target_date,
+      account_id: input.account_id || null,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error("Error creating savings goal:", error);
+    return { success: false, error: error.message };
+  }
+
+  revalidatePath("/dashboard");
+  return { success: true, goal: data };
+}
+
+export async function updateGoal(
+  goalId: string,
+  input: SavingsGoalInput
+): Promise<{ success: boolean; error?: string }> {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return { success: false, error: "Not authenticated" };
+
+  const invalid = goalError(input);
+  if (invalid) return { success: false, error: invalid };
+
+  const { error } = await supabase
+    .from("savings_goals")
+    .update({
+      name: input.name.trim(),
+      target_amount: input.target_amount,
+      target_date: input.target_date,
+      account_id: input.account_id || null,
+    })
+    .eq("id", goalId)
+    .eq("user_id", user.id);
+
+  if (error) {
+    console.error("Error updating savings goal:", error);
+    return { success: false, error: error.message };
+  }
+
+  revalidatePath("/dashboard");
+  return { success: true };
+}
+
+export async function archiveGoal(
+  goalId: string,
+  archived: boolean = true
+): Promise<{ success: boolean; error?: string }> {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return { success: false, error: "Not authenticated" };
+
+  const { error } = await supabase
+    .from("savings_goals")
+    .update({ archived })
+    .eq("id", goalId)
+    .eq("user_id", user.id);
+
+  if (error) {
+    console.error("Error archiving savings goal:", error);
+    return { success: false, error: error.message };
+  }
+
+  revalidatePath("/dashboard");
+  return { success: true };
+}
+
+export async function deleteGoal(
+  goalId: string
+): Promise<{ success: boolean; error?: string }> {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return { success: false, error: "Not authenticated" };
+
+  const { error } = await supabase
+    .from("savings_goals")
+    .delete()
+    .eq("id", goalId)
+    .eq("user_id", user.id);
+
+  if (error) {
+    console.error("Error deleting savings goal:", error);
+    return { success: false, error: error.message };
+  }
+
+  revalidatePath("/dashboard");
+  return { success: true };
+}
+
+// ============================================
+// GOAL CONTRIBUTION API FUNCTIONS
+// ============================================
+
+export async function getGoalContributions(
+  goalId: string
+): Promise<GoalContribution[]> {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return [];
+
+  const { data, error } = await supabase
+    .from("goal_contributions")
+    .select("*")
+    .eq("goal_id", goalId)
+    .eq("user_id", user.id)
+    .order("date", { ascending: false })
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    console.error("Error fetching goal contributions:", error);
+    return [];
+  }
+
+  return data || [];
+}
+
+/**
+ * Log money put into (or taken out of) a goal. A withdrawal can't take out
+ * more than has been saved so far.
+ */
+export async function addGoalContribution(
+  goalId: string,
+  type: GoalContributionType,
+  amount: number,
+  date: string,
+  note: string
+): Promise<{ success: boolean; error?: string; contribution?: GoalContribution }> {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return { success: false, error: "Not authenticated" };
+
+  if (!Number.isFinite(amount) || amount <= 0) {
+    return { success: false, error: "The amount must be greater than zero" };
+  }
+
+  if (type === "withdrawal") {
+    const { data: entries } = await supabase
+      .from("goal_contributions")
+      .select("type, amount")
+      .eq("goal_id", goalId)
+      .eq("user_id", user.id);
+
+    const saved = (entries || []).reduce(
+      (sum, entry) =>
+        sum + (entry.type === "withdrawal" ? -Number(entry.amount) : Number(entry.amount)),
+      0
+    );
+
+    if (amount > saved) {
+      return { success: false, error: "You can't withdraw more than you have saved" };
+    }
+  }
+
+  const { data, error } = await supabase
+    .from("goal_contributions")
+    .insert({
+      goal_id: goalId,
+      user_id: user.id,
+      type,
+      amount,
+      date,
+      note: note.trim() || null,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error("Error adding goal contribution:", error);
+    return { success: false, error: error.message };
+  }
+
+  revalidatePath("/dashboard");
+  return { success: true, contribution: data };
+}
+
+export async function deleteGoalContribution(
+  contributionId: string
+): Promise<{ success: boolean; error?: string }> {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return { success: false, error: "Not authenticated" };
+
+  const { error } = await supabase
+    .from("goal_contributions")
+    .delete()
+    .eq("id", contributionId)
+    .eq("user_id", user.id);
+
+  if (error) {
+    console.error("Error deleting goal contribution:", error);
+    return { success: false, error: error.message };
+  }
+
+  revalidatePath("/dashboard");
+  return { success: true };
+}
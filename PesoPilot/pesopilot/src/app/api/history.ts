@@ -0,0 +1,69 @@
+"use server";
+
+import { createClient } from "@/utils/supabase/server";
+import { getWorkspace, workspaceFilter } from "@/utils/supabase/workspace";
+import { getBudgetVersions, getSpendingByPeriod } from "@/utils/supabase/budgetVersions";
+import { getUserToday } from "@/utils/supabase/timezone";
+import { listVersionedPeriods } from "@/utils/budgetHistory";
+import { periodLabel, type PeriodRange } from "@/utils/period";
+
+// ============================================
+// BUDGET HISTORY API FUNCTIONS
+// ============================================
+
+export interface BudgetHistoryPeriod extends PeriodRange {
+  label: string;
+  budget: number;
+  spent: number;
+  /** Budget minus spending; negative when the period went over */
+  variance: number;
+  current: boolean;
+}
+
+/**
+ * Every period since the budget was first set, newest first, each with the
+ * amount budgeted at the time and what was actually spent.
+ */
+export async function getBudgetHistory(): Promise<BudgetHistoryPeriod[]> {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return [];
+
+  const [workspace, today] = await Promise.all([
+    getWorkspace(supabase, user.id),
+    getUserToday(supabase, user.id),
+  ]);
+
+  const { data: budget, error } = await supabase
+    .from("budgets")
+    .select("*")
+    .or(workspaceFilter(workspace))
+    .single();
+
+  if (error) {
+    if (error.code !== "PGRST116") console.error("Error fetching budget:", error);
+    return [];
+  }
+
+  const versions = await getBudgetVersions(supabase, budget);
+  const periods = listVersionedPeriods(versions, today);
+
+  const spent = await getSpendingByPeriod(supabase, workspace, periods);
+  if (!spent) return [];
+
+  return periods
+    .map((period, index) => ({
+      start: period.start,
+      end: period.end,
+      label: periodLabel(period.settings, period),
+      budget: period.budget,
+      spent: spent[index],
+      variance: period.budget - spent[index],
+      current: period.end >= today,
+    }))
+    .reverse();
+}
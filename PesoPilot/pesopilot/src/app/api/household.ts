@@ -0,0 +1,272 @@
+"use server";
+
+import { createClient } from "@/utils/supabase/server";
+import { getWorkspace } from "@/utils/supabase/workspace";
+import { revalidatePath } from "next/cache";
+
+// ============================================
+// HOUSEHOLD API FUNCTIONS
+// ============================================
+
+export interface Household {
+  id: string;
+  name: string;
+  owner_id: string;
+  created_at: string;
+}
+
+export interface HouseholdMember {
+  id: string;
+  household_id: string;
+  user_id: string | null;
+  email: string;
+  display_name: string | null;
+  role: "owner" | "member";
+  status: "invited" | "active";
+  created_at: string;
+}
+
+export interface HouseholdInvite extends HouseholdMember {
+  household: Pick<Household, "id" | "name"> | null;
+}
+
+export interface HouseholdOverview {
+  currentUserId: string | null;
+  households: Household[];
+  activeHouseholdId: string | null;
+  members: HouseholdMember[];
+  invites: HouseholdInvite[];
+}
+
+export async function getHouseholdOverview(): Promise<HouseholdOverview> {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return {
+      currentUserId: null,
+      households: [],
+      activeHouseholdId: null,
+      members: [],
+      invites: [],
+    };
+  }
+
+  const [workspace, { data: memberships }, { data: invites }] = await Promise.all([
+    getWorkspace(supabase, user.id),
+    supabase
+      .from("household_members")
+      .select("household_id")
+      .eq("user_id", user.id)
+      .eq("status", "active"),
+    supabase
+      .from("household_members")
+      .select("*, household:households(id, name)")
+      .eq("status", "invited")
+      .ilike("email", user.email ?? ""),
+  ]);
+
+  const householdIds = (memberships || []).map((membership) => membership.household_id);
+
+  const [{ data: households }, { data: members }] = await Promise.all([
+    householdIds.length > 0
+      ? supabase
+          .from("households")
+          .select("*")
+          .in("id", householdIds)
+          .order("created_at", { ascending: true })
+      : Promise.resolve({ data: [] }),
+    workspace.householdId
+      ? supabase
+          .from("household_members")
+          .select("*")
+          .eq("household_id", workspace.householdId)
+          .order("created_at", { ascending: true })
+      : Promise.resolve({ data: [] }),
+  ]);
+
+  return {
+    currentUserId: user.id,
+    households: households || [],
+    activeHouseholdId: workspace.householdId,
+    members: members || [],
+    invites: invites || [],
+  };
+}
+
+export async function createHousehold(
+  name: string
+): Promise<{ success: boolean; error?: string; household?: Household }> {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return { success: false, error: "Not authenticated" };
+
+  const { data: household, error } = await supabase
+    .from("households")
+    .insert({ name: name.trim(), owner_id: user.id })
+    .select()
+    .single();
+
+  if (error) {
+    console.error("Error creating household:", error);
+    return { success: false, error: error.message };
+  }
+
+  const { error: memberError } = await supabase.from("household_members").insert({
+    household_id: household.id,
+    user_id: user.id,
+    email: user.email,
+    display_name: user.user_metadata?.full_name ?? null,
+    role: "owner",
+    status: "active",
+  });
+
+  if (memberError) {
+    console.error("Error adding household owner:", memberError);
+    await supabase.from("households").delete().eq("id", household.id);
+    return { success: false, error: memberError.message };
+  }
+
+  // Switch straight into the new household
+  await supabase
+    .from("profiles")
+    .update({ active_household_id: household.id })
+    .eq("id", user.id);
+
+  revalidatePath("/dashboard");
+  return { success: true, household };
+}
+
+export async function inviteHouseholdMember(
+  householdId: string,
+  email: string
+): Promise<{ success: boolean; error?: string }> {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return { success: false, error: "Not authenticated" };
+
+  const { error } = await supabase.from("household_members").insert({
+    household_id: householdId,
+    email: email.trim().toLowerCase(),
+  });
+
+  if (error) {
+    console.error("Error inviting household member:", error);
+    if (error.code === "23505") {
+      return { success: false, error: "That email has already been invited" };
+    }
+    return { success: false, error: error.message };
+  }
+
+  revalidatePath("/dashboard");
+  return { success: true };
+}
+
+export async function acceptHouseholdInvite(
+  memberId: string
+): Promise<{ success: boolean; error?: string }> {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return { success: false, error: "Not authenticated" };
+
+  // Claimed through a function so only the invitee's own pending row can
+  // change, and only its user, name and status
+  const { data: householdId, error } = await supabase.rpc("accept_household_invite", {
+    member_id: memberId,
+    member_name: user.user_metadata?.full_name ?? null,
+  });
+
+  if (error) {
+    console.error("Error accepting household invite:", error);
+    return { success: false, error: error.message };
+  }
+
+  if (!householdId) return { success: false, error: "Invitation not found" };
+
+  await supabase
+    .from("profiles")
+    .update({ active_household_id: householdId })
+    .eq("id", user.id);
+
+  revalidatePath("/dashboard");
+  return { success: true };
+}
+
+/**
+ * Decline an invitation, leave a household, or (as the owner) remove a
+ * member. RLS decides which of these the current user may do.
+ */
+export async function removeHouseholdMember(
+  memberId: string
+): Promise<{ success: boolean; error?: string }> {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return { success: false, error: "Not authenticated" };
+
+  const { data: member } = await supabase
+    .from("household_members")
+    .select("role")
+    .eq("id", memberId)
+    .single();
+
+  if (member?.role === "owner") {
+    return { success: false, error: "The owner can't leave their own household" };
+  }
+
+  const { error } = await supabase
+    .from("household_members")
+    .delete()
+    .eq("id", memberId);
+
+  if (error) {
+    console.error("Error removing household member:", error);
+    return { success: false, error: error.message };
+  }
+
+  revalidatePath("/dashboard");
+  return { success: true };
+}
+
+export async function switchWorkspace(
+  householdId: string | null
+): Promise<{ success: boolean; error?: string }> {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return { success: false, error: "Not authenticated" };
+
+  const { error } = await supabase
+    .from("profiles")
+    .update({ active_household_id: householdId })
+    .eq("id", user.id);
+
+  if (error) {
+    console.error("Error switching workspace:", error);
+    return { success: false, error: error.message };
+  }
+
+  revalidatePath("/dashboard");
+  return { success: true };
+}
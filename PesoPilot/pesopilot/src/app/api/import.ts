@@ -0,0 +1,192 @@
+"use server";
+
+import { createClient } from "@/utils/supabase/server";
+import { getWorkspace, workspaceFilter, type Workspace } from "@/utils/supabase/workspace";
+import { revalidatePath } from "next/cache";
+import { colorForName } from "@/utils/categories";
+import { duplicateKey, type ImportRow } from "@/utils/import";
+
+// ============================================
+// CSV IMPORT API FUNCTIONS
+// ============================================
+
+export interface ImportResult {
+  line: number;
+  status: "imported" | "skipped" | "failed";
+  message?: string;
+}
+
+const MAX_IMPORT_ROWS = 5000;
+const INSERT_CHUNK_SIZE = 500;
+// Supabase returns at most 1000 rows per request
+const FETCH_PAGE_SIZE = 1000;
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createClient>>;
+
+/**
+ * Duplicate keys of the workspace's existing expenses within the date range
+ * covered by the import.
+ */
+async function existingExpenseKeys(
+  supabase: SupabaseServerClient,
+  workspace: Workspace,
+  rows: Pick<ImportRow, "date">[]
+): Promise<Set<string>> {
+  const dates = rows.map((row) => row.date).filter(Boolean).sort();
+  const keys = new Set<string>();
+  if (dates.length === 0) return keys;
+
+  for (let from = 0; ; from += FETCH_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("expenses")
+      .select("date, amount, description")
+      .or(workspaceFilter(workspace))
+      .is("deleted_at", null)
+      .gte("date", dates[0])
+      .lte("date", dates[dates.length - 1])
+      .order("id")
+      .range(from, from + FETCH_PAGE_SIZE - 1);
+
+    if (error) {
+      console.error("Error fetching existing expenses:", error);
+      break;
+    }
+
+    data?.forEach((expense) => keys.add(duplicateKey(expense)));
+    if (!data || data.length < FETCH_PAGE_SIZE) break;
+  }
+
+  return keys;
+}
+
+/**
+ * Line numbers of rows that look like an expense already on file, or like
+ * an earlier row of the same import.
+ */
+function findDuplicates(rows: ImportRow[], existing: Set<string>): Set<number> {
+  const seen = new Set(existing);
+  const duplicates = new Set<number>();
+
+  rows.forEach((row) => {
+    if (row.errors.length > 0) return;
+    const key = duplicateKey(row);
+    if (seen.has(key)) duplicates.add(row.line);
+    seen.add(key);
+  });
+
+  return duplicates;
+}
+
+export async function findDuplicateExpenses(rows: ImportRow[]): Promise<number[]> {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return [];
+
+  const workspace = await getWorkspace(supabase, user.id);
+  const existing = await existingExpenseKeys(supabase, workspace, rows);
+
+  return [...findDuplicates(rows, existing)];
+}
+
+export async function importExpenses(
+  rows: ImportRow[],
+  skipDuplicates: boolean = true
+): Promise<{ success: boolean; error?: string; results: ImportResult[] }> {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return { success: false, error: "Not authenticated", results: [] };
+
+  if (rows.length > MAX_IMPORT_ROWS) {
+    return {
+      success: false,
+      error: `Import at most ${MAX_IMPORT_ROWS} rows at a time`,
+      results: [],
+    };
+  }
+
+  const workspace = await getWorkspace(supabase, user.id);
+  const results: ImportResult[] = [];
+
+  // Validate again on the server; the preview ran in the browser
+  const valid = rows.filter((row) => {
+    const problems = [...row.errors];
+    if (!(Number(row.amount) > 0)) problems.push("Amount must be greater than zero");
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(row.date)) problems.push("Date is invalid");
+    if (problems.length > 0) {
+      results.push({ line: row.line, status: "failed", message: [...new Set(problems)].join("; ") });
+      return false;
+    }
+    return true;
+  });
+
+  const duplicates = skipDuplicates
+    ? findDuplicates(valid, await existingExpenseKeys(supabase, workspace, valid))
+    : new Set<number>();
+  const toInsert = valid.filter((row) => {
+    if (!duplicates.has(row.line)) return true;
+    results.push({ line: row.line, status: "skipped", message: "Duplicate of an existing expense" });
+    return false;
+  });
+
+  // Add any categories the user doesn't have yet so imported expenses show
+  // up in the category pickers
+  const { data: categories } = await supabase
+    .from("categories")
+    .select("name")
+    .eq("user_id", user.id);
+  const known = new Set((categories || []).map((category) => category.name));
+  const missing = [...new Set(toInsert.map((row) => row.category.trim()))].filter(
+    (name) => !known.has(name)
+  );
+  if (missing.length > 0) {
+    await supabase.from("categories").upsert(
+      missing.map((name) => ({ user_id: user.id, name, color: colorForName(name) })),
+      { onConflict: "user_id,name", ignoreDuplicates: true }
+    );
+  }
+
+  const toRecord = (row: ImportRow) => ({
+    user_id: user.id,
+    household_id: workspace.householdId,
+    amount: Number(row.amount),
+    category: row.category.trim(),
+    description: row.description,
+    date: row.date,
+  });
+
+  for (let i = 0; i < toInsert.length; i += INSERT_CHUNK_SIZE) {
+    const chunk = toInsert.slice(i, i + INSERT_CHUNK_SIZE);
+    const { error } = await supabase.from("expenses").insert(chunk.map(toRecord));
+
+    if (!error) {
+      chunk.forEach((row) => results.push({ line: row.line, status: "imported" }));
+      continue;
+    }
+
+    // One bad row fails the whole insert, so retry the chunk row by row to
+    // find out which rows were the problem
+    console.error("Error importing expenses, retrying row by row:", error);
+    for (const row of chunk) {
+      const { error: rowError } = await supabase.from("expenses").insert(toRecord(row));
+      results.push(
+        rowError
+          ? { line: row.line, status: "failed", message: rowError.message }
+          : { line: row.line, status: "imported" }
+      );
+    }
+  }
+
+  if (results.some((result) => result.status === "imported")) {
+    revalidatePath("/dashboard");
+  }
+
+  return { success: true, results: results.sort((a, b) => a.line - b.line) };
+}
@@ -0,0 +1,125 @@
+"use server";
+
+import { createClient } from "@/utils/supabase/server";
+import { getWorkspace, workspaceFilter } from "@/utils/supabase/workspace";
+import { revalidatePath } from "next/cache";
+
+// ============================================
+// INCOME API FUNCTIONS
+// ============================================
+
+export interface Income {
+  id: string;
+  user_id: string;
+  amount: number;
+  source: string;
+  description: string;
+  date: string;
+  account_id: string | null;
+  household_id: string | null;
+  created_at: string;
+}
+
+export async function addIncome(
+  amount: number,
+  source: string,
+  description: string,
+  date: string,
+  accountId: string | null = null
+): Promise<{ success: boolean; error?: string; income?: Income }> {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return { success: false, error: "Not authenticated" };
+
+  const workspace = await getWorkspace(supabase, user.id);
+
+  const { data, error } = await supabase
+    .from("incomes")
+    .insert({
+      user_id: user.id,
+      household_id: workspace.householdId,
+      amount,
+      source,
+      description,
+      date,
+      account_id: accountId,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error("Error adding income:", error);
+    return { success: false, error: error.message };
+  }
+
+  revalidatePath("/dashboard");
+  return { success: true, income: data };
+}
+
+export async function getIncomes(
+  startDate?: string,
+  endDate?: string
+): Promise<Income[]> {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return [];
+
+  const workspace = await getWorkspace(supabase, user.id);
+
+  let query = supabase
+    .from("incomes")
+    .select("*")
+    .or(workspaceFilter(workspace))
+    .order("date", { ascending: false });
+
+  if (startDate) {
+    query = query.gte("date", startDate);
+  }
+
+  if (endDate) {
+    query = query.lte("date", endDate);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error("Error fetching incomes:", error);
+    return [];
+  }
+
+  return data || [];
+}
+
+export async function deleteIncome(
+  incomeId: string
+): Promise<{ success: boolean; error?: string }> {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return { success: false, error: "Not authenticated" };
+
+  const { error } = await supabase
+    .from("incomes")
+    .delete()
+    .eq("id", incomeId)
+    .eq("user_id", user.id);
+
+  if (error) {
+    console.error("Error deleting income:", error);
+    return { success: false, error: error.message };
+  }
+
+  revalidatePath("/dashboard");
+  return { success: true };
+}
@@ -0,0 +1,55 @@
+"use server";
+
+import { createClient } from "@/utils/supabase/server";
+import { getUserTimezone } from "@/utils/supabase/timezone";
+import { revalidatePath } from "next/cache";
+import { DEFAULT_TIMEZONE, isValidTimezone } from "@/utils/period";
+
+// ============================================
+// PROFILE SETTINGS API FUNCTIONS
+// ============================================
+
+export async function getTimezone(): Promise<string> {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return DEFAULT_TIMEZONE;
+
+  return getUserTimezone(supabase, user.id);
+}
+
+/**
+ * Change the timezone that decides what "today" is, which day new expenses
+ * default to and where each budget period starts and ends.
+ */
+export async function updateTimezone(
+  timezone: string
+): Promise<{ success: boolean; error?: string }> {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return { success: false, error: "Not authenticated" };
+
+  if (!isValidTimezone(timezone)) {
+    return { success: false, error: "Choose a valid timezone" };
+  }
+
+  const { error } = await supabase
+    .from("profiles")
+    .update({ timezone })
+    .eq("id", user.id);
+
+  if (error) {
+    console.error("Error updating timezone:", error);
+    return { success: false, error: error.message };
+  }
+
+  revalidatePath("/dashboard");
+  return { success: true };
+}
@@ -0,0 +1,161 @@
+"use server";
+
+import { createClient } from "@/utils/supabase/server";
+import { revalidatePath } from "next/cache";
+import { BASE_CURRENCY, isCurrencyCode } from "@/utils/currency";
+
+// ============================================
+// EXCHANGE RATE API FUNCTIONS
+// ============================================
+
+/** Pesos per one unit of `currency`, from `effective_date` onwards. */
+export interface ExchangeRate {
+  id: string;
+  user_id: string;
+  currency: string;
+  rate: number;
+  effective_date: string;
+  created_at: string;
+}
+
+export interface ExchangeRateInput {
+  currency: string;
+  rate: number;
+  effective_date: string;
+}
+
+const MAX_IMPORT_RATES = 1000;
+
+function rateError(input: ExchangeRateInput): string | null {
+  if (!isCurrencyCode(input.currency)) return `"${input.currency}" is not a currency code`;
+  if (input.currency === BASE_CURRENCY) return "Rates are for currencies other than PHP";
+  if (!Number.isFinite(input.rate) || input.rate <= 0) return `The ${input.currency} rate must be greater than zero`;
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(input.effective_date)) return `The ${input.currency} rate needs a date`;
+  return null;
+}
+
+export async function getExchangeRates(): Promise<ExchangeRate[]> {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return [];
+
+  const { data, error } = await supabase
+    .from("exchange_rates")
+    .select("*")
+    .eq("user_id", user.id)
+    .order("currency", { ascending: true })
+    .order("effective_date", { ascending: false });
+
+  if (error) {
+    console.error("Error fetching exchange rates:", error);
+    return [];
+  }
+
+  return data || [];
+}
+
+/** The latest rate for the currency on or before the date, if any. */
+export async function getExchangeRate(
+  currency: string,
+  date: string
+): Promise<number | null> {
+  if (currency === BASE_CURRENCY) return 1;
+
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return null;
+
+  const { data } = await supabase
+    .from("exchange_rates")
+    .select("rate")
+    .eq("user_id", user.id)
+    .eq("currency", currency)
+    .lte("effective_date", date)
+    .order("effective_date", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  return data ? Number(data.rate) : null;
+}
+
+/** Add a rate, replacing any rate for the same currency and date. */
+export async function saveExchangeRate(
+  input: ExchangeRateInput
+): Promise<{ success: boolean; error?: string }> {
+  return importExchangeRates([input]);
+}
+
+export async function importExchangeRates(
+  rates: ExchangeRateInput[]
+): Promise<{ success: boolean; error?: string; imported?: number }> {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return { success: false, error: "Not authenticated" };
+
+  if (rates.length === 0) return { success: false, error: "No rates to import" };
+  if (rates.length > MAX_IMPORT_RATES) {
+    return { success: false, error: `Import at most ${MAX_IMPORT_RATES} rates at a time` };
+  }
+
+  const invalid = rates.map(rateError).find(Boolean);
+  if (invalid) return { success: false, error: invalid };
+
+  // One row per currency and date; a later row in the file wins
+  const unique = new Map(rates.map((rate) => [`${rate.currency}|${rate.effective_date}`, rate]));
+
+  const { error } = await supabase.from("exchange_rates").upsert(
+    [...unique.values()].map((rate) => ({
+      user_id: user.id,
+      currency: rate.currency,
+      rate: rate.rate,
+      effective_date: rate.effective_date,
+    })),
+    { onConflict: "user_id,currency,effective_date" }
+  );
+
+  if (error) {
+    console.error("Error saving exchange rates:", error);
+    return { success: false, error: error.message };
+  }
+
+  revalidatePath("/dashboard/rates");
+  return { success: true, imported: unique.size };
+}
+
+export async function deleteExchangeRate(
+  rateId: string
+): Promise<{ success: boolean; error?: string }> {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return { success: false, error: "Not authenticated" };
+
+  const { error } = await supabase
+    .from("exchange_rates")
+    .delete()
+    .eq("id", rateId)
+    .eq("user_id", user.id);
+
+  if (error) {
+    console.error("Error deleting exchange rate:", error);
+    return { success: false, error: error.message };
+  }
+
+  revalidatePath("/dashboard/rates");
+  return { success: true };
+}
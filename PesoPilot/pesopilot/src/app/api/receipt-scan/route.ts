@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from "next/server";
+import OpenAI from "openai";
+import { createClient } from "@/utils/supabase/server";
+import { isImageAttachment, MAX_ATTACHMENT_BYTES } from "@/utils/attachments";
+import { normalizeReceiptScan } from "@/utils/receipt";
+
+const openaiApiKey = process.env.OPENAI_API_KEY;
+
+// Only initialize OpenAI if key exists and isn't placeholder
+const openai = openaiApiKey && !openaiApiKey.includes("your_")
+  ? new OpenAI({ apiKey: openaiApiKey })
+  : null;
+
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    if (!openai) {
+      return NextResponse.json({ error: "Receipt scanning service is not configured" }, { status: 503 });
+    }
+
+    // Verify premium status
+    const { data: profile } = await supabase
+      .from("profiles")
+      .select("is_premium")
+      .eq("id", user.id)
+      .single();
+
+    if (!profile?.is_premium) {
+      return NextResponse.json({ error: "Premium required" }, { status: 403 });
+    }
+
+    const formData = await request.formData();
+    const receipt = formData.get("receipt");
+
+    if (!(receipt instanceof File) || !isImageAttachment(receipt.type)) {
+      return NextResponse.json({ error: "A receipt photo is required" }, { status: 400 });
+    }
+
+    if (receipt.size > MAX_ATTACHMENT_BYTES) {
+      return NextResponse.json({ error: "Receipt photo must be 5 MB or smaller" }, { status: 400 });
+    }
+
+    const { data: categoryRows } = await supabase
+      .from("categories")
+      .select("name")
+      .eq("user_id", user.id)
+      .eq("archived", false);
+    const categories = (categoryRows || []).map((category) => category.name);
+
+    const image = Buffer.from(await receipt.arrayBuffer()).toString("base64");
+
+    const completion = await openai.chat.completions.create({
+      model: "gpt-4o-mini",
+      messages: [
+        {
+          role: "system",
+          content: "You read Philippine store receipts and extract the details needed to log an expense.",
+        },
+        {
+          role: "user",
+          content: [
+            {
+              type: "text",
+              text: `Return a JSON object with:
+- merchant: the store or business name
+- total: the final amount paid in pesos, as a number
+- date: the purchase date as YYYY-MM-DD
+- category: the best match from ${JSON.stringify(categories)}
+Use null for anything you cannot read.`,
+            },
+            {
+              type: "image_url",
+              image_url: { url: `data:${receipt.type};base64,${image}` },
+            },
+          ],
+        },
+      ],
+      response_format: { type: "json_object" },
+      temperature: 0,
+      max_tokens: 300,
+    });
+
+    const content = completion.choices[0].message.content;
+    if (!content) {
+      throw new Error("No content received from OpenAI");
+    }
+
+    return NextResponse.json({ scan: normalizeReceiptScan(JSON.parse(content), categories) });
+  } catch (error) {
+    console.error("Receipt scan error:", error);
+    return NextResponse.json(
+      { error: "Failed to scan receipt" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,265 @@
+"use server";
+
+import { createClient } from "@/utils/supabase/server";
+import { revalidatePath } from "next/cache";
+import { getUserToday } from "@/utils/supabase/timezone";
+import { getOccurrences, type RecurringCadence } from "@/utils/recurring";
+import { addDays } from "@/utils/period";
+
+// ============================================
+// RECURRING EXPENSE API FUNCTIONS
+// ============================================
+
+export interface RecurringRule {
+  id: string;
+  user_id: string;
+  amount: number;
+  category: string;
+  description: string | null;
+  cadence: RecurringCadence;
+  interval_days: number | null;
+  day_of_month: number | null;
+  start_date: string;
+  end_date: string | null;
+  status: "active" | "paused" | "ended";
+  skipped_dates: string[];
+  last_materialized_date: string | null;
+  created_at: string;
+}
+
+export interface RecurringRuleInput {
+  amount: number;
+  category: string;
+  description: string;
+  cadence: RecurringCadence;
+  interval_days?: number | null;
+  day_of_month?: number | null;
+  start_date: string;
+  end_date?: string | null;
+}
+
+export async function getRecurringRules(): Promise<RecurringRule[]> {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return [];
+
+  const { data, error } = await supabase
+    .from("recurring_expenses")
+    .select("*")
+    .eq("user_id", user.id)
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    console.error("Error fetching recurring rules:", error);
+    return [];
+  }
+
+  return data || [];
+}
+
+export async function createRecurringRule(
+  input: RecurringRuleInput
+): Promise<{ success: boolean; error?: string; rule?: RecurringRule }> {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return { success: false, error: "Not authenticated" };
+
+  if (input.cadence === "every_n_days" && !input.interval_days) {
+    return { success: false, error: "Enter how many days between charges" };
+  }
+
+  if (input.cadence === "day_of_month" && !input.day_of_month) {
+    return { success: false, error: "Choose a day of the month" };
+  }
+
+  const { data, error } = await supabase
+    .from("recurring_expenses")
+    .insert({
+      user_id: user.id,
+      amount: input.amount,
+      category: input.category,
+      description: input.description,
+      cadence: input.cadence,
+      interval_days: input.cadence === "every_n_days" ? input.interval_days : null,
+      day_of_month: input.cadence === "day_of_month" ? input.day_of_month : null,
+      start_date: input.start_date,
+      end_date: input.end_date || null,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error("Error creating recurring rule:", error);
+    return { success: false, error: error.message };
+  }
+
+  revalidatePath("/dashboard");
+  return { success: true, rule: data };
+}
+
+export async function setRecurringRuleStatus(
+  ruleId: string,
+  status: RecurringRule["status"]
+): Promise<{ success: boolean; error?: string }> {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return { success: false, error: "Not authenticated" };
+
+  const changes: Partial<RecurringRule> = { status };
+  if (status === "active") {
+    // Resuming should not back-fill the charges that fell due while paused,
+    // but a charge due today still goes through
+    changes.last_materialized_date = addDays(await getUserToday(supabase, user.id), -1);
+  } else if (status === "ended") {
+    changes.end_date = await getUserToday(supabase, user.id);
+  }
+
+  const { error } = await supabase
+    .from("recurring_expenses")
+    .update(changes)
+    .eq("id", ruleId)
+    .eq("user_id", user.id);
+
+  if (error) {
+    console.error("Error updating recurring rule:", error);
+    return { success: false, error: error.message };
+  }
+
+  revalidatePath("/dashboard");
+  return { success: true };
+}
+
+export async function skipNextOccurrence(
+  ruleId: string
+): Promise<{ success: boolean; error?: string; skippedDate?: string }> {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return { success: false, error: "Not authenticated" };
+
+  const { data: rule } = await supabase
+    .from("recurring_expenses")
+    .select("*")
+    .eq("id", ruleId)
+    .eq("user_id", user.id)
+    .single();
+
+  if (!rule) return { success: false, error: "Recurring expense not found" };
+
+  // Look for the first charge that has not been turned into an expense yet
+  const from = rule.last_materialized_date
+    ? addDays(rule.last_materialized_date, 1)
+    : rule.start_date;
+  const [nextDate] = getOccurrences(rule, from, addDays(from, 400));
+
+  if (!nextDate) return { success: false, error: "No upcoming charge to skip" };
+
+  const { error } = await supabase
+    .from("recurring_expenses")
+    .update({ skipped_dates: [...rule.skipped_dates, nextDate] })
+    .eq("id", ruleId);
+
+  if (error) {
+    console.error("Error skipping recurring charge:", error);
+    return { success: false, error: error.message };
+  }
+
+  revalidatePath("/dashboard");
+  return { success: true, skippedDate: nextDate };
+}
+
+/**
+ * Turn every due occurrence of the user's active rules into an expense.
+ * Safe to call repeatedly: the (recurring_id, date) unique index makes the
+ * insert a no-op for charges that already exist.
+ */
+export async function materializeRecurringExpenses(): Promise<{
+  success: boolean;
+  error?: string;
+  created?: number;
+}> {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return { success: false, error: "Not authenticated" };
+
+  const { data: rules, error: rulesError } = await supabase
+    .from("recurring_expenses")
+    .select("*")
+    .eq("user_id", user.id)
+    .eq("status", "active");
+
+  if (rulesError) {
+    console.error("Error fetching recurring rules:", rulesError);
+    return { success: false, error: rulesError.message };
+  }
+
+  const until = await getUserToday(supabase, user.id);
+  let created = 0;
+
+  for (const rule of (rules || []) as RecurringRule[]) {
+    const from = rule.last_materialized_date
+      ? addDays(rule.last_materialized_date, 1)
+      : rule.start_date;
+    const dates = getOccurrences(rule, from, until);
+
+    if (dates.length > 0) {
+      const { data, error } = await supabase
+        .from("expenses")
+        .upsert(
+          dates.map((date) => ({
+            user_id: user.id,
+            amount: rule.amount,
+            category: rule.category,
+            description: rule.description,
+            date,
+            recurring_id: rule.id,
+          })),
+          { onConflict: "recurring_id,date", ignoreDuplicates: true }
+        )
+        .select("id");
+
+      if (error) {
+        console.error("Error materializing recurring expense:", error);
+        continue;
+      }
+
+      created += data?.length ?? 0;
+    }
+
+    const ended = rule.end_date !== null && rule.end_date <= until;
+    const { error: updateError } = await supabase
+      .from("recurring_expenses")
+      .update({
+        last_materialized_date: until,
+        ...(ended ? { status: "ended" } : {}),
+      })
+      .eq("id", rule.id);
+
+    // The charges are in; the next run finds them again and skips them
+    if (updateError) {
+      console.error("Error updating recurring rule:", updateError);
+    }
+  }
+
+  if (created > 0) revalidatePath("/dashboard");
+  return { success: true, created };
+}
@@ -0,0 +1,102 @@
+"use server";
+
+import { createClient } from "@/utils/supabase/server";
+import type { ExpenseChange } from "@/utils/expenseQueue";
+import { addExpense, deleteExpense, updateExpense } from "./budget";
+
+// ============================================
+// OFFLINE SYNC API FUNCTIONS
+// ============================================
+
+export interface SyncOutcome {
+  /**
+   * "synced" once the change is saved (or no longer needed), "conflict" when
+   * the user has to decide what to keep, and "retry" to leave it queued
+   */
+  status: "synced" | "conflict" | "retry";
+  error?: string;
+}
+
+/**
+ * Apply one change queued while offline. An edit or delete is held back as
+ * a conflict if the expense changed on the server after the change was made,
+ * unless `force` says to apply it anyway.
+ */
+export async function syncExpenseChange(
+  change: ExpenseChange,
+  force: boolean = false
+): Promise<SyncOutcome> {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return { status: "retry", error: "Not authenticated" };
+
+  if (change.kind === "create") {
+    const { values } = change;
+    const result = await addExpense(
+      values.amount,
+      values.category,
+      values.description,
+      values.date,
+      values.accountId,
+      values.foreign,
+      change.expenseId
+    );
+    return result.success ? { status: "synced" } : { status: "conflict", error: result.error };
+  }
+
+  const { data: current, error } = await supabase
+    .from("expenses")
+    .select("updated_at, deleted_at")
+    .eq("id", change.expenseId)
+    .eq("user_id", user.id)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error checking expense before sync:", error);
+    return { status: "retry", error: error.message };
+  }
+
+  const gone = !current || current.deleted_at !== null;
+  const changedSince =
+    !!current &&
+    new Date(current.updated_at).getTime() !== new Date(change.baseUpdatedAt).getTime();
+
+  if (change.kind === "delete") {
+    // Deleted elsewhere already, which is what was wanted
+    if (gone) return { status: "synced" };
+    if (changedSince && !force) {
+      return {
+        status: "conflict",
+        error: "This expense was changed on another device after you deleted it",
+      };
+    }
+    const result = await deleteExpense(change.expenseId);
+    return result.success ? { status: "synced" } : { status: "conflict", error: result.error };
+  }
+
+  if (gone) {
+    return { status: "conflict", error: "This expense was deleted on another device" };
+  }
+  if (changedSince && !force) {
+    return {
+      status: "conflict",
+      error: "This expense was changed on another device after you edited it",
+    };
+  }
+
+  const { values } = change;
+  const result = await updateExpense(
+    change.expenseId,
+    values.amount,
+    values.category,
+    values.description,
+    values.date,
+    values.accountId,
+    values.foreign
+  );
+  return result.success ? { status: "synced" } : { status: "conflict", error: result.error };
+}
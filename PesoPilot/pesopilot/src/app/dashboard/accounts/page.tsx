@@ -0,0 +1,18 @@
+"use client";
+
+import DashboardSubpage from "@/components/layout/DashboardSubpage";
+import AccountManager from "@/components/account/AccountManager";
+import { Wallet } from "lucide-react";
+
+export default function AccountsPage() {
+  return (
+    <DashboardSubpage
+      icon={Wallet}
+      color="emerald"
+      title="Accounts"
+      subtitle="Wallets, banks and cards"
+    >
+      <AccountManager />
+    </DashboardSubpage>
+  );
+}
@@ -0,0 +1,18 @@
+"use client";
+
+import DashboardSubpage from "@/components/layout/DashboardSubpage";
+import BudgetDetail from "@/components/budget/BudgetDetail";
+import { Wallet } from "lucide-react";
+
+export default function BudgetPage() {
+  return (
+    <DashboardSubpage
+      icon={Wallet}
+      color="lime"
+      title="Budget"
+      subtitle="Current settings and who changed them"
+    >
+      <BudgetDetail />
+    </DashboardSubpage>
+  );
+}
@@ -0,0 +1,18 @@
+"use client";
+
+import DashboardSubpage from "@/components/layout/DashboardSubpage";
+import CategoryManager from "@/components/category/CategoryManager";
+import { Tags } from "lucide-react";
+
+export default function CategoriesPage() {
+  return (
+    <DashboardSubpage
+      icon={Tags}
+      color="purple"
+      title="Categories"
+      subtitle="Names, colours and icons"
+    >
+      <CategoryManager />
+    </DashboardSubpage>
+  );
+}
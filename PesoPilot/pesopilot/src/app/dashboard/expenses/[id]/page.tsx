@@ -0,0 +1,21 @@
+"use client";
+
+import { useParams } from "next/navigation";
+import DashboardSubpage from "@/components/layout/DashboardSubpage";
+import ExpenseDetail from "@/components/expense/ExpenseDetail";
+import { Receipt } from "lucide-react";
+
+export default function ExpenseDetailPage() {
+  const { id } = useParams<{ id: string }>();
+
+  return (
+    <DashboardSubpage
+      icon={Receipt}
+      color="blue"
+      title="Expense"
+      subtitle="Details and who changed them"
+    >
+      <ExpenseDetail key={id} expenseId={id} />
+    </DashboardSubpage>
+  );
+}
@@ -0,0 +1,19 @@
+"use client";
+
+import DashboardSubpage from "@/components/layout/DashboardSubpage";
+import ExportPanel from "@/components/export/ExportPanel";
+import { Download } from "lucide-react";
+
+export default function ExportPage() {
+  return (
+    <DashboardSubpage
+      icon={Download}
+      color="orange"
+      title="Export Expenses"
+      subtitle="Download CSV, Excel or PDF for any date range"
+      back={{ href: "/dashboard/transactions", label: "Transactions" }}
+    >
+      <ExportPanel />
+    </DashboardSubpage>
+  );
+}
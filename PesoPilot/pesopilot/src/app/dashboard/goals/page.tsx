@@ -0,0 +1,18 @@
+"use client";
+
+import DashboardSubpage from "@/components/layout/DashboardSubpage";
+import GoalManager from "@/components/goal/GoalManager";
+import { Target } from "lucide-react";
+
+export default function GoalsPage() {
+  return (
+    <DashboardSubpage
+      icon={Target}
+      color="pink"
+      title="Savings Goals"
+      subtitle="Save toward what matters and stay on pace"
+    >
+      <GoalManager />
+    </DashboardSubpage>
+  );
+}
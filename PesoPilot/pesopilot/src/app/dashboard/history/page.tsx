@@ -0,0 +1,18 @@
+"use client";
+
+import DashboardSubpage from "@/components/layout/DashboardSubpage";
+import BudgetHistory from "@/components/budget/BudgetHistory";
+import { History } from "lucide-react";
+
+export default function HistoryPage() {
+  return (
+    <DashboardSubpage
+      icon={History}
+      color="cyan"
+      title="Budget History"
+      subtitle="How each period went against its budget"
+    >
+      <BudgetHistory />
+    </DashboardSubpage>
+  );
+}
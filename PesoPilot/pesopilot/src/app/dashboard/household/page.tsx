@@ -0,0 +1,18 @@
+"use client";
+
+import DashboardSubpage from "@/components/layout/DashboardSubpage";
+import HouseholdManager from "@/components/household/HouseholdManager";
+import { Users } from "lucide-react";
+
+export default function HouseholdPage() {
+  return (
+    <DashboardSubpage
+      icon={Users}
+      color="sky"
+      title="Household"
+      subtitle="Share a budget with your household"
+    >
+      <HouseholdManager />
+    </DashboardSubpage>
+  );
+}
@@ -0,0 +1,46 @@
+"use client";
+
+import { useState } from "react";
+import DashboardSubpage from "@/components/layout/DashboardSubpage";
+import CsvImport from "@/components/import/CsvImport";
+import WalletImport from "@/components/import/WalletImport";
+import { FileUp } from "lucide-react";
+
+type ImportSource = "spreadsheet" | "wallet";
+
+const sources: { source: ImportSource; label: string }[] = [
+  { source: "spreadsheet", label: "Spreadsheet CSV" },
+  { source: "wallet", label: "GCash / Maya" },
+];
+
+export default function ImportPage() {
+  const [source, setSource] = useState<ImportSource>("spreadsheet");
+
+  return (
+    <DashboardSubpage
+      icon={FileUp}
+      color="teal"
+      title="Import Expenses"
+      subtitle="Bring in history from a spreadsheet or e-wallet"
+      back={{ href: "/dashboard/transactions", label: "Transactions" }}
+    >
+      <div className="flex gap-2 mb-6">
+        {sources.map((option) => (
+          <button
+            key={option.source}
+            onClick={() => setSource(option.source)}
+            className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+              source === option.source
+                ? "bg-teal-600 text-white"
+                : "bg-white dark:bg-gray-800 text-gray-600 dark:text-gray-300 border border-gray-200 dark:border-gray-700 hover:bg-gray-100 dark:hover:bg-gray-700"
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {source === "spreadsheet" ? <CsvImport /> : <WalletImport />}
+    </DashboardSubpage>
+  );
+}
@@ -1,15 +1,36 @@
 "use client";
 
 import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
 import { logout } from "../actions";
 import { useTheme } from "@/providers/ThemeProvider";
-import { getBudgetSummary, type Budget, type Expense } from "@/app/api/budget";
+import { useOfflineSync } from "@/providers/OfflineSyncProvider";
+import {
+  getBudgetSummary,
+  type Budget,
+  type Expense,
+  type UpcomingCharge,
+  type CategoryBudgetStatus,
+  type MemberSpending,
+} from "@/app/api/budget";
+import { materializeRecurringExpenses } from "@/app/api/recurring";
 import { getUserProfile } from "@/app/api/premium";
+import type { Income } from "@/app/api/income";
+import type { HouseholdMember } from "@/app/api/household";
 import { formatPeso } from "@/utils/currency";
+import { isNetworkError } from "@/utils/expenseQueue";
+import { BUDGET_PERIODS, DEFAULT_PERIOD, type PeriodRange } from "@/utils/period";
 import BudgetManager from "@/components/budget/BudgetManager";
 import ProgressBar from "@/components/budget/ProgressBar";
+import PeriodNavigator from "@/components/budget/PeriodNavigator";
 import AddExpenseForm from "@/components/expense/AddExpenseForm";
 import ExpenseList from "@/components/expense/ExpenseList";
+import SyncStatus from "@/components/expense/SyncStatus";
+import AddIncomeForm from "@/components/income/AddIncomeForm";
+import IncomeList from "@/components/income/IncomeList";
+import UpcomingCharges from "@/components/recurring/UpcomingCharges";
+import GoalsWidget from "@/components/goal/GoalsWidget";
+import WorkspaceSwitcher from "@/components/household/WorkspaceSwitcher";
 import CategoryPieChart from "@/components/charts/CategoryPieChart";
 import SpendingLineChart from "@/components/charts/SpendingLineChart";
 import { AIInsights } from "@/components/premium/AIInsights";
@@ -21,46 +42,113 @@ import {
   TrendingUp,
   TrendingDown,
   PiggyBank,
+  ArrowDownCircle,
+  ArrowUpCircle,
+  Scale,
+  Repeat,
+  Tags,
+  Landmark,
+  Coins,
+  Target,
+  HandCoins,
+  Users,
+  ListFilter,
+  History,
+  Settings,
 } from "lucide-react";
 
 export default function DashboardPage() {
   const { theme, toggleTheme } = useTheme();
   const [loading, setLoading] = useState(true);
   const [budget, setBudget] = useState<Budget | null>(null);
+  const [rollover, setRollover] = useState(0);
+  const [effectiveBudget, setEffectiveBudget] = useState(0);
   const [totalSpent, setTotalSpent] = useState(0);
   const [remaining, setRemaining] = useState(0);
   const [percentageUsed, setPercentageUsed] = useState(0);
   const [expenses, setExpenses] = useState<Expense[]>([]);
+  const [totalIncome, setTotalIncome] = useState(0);
+  const [netCashFlow, setNetCashFlow] = useState(0);
+  const [debtRepayments, setDebtRepayments] = useState(0);
+  const [incomes, setIncomes] = useState<Income[]>([]);
+  const [upcomingCharges, setUpcomingCharges] = useState<UpcomingCharge[]>([]);
+  const [upcomingTotal, setUpcomingTotal] = useState(0);
+  const [categoryBudgets, setCategoryBudgets] = useState<CategoryBudgetStatus[]>([]);
+  const [householdId, setHouseholdId] = useState<string | null>(null);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [members, setMembers] = useState<HouseholdMember[]>([]);
+  const [memberSpending, setMemberSpending] = useState<MemberSpending[]>([]);
   const [isPremium, setIsPremium] = useState(false);
+  // The period being browsed; null follows the current one
+  const [selectedPeriod, setSelectedPeriod] = useState<PeriodRange | null>(null);
+  const [period, setPeriod] = useState<PeriodRange>({ start: "", end: "" });
+  const [isCurrentPeriod, setIsCurrentPeriod] = useState(true);
+  // Bumped on every reload so the charts fetch their data again too
+  const [dataVersion, setDataVersion] = useState(0);
 
+  // Reloads in place; the spinner only covers the first load and period
+  // changes, so the expense list (and its undo toast) stays mounted. Offline,
+  // including a cold start of the installed app, it keeps what is already on
+  // screen so expenses can still be logged and queued.
   const loadBudgetData = useCallback(async () => {
-    setLoading(true);
-    const [summary, profile] = await Promise.all([
-      getBudgetSummary(),
-      getUserProfile(),
-    ]);
-
-    setBudget(summary.budget);
-    setTotalSpent(summary.totalSpent);
-    setRemaining(summary.remaining);
-    setPercentageUsed(summary.percentageUsed);
-    setExpenses(summary.expenses);
-    setIsPremium(profile?.is_premium ?? false);
-    setLoading(false);
-  }, []);
+    try {
+      // Post any recurring charges that fell due before reading the totals
+      await materializeRecurringExpenses();
+      const [summary, profile] = await Promise.all([
+        getBudgetSummary(selectedPeriod ?? undefined),
+        getUserProfile(),
+      ]);
+
+      setBudget(summary.budget);
+      setRollover(summary.rollover);
+      setEffectiveBudget(summary.effectiveBudget);
+      setTotalSpent(summary.totalSpent);
+      setRemaining(summary.remaining);
+      setPercentageUsed(summary.percentageUsed);
+      setExpenses(summary.expenses);
+      setTotalIncome(summary.totalIncome);
+      setNetCashFlow(summary.netCashFlow);
+      setDebtRepayments(summary.debtRepayments);
+      setIncomes(summary.incomes);
+      setUpcomingCharges(summary.upcomingCharges);
+      setUpcomingTotal(summary.upcomingTotal);
+      setCategoryBudgets(summary.categoryBudgets);
+      setHouseholdId(summary.householdId);
+      setCurrentUserId(summary.currentUserId);
+      setMembers(summary.members);
+      setMemberSpending(summary.memberSpending);
+      setPeriod({ start: summary.startDate, end: summary.endDate });
+      setIsCurrentPeriod(summary.isCurrentPeriod);
+      setIsPremium(profile?.is_premium ?? false);
+      setDataVersion((version) => version + 1);
+    } catch (error) {
+      if (!isNetworkError(error)) console.error("Error loading budget data:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [selectedPeriod]);
 
   useEffect(() => {
     loadBudgetData();
   }, [loadBudgetData]);
 
+  // Expenses logged offline count towards the totals once they reach the server
+  const { onSynced, clearQueue } = useOfflineSync();
+  useEffect(() => onSynced(loadBudgetData), [onSynced, loadBudgetData]);
+
   function handleExpenseAdded(expense: Expense) {
+    // An expense dated outside the period on screen doesn't change its totals
+    if (expense.date < period.start || expense.date > period.end) {
+      loadBudgetData();
+      return;
+    }
     setExpenses((prev) => [expense, ...prev]);
     // Recalculate totals
     const newTotal = totalSpent + Number(expense.amount);
     setTotalSpent(newTotal);
     if (budget) {
-      const newRemaining = Math.max(0, budget.amount - newTotal);
-      const newPercentage = budget.amount > 0 ? (newTotal / budget.amount) * 100 : 0;
+      const newRemaining = effectiveBudget - newTotal;
+      const newPercentage = effectiveBudget > 0 ? (newTotal / effectiveBudget) * 100 : 100;
       setRemaining(newRemaining);
       setPercentageUsed(Math.min(newPercentage, 100));
     }
@@ -68,12 +156,44 @@ export default function DashboardPage() {
     setTimeout(loadBudgetData, 500);
   }
 
+  function handleIncomeAdded(income: Income) {
+    if (income.date < period.start || income.date > period.end) {
+      loadBudgetData();
+      return;
+    }
+    setIncomes((prev) => [income, ...prev]);
+    setTotalIncome((prev) => prev + Number(income.amount));
+    setNetCashFlow((prev) => prev + Number(income.amount));
+    setTimeout(loadBudgetData, 500);
+  }
+
+  function handlePeriodChange(range: PeriodRange | null) {
+    setLoading(true);
+    setSelectedPeriod(range);
+  }
+
+  function handleBudgetUpdate() {
+    // New period settings may not line up with the period being browsed
+    if (selectedPeriod) handlePeriodChange(null);
+    else loadBudgetData();
+  }
+
   function handleExpenseDeleted() {
     loadBudgetData();
   }
 
+  function handleExpenseUpdated() {
+    // Reload everything so the summary cards and both charts pick up the
+    // corrected amount, category or date
+    loadBudgetData();
+  }
+
+  const overLimitCategories = categoryBudgets.filter((cat) => cat.spent > cat.limit);
+
   async function handleLogout(e: React.FormEvent) {
     e.preventDefault();
+    // Unsent changes stay on the device, so don't leave them for the next user
+    await clearQueue();
     await logout();
   }
 
@@ -91,6 +211,89 @@ export default function DashboardPage() {
             </div>
 
             <div className="flex items-center space-x-4">
+              <SyncStatus />
+              <WorkspaceSwitcher onSwitch={loadBudgetData} />
+
+              <Link
+                href="/dashboard/transactions"
+                className="flex items-center px-3 py-2 text-sm font-medium text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md transition-colors"
+              >
+                <ListFilter className="h-4 w-4 mr-2" />
+                Transactions
+              </Link>
+
+              <Link
+                href="/dashboard/history"
+                className="flex items-center px-3 py-2 text-sm font-medium text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md transition-colors"
+              >
+                <History className="h-4 w-4 mr-2" />
+                History
+              </Link>
+
+              <Link
+                href="/dashboard/recurring"
+                className="flex items-center px-3 py-2 text-sm font-medium text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md transition-colors"
+              >
+                <Repeat className="h-4 w-4 mr-2" />
+                Recurring
+              </Link>
+
+              <Link
+                href="/dashboard/categories"
+                className="flex items-center px-3 py-2 text-sm font-medium text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md transition-colors"
+              >
+                <Tags className="h-4 w-4 mr-2" />
+                Categories
+              </Link>
+
+              <Link
+                href="/dashboard/accounts"
+                className="flex items-center px-3 py-2 text-sm font-medium text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md transition-colors"
+              >
+                <Landmark className="h-4 w-4 mr-2" />
+                Accounts
+              </Link>
+
+              <Link
+                href="/dashboard/goals"
+                className="flex items-center px-3 py-2 text-sm font-medium text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md transition-colors"
+              >
+                <Target className="h-4 w-4 mr-2" />
+                Goals
+              </Link>
+
+              <Link
+                href="/dashboard/utang"
+                className="flex items-center px-3 py-2 text-sm font-medium text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md transition-colors"
+              >
+                <HandCoins className="h-4 w-4 mr-2" />
+                Utang
+              </Link>
+
+              <Link
+                href="/dashboard/rates"
+                className="flex items-center px-3 py-2 text-sm font-medium text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md transition-colors"
+              >
+                <Coins className="h-4 w-4 mr-2" />
+                Rates
+              </Link>
+
+              <Link
+                href="/dashboard/household"
+                className="flex items-center px-3 py-2 text-sm font-medium text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md transition-colors"
+              >
+                <Users className="h-4 w-4 mr-2" />
+                Household
+              </Link>
+
+              <Link
+                href="/dashboard/settings"
+                className="flex items-center px-3 py-2 text-sm font-medium text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md transition-colors"
+              >
+                <Settings className="h-4 w-4 mr-2" />
+                Settings
+              </Link>
+
               <button
                 onClick={toggleTheme}
                 className="p-2 rounded-md text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
@@ -125,6 +328,15 @@ export default function DashboardPage() {
           </div>
         ) : (
           <>
+            {period.start && (
+              <PeriodNavigator
+                settings={budget ?? DEFAULT_PERIOD}
+                range={period}
+                isCurrent={isCurrentPeriod}
+                onChange={handlePeriodChange}
+              />
+            )}
+
             {/* Budget Summary Cards */}
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
               {/* Budget */}
@@ -132,11 +344,16 @@ export default function DashboardPage() {
                 <div className="flex items-center justify-between">
                   <div>
                     <p className="text-sm font-medium text-gray-600 dark:text-gray-400">
-                      {budget?.period === "weekly" ? "Weekly Budget" : "Monthly Budget"}
+                      {BUDGET_PERIODS[budget?.period ?? "monthly"].label} Budget
                     </p>
                     <p className="text-2xl font-bold text-gray-900 dark:text-white mt-1">
-                      {budget ? formatPeso(budget.amount) : "Not set"}
+                      {budget ? formatPeso(effectiveBudget) : "Not set"}
                     </p>
+                    {budget && rollover !== 0 && (
+                      <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                        {formatPeso(effectiveBudget - rollover)} {rollover < 0 ? "-" : "+"} {formatPeso(Math.abs(rollover))} carried over
+                      </p>
+                    )}
                   </div>
                   <div className="p-3 bg-blue-100 dark:bg-blue-900/30 rounded-full">
                     <Wallet className="h-6 w-6 text-blue-600 dark:text-blue-400" />
@@ -195,6 +412,68 @@ export default function DashboardPage() {
               </div>
             </div>
 
+            {/* Cash Flow Cards */}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+              {/* Income */}
+              <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6 border border-gray-200 dark:border-gray-700">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="text-sm font-medium text-gray-600 dark:text-gray-400">
+                      Income
+                    </p>
+                    <p className="text-2xl font-bold text-green-600 dark:text-green-400 mt-1">
+                      {formatPeso(totalIncome)}
+                    </p>
+                  </div>
+                  <div className="p-3 bg-green-100 dark:bg-green-900/30 rounded-full">
+                    <ArrowDownCircle className="h-6 w-6 text-green-600 dark:text-green-400" />
+                  </div>
+                </div>
+              </div>
+
+              {/* Expenses */}
+              <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6 border border-gray-200 dark:border-gray-700">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="text-sm font-medium text-gray-600 dark:text-gray-400">
+                      Expenses
+                    </p>
+                    <p className="text-2xl font-bold text-red-600 dark:text-red-400 mt-1">
+                      {formatPeso(totalSpent)}
+                    </p>
+                  </div>
+                  <div className="p-3 bg-red-100 dark:bg-red-900/30 rounded-full">
+                    <ArrowUpCircle className="h-6 w-6 text-red-600 dark:text-red-400" />
+                  </div>
+                </div>
+              </div>
+
+              {/* Net Cash Flow */}
+              <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6 border border-gray-200 dark:border-gray-700">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="text-sm font-medium text-gray-600 dark:text-gray-400">
+                      Net Cash Flow
+                    </p>
+                    <p className={`text-2xl font-bold mt-1 ${netCashFlow < 0 ? "text-red-600 dark:text-red-400" : "text-green-600 dark:text-green-400"}`}>
+                      {formatPeso(netCashFlow)}
+                    </p>
+                    {debtRepayments !== 0 && (
+                      <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                        Includes {debtRepayments < 0 ? "-" : "+"}{formatPeso(Math.abs(debtRepayments))} in utang repayments
+                      </p>
+                    )}
+                  </div>
+                  <div className={`p-3 rounded-full ${netCashFlow < 0 ? "bg-red-100 dark:bg-red-900/30" : "bg-green-100 dark:bg-green-900/30"}`}>
+                    <Scale className={`h-6 w-6 ${netCashFlow < 0 ? "text-red-600 dark:text-red-400" : "text-green-600 dark:text-green-400"}`} />
+                  </div>
+                </div>
+              </div>
+            </div>
+
+            {/* Savings Goals */}
+            <GoalsWidget />
+
             {/* Progress Bar Section */}
             {budget && (
               <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6 border border-gray-200 dark:border-gray-700 mb-8">
@@ -207,10 +486,60 @@ export default function DashboardPage() {
               </div>
             )}
 
+            {/* Category Limits Section */}
+            {categoryBudgets.length > 0 && (
+              <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6 border border-gray-200 dark:border-gray-700 mb-8">
+                <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+                  Category Budgets
+                </h3>
+                {overLimitCategories.length > 0 && (
+                  <p className="mb-4 text-sm text-red-600 dark:text-red-400 font-medium">
+                    ⚠️ Over the limit for{" "}
+                    {overLimitCategories.map((cat) => cat.category).join(", ")}!
+                  </p>
+                )}
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  {categoryBudgets.map((cat) => (
+                    <div key={cat.id}>
+                      <ProgressBar percentage={cat.percentage} label={cat.category} />
+                      <p className={`text-xs mt-1 ${cat.spent > cat.limit ? "text-red-600 dark:text-red-400" : "text-gray-500 dark:text-gray-400"}`}>
+                        {formatPeso(cat.spent)} of {formatPeso(cat.limit)}
+                        {cat.spent > cat.limit
+                          ? ` • ${formatPeso(cat.spent - cat.limit)} over`
+                          : ` • ${formatPeso(cat.remaining)} left`}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Who Spent What Section */}
+            {householdId && memberSpending.length > 0 && (
+              <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6 border border-gray-200 dark:border-gray-700 mb-8">
+                <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+                  Who Spent What
+                </h3>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  {memberSpending.map((member) => (
+                    <div key={member.user_id}>
+                      <ProgressBar
+                        percentage={totalSpent > 0 ? (member.spent / totalSpent) * 100 : 0}
+                        label={member.user_id === currentUserId ? `${member.name} (you)` : member.name}
+                      />
+                      <p className="text-xs mt-1 text-gray-500 dark:text-gray-400">
+                        {formatPeso(member.spent)} of {formatPeso(totalSpent)} spent this period
+                      </p>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* Charts Section */}
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 mb-8">
-              <CategoryPieChart />
-              <SpendingLineChart days={30} />
+              <CategoryPieChart range={period} refreshKey={dataVersion} />
+              <SpendingLineChart days={30} showIncome range={period} refreshKey={dataVersion} />
             </div>
 
             {/* AI Insights Section */}
@@ -222,18 +551,36 @@ export default function DashboardPage() {
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
               {/* Left Column - Budget & Expense Form */}
               <div className="space-y-6">
-                <BudgetManager onBudgetUpdate={loadBudgetData} />
+                <BudgetManager onBudgetUpdate={handleBudgetUpdate} rollover={rollover} />
                 <AddExpenseForm onExpenseAdded={handleExpenseAdded} />
+                <AddIncomeForm onIncomeAdded={handleIncomeAdded} />
+                <UpcomingCharges
+                  charges={upcomingCharges}
+                  total={upcomingTotal}
+                  remaining={remaining}
+                />
               </div>
 
-              {/* Right Column - Recent Expenses */}
-              <div className="lg:col-span-2">
+              {/* Right Column - Recent Expenses & Income */}
+              <div className="lg:col-span-2 space-y-6">
                 <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6 border border-gray-200 dark:border-gray-700">
                   <ExpenseList
                     expenses={expenses}
+                    members={householdId ? members : undefined}
+                    currentUserId={currentUserId}
                     onExpenseDeleted={handleExpenseDeleted}
+                    onExpenseRestored={loadBudgetData}
+                    onExpenseUpdated={handleExpenseUpdated}
+                    onExpensesChanged={loadBudgetData}
                   />
                 </div>
+
+                <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6 border border-gray-200 dark:border-gray-700">
+                  <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+                    Income This Period
+                  </h3>
+                  <IncomeList incomes={incomes} onIncomeDeleted={loadBudgetData} />
+                </div>
               </div>
             </div>
           </>
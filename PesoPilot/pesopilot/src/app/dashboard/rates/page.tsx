@@ -0,0 +1,18 @@
+"use client";
+
+import DashboardSubpage from "@/components/layout/DashboardSubpage";
+import RateManager from "@/components/currency/RateManager";
+import { Coins } from "lucide-react";
+
+export default function RatesPage() {
+  return (
+    <DashboardSubpage
+      icon={Coins}
+      color="amber"
+      title="Exchange Rates"
+      subtitle="Convert foreign expenses to pesos"
+    >
+      <RateManager />
+    </DashboardSubpage>
+  );
+}
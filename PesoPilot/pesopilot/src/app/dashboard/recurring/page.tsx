@@ -0,0 +1,18 @@
+"use client";
+
+import DashboardSubpage from "@/components/layout/DashboardSubpage";
+import RecurringManager from "@/components/recurring/RecurringManager";
+import { Repeat } from "lucide-react";
+
+export default function RecurringPage() {
+  return (
+    <DashboardSubpage
+      icon={Repeat}
+      color="purple"
+      title="Recurring Expenses"
+      subtitle="Bills and subscriptions"
+    >
+      <RecurringManager />
+    </DashboardSubpage>
+  );
+}
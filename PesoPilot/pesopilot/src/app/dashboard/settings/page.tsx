@@ -0,0 +1,18 @@
+"use client";
+
+import DashboardSubpage from "@/components/layout/DashboardSubpage";
+import TimezoneSettings from "@/components/settings/TimezoneSettings";
+import { Settings } from "lucide-react";
+
+export default function SettingsPage() {
+  return (
+    <DashboardSubpage
+      icon={Settings}
+      color="slate"
+      title="Settings"
+      subtitle="Your profile preferences"
+    >
+      <TimezoneSettings />
+    </DashboardSubpage>
+  );
+}
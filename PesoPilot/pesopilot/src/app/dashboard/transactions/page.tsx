@@ -0,0 +1,38 @@
+"use client";
+
+import { Suspense } from "react";
+import DashboardSubpage, { SubpageLink } from "@/components/layout/DashboardSubpage";
+import TransactionHistory from "@/components/transaction/TransactionHistory";
+import { Download, FileUp, ListFilter } from "lucide-react";
+
+export default function TransactionsPage() {
+  return (
+    <DashboardSubpage
+      icon={ListFilter}
+      color="indigo"
+      title="Transactions"
+      subtitle="Search your full history"
+      actions={
+        <>
+          <SubpageLink href="/dashboard/import" icon={FileUp}>
+            Import CSV
+          </SubpageLink>
+          <SubpageLink href="/dashboard/export" icon={Download}>
+            Export
+          </SubpageLink>
+        </>
+      }
+    >
+      {/* useSearchParams needs a Suspense boundary */}
+      <Suspense
+        fallback={
+          <div className="flex justify-center items-center h-64">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        }
+      >
+        <TransactionHistory />
+      </Suspense>
+    </DashboardSubpage>
+  );
+}
@@ -0,0 +1,18 @@
+"use client";
+
+import DashboardSubpage from "@/components/layout/DashboardSubpage";
+import ExpenseTrash from "@/components/expense/ExpenseTrash";
+import { Trash2 } from "lucide-react";
+
+export default function TrashPage() {
+  return (
+    <DashboardSubpage
+      icon={Trash2}
+      color="rose"
+      title="Trash"
+      subtitle="Restore or permanently delete expenses"
+    >
+      <ExpenseTrash />
+    </DashboardSubpage>
+  );
+}
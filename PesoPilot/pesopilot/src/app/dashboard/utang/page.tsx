@@ -0,0 +1,18 @@
+"use client";
+
+import DashboardSubpage from "@/components/layout/DashboardSubpage";
+import DebtManager from "@/components/debt/DebtManager";
+import { HandCoins } from "lucide-react";
+
+export default function UtangPage() {
+  return (
+    <DashboardSubpage
+      icon={HandCoins}
+      color="violet"
+      title="Utang Tracker"
+      subtitle="Money you lent and borrowed"
+    >
+      <DebtManager />
+    </DashboardSubpage>
+  );
+}
@@ -1,6 +1,8 @@
-import type { Metadata } from "next";
+import type { Metadata, Viewport } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
 import { ThemeProvider } from "@/providers/ThemeProvider";
+import { TimezoneProvider } from "@/providers/TimezoneProvider";
+import { OfflineSyncProvider } from "@/providers/OfflineSyncProvider";
 import "./globals.css";
 
 const geistSans = Geist({
@@ -18,6 +20,10 @@ export const metadata: Metadata = {
   description: "Track your Philippine Peso transactions with ease",
 };
 
+export const viewport: Viewport = {
+  themeColor: "#2563eb",
+};
+
 export default function RootLayout({
   children,
 }: Readonly<{
@@ -28,7 +34,11 @@ export default function RootLayout({
       <body
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
-        <ThemeProvider>{children}</ThemeProvider>
+        <ThemeProvider>
+          <TimezoneProvider>
+            <OfflineSyncProvider>{children}</OfflineSyncProvider>
+          </TimezoneProvider>
+        </ThemeProvider>
       </body>
     </html>
   );
@@ -0,0 +1,21 @@
+import type { MetadataRoute } from "next";
+
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: "PesoPilot - Personal Finance Manager",
+    short_name: "PesoPilot",
+    description: "Track your Philippine Peso transactions with ease",
+    start_url: "/dashboard",
+    display: "standalone",
+    background_color: "#f9fafb",
+    theme_color: "#2563eb",
+    icons: [
+      {
+        src: "/icon.svg",
+        sizes: "any",
+        type: "image/svg+xml",
+        purpose: "any",
+      },
+    ],
+  };
+}
@@ -0,0 +1,427 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import {
+  getAccountBalances,
+  getTransfers,
+  createAccount,
+  archiveAccount,
+  transferBetweenAccounts,
+  deleteTransfer,
+  type AccountBalance,
+  type AccountType,
+  type Transfer,
+} from "@/app/api/accounts";
+import { formatPeso } from "@/utils/currency";
+import AccountSelect from "./AccountSelect";
+import {
+  ArrowRight,
+  Archive,
+  Banknote,
+  CreditCard,
+  Landmark,
+  Plus,
+  Smartphone,
+  Trash2,
+  type LucideIcon,
+} from "lucide-react";
+import { useTimezone } from "@/providers/TimezoneProvider";
+
+const inputClass =
+  "block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white text-sm";
+
+const labelClass =
+  "block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1";
+
+const accountTypes: Record<AccountType, { label: string; icon: LucideIcon }> = {
+  cash: { label: "Cash", icon: Banknote },
+  ewallet: { label: "E-wallet (GCash, Maya)", icon: Smartphone },
+  bank: { label: "Bank / Debit Card", icon: Landmark },
+  credit_card: { label: "Credit Card", icon: CreditCard },
+};
+
+export default function AccountManager() {
+  const { today } = useTimezone();
+  const [accounts, setAccounts] = useState<AccountBalance[]>([]);
+  const [transfers, setTransfers] = useState<Transfer[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [message, setMessage] = useState("");
+
+  const [name, setName] = useState("");
+  const [type, setType] = useState<AccountType>("ewallet");
+  const [openingBalance, setOpeningBalance] = useState("0");
+  const [savingAccount, setSavingAccount] = useState(false);
+
+  const [fromAccountId, setFromAccountId] = useState("");
+  const [toAccountId, setToAccountId] = useState("");
+  const [transferAmount, setTransferAmount] = useState("");
+  const [transferDate, setTransferDate] = useState(today());
+  const [transferNote, setTransferNote] = useState("");
+  const [savingTransfer, setSavingTransfer] = useState(false);
+
+  const loadData = useCallback(async () => {
+    const [balances, transferList] = await Promise.all([
+      getAccountBalances(),
+      getTransfers(),
+    ]);
+    setAccounts(balances);
+    setTransfers(transferList);
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    Promise.all([getAccountBalances(), getTransfers()]).then(([balances, transferList]) => {
+      setAccounts(balances);
+      setTransfers(transferList);
+      setLoading(false);
+    });
+  }, []);
+
+  const openAccounts = accounts.filter((account) => !account.archived);
+  const netWorth = openAccounts.reduce((sum, account) => sum + account.balance, 0);
+  const accountName = (id: string) =>
+    accounts.find((account) => account.id === id)?.name ?? "Unknown account";
+
+  async function handleCreateAccount(e: React.FormEvent) {
+    e.preventDefault();
+    setSavingAccount(true);
+    setMessage("");
+
+    const result = await createAccount(name, type, Number(openingBalance));
+
+    if (result.success) {
+      setMessage("Account added successfully!");
+      setName("");
+      setOpeningBalance("0");
+      await loadData();
+    } else {
+      setMessage(result.error || "Failed to add account");
+    }
+
+    setSavingAccount(false);
+  }
+
+  async function handleTransfer(e: React.FormEvent) {
+    e.preventDefault();
+    setSavingTransfer(true);
+    setMessage("");
+
+    const result = await transferBetweenAccounts(
+      fromAccountId,
+      toAccountId,
+      Number(transferAmount),
+      transferDate,
+      transferNote
+    );
+
+    if (result.success) {
+      setMessage("Transfer recorded successfully!");
+      setTransferAmount("");
+      setTransferNote("");
+      await loadData();
+    } else {
+      setMessage(result.error || "Failed to record transfer");
+    }
+
+    setSavingTransfer(false);
+  }
+
+  async function handleArchive(account: AccountBalance) {
+    if (!confirm(`Archive ${account.name}? Its history stays, but it won't appear in forms.`)) {
+      return;
+    }
+    const result = await archiveAccount(account.id);
+    if (!result.success) setMessage(result.error || "Failed to archive account");
+    await loadData();
+  }
+
+  async function handleDeleteTransfer(id: string) {
+    if (!confirm("Are you sure you want to delete this transfer?")) return;
+    const result = await deleteTransfer(id);
+    if (!result.success) setMessage(result.error || "Failed to delete transfer");
+    await loadData();
+  }
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      {message && (
+        <div
+          className={`px-4 py-3 rounded-md text-sm ${
+            message.includes("success")
+              ? "bg-green-50 dark:bg-green-900/20 text-green-600 dark:text-green-400"
+              : "bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400"
+          }`}
+        >
+          {message}
+        </div>
+      )}
+
+      {/* Balances */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6 border border-gray-200 dark:border-gray-700">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+            Balances
+          </h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Total: <span className={`font-semibold ${netWorth < 0 ? "text-red-600 dark:text-red-400" : "text-gray-900 dark:text-white"}`}>{formatPeso(netWorth)}</span>
+          </p>
+        </div>
+
+        {openAccounts.length === 0 ? (
+          <p className="text-center py-8 text-gray-500 dark:text-gray-400">
+            No accounts yet. Add your wallet, bank or card below.
+          </p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            {openAccounts.map((account) => {
+              const Icon = accountTypes[account.type].icon;
+              return (
+                <div
+                  key={account.id}
+                  className="p-4 bg-gray-50 dark:bg-gray-700/50 rounded-md group"
+                >
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-2 min-w-0">
+                      <Icon className="h-5 w-5 text-blue-600 dark:text-blue-400 shrink-0" />
+                      <p className="text-sm font-medium text-gray-900 dark:text-white truncate">
+                        {account.name}
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => handleArchive(account)}
+                      className="p-1 text-gray-400 hover:text-amber-600 dark:hover:text-amber-400 opacity-0 group-hover:opacity-100 transition-opacity"
+                      title="Archive account"
+                    >
+                      <Archive className="h-4 w-4" />
+                    </button>
+                  </div>
+                  <p className={`text-2xl font-bold mt-2 ${account.balance < 0 ? "text-red-600 dark:text-red-400" : "text-gray-900 dark:text-white"}`}>
+                    {formatPeso(account.balance)}
+                  </p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                    Opening {formatPeso(account.opening_balance)} • +{formatPeso(account.inflow)} • -{formatPeso(account.outflow)}
+                  </p>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        {/* New Account */}
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6 border border-gray-200 dark:border-gray-700 h-fit">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+            New Account
+          </h3>
+          <form onSubmit={handleCreateAccount} className="space-y-4">
+            <div>
+              <label htmlFor="account-name" className={labelClass}>
+                Name
+              </label>
+              <input
+                id="account-name"
+                type="text"
+                required
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                className={inputClass}
+                placeholder="e.g., GCash"
+              />
+            </div>
+            <div>
+              <label htmlFor="account-type" className={labelClass}>
+                Type
+              </label>
+              <select
+                id="account-type"
+                value={type}
+                onChange={(e) => setType(e.target.value as AccountType)}
+                className={inputClass}
+              >
+                {Object.entries(accountTypes).map(([value, { label }]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="account-opening" className={labelClass}>
+                Opening Balance (₱)
+              </label>
+              <input
+                id="account-opening"
+                type="number"
+                step="0.01"
+                required
+                value={openingBalance}
+                onChange={(e) => setOpeningBalance(e.target.value)}
+                className={inputClass}
+              />
+              {type === "credit_card" && (
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                  Enter an outstanding card balance as a negative amount.
+                </p>
+              )}
+            </div>
+            <button
+              type="submit"
+              disabled={savingAccount}
+              className="w-full flex justify-center items-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {savingAccount ? (
+                "Saving..."
+              ) : (
+                <>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Account
+                </>
+              )}
+            </button>
+          </form>
+        </div>
+
+        {/* Transfer */}
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6 border border-gray-200 dark:border-gray-700 h-fit">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-1">
+            Transfer
+          </h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+            Moving money between your accounts is not counted as spending.
+          </p>
+          <form onSubmit={handleTransfer} className="space-y-4">
+            <div>
+              <label htmlFor="transfer-from" className={labelClass}>
+                From
+              </label>
+              <AccountSelect
+                id="transfer-from"
+                required
+                value={fromAccountId}
+                onChange={setFromAccountId}
+                placeholder="Select an account"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label htmlFor="transfer-to" className={labelClass}>
+                To
+              </label>
+              <AccountSelect
+                id="transfer-to"
+                required
+                value={toAccountId}
+                onChange={setToAccountId}
+                placeholder="Select an account"
+                className={inputClass}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label htmlFor="transfer-amount" className={labelClass}>
+                  Amount (₱)
+                </label>
+                <input
+                  id="transfer-amount"
+                  type="number"
+                  min="0.01"
+                  step="0.01"
+                  required
+                  value={transferAmount}
+                  onChange={(e) => setTransferAmount(e.target.value)}
+                  className={inputClass}
+                  placeholder="0.00"
+                />
+              </div>
+              <div>
+                <label htmlFor="transfer-date" className={labelClass}>
+                  Date
+                </label>
+                <input
+                  id="transfer-date"
+                  type="date"
+                  required
+                  value={transferDate}
+                  onChange={(e) => setTransferDate(e.target.value)}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+            <div>
+              <label htmlFor="transfer-note" className={labelClass}>
+                Note (Optional)
+              </label>
+              <input
+                id="transfer-note"
+                type="text"
+                value={transferNote}
+                onChange={(e) => setTransferNote(e.target.value)}
+                className={inputClass}
+                placeholder="e.g., Cash-in from BPI"
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={savingTransfer}
+              className="w-full flex justify-center items-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {savingTransfer ? "Saving..." : "Record Transfer"}
+            </button>
+          </form>
+        </div>
+
+        {/* Recent Transfers */}
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6 border border-gray-200 dark:border-gray-700 h-fit">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+            Recent Transfers
+          </h3>
+          {transfers.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">No transfers yet.</p>
+          ) : (
+            <div className="space-y-2">
+              {transfers.map((transfer) => (
+                <div
+                  key={transfer.id}
+                  className="flex items-center justify-between p-3 bg-gray-50 dark:bg-gray-700/50 rounded-md group"
+                >
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900 dark:text-white flex items-center gap-1 truncate">
+                      {accountName(transfer.from_account_id)}
+                      <ArrowRight className="h-3 w-3 shrink-0" />
+                      {accountName(transfer.to_account_id)}
+                    </p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                      {transfer.date}
+                      {transfer.description && ` • ${transfer.description}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2 ml-3">
+                    <span className="text-sm font-semibold text-gray-700 dark:text-gray-300">
+                      {formatPeso(transfer.amount)}
+                    </span>
+                    <button
+                      onClick={() => handleDeleteTransfer(transfer.id)}
+                      className="p-1 text-gray-400 hover:text-red-600 dark:hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+                      title="Delete transfer"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { getAccounts, type Account } from "@/app/api/accounts";
+import { loadWithOfflineCopy } from "@/utils/offlineStore";
+
+interface AccountSelectProps {
+  id?: string;
+  value: string;
+  onChange: (value: string) => void;
+  required?: boolean;
+  placeholder?: string;
+  className?: string;
+}
+
+/**
+ * Dropdown of the user's open accounts (cash, GCash, cards, ...). Values
+ * are account ids; the empty option means "no account".
+ */
+export default function AccountSelect({
+  id,
+  value,
+  onChange,
+  required = false,
+  placeholder = "No account",
+  className,
+}: AccountSelectProps) {
+  const [accounts, setAccounts] = useState<Account[]>([]);
+
+  useEffect(() => {
+    loadWithOfflineCopy("accounts", getAccounts).then(setAccounts);
+  }, []);
+
+  return (
+    <select
+      id={id}
+      required={required}
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className={className}
+    >
+      <option value="">{placeholder}</option>
+      {accounts.map((account) => (
+        <option key={account.id} value={account.id}>
+          {account.name}
+        </option>
+      ))}
+    </select>
+  );
+}
@@ -0,0 +1,88 @@
+"use client";
+
+import type { ChangeHistory } from "@/app/api/audit";
+import { auditEventTitle, describeChanges, type AuditTable } from "@/utils/audit";
+import { History } from "lucide-react";
+
+interface ChangeTimelineProps {
+  table: AuditTable;
+  history: ChangeHistory;
+}
+
+const formatTimestamp = (value: string) =>
+  new Date(value).toLocaleString("en-PH", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+/** Who changed a row, when, and what it looked like before and after. */
+export default function ChangeTimeline({ table, history }: ChangeTimelineProps) {
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6 border border-gray-200 dark:border-gray-700">
+      <div className="flex items-center mb-4">
+        <History className="h-5 w-5 text-gray-500 dark:text-gray-400 mr-2" />
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Change History</h3>
+      </div>
+
+      {history.events.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          No changes have been recorded yet.
+        </p>
+      ) : (
+        <ol className="relative border-l border-gray-200 dark:border-gray-700 ml-2 space-y-6">
+          {history.events.map((event) => {
+            // A new row lists what it was created with; a deleted one what it last held
+            const changes = describeChanges(
+              table,
+              event.old_values,
+              event.new_values,
+              history.accountNames
+            );
+            const actor = event.changed_by
+              ? history.actorNames[event.changed_by]
+              : "Automatic";
+
+            return (
+              <li key={event.id} className="ml-4">
+                <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border-2 border-white dark:border-gray-800 bg-blue-500" />
+                <p className="text-sm font-medium text-gray-900 dark:text-white">
+                  {auditEventTitle(event.action, event.old_values, event.new_values)}
+                </p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  {actor} • {formatTimestamp(event.changed_at)}
+                </p>
+
+                {changes.length > 0 && (
+                  <dl className="mt-2 space-y-1 text-sm">
+                    {changes.map((change) => (
+                      <div key={change.field} className="flex flex-wrap gap-x-2">
+                        <dt className="text-gray-500 dark:text-gray-400">{change.label}:</dt>
+                        <dd className="text-gray-900 dark:text-white">
+                          {event.action === "update" ? (
+                            <>
+                              <span className="line-through text-gray-400 dark:text-gray-500">
+                                {change.before}
+                              </span>{" "}
+                              → {change.after}
+                            </>
+                          ) : event.action === "create" ? (
+                            change.after
+                          ) : (
+                            change.before
+                          )}
+                        </dd>
+                      </div>
+                    ))}
+                  </dl>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { getBudgetDetail, type ChangeHistory } from "@/app/api/audit";
+import type { Budget } from "@/app/api/budget";
+import ChangeTimeline from "@/components/audit/ChangeTimeline";
+import { formatPeso } from "@/utils/currency";
+import { describePeriod } from "@/utils/period";
+import { ROLLOVER_MODES } from "@/utils/rollover";
+
+/** The budget's current settings, with its change history. */
+export default function BudgetDetail() {
+  const [budget, setBudget] = useState<Budget | null>(null);
+  const [history, setHistory] = useState<ChangeHistory | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    getBudgetDetail().then((detail) => {
+      setBudget(detail.budget);
+      setHistory(detail.history);
+      setLoading(false);
+    });
+  }, []);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (!budget || !history) {
+    return (
+      <div className="text-center py-12 text-gray-500 dark:text-gray-400">
+        <p>No budget set yet.</p>
+        <p className="text-sm mt-1">Set one on the dashboard to start its history.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6 border border-gray-200 dark:border-gray-700 h-fit">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Current Budget</h3>
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          {describePeriod(budget)} spending limit
+        </p>
+        <p className="text-3xl font-bold text-gray-900 dark:text-white mt-2">
+          {formatPeso(budget.amount)}
+        </p>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mt-4">
+          {ROLLOVER_MODES.find((mode) => mode.value === budget.rollover_mode)?.label}
+          {budget.rollover_cap !== null && `, up to ${formatPeso(budget.rollover_cap)}`}
+        </p>
+      </div>
+
+      <div className="lg:col-span-2">
+        <ChangeTimeline table="budgets" history={history} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,195 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { getBudgetHistory, type BudgetHistoryPeriod } from "@/app/api/history";
+import { formatPeso } from "@/utils/currency";
+import ProgressBar from "./ProgressBar";
+import CategoryPieChart from "@/components/charts/CategoryPieChart";
+import { CheckCircle, History, XCircle } from "lucide-react";
+
+const cardClass =
+  "bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6 border border-gray-200 dark:border-gray-700";
+
+/** Every budget period with budget, actual and variance, and one period's breakdown. */
+export default function BudgetHistory() {
+  const [periods, setPeriods] = useState<BudgetHistoryPeriod[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedStart, setSelectedStart] = useState<string | null>(null);
+
+  useEffect(() => {
+    getBudgetHistory().then((list) => {
+      setPeriods(list);
+      setLoading(false);
+    });
+  }, []);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (periods.length === 0) {
+    return (
+      <div className={`${cardClass} text-center text-gray-500 dark:text-gray-400`}>
+        <History className="w-10 h-10 mx-auto mb-3 opacity-50" />
+        <p>Set a budget on the dashboard to start building your history.</p>
+      </div>
+    );
+  }
+
+  const selected = periods.find((period) => period.start === selectedStart) ?? periods[0];
+  const completed = periods.filter((period) => !period.current);
+  const hit = completed.filter((period) => period.variance >= 0).length;
+  const totalVariance = completed.reduce((sum, period) => sum + period.variance, 0);
+  const percentage = selected.budget > 0 ? (selected.spent / selected.budget) * 100 : 0;
+
+  return (
+    <div className="space-y-6">
+      {/* Summary */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className={cardClass}>
+          <p className="text-sm font-medium text-gray-500 dark:text-gray-400">Within budget</p>
+          <p className="text-2xl font-bold text-gray-900 dark:text-white">
+            {hit} of {completed.length}
+          </p>
+          <p className="text-xs text-gray-500 dark:text-gray-400">completed periods</p>
+        </div>
+        <div className={cardClass}>
+          <p className="text-sm font-medium text-gray-500 dark:text-gray-400">Total variance</p>
+          <p
+            className={`text-2xl font-bold ${
+              totalVariance >= 0
+                ? "text-green-600 dark:text-green-400"
+                : "text-red-600 dark:text-red-400"
+            }`}
+          >
+            {totalVariance >= 0 ? "+" : "-"}
+            {formatPeso(Math.abs(totalVariance))}
+          </p>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            {totalVariance >= 0 ? "under budget" : "over budget"} across completed periods
+          </p>
+        </div>
+        <div className={cardClass}>
+          <p className="text-sm font-medium text-gray-500 dark:text-gray-400">Average spent</p>
+          <p className="text-2xl font-bold text-gray-900 dark:text-white">
+            {formatPeso(
+              completed.length > 0
+                ? completed.reduce((sum, period) => sum + period.spent, 0) / completed.length
+                : 0
+            )}
+          </p>
+          <p className="text-xs text-gray-500 dark:text-gray-400">per completed period</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Period list */}
+        <div className={`${cardClass} overflow-x-auto`}>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">Periods</h3>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                <th className="py-2 pr-4 font-medium">Period</th>
+                <th className="py-2 pr-4 font-medium text-right">Budget</th>
+                <th className="py-2 pr-4 font-medium text-right">Actual</th>
+                <th className="py-2 font-medium text-right">Variance</th>
+              </tr>
+            </thead>
+            <tbody>
+              {periods.map((period) => (
+                <tr
+                  key={period.start}
+                  onClick={() => setSelectedStart(period.start)}
+                  className={`border-b border-gray-100 dark:border-gray-700 cursor-pointer transition-colors ${
+                    period.start === selected.start
+                      ? "bg-blue-50 dark:bg-blue-900/20"
+                      : "hover:bg-gray-50 dark:hover:bg-gray-700/50"
+                  }`}
+                >
+                  <td className="py-2 pr-4 text-gray-900 dark:text-white">
+                    <div className="flex items-center gap-2">
+                      {period.current ? (
+                        <span className="px-1.5 py-0.5 text-xs rounded bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300">
+                          Now
+                        </span>
+                      ) : period.variance >= 0 ? (
+                        <CheckCircle className="w-4 h-4 text-green-500" />
+                      ) : (
+                        <XCircle className="w-4 h-4 text-red-500" />
+                      )}
+                      {period.label}
+                    </div>
+                  </td>
+                  <td className="py-2 pr-4 text-right text-gray-600 dark:text-gray-300">
+                    {formatPeso(period.budget)}
+                  </td>
+                  <td className="py-2 pr-4 text-right text-gray-600 dark:text-gray-300">
+                    {formatPeso(period.spent)}
+                  </td>
+                  <td
+                    className={`py-2 text-right font-medium ${
+                      period.variance >= 0
+                        ? "text-green-600 dark:text-green-400"
+                        : "text-red-600 dark:text-red-400"
+                    }`}
+                  >
+                    {period.variance >= 0 ? "+" : "-"}
+                    {formatPeso(Math.abs(period.variance))}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {/* Breakdown */}
+        <div className="space-y-6">
+          <div className={cardClass}>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+              {selected.label}
+            </h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+              {selected.start} to {selected.end}
+              {selected.current && " · in progress"}
+            </p>
+            <ProgressBar percentage={percentage} />
+            <div className="mt-4 grid grid-cols-3 gap-4 text-sm">
+              <div>
+                <p className="text-gray-500 dark:text-gray-400">Budget</p>
+                <p className="font-semibold text-gray-900 dark:text-white">
+                  {formatPeso(selected.budget)}
+                </p>
+              </div>
+              <div>
+                <p className="text-gray-500 dark:text-gray-400">Spent</p>
+                <p className="font-semibold text-gray-900 dark:text-white">
+                  {formatPeso(selected.spent)}
+                </p>
+              </div>
+              <div>
+                <p className="text-gray-500 dark:text-gray-400">
+                  {selected.variance >= 0 ? "Left over" : "Over by"}
+                </p>
+                <p
+                  className={`font-semibold ${
+                    selected.variance >= 0
+                      ? "text-green-600 dark:text-green-400"
+                      : "text-red-600 dark:text-red-400"
+                  }`}
+                >
+                  {formatPeso(Math.abs(selected.variance))}
+                </p>
+              </div>
+            </div>
+          </div>
+
+          <CategoryPieChart key={selected.start} range={selected} />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -3,16 +3,36 @@
 import { useState, useEffect } from "react";
 import { setBudget, getBudget, type Budget } from "@/app/api/budget";
 import { formatPeso } from "@/utils/currency";
-import { Settings, Check } from "lucide-react";
+import { ROLLOVER_MODES, type RolloverMode } from "@/utils/rollover";
+import {
+  BUDGET_PERIODS,
+  describePeriod,
+  getPeriodRange,
+  MAX_SEMI_MONTHLY_START_DAY,
+  periodLabel,
+  WEEKDAYS,
+  type BudgetPeriod,
+} from "@/utils/period";
+import Link from "next/link";
+import { Settings, Check, History } from "lucide-react";
+import { useTimezone } from "@/providers/TimezoneProvider";
+import CategoryLimits from "./CategoryLimits";
 
 interface BudgetManagerProps {
   onBudgetUpdate?: () => void;
+  /** Amount carried into the current period, from the budget summary */
+  rollover?: number;
 }
 
-export default function BudgetManager({ onBudgetUpdate }: BudgetManagerProps) {
+export default function BudgetManager({ onBudgetUpdate, rollover = 0 }: BudgetManagerProps) {
+  const { today } = useTimezone();
   const [budget, setBudgetData] = useState<Budget | null>(null);
   const [amount, setAmount] = useState("");
-  const [period, setPeriod] = useState<"weekly" | "monthly">("monthly");
+  const [period, setPeriod] = useState<BudgetPeriod>("monthly");
+  const [startDay, setStartDay] = useState("");
+  const [anchor, setAnchor] = useState("");
+  const [rolloverMode, setRolloverMode] = useState<RolloverMode>("none");
+  const [rolloverCap, setRolloverCap] = useState("");
   const [loading, setLoading] = useState(false);
   const [saving, setSaving] = useState(false);
   const [message, setMessage] = useState("");
@@ -29,16 +49,35 @@ export default function BudgetManager({ onBudgetUpdate }: BudgetManagerProps) {
     if (data) {
       setAmount(data.amount.toString());
       setPeriod(data.period);
+      setStartDay(data.period_start_day?.toString() ?? "");
+      setAnchor(data.period_anchor ?? "");
+      setRolloverMode(data.rollover_mode);
+      setRolloverCap(data.rollover_cap?.toString() ?? "");
     }
     setLoading(false);
   }
 
+  function handlePeriodChange(value: BudgetPeriod) {
+    setPeriod(value);
+    // Weekdays and days of the month don't carry over between period types
+    setStartDay("");
+  }
+
   async function handleSubmit(e: React.FormEvent) {
     e.preventDefault();
     setSaving(true);
     setMessage("");
 
-    const result = await setBudget(Number(amount), period);
+    const result = await setBudget(
+      Number(amount),
+      {
+        period,
+        period_start_day: startDay === "" || period === "biweekly" ? null : Number(startDay),
+        period_anchor: period === "biweekly" ? anchor : null,
+      },
+      rolloverMode,
+      rolloverCap ? Number(rolloverCap) : null
+    );
 
     if (result.success) {
       setMessage("Budget saved successfully!");
@@ -73,23 +112,55 @@ export default function BudgetManager({ onBudgetUpdate }: BudgetManagerProps) {
               Current Budget
             </h3>
             <p className="text-sm text-gray-500 dark:text-gray-400">
-              {period === "weekly" ? "Weekly" : "Monthly"} spending limit
+              {describePeriod(budget)} spending limit
             </p>
           </div>
-          <button
-            onClick={() => setIsEditing(true)}
-            className="p-2 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md transition-colors"
-          >
-            <Settings className="h-5 w-5" />
-          </button>
+          <div className="flex items-center">
+            <Link
+              href="/dashboard/budget"
+              className="p-2 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md transition-colors"
+              title="Change history"
+            >
+              <History className="h-5 w-5" />
+            </Link>
+            <button
+              onClick={() => setIsEditing(true)}
+              className="p-2 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md transition-colors"
+            >
+              <Settings className="h-5 w-5" />
+            </button>
+          </div>
         </div>
 
         <div className="text-3xl font-bold text-gray-900 dark:text-white">
           {formatPeso(budget.amount)}
         </div>
         <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
-          per {budget.period}
+          per {BUDGET_PERIODS[budget.period].noun} • now{" "}
+          {periodLabel(budget, getPeriodRange(budget, today()))}
         </p>
+
+        {budget.rollover_mode !== "none" && (
+          <div className="mt-4 space-y-1 text-sm">
+            <div className="flex justify-between text-gray-600 dark:text-gray-400">
+              <span>Carried over</span>
+              <span className={rollover < 0 ? "text-red-600 dark:text-red-400" : "text-green-600 dark:text-green-400"}>
+                {rollover < 0 ? "-" : "+"}
+                {formatPeso(Math.abs(rollover))}
+              </span>
+            </div>
+            <div className="flex justify-between font-medium text-gray-900 dark:text-white pt-1 border-t border-gray-200 dark:border-gray-700">
+              <span>Available this {BUDGET_PERIODS[budget.period].noun}</span>
+              <span>{formatPeso(Number(budget.amount) + rollover)}</span>
+            </div>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              {ROLLOVER_MODES.find((mode) => mode.value === budget.rollover_mode)?.label}
+              {budget.rollover_cap !== null && `, up to ${formatPeso(budget.rollover_cap)}`}
+            </p>
+          </div>
+        )}
+
+        <CategoryLimits onChange={onBudgetUpdate} />
       </div>
     );
   }
@@ -144,14 +215,130 @@ export default function BudgetManager({ onBudgetUpdate }: BudgetManagerProps) {
           <select
             id="period"
             value={period}
-            onChange={(e) => setPeriod(e.target.value as "weekly" | "monthly")}
+            onChange={(e) => handlePeriodChange(e.target.value as BudgetPeriod)}
             className="block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white text-sm"
           >
             <option value="weekly">Weekly</option>
+            <option value="biweekly">Bi-weekly</option>
+            <option value="semi_monthly">Semi-monthly (kinsenas)</option>
             <option value="monthly">Monthly</option>
           </select>
         </div>
 
+        {period === "weekly" && (
+          <div>
+            <label
+              htmlFor="period-start-day"
+              className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+            >
+              Week Starts On
+            </label>
+            <select
+              id="period-start-day"
+              value={startDay || "0"}
+              onChange={(e) => setStartDay(e.target.value)}
+              className="block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white text-sm"
+            >
+              {WEEKDAYS.map((weekday, index) => (
+                <option key={weekday} value={index}>
+                  {weekday}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {period === "biweekly" && (
+          <div>
+            <label
+              htmlFor="period-anchor"
+              className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+            >
+              A Recent Payday
+            </label>
+            <input
+              id="period-anchor"
+              type="date"
+              required
+              value={anchor}
+              onChange={(e) => setAnchor(e.target.value)}
+              className="block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white text-sm"
+            />
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              Periods run for two weeks starting from this date.
+            </p>
+          </div>
+        )}
+
+        {(period === "monthly" || period === "semi_monthly") && (
+          <div>
+            <label
+              htmlFor="period-start-day"
+              className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+            >
+              Starts On Day
+            </label>
+            <input
+              id="period-start-day"
+              type="number"
+              min="1"
+              max={period === "semi_monthly" ? MAX_SEMI_MONTHLY_START_DAY : 31}
+              step="1"
+              value={startDay}
+              onChange={(e) => setStartDay(e.target.value)}
+              className="block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white text-sm"
+              placeholder="1"
+            />
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              {period === "semi_monthly"
+                ? `Periods start on day ${startDay || 1} and day ${Number(startDay || 1) + 15}. Use 15 for a 15th and 30th payday.`
+                : "Days past the end of a short month start on its last day."}
+            </p>
+          </div>
+        )}
+
+        <div>
+          <label
+            htmlFor="rollover-mode"
+            className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+          >
+            Leftover Budget
+          </label>
+          <select
+            id="rollover-mode"
+            value={rolloverMode}
+            onChange={(e) => setRolloverMode(e.target.value as RolloverMode)}
+            className="block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white text-sm"
+          >
+            {ROLLOVER_MODES.map((mode) => (
+              <option key={mode.value} value={mode.value}>
+                {mode.label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {rolloverMode !== "none" && (
+          <div>
+            <label
+              htmlFor="rollover-cap"
+              className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+            >
+              Carry At Most (₱, Optional)
+            </label>
+            <input
+              id="rollover-cap"
+              type="number"
+              min="0.01"
+              step="0.01"
+              value={rolloverCap}
+              onChange={(e) => setRolloverCap(e.target.value)}
+              className="block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white text-sm"
+              placeholder="No limit"
+            />
+          </div>
+        )}
+
         <div className="flex space-x-3">
           <button
             type="submit"
@@ -175,6 +362,10 @@ export default function BudgetManager({ onBudgetUpdate }: BudgetManagerProps) {
                 setIsEditing(false);
                 setAmount(budget.amount.toString());
                 setPeriod(budget.period);
+                setStartDay(budget.period_start_day?.toString() ?? "");
+                setAnchor(budget.period_anchor ?? "");
+                setRolloverMode(budget.rollover_mode);
+                setRolloverCap(budget.rollover_cap?.toString() ?? "");
               }}
               className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500 transition-colors"
             >
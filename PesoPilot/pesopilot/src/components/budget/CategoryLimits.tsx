@@ -0,0 +1,130 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import {
+  getCategoryBudgets,
+  setCategoryBudget,
+  deleteCategoryBudget,
+  type CategoryBudget,
+} from "@/app/api/budget";
+import { formatPeso } from "@/utils/currency";
+import CategorySelect from "@/components/category/CategorySelect";
+import { Plus, Trash2 } from "lucide-react";
+
+interface CategoryLimitsProps {
+  onChange?: () => void;
+}
+
+export default function CategoryLimits({ onChange }: CategoryLimitsProps) {
+  const [limits, setLimits] = useState<CategoryBudget[]>([]);
+  const [category, setCategory] = useState("");
+  const [amount, setAmount] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    getCategoryBudgets().then(setLimits);
+  }, []);
+
+  async function refresh() {
+    setLimits(await getCategoryBudgets());
+    onChange?.();
+  }
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setSaving(true);
+    setError("");
+
+    const result = await setCategoryBudget(category, Number(amount));
+
+    if (result.success) {
+      setCategory("");
+      setAmount("");
+      await refresh();
+    } else {
+      setError(result.error || "Failed to save category limit");
+    }
+
+    setSaving(false);
+  }
+
+  async function handleDelete(id: string) {
+    const result = await deleteCategoryBudget(id);
+    if (result.success) {
+      await refresh();
+    } else {
+      setError(result.error || "Failed to remove category limit");
+    }
+  }
+
+  return (
+    <div className="mt-6 pt-6 border-t border-gray-200 dark:border-gray-700">
+      <h4 className="text-sm font-semibold text-gray-900 dark:text-white mb-3">
+        Category Limits
+      </h4>
+
+      {error && (
+        <div className="mb-3 px-3 py-2 rounded-md text-sm bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400">
+          {error}
+        </div>
+      )}
+
+      {limits.length > 0 && (
+        <div className="space-y-2 mb-4">
+          {limits.map((limit) => (
+            <div
+              key={limit.id}
+              className="flex items-center justify-between text-sm group"
+            >
+              <span className="text-gray-700 dark:text-gray-300 truncate">
+                {limit.category}
+              </span>
+              <div className="flex items-center gap-2 ml-4">
+                <span className="font-medium text-gray-900 dark:text-white">
+                  {formatPeso(limit.amount)}
+                </span>
+                <button
+                  onClick={() => handleDelete(limit.id)}
+                  className="p-1 text-gray-400 hover:text-red-600 dark:hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+                  title="Remove limit"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="flex gap-2">
+        <CategorySelect
+          required
+          value={category}
+          onChange={setCategory}
+          placeholder="Category"
+          className="flex-1 min-w-0 px-2 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white text-sm"
+        />
+        <input
+          aria-label="Limit amount"
+          type="number"
+          min="1"
+          step="0.01"
+          required
+          value={amount}
+          onChange={(e) => setAmount(e.target.value)}
+          className="w-28 px-2 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white text-sm"
+          placeholder="₱0.00"
+        />
+        <button
+          type="submit"
+          disabled={saving}
+          className="p-2 rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 transition-colors"
+          title="Set limit"
+        >
+          <Plus className="h-4 w-4" />
+        </button>
+      </form>
+    </div>
+  );
+}
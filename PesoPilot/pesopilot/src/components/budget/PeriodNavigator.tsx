@@ -0,0 +1,78 @@
+"use client";
+
+import {
+  getNextPeriod,
+  getPeriodRange,
+  getPreviousPeriod,
+  periodLabel,
+  type PeriodRange,
+  type PeriodSettings,
+} from "@/utils/period";
+import { CalendarDays, ChevronLeft, ChevronRight } from "lucide-react";
+
+interface PeriodNavigatorProps {
+  settings: PeriodSettings;
+  range: PeriodRange;
+  isCurrent: boolean;
+  /** Called with the period to show, or null to go back to the current one */
+  onChange: (range: PeriodRange | null) => void;
+}
+
+const buttonClass =
+  "p-2 rounded-md text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors";
+
+/** Steps the dashboard through earlier and later budget periods. */
+export default function PeriodNavigator({
+  settings,
+  range,
+  isCurrent,
+  onChange,
+}: PeriodNavigatorProps) {
+  return (
+    <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() => onChange(getPreviousPeriod(settings, range))}
+          className={buttonClass}
+          aria-label="Previous period"
+        >
+          <ChevronLeft className="h-5 w-5" />
+        </button>
+        <div className="min-w-48 text-center">
+          <p className="text-lg font-semibold text-gray-900 dark:text-white">
+            {periodLabel(settings, range)}
+          </p>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            {isCurrent ? "Current period" : `${range.start} to ${range.end}`}
+          </p>
+        </div>
+        <button
+          onClick={() => onChange(getNextPeriod(settings, range))}
+          className={buttonClass}
+          aria-label="Next period"
+        >
+          <ChevronRight className="h-5 w-5" />
+        </button>
+        {!isCurrent && (
+          <button
+            onClick={() => onChange(null)}
+            className="ml-2 px-3 py-1.5 text-sm font-medium text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-md transition-colors"
+          >
+            Back to today
+          </button>
+        )}
+      </div>
+
+      <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+        <CalendarDays className="h-4 w-4" />
+        Jump to
+        <input
+          type="date"
+          value={range.start}
+          onChange={(e) => e.target.value && onChange(getPeriodRange(settings, e.target.value))}
+          className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm"
+        />
+      </label>
+    </div>
+  );
+}
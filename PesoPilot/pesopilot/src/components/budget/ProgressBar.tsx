@@ -3,11 +3,13 @@
 interface ProgressBarProps {
   percentage: number;
   showLabel?: boolean;
+  label?: string;
 }
 
 export default function ProgressBar({
   percentage,
   showLabel = true,
+  label = "Budget Used",
 }: ProgressBarProps) {
   const clampedPercentage = Math.min(Math.max(percentage, 0), 100);
 
@@ -21,7 +23,7 @@ export default function ProgressBar({
       {showLabel && (
         <div className="flex justify-between mb-1">
           <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
-            Budget Used
+            {label}
           </span>
           <span
             className={`text-sm font-medium ${
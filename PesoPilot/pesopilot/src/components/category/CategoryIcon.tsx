@@ -0,0 +1,79 @@
+"use client";
+
+import {
+  Baby,
+  Book,
+  Briefcase,
+  Bus,
+  Car,
+  Coffee,
+  Dog,
+  Dumbbell,
+  Film,
+  Fuel,
+  Gamepad2,
+  Gift,
+  GraduationCap,
+  HeartPulse,
+  House,
+  Music,
+  PiggyBank,
+  Pill,
+  Plane,
+  Receipt,
+  Shirt,
+  ShoppingBag,
+  Smartphone,
+  Tag,
+  Utensils,
+  Wallet,
+  Wifi,
+  Zap,
+  type LucideIcon,
+} from "lucide-react";
+
+export const categoryIcons: Record<string, LucideIcon> = {
+  utensils: Utensils,
+  coffee: Coffee,
+  car: Car,
+  bus: Bus,
+  fuel: Fuel,
+  plane: Plane,
+  "shopping-bag": ShoppingBag,
+  shirt: Shirt,
+  gift: Gift,
+  film: Film,
+  music: Music,
+  "gamepad-2": Gamepad2,
+  receipt: Receipt,
+  zap: Zap,
+  wifi: Wifi,
+  smartphone: Smartphone,
+  house: House,
+  "heart-pulse": HeartPulse,
+  pill: Pill,
+  dumbbell: Dumbbell,
+  "graduation-cap": GraduationCap,
+  book: Book,
+  baby: Baby,
+  dog: Dog,
+  briefcase: Briefcase,
+  wallet: Wallet,
+  "piggy-bank": PiggyBank,
+  tag: Tag,
+};
+
+interface CategoryIconProps {
+  icon: string;
+  color?: string;
+  className?: string;
+}
+
+export default function CategoryIcon({
+  icon,
+  color,
+  className = "h-4 w-4",
+}: CategoryIconProps) {
+  const Icon = categoryIcons[icon] ?? Tag;
+  return <Icon className={className} style={color ? { color } : undefined} />;
+}
@@ -0,0 +1,404 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import {
+  getCategories,
+  createCategory,
+  updateCategory,
+  mergeCategories,
+  archiveCategory,
+  type Category,
+} from "@/app/api/categories";
+import { CATEGORY_COLORS } from "@/utils/categories";
+import CategoryIcon, { categoryIcons } from "./CategoryIcon";
+import { Archive, ArchiveRestore, Check, GitMerge, Pencil, Plus, X } from "lucide-react";
+
+const inputClass =
+  "block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white text-sm";
+
+const labelClass =
+  "block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1";
+
+export default function CategoryManager() {
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showArchived, setShowArchived] = useState(false);
+  const [message, setMessage] = useState("");
+  const [processingId, setProcessingId] = useState<string | null>(null);
+
+  const [name, setName] = useState("");
+  const [color, setColor] = useState(CATEGORY_COLORS[0]);
+  const [icon, setIcon] = useState("tag");
+  const [parentId, setParentId] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState("");
+  const [editColor, setEditColor] = useState("");
+  const [mergingId, setMergingId] = useState<string | null>(null);
+  const [mergeTarget, setMergeTarget] = useState("");
+
+  const loadCategories = useCallback(async () => {
+    const data = await getCategories(true);
+    setCategories(data);
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    getCategories(true).then((data) => {
+      setCategories(data);
+      setLoading(false);
+    });
+  }, []);
+
+  const active = categories.filter((category) => !category.archived);
+  const visible = showArchived ? categories : active;
+  const roots = visible.filter(
+    (category) => !category.parent_id || !visible.some((c) => c.id === category.parent_id)
+  );
+
+  async function handleCreate(e: React.FormEvent) {
+    e.preventDefault();
+    setSaving(true);
+    setMessage("");
+
+    const result = await createCategory(name, color, icon, parentId || null);
+
+    if (result.success) {
+      setMessage("Category created successfully!");
+      setName("");
+      setParentId("");
+      await loadCategories();
+    } else {
+      setMessage(result.error || "Failed to create category");
+    }
+
+    setSaving(false);
+  }
+
+  async function runAction(
+    categoryId: string,
+    action: () => Promise<{ success: boolean; error?: string }>,
+    successMessage: string
+  ) {
+    setProcessingId(categoryId);
+    setMessage("");
+    const result = await action();
+    setMessage(result.success ? successMessage : result.error || "Something went wrong");
+    await loadCategories();
+    setProcessingId(null);
+  }
+
+  async function handleSave(category: Category) {
+    await runAction(
+      category.id,
+      () => updateCategory(category.id, { name: editName, color: editColor }),
+      "Category updated successfully!"
+    );
+    setEditingId(null);
+  }
+
+  async function handleMerge(category: Category) {
+    const target = categories.find((c) => c.id === mergeTarget);
+    if (!target) return;
+    if (!confirm(`Move every "${category.name}" expense to "${target.name}" and remove "${category.name}"?`)) {
+      return;
+    }
+
+    await runAction(
+      category.id,
+      () => mergeCategories(category.id, target.id),
+      `Merged into ${target.name} successfully!`
+    );
+    setMergingId(null);
+    setMergeTarget("");
+  }
+
+  function renderRow(category: Category, isChild: boolean) {
+    const isEditing = editingId === category.id;
+    const isMerging = mergingId === category.id;
+
+    return (
+      <div
+        key={category.id}
+        className={`p-3 bg-gray-50 dark:bg-gray-700/50 rounded-md ${isChild ? "ml-8" : ""} ${category.archived ? "opacity-60" : ""}`}
+      >
+        <div className="flex items-center justify-between gap-3">
+          <div className="flex items-center gap-3 flex-1 min-w-0">
+            {isEditing ? (
+              <input
+                type="color"
+                value={editColor}
+                onChange={(e) => setEditColor(e.target.value)}
+                className="h-6 w-6 rounded cursor-pointer border-0 bg-transparent p-0"
+                aria-label="Colour"
+              />
+            ) : (
+              <span
+                className="h-3 w-3 rounded-full shrink-0"
+                style={{ backgroundColor: category.color }}
+              />
+            )}
+            <CategoryIcon icon={category.icon} color={category.color} />
+            {isEditing ? (
+              <input
+                autoFocus
+                value={editName}
+                onChange={(e) => setEditName(e.target.value)}
+                className="flex-1 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white text-sm"
+              />
+            ) : (
+              <span className="text-sm font-medium text-gray-900 dark:text-white truncate">
+                {category.name}
+                {category.archived && (
+                  <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">(archived)</span>
+                )}
+              </span>
+            )}
+          </div>
+
+          <div className="flex items-center gap-1">
+            {isEditing ? (
+              <>
+                <button
+                  onClick={() => handleSave(category)}
+                  disabled={processingId === category.id}
+                  className="p-1 text-gray-400 hover:text-green-600 dark:hover:text-green-400"
+                  title="Save"
+                >
+                  <Check className="h-4 w-4" />
+                </button>
+                <button
+                  onClick={() => setEditingId(null)}
+                  className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+                  title="Cancel"
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              </>
+            ) : (
+              <>
+                <button
+                  onClick={() => {
+                    setEditingId(category.id);
+                    setEditName(category.name);
+                    setEditColor(category.color);
+                  }}
+                  className="p-1 text-gray-400 hover:text-blue-600 dark:hover:text-blue-400"
+                  title="Rename or recolour"
+                >
+                  <Pencil className="h-4 w-4" />
+                </button>
+                <button
+                  onClick={() => {
+                    setMergingId(isMerging ? null : category.id);
+                    setMergeTarget("");
+                  }}
+                  className="p-1 text-gray-400 hover:text-purple-600 dark:hover:text-purple-400"
+                  title="Merge into another category"
+                >
+                  <GitMerge className="h-4 w-4" />
+                </button>
+                <button
+                  onClick={() =>
+                    runAction(
+                      category.id,
+                      () => archiveCategory(category.id, !category.archived),
+                      category.archived
+                        ? "Category restored successfully!"
+                        : "Category archived successfully!"
+                    )
+                  }
+                  disabled={processingId === category.id}
+                  className="p-1 text-gray-400 hover:text-amber-600 dark:hover:text-amber-400"
+                  title={category.archived ? "Restore" : "Archive"}
+                >
+                  {category.archived ? (
+                    <ArchiveRestore className="h-4 w-4" />
+                  ) : (
+                    <Archive className="h-4 w-4" />
+                  )}
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+
+        {isMerging && (
+          <div className="flex gap-2 mt-3">
+            <select
+              value={mergeTarget}
+              onChange={(e) => setMergeTarget(e.target.value)}
+              className="flex-1 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white text-sm"
+            >
+              <option value="">Merge into…</option>
+              {active
+                .filter((c) => c.id !== category.id)
+                .map((c) => (
+                  <option key={c.id} value={c.id}>
+                    {c.name}
+                  </option>
+                ))}
+            </select>
+            <button
+              onClick={() => handleMerge(category)}
+              disabled={!mergeTarget || processingId === category.id}
+              className="px-3 py-1 rounded-md text-sm font-medium text-white bg-purple-600 hover:bg-purple-700 disabled:opacity-50 transition-colors"
+            >
+              Merge
+            </button>
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+      {/* New Category Form */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6 border border-gray-200 dark:border-gray-700 h-fit">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+          New Category
+        </h3>
+
+        {message && (
+          <div
+            className={`mb-4 px-4 py-3 rounded-md text-sm ${
+              message.includes("success")
+                ? "bg-green-50 dark:bg-green-900/20 text-green-600 dark:text-green-400"
+                : "bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400"
+            }`}
+          >
+            {message}
+          </div>
+        )}
+
+        <form onSubmit={handleCreate} className="space-y-4">
+          <div>
+            <label htmlFor="category-name" className={labelClass}>
+              Name
+            </label>
+            <input
+              id="category-name"
+              type="text"
+              required
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className={inputClass}
+              placeholder="e.g., Grab"
+            />
+          </div>
+
+          <div>
+            <label htmlFor="category-parent" className={labelClass}>
+              Parent (Optional)
+            </label>
+            <select
+              id="category-parent"
+              value={parentId}
+              onChange={(e) => setParentId(e.target.value)}
+              className={inputClass}
+            >
+              <option value="">None (top level)</option>
+              {active
+                .filter((category) => !category.parent_id)
+                .map((category) => (
+                  <option key={category.id} value={category.id}>
+                    {category.name}
+                  </option>
+                ))}
+            </select>
+          </div>
+
+          <div>
+            <span className={labelClass}>Colour</span>
+            <div className="flex flex-wrap gap-2">
+              {CATEGORY_COLORS.map((swatch) => (
+                <button
+                  key={swatch}
+                  type="button"
+                  onClick={() => setColor(swatch)}
+                  className={`h-7 w-7 rounded-full border-2 ${color === swatch ? "border-gray-900 dark:border-white" : "border-transparent"}`}
+                  style={{ backgroundColor: swatch }}
+                  aria-label={`Colour ${swatch}`}
+                />
+              ))}
+              <input
+                type="color"
+                value={color}
+                onChange={(e) => setColor(e.target.value)}
+                className="h-7 w-7 rounded cursor-pointer border-0 bg-transparent p-0"
+                aria-label="Custom colour"
+              />
+            </div>
+          </div>
+
+          <div>
+            <span className={labelClass}>Icon</span>
+            <div className="grid grid-cols-7 gap-2">
+              {Object.keys(categoryIcons).map((key) => (
+                <button
+                  key={key}
+                  type="button"
+                  onClick={() => setIcon(key)}
+                  className={`p-2 rounded-md flex items-center justify-center ${icon === key ? "bg-blue-100 dark:bg-blue-900/30" : "hover:bg-gray-100 dark:hover:bg-gray-700"}`}
+                  title={key}
+                >
+                  <CategoryIcon icon={key} color={icon === key ? color : undefined} />
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <button
+            type="submit"
+            disabled={saving}
+            className="w-full flex justify-center items-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {saving ? (
+              "Saving..."
+            ) : (
+              <>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Category
+              </>
+            )}
+          </button>
+        </form>
+      </div>
+
+      {/* Category List */}
+      <div className="lg:col-span-2 bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6 border border-gray-200 dark:border-gray-700">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+            Your Categories
+          </h3>
+          <label className="flex items-center text-sm text-gray-600 dark:text-gray-400">
+            <input
+              type="checkbox"
+              checked={showArchived}
+              onChange={(e) => setShowArchived(e.target.checked)}
+              className="mr-2 rounded border-gray-300 dark:border-gray-600"
+            />
+            Show archived
+          </label>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center items-center h-32">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {roots.map((root) => [
+              renderRow(root, false),
+              ...visible
+                .filter((child) => child.parent_id === root.id)
+                .map((child) => renderRow(child, true)),
+            ])}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
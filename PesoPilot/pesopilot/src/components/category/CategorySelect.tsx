@@ -0,0 +1,74 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { getCategories, type Category } from "@/app/api/categories";
+import { loadWithOfflineCopy } from "@/utils/offlineStore";
+
+interface CategorySelectProps {
+  id?: string;
+  value: string;
+  onChange: (value: string) => void;
+  required?: boolean;
+  placeholder?: string;
+  className?: string;
+}
+
+/**
+ * Order categories so each parent is followed by its children, labelling
+ * children as "Parent › Child".
+ */
+function toOptions(categories: Category[]): { name: string; label: string }[] {
+  const byId = new Map(categories.map((category) => [category.id, category]));
+  const roots = categories.filter(
+    (category) => !category.parent_id || !byId.has(category.parent_id)
+  );
+
+  return roots.flatMap((root) => [
+    { name: root.name, label: root.name },
+    ...categories
+      .filter((child) => child.parent_id === root.id)
+      .map((child) => ({ name: child.name, label: `${root.name} › ${child.name}` })),
+  ]);
+}
+
+/**
+ * Category dropdown backed by the user's own category list. Values are
+ * category names, which is what expenses store.
+ */
+export default function CategorySelect({
+  id,
+  value,
+  onChange,
+  required = false,
+  placeholder = "Select a category",
+  className,
+}: CategorySelectProps) {
+  const [categories, setCategories] = useState<Category[]>([]);
+
+  useEffect(() => {
+    // Offline, fall back to the list as last loaded so expenses can still be queued
+    loadWithOfflineCopy("categories", getCategories).then(setCategories);
+  }, []);
+
+  const options = toOptions(categories);
+  // Keep an archived or renamed-away value selectable while editing old rows
+  const hasValue = !value || options.some((option) => option.name === value);
+
+  return (
+    <select
+      id={id}
+      required={required}
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className={className}
+    >
+      <option value="">{placeholder}</option>
+      {!hasValue && <option value={value}>{value}</option>}
+      {options.map((option) => (
+        <option key={option.name} value={option.name}>
+          {option.label}
+        </option>
+      ))}
+    </select>
+  );
+}
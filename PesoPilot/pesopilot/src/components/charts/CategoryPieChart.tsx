@@ -3,6 +3,8 @@
 import { useState, useEffect } from "react";
 import { getExpensesByCategory, type CategoryData } from "@/app/api/budget";
 import { formatPeso } from "@/utils/currency";
+import { isNetworkError } from "@/utils/expenseQueue";
+import type { PeriodRange } from "@/utils/period";
 import {
   PieChart,
   Pie,
@@ -13,19 +15,52 @@ import {
 } from "recharts";
 import { PieChart as PieChartIcon } from "lucide-react";
 
-export default function CategoryPieChart() {
+interface CategoryPieChartProps {
+  /** Period to chart; the current month when omitted */
+  range?: PeriodRange;
+  /** Changes whenever the expenses behind the chart do, to load them again */
+  refreshKey?: number;
+}
+
+function CustomTooltip({
+  active,
+  payload,
+  total,
+}: {
+  active?: boolean;
+  payload?: any[];
+  total: number;
+}) {
+  if (active && payload && payload.length) {
+    const data = payload[0].payload;
+    const percentage = ((data.value / total) * 100).toFixed(1);
+    return (
+      <div className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg p-3 shadow-lg">
+        <p className="font-medium text-gray-900 dark:text-white">{data.name}</p>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          {formatPeso(data.value)} ({percentage}%)
+        </p>
+      </div>
+    );
+  }
+  return null;
+}
+
+export default function CategoryPieChart({ range, refreshKey }: CategoryPieChartProps) {
   const [data, setData] = useState<CategoryData[]>([]);
   const [loading, setLoading] = useState(true);
+  const start = range?.start;
+  const end = range?.end;
 
   useEffect(() => {
-    loadData();
-  }, []);
-
-  async function loadData() {
-    const categoryData = await getExpensesByCategory();
-    setData(categoryData);
-    setLoading(false);
-  }
+    getExpensesByCategory(start && end ? { start, end } : undefined)
+      .then(setData)
+      .catch((error) => {
+        // Offline: an empty chart rather than a spinner that never stops
+        if (!isNetworkError(error)) console.error("Error loading category chart:", error);
+      })
+      .finally(() => setLoading(false));
+  }, [start, end, refreshKey]);
 
   const total = data.reduce((sum, item) => sum + item.value, 0);
 
@@ -55,28 +90,12 @@ export default function CategoryPieChart() {
           </h3>
         </div>
         <div className="h-64 flex items-center justify-center text-gray-500 dark:text-gray-400">
-          <p>No expenses recorded this month</p>
+          <p>No expenses recorded this {range ? "period" : "month"}</p>
         </div>
       </div>
     );
   }
 
-  const CustomTooltip = ({ active, payload }: { active?: boolean; payload?: any[] }) => {
-    if (active && payload && payload.length) {
-      const data = payload[0].payload;
-      const percentage = ((data.value / total) * 100).toFixed(1);
-      return (
-        <div className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg p-3 shadow-lg">
-          <p className="font-medium text-gray-900 dark:text-white">{data.name}</p>
-          <p className="text-sm text-gray-600 dark:text-gray-400">
-            {formatPeso(data.value)} ({percentage}%)
-          </p>
-        </div>
-      );
-    }
-    return null;
-  };
-
   return (
     <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6 border border-gray-200 dark:border-gray-700">
       <div className="flex items-center justify-between mb-4">
@@ -107,7 +126,7 @@ export default function CategoryPieChart() {
                 <Cell key={`cell-${index}`} fill={entry.color || "#3B82F6"} />
               ))}
             </Pie>
-            <Tooltip content={<CustomTooltip />} />
+            <Tooltip content={<CustomTooltip total={total} />} />
             <Legend
               verticalAlign="middle"
               align="right"
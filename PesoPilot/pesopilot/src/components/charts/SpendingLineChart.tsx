@@ -3,6 +3,8 @@
 import { useState, useEffect } from "react";
 import { getSpendingOverTime, type SpendingData } from "@/app/api/budget";
 import { formatPeso } from "@/utils/currency";
+import { isNetworkError } from "@/utils/expenseQueue";
+import type { PeriodRange } from "@/utils/period";
 import {
   LineChart,
   Line,
@@ -11,33 +13,79 @@ import {
   CartesianGrid,
   Tooltip,
   ResponsiveContainer,
+  Legend,
 } from "recharts";
 import { TrendingUp } from "lucide-react";
 
 interface SpendingLineChartProps {
   days?: number;
+  showIncome?: boolean;
+  /** Period to chart instead of the last few days */
+  range?: PeriodRange;
+  /** Changes whenever the expenses behind the chart do, to load them again */
+  refreshKey?: number;
 }
 
-export default function SpendingLineChart({ days = 30 }: SpendingLineChartProps) {
+// Format date for display
+const formatDate = (dateStr: string) => {
+  const date = new Date(dateStr);
+  return date.toLocaleDateString("en-PH", { month: "short", day: "numeric" });
+};
+
+function CustomTooltip({
+  active,
+  payload,
+  label,
+  compareIncome,
+}: {
+  active?: boolean;
+  payload?: any[];
+  label?: string;
+  compareIncome: boolean;
+}) {
+  if (active && payload && payload.length) {
+    return (
+      <div className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg p-3 shadow-lg">
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-1">
+          {formatDate(label || "")}
+        </p>
+        {payload.map((entry) => (
+          <p
+            key={entry.dataKey}
+            className="font-medium text-gray-900 dark:text-white"
+          >
+            {compareIncome && `${entry.name}: `}
+            {formatPeso(entry.value)}
+          </p>
+        ))}
+      </div>
+    );
+  }
+  return null;
+}
+
+export default function SpendingLineChart({
+  days = 30,
+  showIncome = false,
+  range,
+  refreshKey,
+}: SpendingLineChartProps) {
   const [data, setData] = useState<SpendingData[]>([]);
   const [loading, setLoading] = useState(true);
   const [timeRange, setTimeRange] = useState(days);
+  const [compareIncome, setCompareIncome] = useState(showIncome);
+  const start = range?.start;
+  const end = range?.end;
 
   useEffect(() => {
-    loadData();
-  }, [timeRange]);
-
-  async function loadData() {
-    const spendingData = await getSpendingOverTime(timeRange);
-    setData(spendingData);
-    setLoading(false);
-  }
-
-  // Format date for display
-  const formatDate = (dateStr: string) => {
-    const date = new Date(dateStr);
-    return date.toLocaleDateString("en-PH", { month: "short", day: "numeric" });
-  };
+    getSpendingOverTime(timeRange, start && end ? { start, end } : undefined)
+      .then(setData)
+      .catch((error) => {
+        // Offline: an empty chart rather than a spinner that never stops
+        if (!isNetworkError(error)) console.error("Error loading spending chart:", error);
+      })
+      .finally(() => setLoading(false));
+  }, [timeRange, start, end, refreshKey]);
 
   // Calculate total spending for the period
   const totalSpent = data.reduce((sum, item) => sum + item.amount, 0);
@@ -45,6 +93,9 @@ export default function SpendingLineChart({ days = 30 }: SpendingLineChartProps)
   // Find max daily spending
   const maxDailySpent = Math.max(...data.map((item) => item.amount), 0);
 
+  // Calculate total inflow for the period
+  const totalIncome = data.reduce((sum, item) => sum + item.income, 0);
+
   if (loading) {
     return (
       <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6 border border-gray-200 dark:border-gray-700">
@@ -77,22 +128,6 @@ export default function SpendingLineChart({ days = 30 }: SpendingLineChartProps)
     );
   }
 
-  const CustomTooltip = ({ active, payload, label }: { active?: boolean; payload?: any[]; label?: string }) => {
-    if (active && payload && payload.length) {
-      return (
-        <div className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg p-3 shadow-lg">
-          <p className="text-sm text-gray-500 dark:text-gray-400 mb-1">
-            {formatDate(label || "")}
-          </p>
-          <p className="font-medium text-gray-900 dark:text-white">
-            {formatPeso(payload[0].value)}
-          </p>
-        </div>
-      );
-    }
-    return null;
-  };
-
   return (
     <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6 border border-gray-200 dark:border-gray-700">
       <div className="flex items-center justify-between mb-4">
@@ -103,20 +138,31 @@ export default function SpendingLineChart({ days = 30 }: SpendingLineChartProps)
           </h3>
         </div>
         <div className="flex items-center space-x-4">
-          <select
-            value={timeRange}
-            onChange={(e) => setTimeRange(Number(e.target.value))}
-            className="text-sm border border-gray-300 dark:border-gray-600 rounded-md px-2 py-1 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
-          >
-            <option value={7}>Last 7 days</option>
-            <option value={14}>Last 14 days</option>
-            <option value={30}>Last 30 days</option>
-          </select>
+          <label className="flex items-center text-sm text-gray-600 dark:text-gray-400">
+            <input
+              type="checkbox"
+              checked={compareIncome}
+              onChange={(e) => setCompareIncome(e.target.checked)}
+              className="mr-2 rounded border-gray-300 dark:border-gray-600"
+            />
+            Income
+          </label>
+          {!range && (
+            <select
+              value={timeRange}
+              onChange={(e) => setTimeRange(Number(e.target.value))}
+              className="text-sm border border-gray-300 dark:border-gray-600 rounded-md px-2 py-1 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+            >
+              <option value={7}>Last 7 days</option>
+              <option value={14}>Last 14 days</option>
+              <option value={30}>Last 30 days</option>
+            </select>
+          )}
         </div>
       </div>
 
       {/* Stats summary */}
-      <div className="grid grid-cols-2 gap-4 mb-4">
+      <div className={`grid gap-4 mb-4 ${compareIncome ? "grid-cols-3" : "grid-cols-2"}`}>
         <div className="bg-gray-50 dark:bg-gray-700/50 rounded-md p-3">
           <p className="text-xs text-gray-500 dark:text-gray-400">Total Spent</p>
           <p className="text-lg font-semibold text-gray-900 dark:text-white">
@@ -129,6 +175,14 @@ export default function SpendingLineChart({ days = 30 }: SpendingLineChartProps)
             {formatPeso(maxDailySpent)}
           </p>
         </div>
+        {compareIncome && (
+          <div className="bg-gray-50 dark:bg-gray-700/50 rounded-md p-3">
+            <p className="text-xs text-gray-500 dark:text-gray-400">Total Income</p>
+            <p className="text-lg font-semibold text-green-600 dark:text-green-400">
+              {formatPeso(totalIncome)}
+            </p>
+          </div>
+        )}
       </div>
 
       <div className="h-64">
@@ -151,15 +205,30 @@ export default function SpendingLineChart({ days = 30 }: SpendingLineChartProps)
               tick={{ fontSize: 10 }}
               stroke="#6b7280"
             />
-            <Tooltip content={<CustomTooltip />} />
+            <Tooltip content={<CustomTooltip compareIncome={compareIncome} />} />
+            {compareIncome && (
+              <Legend verticalAlign="top" height={24} wrapperStyle={{ fontSize: "12px" }} />
+            )}
             <Line
               type="monotone"
               dataKey="amount"
+              name="Outflow"
               stroke="#3B82F6"
               strokeWidth={2}
               dot={false}
               activeDot={{ r: 6, fill: "#3B82F6" }}
             />
+            {compareIncome && (
+              <Line
+                type="monotone"
+                dataKey="income"
+                name="Inflow"
+                stroke="#10B981"
+                strokeWidth={2}
+                dot={false}
+                activeDot={{ r: 6, fill: "#10B981" }}
+              />
+            )}
           </LineChart>
         </ResponsiveContainer>
       </div>
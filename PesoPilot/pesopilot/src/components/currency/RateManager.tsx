@@ -0,0 +1,327 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import {
+  deleteExchangeRate,
+  getExchangeRates,
+  importExchangeRates,
+  saveExchangeRate,
+  type ExchangeRate,
+  type ExchangeRateInput,
+} from "@/app/api/rates";
+import { parseCsv } from "@/utils/csv";
+import { parseDate } from "@/utils/import";
+import { BASE_CURRENCY, CURRENCIES } from "@/utils/currency";
+import { FileUp, Plus, Trash2 } from "lucide-react";
+import { useTimezone } from "@/providers/TimezoneProvider";
+
+const inputClass =
+  "block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white text-sm";
+
+const labelClass =
+  "block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1";
+
+const foreignCurrencies = CURRENCIES.filter((currency) => currency !== BASE_CURRENCY);
+
+// Rates for currencies like IDR are fractions of a centavo, so keep the precision
+function formatRate(rate: number): string {
+  return `₱${Number(rate).toLocaleString("en-PH", { maximumFractionDigits: 6 })}`;
+}
+
+/**
+ * Read a rates CSV with currency, rate and date columns (in any order).
+ * Returns the rates or the first problem found.
+ */
+function parseRatesCsv(text: string): { rates: ExchangeRateInput[]; error?: string } {
+  const [header, ...rows] = parseCsv(text);
+  const columns = (header ?? []).map((cell) => cell.trim().toLowerCase());
+  const currencyIndex = columns.findIndex((cell) => cell.includes("currency"));
+  const rateIndex = columns.findIndex((cell) => cell.includes("rate"));
+  const dateIndex = columns.findIndex((cell) => cell.includes("date"));
+
+  if (currencyIndex < 0 || rateIndex < 0 || dateIndex < 0) {
+    return { rates: [], error: "The first row must name the currency, rate and date columns." };
+  }
+
+  const rates: ExchangeRateInput[] = [];
+  for (const [i, row] of rows.entries()) {
+    const date = parseDate((row[dateIndex] ?? "").trim(), "YYYY-MM-DD");
+    if (!date) return { rates: [], error: `Row ${i + 2}: the date must be in YYYY-MM-DD format.` };
+
+    rates.push({
+      currency: (row[currencyIndex] ?? "").trim().toUpperCase(),
+      rate: Number((row[rateIndex] ?? "").replace(/[,\s]/g, "")),
+      effective_date: date,
+    });
+  }
+
+  return { rates };
+}
+
+export default function RateManager() {
+  const { today } = useTimezone();
+  const [rates, setRates] = useState<ExchangeRate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [message, setMessage] = useState("");
+
+  const [currency, setCurrency] = useState("USD");
+  const [rate, setRate] = useState("");
+  const [effectiveDate, setEffectiveDate] = useState(today());
+  const [saving, setSaving] = useState(false);
+  const [importing, setImporting] = useState(false);
+
+  const loadRates = useCallback(async () => {
+    setRates(await getExchangeRates());
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    getExchangeRates().then((list) => {
+      setRates(list);
+      setLoading(false);
+    });
+  }, []);
+
+  // Rates come sorted by currency, newest first, so the first of each is current
+  const latest = rates.filter(
+    (entry, index) => index === 0 || rates[index - 1].currency !== entry.currency
+  );
+
+  async function handleSave(e: React.FormEvent) {
+    e.preventDefault();
+    setSaving(true);
+    setMessage("");
+
+    const result = await saveExchangeRate({
+      currency,
+      rate: Number(rate),
+      effective_date: effectiveDate,
+    });
+
+    if (result.success) {
+      setMessage("Rate saved successfully!");
+      setRate("");
+      await loadRates();
+    } else {
+      setMessage(result.error || "Failed to save rate");
+    }
+
+    setSaving(false);
+  }
+
+  async function handleImport(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    setImporting(true);
+    setMessage("");
+
+    const parsed = parseRatesCsv(await file.text());
+    const result = parsed.error
+      ? { success: false, error: parsed.error, imported: 0 }
+      : await importExchangeRates(parsed.rates);
+
+    if (result.success) {
+      setMessage(`Imported ${result.imported} rate${result.imported === 1 ? "" : "s"} successfully!`);
+      await loadRates();
+    } else {
+      setMessage(result.error || "Failed to import rates");
+    }
+
+    setImporting(false);
+  }
+
+  async function handleDelete(entry: ExchangeRate) {
+    if (!confirm(`Delete the ${entry.currency} rate from ${entry.effective_date}?`)) return;
+    const result = await deleteExchangeRate(entry.id);
+    if (!result.success) setMessage(result.error || "Failed to delete rate");
+    await loadRates();
+  }
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      {message && (
+        <div
+          className={`px-4 py-3 rounded-md text-sm ${
+            message.includes("success")
+              ? "bg-green-50 dark:bg-green-900/20 text-green-600 dark:text-green-400"
+              : "bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400"
+          }`}
+        >
+          {message}
+        </div>
+      )}
+
+      {/* Current Rates */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6 border border-gray-200 dark:border-gray-700">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+          Current Rates
+        </h3>
+
+        {latest.length === 0 ? (
+          <p className="text-center py-8 text-gray-500 dark:text-gray-400">
+            No rates yet. Add one below or import a CSV.
+          </p>
+        ) : (
+          <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-4">
+            {latest.map((entry) => (
+              <div key={entry.id} className="p-4 bg-gray-50 dark:bg-gray-700/50 rounded-md">
+                <p className="text-sm font-medium text-gray-500 dark:text-gray-400">1 {entry.currency}</p>
+                <p className="text-xl font-bold text-gray-900 dark:text-white mt-1">
+                  {formatRate(entry.rate)}
+                </p>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                  Since {entry.effective_date}
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        <div className="space-y-8">
+          {/* Add Rate */}
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6 border border-gray-200 dark:border-gray-700">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+              Add Rate
+            </h3>
+            <form onSubmit={handleSave} className="space-y-4">
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label htmlFor="rate-currency" className={labelClass}>
+                    Currency
+                  </label>
+                  <select
+                    id="rate-currency"
+                    value={currency}
+                    onChange={(e) => setCurrency(e.target.value)}
+                    className={inputClass}
+                  >
+                    {foreignCurrencies.map((code) => (
+                      <option key={code} value={code}>
+                        {code}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label htmlFor="rate-value" className={labelClass}>
+                    ₱ per 1 {currency}
+                  </label>
+                  <input
+                    id="rate-value"
+                    type="number"
+                    min="0.000001"
+                    step="any"
+                    required
+                    value={rate}
+                    onChange={(e) => setRate(e.target.value)}
+                    className={inputClass}
+                    placeholder="e.g., 56.25"
+                  />
+                </div>
+              </div>
+              <div>
+                <label htmlFor="rate-date" className={labelClass}>
+                  Effective From
+                </label>
+                <input
+                  id="rate-date"
+                  type="date"
+                  required
+                  value={effectiveDate}
+                  onChange={(e) => setEffectiveDate(e.target.value)}
+                  className={inputClass}
+                />
+              </div>
+              <button
+                type="submit"
+                disabled={saving}
+                className="w-full flex justify-center items-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                {saving ? (
+                  "Saving..."
+                ) : (
+                  <>
+                    <Plus className="h-4 w-4 mr-2" />
+                    Save Rate
+                  </>
+                )}
+              </button>
+            </form>
+          </div>
+
+          {/* Import */}
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6 border border-gray-200 dark:border-gray-700">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-1">
+              Import Rates
+            </h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+              A CSV with <code>currency</code>, <code>rate</code> and <code>date</code> columns, e.g.
+              {" "}<code>USD,56.25,2026-03-01</code>. Rates for the same currency and date are replaced.
+            </p>
+            <label className="flex items-center justify-center py-2 px-4 border border-gray-300 dark:border-gray-600 rounded-md text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 cursor-pointer transition-colors">
+              <FileUp className="h-4 w-4 mr-2" />
+              {importing ? "Importing..." : "Choose a .csv file"}
+              <input
+                type="file"
+                accept=".csv,text/csv"
+                onChange={handleImport}
+                disabled={importing}
+                className="hidden"
+              />
+            </label>
+          </div>
+        </div>
+
+        {/* History */}
+        <div className="lg:col-span-2 bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6 border border-gray-200 dark:border-gray-700">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+            Rate History
+          </h3>
+
+          {rates.length === 0 ? (
+            <p className="text-center py-8 text-gray-500 dark:text-gray-400">
+              Expenses in other currencies use the latest rate on or before their date.
+            </p>
+          ) : (
+            <div className="space-y-2 max-h-[32rem] overflow-y-auto">
+              {rates.map((entry) => (
+                <div
+                  key={entry.id}
+                  className="flex items-center justify-between p-3 bg-gray-50 dark:bg-gray-700/50 rounded-md group"
+                >
+                  <div>
+                    <p className="text-sm font-medium text-gray-900 dark:text-white">
+                      1 {entry.currency} = {formatRate(entry.rate)}
+                    </p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      From {entry.effective_date}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => handleDelete(entry)}
+                    className="p-1 text-gray-400 hover:text-red-600 dark:hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+                    title="Delete rate"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
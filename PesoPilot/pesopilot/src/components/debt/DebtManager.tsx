@@ -0,0 +1,635 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import {
+  addDebtPayment,
+  createDebt,
+  deleteDebt,
+  deleteDebtPayment,
+  getDebtPayments,
+  getDebts,
+  type DebtBalance,
+  type DebtPayment,
+} from "@/app/api/debts";
+import {
+  DEBT_DIRECTION_LABELS,
+  summarizeCounterparties,
+  type DebtDirection,
+} from "@/utils/debts";
+import { formatPeso } from "@/utils/currency";
+import { AlertTriangle, ArrowDownCircle, ArrowUpCircle, History, Plus, Trash2 } from "lucide-react";
+import { useTimezone } from "@/providers/TimezoneProvider";
+
+const inputClass =
+  "block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white text-sm";
+
+const labelClass =
+  "block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1";
+
+type DebtView = "open" | "settled" | "all";
+
+export default function DebtManager() {
+  const { today } = useTimezone();
+  const [debts, setDebts] = useState<DebtBalance[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [message, setMessage] = useState("");
+  const [view, setView] = useState<DebtView>("open");
+
+  const [direction, setDirection] = useState<DebtDirection>("lent");
+  const [counterparty, setCounterparty] = useState("");
+  const [amount, setAmount] = useState("");
+  const [date, setDate] = useState(today());
+  const [dueDate, setDueDate] = useState("");
+  const [description, setDescription] = useState("");
+  const [savingDebt, setSavingDebt] = useState(false);
+
+  // The debt whose repayment form or history is open, if any
+  const [activeDebtId, setActiveDebtId] = useState<string | null>(null);
+  const [paymentAmount, setPaymentAmount] = useState("");
+  const [paymentDate, setPaymentDate] = useState(today());
+  const [paymentNote, setPaymentNote] = useState("");
+  const [postToCashFlow, setPostToCashFlow] = useState(true);
+  const [savingPayment, setSavingPayment] = useState(false);
+  const [history, setHistory] = useState<DebtPayment[] | null>(null);
+
+  const loadDebts = useCallback(async () => {
+    setDebts(await getDebts());
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    getDebts().then((list) => {
+      setDebts(list);
+      setLoading(false);
+    });
+  }, []);
+
+  const people = summarizeCounterparties(debts);
+  const owedToYou = people.reduce((sum, person) => sum + person.owedToYou, 0);
+  const youOwe = people.reduce((sum, person) => sum + person.youOwe, 0);
+  const overdue = debts
+    .filter((debt) => debt.overdue)
+    .sort((a, b) => (a.due_date ?? "").localeCompare(b.due_date ?? ""));
+  const counterpartyNames = [...new Set(debts.map((debt) => debt.counterparty))];
+
+  const visibleDebts = debts.filter((debt) =>
+    view === "all" ? true : view === "open" ? debt.outstanding > 0 : debt.outstanding === 0
+  );
+
+  async function handleCreateDebt(e: React.FormEvent) {
+    e.preventDefault();
+    setSavingDebt(true);
+    setMessage("");
+
+    const result = await createDebt({
+      counterparty,
+      direction,
+      amount: Number(amount),
+      description,
+      date,
+      due_date: dueDate || null,
+    });
+
+    if (result.success) {
+      setMessage("Utang recorded successfully!");
+      setCounterparty("");
+      setAmount("");
+      setDueDate("");
+      setDescription("");
+      await loadDebts();
+    } else {
+      setMessage(result.error || "Failed to record utang");
+    }
+
+    setSavingDebt(false);
+  }
+
+  function openPaymentForm(debt: DebtBalance) {
+    setActiveDebtId(debt.id);
+    setPaymentAmount(debt.outstanding.toFixed(2));
+    setPaymentDate(today());
+    setPaymentNote("");
+    setPostToCashFlow(true);
+    setHistory(null);
+  }
+
+  async function openHistory(debt: DebtBalance) {
+    if (activeDebtId === debt.id && history) {
+      setActiveDebtId(null);
+      setHistory(null);
+      return;
+    }
+    setActiveDebtId(debt.id);
+    setHistory(await getDebtPayments(debt.id));
+  }
+
+  async function handleAddPayment(e: React.FormEvent) {
+    e.preventDefault();
+    if (!activeDebtId) return;
+    setSavingPayment(true);
+    setMessage("");
+
+    const result = await addDebtPayment(
+      activeDebtId,
+      Number(paymentAmount),
+      paymentDate,
+      paymentNote,
+      postToCashFlow
+    );
+
+    if (result.success) {
+      setMessage("Repayment recorded successfully!");
+      setActiveDebtId(null);
+      await loadDebts();
+    } else {
+      setMessage(result.error || "Failed to record repayment");
+    }
+
+    setSavingPayment(false);
+  }
+
+  async function handleDeletePayment(payment: DebtPayment) {
+    if (!confirm(`Delete this repayment of ${formatPeso(payment.amount)}?`)) return;
+    const result = await deleteDebtPayment(payment.id);
+    if (!result.success) setMessage(result.error || "Failed to delete repayment");
+    setHistory(await getDebtPayments(payment.debt_id));
+    await loadDebts();
+  }
+
+  async function handleDelete(debt: DebtBalance) {
+    if (!confirm(`Delete this utang with ${debt.counterparty} and all of its repayments?`)) return;
+    const result = await deleteDebt(debt.id);
+    if (!result.success) setMessage(result.error || "Failed to delete utang");
+    await loadDebts();
+  }
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      {message && (
+        <div
+          className={`px-4 py-3 rounded-md text-sm ${
+            message.includes("success")
+              ? "bg-green-50 dark:bg-green-900/20 text-green-600 dark:text-green-400"
+              : "bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400"
+          }`}
+        >
+          {message}
+        </div>
+      )}
+
+      {/* Totals */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6 border border-gray-200 dark:border-gray-700">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-gray-600 dark:text-gray-400">Owed to You</p>
+              <p className="text-2xl font-bold text-green-600 dark:text-green-400 mt-1">
+                {formatPeso(owedToYou)}
+              </p>
+            </div>
+            <div className="p-3 bg-green-100 dark:bg-green-900/30 rounded-full">
+              <ArrowDownCircle className="h-6 w-6 text-green-600 dark:text-green-400" />
+            </div>
+          </div>
+        </div>
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6 border border-gray-200 dark:border-gray-700">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-gray-600 dark:text-gray-400">You Owe</p>
+              <p className="text-2xl font-bold text-red-600 dark:text-red-400 mt-1">
+                {formatPeso(youOwe)}
+              </p>
+            </div>
+            <div className="p-3 bg-red-100 dark:bg-red-900/30 rounded-full">
+              <ArrowUpCircle className="h-6 w-6 text-red-600 dark:text-red-400" />
+            </div>
+          </div>
+        </div>
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6 border border-gray-200 dark:border-gray-700">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-gray-600 dark:text-gray-400">Overdue</p>
+              <p className={`text-2xl font-bold mt-1 ${overdue.length > 0 ? "text-yellow-600 dark:text-yellow-400" : "text-gray-900 dark:text-white"}`}>
+                {overdue.length}
+              </p>
+            </div>
+            <div className="p-3 bg-yellow-100 dark:bg-yellow-900/30 rounded-full">
+              <AlertTriangle className="h-6 w-6 text-yellow-600 dark:text-yellow-400" />
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Overdue */}
+      {overdue.length > 0 && (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6 border border-yellow-300 dark:border-yellow-700">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+            Overdue
+          </h3>
+          <div className="space-y-2">
+            {overdue.map((debt) => (
+              <div
+                key={debt.id}
+                className="flex items-center justify-between p-3 bg-yellow-50 dark:bg-yellow-900/20 rounded-md"
+              >
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900 dark:text-white truncate">
+                    {debt.direction === "lent"
+                      ? `${debt.counterparty} owes you`
+                      : `You owe ${debt.counterparty}`}
+                  </p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    Was due {debt.due_date}
+                    {debt.description && ` • ${debt.description}`}
+                  </p>
+                </div>
+                <span className="text-sm font-semibold text-yellow-700 dark:text-yellow-400 ml-3">
+                  {formatPeso(debt.outstanding)}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        <div className="space-y-8">
+          {/* New Utang */}
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6 border border-gray-200 dark:border-gray-700">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+              New Utang
+            </h3>
+            <form onSubmit={handleCreateDebt} className="space-y-4">
+              <div className="grid grid-cols-2 gap-2">
+                {(Object.keys(DEBT_DIRECTION_LABELS) as DebtDirection[]).map((value) => (
+                  <button
+                    key={value}
+                    type="button"
+                    onClick={() => setDirection(value)}
+                    className={`py-2 px-3 rounded-md text-sm font-medium border transition-colors ${
+                      direction === value
+                        ? "bg-blue-600 border-blue-600 text-white"
+                        : "border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+                    }`}
+                  >
+                    {DEBT_DIRECTION_LABELS[value]}
+                  </button>
+                ))}
+              </div>
+              <div>
+                <label htmlFor="debt-counterparty" className={labelClass}>
+                  {direction === "lent" ? "Lent To" : "Borrowed From"}
+                </label>
+                <input
+                  id="debt-counterparty"
+                  type="text"
+                  required
+                  list="debt-counterparties"
+                  value={counterparty}
+                  onChange={(e) => setCounterparty(e.target.value)}
+                  className={inputClass}
+                  placeholder="e.g., Tita Baby"
+                />
+                <datalist id="debt-counterparties">
+                  {counterpartyNames.map((name) => (
+                    <option key={name} value={name} />
+                  ))}
+                </datalist>
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label htmlFor="debt-amount" className={labelClass}>
+                    Amount (₱)
+                  </label>
+                  <input
+                    id="debt-amount"
+                    type="number"
+                    min="0.01"
+                    step="0.01"
+                    required
+                    value={amount}
+                    onChange={(e) => setAmount(e.target.value)}
+                    className={inputClass}
+                    placeholder="0.00"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="debt-date" className={labelClass}>
+                    Date
+                  </label>
+                  <input
+                    id="debt-date"
+                    type="date"
+                    required
+                    value={date}
+                    onChange={(e) => setDate(e.target.value)}
+                    className={inputClass}
+                  />
+                </div>
+              </div>
+              <div>
+                <label htmlFor="debt-due" className={labelClass}>
+                  Due Date (Optional)
+                </label>
+                <input
+                  id="debt-due"
+                  type="date"
+                  min={date}
+                  value={dueDate}
+                  onChange={(e) => setDueDate(e.target.value)}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label htmlFor="debt-description" className={labelClass}>
+                  Description (Optional)
+                </label>
+                <input
+                  id="debt-description"
+                  type="text"
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                  className={inputClass}
+                  placeholder="e.g., Tuition, pay back on payday"
+                />
+              </div>
+              <button
+                type="submit"
+                disabled={savingDebt}
+                className="w-full flex justify-center items-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                {savingDebt ? (
+                  "Saving..."
+                ) : (
+                  <>
+                    <Plus className="h-4 w-4 mr-2" />
+                    Record Utang
+                  </>
+                )}
+              </button>
+            </form>
+          </div>
+
+          {/* By Person */}
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6 border border-gray-200 dark:border-gray-700">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+              By Person
+            </h3>
+            {people.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">Nobody owes anything. 🎉</p>
+            ) : (
+              <div className="space-y-2">
+                {people.map((person) => (
+                  <div
+                    key={person.name}
+                    className="flex items-center justify-between p-3 bg-gray-50 dark:bg-gray-700/50 rounded-md"
+                  >
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-gray-900 dark:text-white truncate">
+                        {person.name}
+                      </p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        {person.owedToYou > 0 && `Owes you ${formatPeso(person.owedToYou)}`}
+                        {person.owedToYou > 0 && person.youOwe > 0 && " • "}
+                        {person.youOwe > 0 && `You owe ${formatPeso(person.youOwe)}`}
+                      </p>
+                    </div>
+                    <span
+                      className={`text-sm font-semibold ml-3 ${
+                        person.net < 0
+                          ? "text-red-600 dark:text-red-400"
+                          : "text-green-600 dark:text-green-400"
+                      }`}
+                    >
+                      {person.net < 0 ? "-" : "+"}
+                      {formatPeso(Math.abs(person.net))}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Ledger */}
+        <div className="lg:col-span-2 bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6 border border-gray-200 dark:border-gray-700 h-fit">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+              Ledger
+            </h3>
+            <div className="flex gap-1">
+              {(["open", "settled", "all"] as DebtView[]).map((value) => (
+                <button
+                  key={value}
+                  onClick={() => setView(value)}
+                  className={`px-3 py-1 rounded-full text-xs font-medium capitalize transition-colors ${
+                    view === value
+                      ? "bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-400"
+                      : "text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700"
+                  }`}
+                >
+                  {value}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {visibleDebts.length === 0 ? (
+            <p className="text-center py-8 text-gray-500 dark:text-gray-400">
+              {debts.length === 0
+                ? "No utang yet. Record money you lent or borrowed."
+                : "Nothing here."}
+            </p>
+          ) : (
+            <div className="space-y-3">
+              {visibleDebts.map((debt) => (
+                <div
+                  key={debt.id}
+                  className="p-4 bg-gray-50 dark:bg-gray-700/50 rounded-md group"
+                >
+                  <div className="flex items-start justify-between">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-gray-900 dark:text-white truncate">
+                        {debt.direction === "lent"
+                          ? `Lent to ${debt.counterparty}`
+                          : `Borrowed from ${debt.counterparty}`}
+                        {debt.overdue && (
+                          <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-yellow-100 dark:bg-yellow-900/30 text-yellow-700 dark:text-yellow-400">
+                            Overdue
+                          </span>
+                        )}
+                        {debt.outstanding === 0 && (
+                          <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-400">
+                            Settled
+                          </span>
+                        )}
+                      </p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                        {debt.date}
+                        {debt.due_date && ` • due ${debt.due_date}`}
+                        {debt.description && ` • ${debt.description}`}
+                      </p>
+                    </div>
+                    <div className="text-right ml-3">
+                      <p className={`text-sm font-semibold ${debt.direction === "lent" ? "text-green-600 dark:text-green-400" : "text-red-600 dark:text-red-400"}`}>
+                        {formatPeso(debt.outstanding)}
+                      </p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        of {formatPeso(debt.amount)}
+                      </p>
+                    </div>
+                  </div>
+
+                  <div className="flex items-center gap-2 mt-3">
+                    {debt.outstanding > 0 && (
+                      <button
+                        onClick={() => openPaymentForm(debt)}
+                        className="flex items-center px-3 py-1.5 rounded-md text-xs font-medium text-green-700 dark:text-green-400 bg-green-50 dark:bg-green-900/20 hover:bg-green-100 dark:hover:bg-green-900/40 transition-colors"
+                      >
+                        <Plus className="h-3 w-3 mr-1" />
+                        Repayment
+                      </button>
+                    )}
+                    <button
+                      onClick={() => openHistory(debt)}
+                      className="flex items-center px-3 py-1.5 rounded-md text-xs font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+                    >
+                      <History className="h-3 w-3 mr-1" />
+                      Repayments
+                    </button>
+                    <button
+                      onClick={() => handleDelete(debt)}
+                      className="ml-auto p-1 text-gray-400 hover:text-red-600 dark:hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+                      title="Delete utang"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+
+                  {activeDebtId === debt.id && !history && (
+                    <form onSubmit={handleAddPayment} className="mt-3 space-y-3">
+                      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                        <div>
+                          <label htmlFor="payment-amount" className={labelClass}>
+                            Amount (₱)
+                          </label>
+                          <input
+                            id="payment-amount"
+                            type="number"
+                            min="0.01"
+                            max={debt.outstanding}
+                            step="0.01"
+                            required
+                            value={paymentAmount}
+                            onChange={(e) => setPaymentAmount(e.target.value)}
+                            className={inputClass}
+                          />
+                        </div>
+                        <div>
+                          <label htmlFor="payment-date" className={labelClass}>
+                            Date
+                          </label>
+                          <input
+                            id="payment-date"
+                            type="date"
+                            required
+                            value={paymentDate}
+                            onChange={(e) => setPaymentDate(e.target.value)}
+                            className={inputClass}
+                          />
+                        </div>
+                        <div>
+                          <label htmlFor="payment-note" className={labelClass}>
+                            Note (Optional)
+                          </label>
+                          <input
+                            id="payment-note"
+                            type="text"
+                            value={paymentNote}
+                            onChange={(e) => setPaymentNote(e.target.value)}
+                            className={inputClass}
+                            placeholder="e.g., via GCash"
+                          />
+                        </div>
+                      </div>
+                      <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                        <input
+                          type="checkbox"
+                          checked={postToCashFlow}
+                          onChange={(e) => setPostToCashFlow(e.target.checked)}
+                          className="rounded border-gray-300 dark:border-gray-600"
+                        />
+                        {debt.direction === "lent"
+                          ? "Count as money in on the dashboard cash flow"
+                          : "Count as money out on the dashboard cash flow"}
+                      </label>
+                      <div className="flex gap-2">
+                        <button
+                          type="submit"
+                          disabled={savingPayment}
+                          className="px-4 py-2 rounded-md text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                        >
+                          {savingPayment ? "Saving..." : "Save Repayment"}
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => setActiveDebtId(null)}
+                          className="px-4 py-2 rounded-md text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+                        >
+                          Cancel
+                        </button>
+                      </div>
+                    </form>
+                  )}
+
+                  {activeDebtId === debt.id && history && (
+                    <div className="mt-3 space-y-2">
+                      {history.length === 0 ? (
+                        <p className="text-sm text-gray-500 dark:text-gray-400">
+                          No repayments yet.
+                        </p>
+                      ) : (
+                        history.map((payment) => (
+                          <div
+                            key={payment.id}
+                            className="flex items-center justify-between p-2 bg-white dark:bg-gray-800 rounded-md group/payment"
+                          >
+                            <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                              {payment.date}
+                              {payment.note && ` • ${payment.note}`}
+                              {!payment.post_to_cash_flow && " • not in cash flow"}
+                            </p>
+                            <div className="flex items-center gap-2 ml-3">
+                              <span className="text-sm font-semibold text-gray-700 dark:text-gray-300">
+                                {formatPeso(payment.amount)}
+                              </span>
+                              <button
+                                onClick={() => handleDeletePayment(payment)}
+                                className="p-1 text-gray-400 hover:text-red-600 dark:hover:text-red-400 opacity-0 group-hover/payment:opacity-100 transition-opacity"
+                                title="Delete repayment"
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </button>
+                            </div>
+                          </div>
+                        ))
+                      )}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
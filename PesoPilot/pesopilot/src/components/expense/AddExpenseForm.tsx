@@ -2,65 +2,153 @@
 
 import { useState } from "react";
 import { addExpense, type Expense } from "@/app/api/budget";
-import { formatPeso } from "@/utils/currency";
-import { Plus, X } from "lucide-react";
+import { uploadExpenseAttachments } from "@/app/api/attachments";
+import { scanReceipt } from "@/utils/receiptScanners";
+import { Camera, Plus, X } from "lucide-react";
+import { BASE_CURRENCY } from "@/utils/currency";
+import { useTimezone } from "@/providers/TimezoneProvider";
+import { useOfflineSync } from "@/providers/OfflineSyncProvider";
+import { isNetworkError } from "@/utils/expenseQueue";
+import ExpenseFields, {
+  foreignAmountFromValues,
+  pesoAmountFromValues,
+  queuedValuesFromValues,
+  type ExpenseFieldValues,
+} from "./ExpenseFields";
+import ReceiptPicker from "./ReceiptPicker";
 
 interface AddExpenseFormProps {
   onExpenseAdded?: (expense: Expense) => void;
 }
 
-const EXPENSE_CATEGORIES = [
-  "Food & Dining",
-  "Transportation",
-  "Shopping",
-  "Entertainment",
-  "Bills & Utilities",
-  "Health & Fitness",
-  "Education",
-  "Travel",
-  "Other",
-];
+function emptyValues(today: string): ExpenseFieldValues {
+  return {
+    amount: "",
+    currency: BASE_CURRENCY,
+    exchangeRate: "",
+    category: "",
+    description: "",
+    date: today,
+    accountId: "",
+  };
+}
 
 export default function AddExpenseForm({ onExpenseAdded }: AddExpenseFormProps) {
+  const { today } = useTimezone();
+  const { queueChange } = useOfflineSync();
   const [isOpen, setIsOpen] = useState(false);
-  const [amount, setAmount] = useState("");
-  const [category, setCategory] = useState("");
-  const [description, setDescription] = useState("");
-  const [date, setDate] = useState(new Date().toISOString().split("T")[0]);
+  const [values, setValues] = useState<ExpenseFieldValues>(() => emptyValues(today()));
+  const [receipts, setReceipts] = useState<File[]>([]);
   const [saving, setSaving] = useState(false);
+  const [scanning, setScanning] = useState(false);
+  const [scanNote, setScanNote] = useState("");
   const [message, setMessage] = useState("");
 
+  async function handleScan(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    setScanning(true);
+    setScanNote("");
+    setMessage("");
+
+    try {
+      const scan = await scanReceipt(file);
+      // Only overwrite fields the scan could read; nothing is saved until submit
+      setValues((prev) => ({
+        ...prev,
+        amount: scan.total !== null ? scan.total.toString() : prev.amount,
+        category: scan.category ?? prev.category,
+        description: scan.merchant ?? prev.description,
+        date: scan.date ?? prev.date,
+      }));
+      setReceipts((prev) => (prev.includes(file) ? prev : [...prev, file]));
+      setScanNote(
+        scan.total === null
+          ? "We couldn't find the total on this receipt. Please fill in the amount, then save."
+          : "Receipt scanned. Check the details below, then save."
+      );
+    } catch (error) {
+      console.error("Error scanning receipt:", error);
+      setMessage("Failed to read the receipt. Please enter the expense manually.");
+    }
+
+    setScanning(false);
+  }
+
   async function handleSubmit(e: React.FormEvent) {
     e.preventDefault();
     setSaving(true);
     setMessage("");
 
-    const result = await addExpense(
-      Number(amount),
-      category,
-      description,
-      date
-    );
-
-    if (result.success && result.expense) {
-      setMessage("Expense added successfully!");
-      setTimeout(() => {
-        setIsOpen(false);
-        resetForm();
-      }, 1000);
-      onExpenseAdded?.(result.expense);
-    } else {
-      setMessage(result.error || "Failed to add expense");
+    try {
+      let result;
+      try {
+        result = await addExpense(
+          pesoAmountFromValues(values),
+          values.category,
+          values.description,
+          values.date,
+          values.accountId || null,
+          foreignAmountFromValues(values)
+        );
+      } catch (error) {
+        if (!isNetworkError(error)) throw error;
+
+        // No connection: keep it on this device and send it once we're back online
+        await queueChange({
+          kind: "create",
+          expenseId: crypto.randomUUID(),
+          values: queuedValuesFromValues(values),
+        });
+        setMessage(
+          receipts.length > 0
+            ? "Saved offline successfully. It will sync when you're back online; attach the receipts after that."
+            : "Saved offline successfully. It will sync when you're back online."
+        );
+        setTimeout(() => {
+          setIsOpen(false);
+          resetForm();
+        }, 1500);
+        return;
+      }
+
+      if (result.success && result.expense) {
+        let upload: { success: boolean; error?: string } = { success: true };
+        if (receipts.length > 0) {
+          const formData = new FormData();
+          receipts.forEach((file) => formData.append("files", file));
+          upload = await uploadExpenseAttachments(result.expense.id, formData);
+        }
+
+        if (upload.success) {
+          setMessage("Expense added successfully!");
+          setTimeout(() => {
+            setIsOpen(false);
+            resetForm();
+          }, 1000);
+        } else {
+          // The expense itself is saved; keep the form open so the user sees why
+          setMessage(`Expense added, but the receipt upload failed: ${upload.error}`);
+          setReceipts([]);
+        }
+        onExpenseAdded?.(result.expense);
+      } else {
+        setMessage(result.error || "Failed to add expense");
+      }
+    } catch (error) {
+      console.error("Error adding expense:", error);
+      setMessage("Failed to add expense");
+    } finally {
+      setSaving(false);
     }
-
-    setSaving(false);
   }
 
   function resetForm() {
-    setAmount("");
-    setCategory("");
-    setDescription("");
-    setDate(new Date().toISOString().split("T")[0]);
+    setValues(emptyValues(today()));
+    setReceipts([]);
+    setScanNote("");
     setMessage("");
   }
 
@@ -105,83 +193,33 @@ export default function AddExpenseForm({ onExpenseAdded }: AddExpenseFormProps)
         </div>
       )}
 
-      <form onSubmit={handleSubmit} className="space-y-4">
-        <div>
-          <label
-            htmlFor="expense-amount"
-            className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
-          >
-            Amount (₱)
-          </label>
-          <input
-            id="expense-amount"
-            type="number"
-            min="0.01"
-            step="0.01"
-            required
-            value={amount}
-            onChange={(e) => setAmount(e.target.value)}
-            className="block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white text-sm"
-            placeholder="0.00"
-          />
-        </div>
-
-        <div>
-          <label
-            htmlFor="category"
-            className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
-          >
-            Category
-          </label>
-          <select
-            id="category"
-            required
-            value={category}
-            onChange={(e) => setCategory(e.target.value)}
-            className="block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white text-sm"
-          >
-            <option value="">Select a category</option>
-            {EXPENSE_CATEGORIES.map((cat) => (
-              <option key={cat} value={cat}>
-                {cat}
-              </option>
-            ))}
-          </select>
+      <label
+        className={`mb-4 w-full flex items-center justify-center py-2 px-4 border border-gray-300 dark:border-gray-600 rounded-md text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors ${
+          scanning ? "opacity-50 cursor-wait" : "cursor-pointer"
+        }`}
+      >
+        <Camera className="h-4 w-4 mr-2" />
+        {scanning ? "Reading receipt..." : "Scan Receipt"}
+        <input
+          type="file"
+          accept="image/*"
+          capture="environment"
+          onChange={handleScan}
+          disabled={scanning}
+          className="hidden"
+        />
+      </label>
+
+      {scanNote && (
+        <div className="mb-4 px-4 py-3 rounded-md text-sm bg-blue-50 dark:bg-blue-900/20 text-blue-700 dark:text-blue-300">
+          {scanNote}
         </div>
+      )}
 
-        <div>
-          <label
-            htmlFor="description"
-            className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
-          >
-            Description (Optional)
-          </label>
-          <input
-            id="description"
-            type="text"
-            value={description}
-            onChange={(e) => setDescription(e.target.value)}
-            className="block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white text-sm"
-            placeholder="e.g., Lunch at Jollibee"
-          />
-        </div>
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <ExpenseFields values={values} onChange={setValues} />
 
-        <div>
-          <label
-            htmlFor="date"
-            className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
-          >
-            Date
-          </label>
-          <input
-            id="date"
-            type="date"
-            required
-            value={date}
-            onChange={(e) => setDate(e.target.value)}
-            className="block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white text-sm"
-          />
-        </div>
+        <ReceiptPicker files={receipts} onChange={setReceipts} />
 
         <div className="flex space-x-3 pt-2">
           <button
@@ -0,0 +1,130 @@
+"use client";
+
+import { useState } from "react";
+import type { BulkExpenseAction } from "@/app/api/budget";
+import CategorySelect from "@/components/category/CategorySelect";
+import { useTimezone } from "@/providers/TimezoneProvider";
+import { parseTags } from "@/utils/tags";
+import { Trash2, X } from "lucide-react";
+
+interface BulkExpenseToolbarProps {
+  selectedCount: number;
+  selectableCount: number;
+  busy: boolean;
+  /** Resolves to whether the change was saved */
+  onApply: (action: BulkExpenseAction) => Promise<boolean>;
+  onSelectAll: () => void;
+  onClear: () => void;
+}
+
+const inputClass =
+  "px-2 py-1.5 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm";
+
+const applyClass =
+  "px-3 py-1.5 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-md disabled:opacity-50 disabled:cursor-not-allowed transition-colors";
+
+/** Changes to apply to every selected expense at once. */
+export default function BulkExpenseToolbar({
+  selectedCount,
+  selectableCount,
+  busy,
+  onApply,
+  onSelectAll,
+  onClear,
+}: BulkExpenseToolbarProps) {
+  const { today } = useTimezone();
+  const [category, setCategory] = useState("");
+  const [date, setDate] = useState(() => today());
+  const [tags, setTags] = useState("");
+
+  const parsedTags = parseTags(tags);
+
+  return (
+    <div className="sticky top-0 z-10 p-3 bg-blue-50 dark:bg-blue-900/30 border border-blue-200 dark:border-blue-800 rounded-md space-y-3">
+      <div className="flex items-center justify-between text-sm">
+        <span className="font-medium text-blue-900 dark:text-blue-100">
+          {selectedCount} selected
+        </span>
+        <div className="flex items-center gap-3">
+          {selectedCount < selectableCount && (
+            <button
+              onClick={onSelectAll}
+              className="text-blue-600 dark:text-blue-400 hover:underline"
+            >
+              Select all {selectableCount}
+            </button>
+          )}
+          <button
+            onClick={onClear}
+            className="p-1 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+            title="Clear selection"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <CategorySelect
+          value={category}
+          onChange={setCategory}
+          placeholder="Change category"
+          className={inputClass}
+        />
+        <button
+          onClick={() => onApply({ type: "recategorize", category })}
+          disabled={busy || !category}
+          className={applyClass}
+        >
+          Apply
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="date"
+          aria-label="Move to date"
+          value={date}
+          onChange={(e) => setDate(e.target.value)}
+          className={inputClass}
+        />
+        <button
+          onClick={() => onApply({ type: "move_date", date })}
+          disabled={busy || !date}
+          className={applyClass}
+        >
+          Move date
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="text"
+          aria-label="Tags to add"
+          value={tags}
+          onChange={(e) => setTags(e.target.value)}
+          placeholder="Tags, comma separated"
+          className={inputClass}
+        />
+        <button
+          onClick={async () => {
+            if (await onApply({ type: "add_tags", tags: parsedTags })) setTags("");
+          }}
+          disabled={busy || parsedTags.length === 0}
+          className={applyClass}
+        >
+          Add tags
+        </button>
+
+        <button
+          onClick={() => onApply({ type: "delete" })}
+          disabled={busy}
+          className="ml-auto flex items-center gap-1 px-3 py-1.5 text-sm font-medium text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-md disabled:opacity-50 transition-colors"
+        >
+          <Trash2 className="h-4 w-4" />
+          Move to trash
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { getExpenseDetail, type ChangeHistory } from "@/app/api/audit";
+import type { Expense } from "@/app/api/budget";
+import ChangeTimeline from "@/components/audit/ChangeTimeline";
+import { formatCurrency, formatPeso } from "@/utils/currency";
+
+interface ExpenseDetailProps {
+  expenseId: string;
+}
+
+/** One expense as it is now, with its change history. */
+export default function ExpenseDetail({ expenseId }: ExpenseDetailProps) {
+  const [expense, setExpense] = useState<Expense | null>(null);
+  const [history, setHistory] = useState<ChangeHistory | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    getExpenseDetail(expenseId).then((detail) => {
+      setExpense(detail.expense);
+      setHistory(detail.history);
+      setLoading(false);
+    });
+  }, [expenseId]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (!expense && (!history || history.events.length === 0)) {
+    return (
+      <div className="text-center py-12 text-gray-500 dark:text-gray-400">
+        <p>This expense doesn&apos;t exist or you can&apos;t see it.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6 border border-gray-200 dark:border-gray-700 h-fit">
+        {expense ? (
+          <>
+            <p className="text-sm text-gray-500 dark:text-gray-400">{expense.date}</p>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+              {expense.category}
+            </h3>
+            <p className="text-3xl font-bold text-gray-900 dark:text-white mt-2">
+              {formatPeso(expense.amount)}
+            </p>
+            {expense.original_amount !== null && (
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                {formatCurrency(expense.original_amount, expense.currency)}
+              </p>
+            )}
+            {expense.description && (
+              <p className="text-sm text-gray-700 dark:text-gray-300 mt-4">
+                {expense.description}
+              </p>
+            )}
+            {expense.tags?.length > 0 && (
+              <p className="text-sm text-gray-500 dark:text-gray-400 mt-2">
+                {expense.tags.map((tag) => `#${tag}`).join(" ")}
+              </p>
+            )}
+            {expense.deleted_at && (
+              <p className="mt-4 px-3 py-2 rounded-md text-sm bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400">
+                This expense is in the trash.
+              </p>
+            )}
+          </>
+        ) : (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            This expense was deleted permanently. Its history is kept below.
+          </p>
+        )}
+      </div>
+
+      <div className="lg:col-span-2">
+        {history && <ChangeTimeline table="expenses" history={history} />}
+      </div>
+    </div>
+  );
+}
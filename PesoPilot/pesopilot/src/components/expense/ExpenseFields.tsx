@@ -0,0 +1,197 @@
+"use client";
+
+import Link from "next/link";
+import CategorySelect from "@/components/category/CategorySelect";
+import AccountSelect from "@/components/account/AccountSelect";
+import type { ForeignAmount } from "@/app/api/budget";
+import { getExchangeRate } from "@/app/api/rates";
+import type { QueuedExpenseValues } from "@/utils/expenseQueue";
+import { BASE_CURRENCY, convertToPeso, CURRENCIES, formatPeso } from "@/utils/currency";
+
+export interface ExpenseFieldValues {
+  // In `currency`; converted to pesos with `exchangeRate` when saving
+  amount: string;
+  currency: string;
+  exchangeRate: string;
+  category: string;
+  description: string;
+  date: string;
+  accountId: string;
+}
+
+/** The foreign amount to save with the expense, or null for pesos. */
+export function foreignAmountFromValues(values: ExpenseFieldValues): ForeignAmount | null {
+  if (values.currency === BASE_CURRENCY) return null;
+  return { currency: values.currency, amount: Number(values.amount), rate: Number(values.exchangeRate) };
+}
+
+/** The expense amount in pesos. */
+export function pesoAmountFromValues(values: ExpenseFieldValues): number {
+  const foreign = foreignAmountFromValues(values);
+  return foreign ? convertToPeso(foreign.amount, foreign.rate) : Number(values.amount);
+}
+
+/** The values to save later, for an expense entered while offline. */
+export function queuedValuesFromValues(values: ExpenseFieldValues): QueuedExpenseValues {
+  return {
+    amount: pesoAmountFromValues(values),
+    category: values.category,
+    description: values.description,
+    date: values.date,
+    accountId: values.accountId || null,
+    foreign: foreignAmountFromValues(values),
+  };
+}
+
+interface ExpenseFieldsProps {
+  values: ExpenseFieldValues;
+  onChange: (values: ExpenseFieldValues) => void;
+  idPrefix?: string;
+}
+
+const inputClass =
+  "block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white text-sm";
+
+const labelClass =
+  "block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1";
+
+/**
+ * Amount, category, description, date and account inputs shared by the add
+ * and edit expense forms. The parent owns the values and the submit handling.
+ */
+export default function ExpenseFields({
+  values,
+  onChange,
+  idPrefix = "expense",
+}: ExpenseFieldsProps) {
+  function update(field: keyof ExpenseFieldValues, value: string) {
+    onChange({ ...values, [field]: value });
+  }
+
+  // Pre-fill the saved rate for the currency and date; the user can override it
+  async function changeAndLookUpRate(field: "currency" | "date", value: string) {
+    const next = { ...values, [field]: value };
+    onChange(next);
+    if (next.currency === BASE_CURRENCY || !next.date) return;
+
+    const rate = await getExchangeRate(next.currency, next.date);
+    if (rate !== null) onChange({ ...next, exchangeRate: rate.toString() });
+  }
+
+  const isForeign = values.currency !== BASE_CURRENCY;
+
+  return (
+    <>
+      <div>
+        <label htmlFor={`${idPrefix}-amount`} className={labelClass}>
+          Amount ({isForeign ? values.currency : "₱"})
+        </label>
+        <div className="flex gap-2">
+          <select
+            aria-label="Currency"
+            value={values.currency}
+            onChange={(e) => changeAndLookUpRate("currency", e.target.value)}
+            className={`${inputClass} w-24`}
+          >
+            {CURRENCIES.map((currency) => (
+              <option key={currency} value={currency}>
+                {currency}
+              </option>
+            ))}
+          </select>
+          <input
+            id={`${idPrefix}-amount`}
+            type="number"
+            min="0.01"
+            step="0.01"
+            required
+            value={values.amount}
+            onChange={(e) => update("amount", e.target.value)}
+            className={inputClass}
+            placeholder="0.00"
+          />
+        </div>
+      </div>
+
+      {isForeign && (
+        <div>
+          <label htmlFor={`${idPrefix}-rate`} className={labelClass}>
+            Exchange Rate (₱ per 1 {values.currency})
+          </label>
+          <input
+            id={`${idPrefix}-rate`}
+            type="number"
+            min="0.000001"
+            step="any"
+            required
+            value={values.exchangeRate}
+            onChange={(e) => update("exchangeRate", e.target.value)}
+            className={inputClass}
+            placeholder="e.g., 56.25"
+          />
+          <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+            {Number(values.amount) > 0 && Number(values.exchangeRate) > 0
+              ? `Counts as ${formatPeso(pesoAmountFromValues(values))} in your budget. `
+              : ""}
+            <Link href="/dashboard/rates" className="text-blue-600 dark:text-blue-400 hover:underline">
+              Manage rates
+            </Link>
+          </p>
+        </div>
+      )}
+
+      <div>
+        <label htmlFor={`${idPrefix}-category`} className={labelClass}>
+          Category
+        </label>
+        <CategorySelect
+          id={`${idPrefix}-category`}
+          required
+          value={values.category}
+          onChange={(value) => update("category", value)}
+          className={inputClass}
+        />
+      </div>
+
+      <div>
+        <label htmlFor={`${idPrefix}-description`} className={labelClass}>
+          Description (Optional)
+        </label>
+        <input
+          id={`${idPrefix}-description`}
+          type="text"
+          value={values.description}
+          onChange={(e) => update("description", e.target.value)}
+          className={inputClass}
+          placeholder="e.g., Lunch at Jollibee"
+        />
+      </div>
+
+      <div>
+        <label htmlFor={`${idPrefix}-date`} className={labelClass}>
+          Date
+        </label>
+        <input
+          id={`${idPrefix}-date`}
+          type="date"
+          required
+          value={values.date}
+          onChange={(e) => changeAndLookUpRate("date", e.target.value)}
+          className={inputClass}
+        />
+      </div>
+
+      <div>
+        <label htmlFor={`${idPrefix}-account`} className={labelClass}>
+          Paid From (Optional)
+        </label>
+        <AccountSelect
+          id={`${idPrefix}-account`}
+          value={values.accountId}
+          onChange={(value) => update("accountId", value)}
+          className={inputClass}
+        />
+      </div>
+    </>
+  );
+}
@@ -1,47 +1,378 @@
 "use client";
 
-import { useState } from "react";
-import { deleteExpense, type Expense } from "@/app/api/budget";
-import { formatPeso } from "@/utils/currency";
-import { Trash2 } from "lucide-react";
+import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import {
+  bulkUpdateExpenses,
+  deleteExpense,
+  restoreExpense,
+  updateExpense,
+  type BulkExpenseAction,
+  type BulkExpenseResult,
+  type Expense,
+} from "@/app/api/budget";
+import {
+  deleteExpenseAttachment,
+  getExpenseAttachments,
+  uploadExpenseAttachments,
+  type ExpenseAttachment,
+} from "@/app/api/attachments";
+import type { HouseholdMember } from "@/app/api/household";
+import { useOfflineSync } from "@/providers/OfflineSyncProvider";
+import { formatCurrency, formatPeso } from "@/utils/currency";
+import {
+  applyQueuedValues,
+  isNetworkError,
+  queuedChangeFor,
+  queuedExpense,
+} from "@/utils/expenseQueue";
+import { AlertTriangle, CloudOff, History, Pencil, Trash2, Undo2 } from "lucide-react";
+import BulkExpenseToolbar from "./BulkExpenseToolbar";
+import ExpenseFields, {
+  foreignAmountFromValues,
+  pesoAmountFromValues,
+  queuedValuesFromValues,
+  type ExpenseFieldValues,
+} from "./ExpenseFields";
+import ReceiptPicker from "./ReceiptPicker";
+import ReceiptThumbnails from "./ReceiptThumbnails";
+
+const UNDO_TIMEOUT_MS = 8000;
 
 interface ExpenseListProps {
   expenses: Expense[];
   onExpenseDeleted?: () => void;
+  onExpenseUpdated?: (expense: Expense) => void;
+  onExpenseRestored?: () => void;
+  // Called after a bulk change to several expenses
+  onExpensesChanged?: () => void;
+  // Set when viewing a shared household, to show who logged each expense
+  members?: HouseholdMember[];
+  currentUserId?: string | null;
 }
 
 export default function ExpenseList({
   expenses,
   onExpenseDeleted,
+  onExpenseUpdated,
+  onExpenseRestored,
+  onExpensesChanged,
+  members,
+  currentUserId,
 }: ExpenseListProps) {
   const [deletingId, setDeletingId] = useState<string | null>(null);
+  // The expenses just moved to the trash, while their undo toast is showing
+  const [undoIds, setUndoIds] = useState<string[] | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editValues, setEditValues] = useState<ExpenseFieldValues | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [editError, setEditError] = useState("");
+  const [editReceipts, setEditReceipts] = useState<File[]>([]);
+  const [attachments, setAttachments] = useState<Record<string, ExpenseAttachment[]>>({});
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  // Where a shift-click range starts from
+  const [anchorId, setAnchorId] = useState<string | null>(null);
+  const [bulkBusy, setBulkBusy] = useState(false);
+  const [bulkMessage, setBulkMessage] = useState("");
+  const [bulkFailures, setBulkFailures] = useState<BulkExpenseResult[]>([]);
+  const { queue, queueChange, resolveConflict } = useOfflineSync();
 
-  async function handleDelete(id: string) {
-    if (!confirm("Are you sure you want to delete this expense?")) return;
+  const expenseIds = expenses.map((expense) => expense.id).join(",");
+
+  const loadAttachments = useCallback(async () => {
+    setAttachments(await getExpenseAttachments(expenseIds ? expenseIds.split(",") : []));
+  }, [expenseIds]);
+
+  useEffect(() => {
+    getExpenseAttachments(expenseIds ? expenseIds.split(",") : []).then(setAttachments);
+  }, [expenseIds]);
+
+  useEffect(() => {
+    if (!undoIds) return;
+    const timer = setTimeout(() => setUndoIds(null), UNDO_TIMEOUT_MS);
+    return () => clearTimeout(timer);
+  }, [undoIds]);
+
+  // Only whoever logged an expense can change it
+  function canChange(expense: Expense): boolean {
+    return !currentUserId || expense.user_id === currentUserId;
+  }
+
+  // The list as it will look once changes queued offline have synced
+  const shown = [
+    ...queue.flatMap((item) =>
+      item.change.kind === "create"
+        ? [queuedExpense(item.change, item.queuedAt, currentUserId ?? "")]
+        : []
+    ),
+    ...expenses.map((expense) => {
+      const queued = queuedChangeFor(queue, expense.id);
+      return queued?.change.kind === "update"
+        ? applyQueuedValues(expense, queued.change.values)
+        : expense;
+    }),
+  ].sort((a, b) => b.date.localeCompare(a.date));
+
+  // Selectable rows in the order they are shown, for shift-click ranges.
+  // Rows with unsynced changes are left out since the server doesn't have them yet
+  const selectable = shown.filter(
+    (expense) => canChange(expense) && !queuedChangeFor(queue, expense.id)
+  );
+  const selected = selectedIds.filter((id) => selectable.some((expense) => expense.id === id));
+
+  function toggleSelected(expense: Expense, extendRange: boolean) {
+    const select = !selected.includes(expense.id);
+    const anchorIndex = selectable.findIndex((row) => row.id === anchorId);
+    const index = selectable.findIndex((row) => row.id === expense.id);
+
+    const ids =
+      extendRange && anchorIndex >= 0
+        ? selectable
+            .slice(Math.min(anchorIndex, index), Math.max(anchorIndex, index) + 1)
+            .map((row) => row.id)
+        : [expense.id];
+
+    setSelectedIds(
+      select
+        ? Array.from(new Set([...selected, ...ids]))
+        : selected.filter((id) => !ids.includes(id))
+    );
+    setAnchorId(expense.id);
+  }
+
+  function clearSelection() {
+    setSelectedIds([]);
+    setAnchorId(null);
+    setBulkFailures([]);
+  }
+
+  async function handleBulkApply(action: BulkExpenseAction): Promise<boolean> {
+    setBulkBusy(true);
+    setBulkMessage("");
+    setBulkFailures([]);
+
+    const ids = selected;
+    const result = await bulkUpdateExpenses(ids, action);
+    setBulkBusy(false);
+
+    if (!result.success) {
+      setBulkMessage(result.error || "Failed to update expenses");
+      setBulkFailures(result.results.filter((row) => !row.success));
+      return false;
+    }
+
+    clearSelection();
+    if (action.type === "delete") {
+      setUndoIds(ids);
+      onExpenseDeleted?.();
+    } else {
+      setBulkMessage(`Updated ${ids.length} expense${ids.length === 1 ? "" : "s"} successfully`);
+      onExpensesChanged?.();
+    }
+    return true;
+  }
+
+  function startEdit(expense: Expense) {
+    setEditingId(expense.id);
+    setEditValues({
+      amount: (expense.original_amount ?? expense.amount).toString(),
+      currency: expense.currency,
+      exchangeRate: expense.exchange_rate?.toString() ?? "",
+      category: expense.category,
+      description: expense.description || "",
+      date: expense.date,
+      accountId: expense.account_id || "",
+    });
+    setEditReceipts([]);
+    setEditError("");
+  }
+
+  function cancelEdit() {
+    setEditingId(null);
+    setEditValues(null);
+    setEditReceipts([]);
+    setEditError("");
+  }
+
+  async function handleUpdate(e: React.FormEvent) {
+    e.preventDefault();
+    if (!editingId || !editValues) return;
+
+    setSaving(true);
+    setEditError("");
+
+    try {
+      // An expense with unsynced changes has to wait its turn in the queue
+      let result;
+      if (!queuedChangeFor(queue, editingId)) {
+        try {
+          result = await updateExpense(
+            editingId,
+            pesoAmountFromValues(editValues),
+            editValues.category,
+            editValues.description,
+            editValues.date,
+            editValues.accountId || null,
+            foreignAmountFromValues(editValues)
+          );
+        } catch (error) {
+          if (!isNetworkError(error)) throw error;
+        }
+      }
+
+      if (!result) {
+        if (editReceipts.length > 0) {
+          setEditError("Receipts can't be attached offline. Remove them to save the rest for later.");
+          return;
+        }
+        await queueChange({
+          kind: "update",
+          expenseId: editingId,
+          values: queuedValuesFromValues(editValues),
+          baseUpdatedAt: expenses.find((expense) => expense.id === editingId)?.updated_at ?? "",
+        });
+        cancelEdit();
+        return;
+      }
+
+      if (!result.success || !result.expense) {
+        setEditError(result.error || "Failed to update expense");
+        return;
+      }
+
+      if (editReceipts.length > 0) {
+        const formData = new FormData();
+        editReceipts.forEach((file) => formData.append("files", file));
+        const upload = await uploadExpenseAttachments(editingId, formData);
+        await loadAttachments();
+
+        if (!upload.success) {
+          // The edit itself is saved; stay in the form so the user sees why
+          setEditReceipts([]);
+          setEditError(`Changes saved, but the receipt upload failed: ${upload.error}`);
+          onExpenseUpdated?.(result.expense);
+          return;
+        }
+      }
+
+      cancelEdit();
+      onExpenseUpdated?.(result.expense);
+    } catch (error) {
+      console.error("Error updating expense:", error);
+      setEditError("Failed to update expense");
+    } finally {
+      setSaving(false);
+    }
+  }
 
+  async function handleDeleteAttachment(attachment: ExpenseAttachment) {
+    if (!confirm(`Remove ${attachment.file_name}?`)) return;
+
+    const result = await deleteExpenseAttachment(attachment.id);
+
+    if (result.success) {
+      await loadAttachments();
+    } else {
+      alert(result.error || "Failed to remove receipt");
+    }
+  }
+
+  function spenderName(userId: string): string {
+    if (userId === currentUserId) return "You";
+    const member = members?.find((m) => m.user_id === userId);
+    return member?.display_name || member?.email || "Former member";
+  }
+
+  async function handleDelete(id: string) {
     setDeletingId(id);
-    const result = await deleteExpense(id);
+
+    try {
+      let result;
+      if (!queuedChangeFor(queue, id)) {
+        try {
+          result = await deleteExpense(id);
+        } catch (error) {
+          if (!isNetworkError(error)) throw error;
+        }
+      }
+
+      if (!result) {
+        await queueChange({
+          kind: "delete",
+          expenseId: id,
+          baseUpdatedAt: expenses.find((expense) => expense.id === id)?.updated_at ?? "",
+        });
+      } else if (result.success) {
+        setUndoIds([id]);
+        onExpenseDeleted?.();
+      } else {
+        alert(result.error || "Failed to delete expense");
+      }
+    } catch (error) {
+      console.error("Error deleting expense:", error);
+      alert("Failed to delete expense");
+    } finally {
+      setDeletingId(null);
+    }
+  }
+
+  async function handleUndo() {
+    if (!undoIds) return;
+
+    const ids = undoIds;
+    setUndoIds(null);
+    const result =
+      ids.length === 1
+        ? await restoreExpense(ids[0])
+        : await bulkUpdateExpenses(ids, { type: "restore" });
 
     if (result.success) {
-      onExpenseDeleted?.();
+      onExpenseRestored?.();
     } else {
-      alert(result.error || "Failed to delete expense");
+      alert(result.error || "Failed to restore expense");
     }
+  }
 
-    setDeletingId(null);
+  async function handleResolve(expenseId: string, keep: "mine" | "theirs") {
+    try {
+      await resolveConflict(expenseId, keep);
+    } catch (error) {
+      if (isNetworkError(error)) {
+        alert("You're offline. Try again once you're back online.");
+      } else {
+        console.error("Error resolving sync conflict:", error);
+        alert("Failed to resolve the conflict");
+      }
+    }
   }
 
-  if (expenses.length === 0) {
+  const undoToast = undoIds && (
+    <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 flex items-center gap-4 px-4 py-3 bg-gray-900 dark:bg-gray-700 text-white text-sm rounded-lg shadow-lg">
+      <span>
+        {undoIds.length === 1 ? "Expense" : `${undoIds.length} expenses`} moved to trash
+      </span>
+      <button
+        onClick={handleUndo}
+        className="flex items-center gap-1 font-medium text-blue-300 hover:text-blue-200"
+      >
+        <Undo2 className="h-4 w-4" />
+        Undo
+      </button>
+    </div>
+  );
+
+  if (shown.length === 0) {
     return (
       <div className="text-center py-8 text-gray-500 dark:text-gray-400">
         <p>No expenses recorded yet.</p>
         <p className="text-sm mt-1">Add your first expense above!</p>
+        {undoToast}
       </div>
     );
   }
 
   // Group expenses by date
-  const grouped = expenses.reduce((groups, expense) => {
+  const grouped = shown.reduce((groups, expense) => {
     const date = new Date(expense.date).toLocaleDateString("en-PH", {
       year: "numeric",
       month: "short",
@@ -54,9 +385,59 @@ export default function ExpenseList({
 
   return (
     <div className="space-y-4">
-      <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
-        Recent Expenses
-      </h3>
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+          Recent Expenses
+        </h3>
+        <Link
+          href="/dashboard/trash"
+          className="flex items-center gap-1 text-sm text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+        >
+          <Trash2 className="h-4 w-4" />
+          Trash
+        </Link>
+      </div>
+
+      {selectable.length > 0 && selected.length === 0 && (
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Tick expenses to change several at once. Shift-click selects a range.
+        </p>
+      )}
+
+      {selected.length > 0 && (
+        <BulkExpenseToolbar
+          selectedCount={selected.length}
+          selectableCount={selectable.length}
+          busy={bulkBusy}
+          onApply={handleBulkApply}
+          onSelectAll={() => setSelectedIds(selectable.map((expense) => expense.id))}
+          onClear={clearSelection}
+        />
+      )}
+
+      {bulkMessage && (
+        <div
+          className={`px-4 py-3 rounded-md text-sm ${
+            bulkMessage.includes("success")
+              ? "bg-green-50 dark:bg-green-900/20 text-green-600 dark:text-green-400"
+              : "bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400"
+          }`}
+        >
+          <p>{bulkMessage}</p>
+          {bulkFailures.length > 0 && (
+            <ul className="mt-2 space-y-1 list-disc list-inside">
+              {bulkFailures.map((failure) => {
+                const expense = expenses.find((row) => row.id === failure.expenseId);
+                return (
+                  <li key={failure.expenseId}>
+                    {expense ? `${expense.category} on ${expense.date}` : "Expense"}: {failure.error}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      )}
 
       {Object.entries(grouped).map(([date, dayExpenses]) => (
         <div key={date} className="space-y-2">
@@ -64,40 +445,184 @@ export default function ExpenseList({
             {date}
           </p>
 
-          {dayExpenses.map((expense) => (
-            <div
-              key={expense.id}
-              className="flex items-center justify-between p-3 bg-gray-50 dark:bg-gray-700/50 rounded-md group"
-            >
-              <div className="flex-1 min-w-0">
-                <p className="text-sm font-medium text-gray-900 dark:text-white truncate">
-                  {expense.category}
-                </p>
-                {expense.description && (
-                  <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
-                    {expense.description}
-                  </p>
+          {dayExpenses.map((expense) => {
+            const queued = queuedChangeFor(queue, expense.id);
+            const pendingDelete = queued?.change.kind === "delete";
+
+            return editingId === expense.id && editValues ? (
+              <form
+                key={expense.id}
+                onSubmit={handleUpdate}
+                className="p-4 bg-gray-50 dark:bg-gray-700/50 rounded-md space-y-4"
+              >
+                {editError && (
+                  <div className="px-4 py-3 rounded-md text-sm bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400">
+                    {editError}
+                  </div>
                 )}
-              </div>
 
-              <div className="flex items-center space-x-3 ml-4">
-                <span className="text-sm font-semibold text-red-600 dark:text-red-400">
-                  -{formatPeso(expense.amount)}
-                </span>
-
-                <button
-                  onClick={() => handleDelete(expense.id)}
-                  disabled={deletingId === expense.id}
-                  className="p-1 text-gray-400 hover:text-red-600 dark:hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
-                  title="Delete expense"
-                >
-                  <Trash2 className="h-4 w-4" />
-                </button>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <ExpenseFields
+                    values={editValues}
+                    onChange={setEditValues}
+                    idPrefix={`edit-${expense.id}`}
+                  />
+                </div>
+
+                <ReceiptThumbnails
+                  attachments={attachments[expense.id] ?? []}
+                  onDelete={handleDeleteAttachment}
+                />
+                <ReceiptPicker
+                  files={editReceipts}
+                  onChange={setEditReceipts}
+                  idPrefix={`edit-${expense.id}`}
+                />
+
+                <div className="flex space-x-3">
+                  <button
+                    type="submit"
+                    disabled={saving}
+                    className="flex-1 flex justify-center items-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  >
+                    {saving ? "Saving..." : "Save Changes"}
+                  </button>
+
+                  <button
+                    type="button"
+                    onClick={cancelEdit}
+                    className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500 transition-colors"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </form>
+            ) : (
+              <div
+                key={expense.id}
+                className={`flex items-center justify-between p-3 rounded-md group ${
+                  selected.includes(expense.id)
+                    ? "bg-blue-50 dark:bg-blue-900/20"
+                    : "bg-gray-50 dark:bg-gray-700/50"
+                } ${pendingDelete ? "opacity-60" : ""}`}
+              >
+                {selectable.includes(expense) && (
+                  <input
+                    type="checkbox"
+                    aria-label={`Select ${expense.category} expense`}
+                    checked={selected.includes(expense.id)}
+                    readOnly
+                    onClick={(e) => toggleSelected(expense, e.shiftKey)}
+                    className="mr-3 rounded border-gray-300 dark:border-gray-600"
+                  />
+                )}
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-gray-900 dark:text-white truncate">
+                    {expense.category}
+                  </p>
+                  {(expense.description || members) && (
+                    <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                      {members && spenderName(expense.user_id)}
+                      {members && expense.description && " • "}
+                      {expense.description}
+                    </p>
+                  )}
+                  {expense.tags?.length > 0 && (
+                    <div className="flex flex-wrap gap-1 mt-1">
+                      {expense.tags.map((tag) => (
+                        <span
+                          key={tag}
+                          className="px-1.5 py-0.5 text-xs rounded bg-gray-200 dark:bg-gray-600 text-gray-700 dark:text-gray-200"
+                        >
+                          #{tag}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                  {attachments[expense.id] && (
+                    <div className="mt-2">
+                      <ReceiptThumbnails attachments={attachments[expense.id]} />
+                    </div>
+                  )}
+                  {queued?.conflict ? (
+                    <div className="mt-1 flex flex-wrap items-center gap-x-3 gap-y-1 text-xs">
+                      <span className="flex items-center gap-1 text-red-600 dark:text-red-400">
+                        <AlertTriangle className="h-3 w-3" />
+                        {queued.conflict}
+                      </span>
+                      <button
+                        onClick={() => handleResolve(expense.id, "mine")}
+                        className="font-medium text-blue-600 dark:text-blue-400 hover:underline"
+                      >
+                        Keep mine
+                      </button>
+                      <button
+                        onClick={() => handleResolve(expense.id, "theirs")}
+                        className="font-medium text-gray-600 dark:text-gray-300 hover:underline"
+                      >
+                        Discard mine
+                      </button>
+                    </div>
+                  ) : (
+                    queued && (
+                      <p className="mt-1 flex items-center gap-1 text-xs text-amber-600 dark:text-amber-400">
+                        <CloudOff className="h-3 w-3" />
+                        {pendingDelete ? "Delete waiting to sync" : "Waiting to sync"}
+                      </p>
+                    )
+                  )}
+                </div>
+
+                <div className="flex items-center space-x-3 ml-4">
+                  <div className="text-right">
+                    <span className="text-sm font-semibold text-red-600 dark:text-red-400">
+                      -{formatPeso(expense.amount)}
+                    </span>
+                    {expense.original_amount !== null && (
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        {formatCurrency(expense.original_amount, expense.currency)}
+                      </p>
+                    )}
+                  </div>
+
+                  {queued?.change.kind !== "create" && (
+                    <Link
+                      href={`/dashboard/expenses/${expense.id}`}
+                      className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 opacity-0 group-hover:opacity-100 transition-opacity"
+                      title="Details and history"
+                    >
+                      <History className="h-4 w-4" />
+                    </Link>
+                  )}
+
+                  {canChange(expense) && !pendingDelete && (
+                    <>
+                      <button
+                        onClick={() => startEdit(expense)}
+                        className="p-1 text-gray-400 hover:text-blue-600 dark:hover:text-blue-400 opacity-0 group-hover:opacity-100 transition-opacity"
+                        title="Edit expense"
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </button>
+
+                      <button
+                        onClick={() => handleDelete(expense.id)}
+                        disabled={deletingId === expense.id}
+                        className="p-1 text-gray-400 hover:text-red-600 dark:hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+                        title="Move to trash"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </>
+                  )}
+                </div>
               </div>
-            </div>
-          ))}
+            );
+          })}
         </div>
       ))}
+
+      {undoToast}
     </div>
   );
 }
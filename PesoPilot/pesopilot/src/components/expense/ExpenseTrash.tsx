@@ -0,0 +1,186 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import {
+  getDeletedExpenses,
+  purgeDeletedExpenses,
+  restoreExpense,
+  type Expense,
+} from "@/app/api/budget";
+import { formatPeso } from "@/utils/currency";
+import { daysUntilPurge, TRASH_RETENTION_DAYS } from "@/utils/trash";
+import { History, RotateCcw, Trash2 } from "lucide-react";
+
+/** Deleted expenses, with restore and permanent delete. */
+export default function ExpenseTrash() {
+  const [expenses, setExpenses] = useState<Expense[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [message, setMessage] = useState("");
+
+  const loadTrash = useCallback(async () => {
+    setExpenses(await getDeletedExpenses());
+  }, []);
+
+  useEffect(() => {
+    getDeletedExpenses().then((list) => {
+      setExpenses(list);
+      setLoading(false);
+    });
+  }, []);
+
+  async function handleRestore(expense: Expense) {
+    setBusyId(expense.id);
+    setMessage("");
+
+    const result = await restoreExpense(expense.id);
+    if (result.success) {
+      setMessage(`Restored ${expense.category} expense successfully!`);
+      await loadTrash();
+    } else {
+      setMessage(result.error || "Failed to restore expense");
+    }
+    setBusyId(null);
+  }
+
+  async function handlePurge(expense: Expense) {
+    if (!confirm("Delete this expense forever? This can't be undone.")) return;
+
+    setBusyId(expense.id);
+    setMessage("");
+
+    const result = await purgeDeletedExpenses(expense.id);
+    if (result.success) {
+      await loadTrash();
+    } else {
+      setMessage(result.error || "Failed to delete expense");
+    }
+    setBusyId(null);
+  }
+
+  async function handleEmpty() {
+    if (!confirm(`Delete all ${expenses.length} expenses in the trash forever?`)) return;
+
+    setBusyId("all");
+    setMessage("");
+
+    const result = await purgeDeletedExpenses();
+    if (result.success) {
+      setMessage("Trash emptied successfully!");
+      await loadTrash();
+    } else {
+      setMessage(result.error || "Failed to empty the trash");
+    }
+    setBusyId(null);
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {message && (
+        <div
+          className={`px-4 py-3 rounded-md text-sm ${
+            message.includes("success")
+              ? "bg-green-50 dark:bg-green-900/20 text-green-600 dark:text-green-400"
+              : "bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400"
+          }`}
+        >
+          {message}
+        </div>
+      )}
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6 border border-gray-200 dark:border-gray-700">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+              Deleted Expenses
+            </h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Expenses are deleted forever {TRASH_RETENTION_DAYS} days after they are moved here.
+            </p>
+          </div>
+          {expenses.length > 0 && (
+            <button
+              onClick={handleEmpty}
+              disabled={busyId !== null}
+              className="px-3 py-2 text-sm font-medium text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-md disabled:opacity-50 transition-colors"
+            >
+              Empty trash
+            </button>
+          )}
+        </div>
+
+        {expenses.length === 0 ? (
+          <div className="text-center py-8 text-gray-500 dark:text-gray-400">
+            <Trash2 className="w-10 h-10 mx-auto mb-3 opacity-50" />
+            <p>The trash is empty.</p>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {expenses.map((expense) => {
+              const daysLeft = daysUntilPurge(expense.deleted_at ?? expense.created_at);
+              return (
+                <div
+                  key={expense.id}
+                  className="flex items-center justify-between p-3 bg-gray-50 dark:bg-gray-700/50 rounded-md"
+                >
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-gray-900 dark:text-white truncate">
+                      {expense.category}
+                      <span className="ml-2 font-normal text-gray-500 dark:text-gray-400">
+                        {expense.date}
+                      </span>
+                    </p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                      {expense.description && `${expense.description} • `}
+                      {daysLeft === 0
+                        ? "Deleted forever soon"
+                        : `Deleted forever in ${daysLeft} day${daysLeft === 1 ? "" : "s"}`}
+                    </p>
+                  </div>
+
+                  <div className="flex items-center space-x-3 ml-4">
+                    <span className="text-sm font-semibold text-gray-900 dark:text-white">
+                      {formatPeso(expense.amount)}
+                    </span>
+                    <Link
+                      href={`/dashboard/expenses/${expense.id}`}
+                      className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+                      title="Details and history"
+                    >
+                      <History className="h-4 w-4" />
+                    </Link>
+                    <button
+                      onClick={() => handleRestore(expense)}
+                      disabled={busyId !== null}
+                      className="p-1 text-gray-400 hover:text-blue-600 dark:hover:text-blue-400 disabled:opacity-50"
+                      title="Restore expense"
+                    >
+                      <RotateCcw className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => handlePurge(expense)}
+                      disabled={busyId !== null}
+                      className="p-1 text-gray-400 hover:text-red-600 dark:hover:text-red-400 disabled:opacity-50"
+                      title="Delete forever"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+"use client";
+
+import { useState } from "react";
+import {
+  attachmentError,
+  ATTACHMENT_ACCEPT,
+  MAX_ATTACHMENTS_PER_UPLOAD,
+} from "@/utils/attachments";
+import { Paperclip, X } from "lucide-react";
+
+interface ReceiptPickerProps {
+  files: File[];
+  onChange: (files: File[]) => void;
+  idPrefix?: string;
+}
+
+/** Pick receipt images or PDFs to upload once the expense is saved. */
+export default function ReceiptPicker({ files, onChange, idPrefix = "expense" }: ReceiptPickerProps) {
+  const [error, setError] = useState("");
+
+  function handleFiles(e: React.ChangeEvent<HTMLInputElement>) {
+    const picked = Array.from(e.target.files ?? []);
+    e.target.value = "";
+
+    const invalid = picked.map(attachmentError).find(Boolean);
+    if (invalid) {
+      setError(invalid);
+      return;
+    }
+
+    const next = [...files, ...picked];
+    if (next.length > MAX_ATTACHMENTS_PER_UPLOAD) {
+      setError(`Attach at most ${MAX_ATTACHMENTS_PER_UPLOAD} files at a time`);
+      return;
+    }
+
+    setError("");
+    onChange(next);
+  }
+
+  return (
+    <div>
+      <label
+        htmlFor={`${idPrefix}-receipts`}
+        className="inline-flex items-center text-sm font-medium text-blue-600 dark:text-blue-400 hover:text-blue-700 cursor-pointer"
+      >
+        <Paperclip className="h-4 w-4 mr-1" />
+        Attach Receipt
+      </label>
+      <input
+        id={`${idPrefix}-receipts`}
+        type="file"
+        accept={ATTACHMENT_ACCEPT}
+        multiple
+        onChange={handleFiles}
+        className="hidden"
+      />
+
+      {error && <p className="text-xs text-red-600 dark:text-red-400 mt-1">{error}</p>}
+
+      {files.length > 0 && (
+        <ul className="mt-2 space-y-1">
+          {files.map((file, index) => (
+            <li
+              key={`${file.name}-${index}`}
+              className="flex items-center justify-between text-xs text-gray-600 dark:text-gray-300"
+            >
+              <span className="truncate">{file.name}</span>
+              <button
+                type="button"
+                onClick={() => onChange(files.filter((_, i) => i !== index))}
+                className="p-1 text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+                title="Remove file"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+"use client";
+
+import Image from "next/image";
+import type { ExpenseAttachment } from "@/app/api/attachments";
+import { isImageAttachment } from "@/utils/attachments";
+import { FileText, X } from "lucide-react";
+
+interface ReceiptThumbnailsProps {
+  attachments: ExpenseAttachment[];
+  onDelete?: (attachment: ExpenseAttachment) => void;
+}
+
+/** Receipt thumbnails that open the full file in a new tab. */
+export default function ReceiptThumbnails({ attachments, onDelete }: ReceiptThumbnailsProps) {
+  if (attachments.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {attachments.map((attachment) => (
+        <div key={attachment.id} className="relative">
+          <a
+            href={attachment.url ?? undefined}
+            target="_blank"
+            rel="noopener noreferrer"
+            title={attachment.file_name}
+            className="relative flex items-center justify-center w-12 h-12 rounded-md overflow-hidden border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-800"
+          >
+            {attachment.url && isImageAttachment(attachment.content_type) ? (
+              // Signed URLs change on every load, so there is nothing to optimize
+              <Image
+                src={attachment.url}
+                alt={attachment.file_name}
+                fill
+                sizes="48px"
+                unoptimized
+                className="object-cover"
+              />
+            ) : (
+              <FileText className="h-5 w-5 text-gray-400" />
+            )}
+          </a>
+          {onDelete && (
+            <button
+              type="button"
+              onClick={() => onDelete(attachment)}
+              className="absolute -top-1.5 -right-1.5 p-0.5 rounded-full bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-600 text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+              title="Remove receipt"
+            >
+              <X className="h-3 w-3" />
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
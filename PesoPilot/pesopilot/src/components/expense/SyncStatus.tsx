@@ -0,0 +1,43 @@
+"use client";
+
+import { useOfflineSync } from "@/providers/OfflineSyncProvider";
+import { CloudOff, RefreshCw } from "lucide-react";
+
+/** Shows when the app is offline or has expense changes waiting to sync. */
+export default function SyncStatus() {
+  const { queue, online, syncing, syncNow } = useOfflineSync();
+
+  const conflicts = queue.filter((item) => item.conflict).length;
+  const pending = queue.length - conflicts;
+
+  if (online && queue.length === 0) return null;
+
+  if (!online) {
+    return (
+      <span className="flex items-center px-3 py-1 text-xs font-medium rounded-full bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300">
+        <CloudOff className="h-3.5 w-3.5 mr-1.5" />
+        Offline{queue.length > 0 && ` • ${queue.length} to sync`}
+      </span>
+    );
+  }
+
+  return (
+    <button
+      onClick={syncNow}
+      disabled={syncing || pending === 0}
+      className={`flex items-center px-3 py-1 text-xs font-medium rounded-full disabled:cursor-default ${
+        conflicts > 0
+          ? "bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300"
+          : "bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300"
+      }`}
+      title={pending > 0 ? "Sync now" : undefined}
+    >
+      <RefreshCw className={`h-3.5 w-3.5 mr-1.5 ${syncing ? "animate-spin" : ""}`} />
+      {conflicts > 0
+        ? `${conflicts} to review`
+        : syncing
+          ? "Syncing..."
+          : `${pending} to sync`}
+    </button>
+  );
+}
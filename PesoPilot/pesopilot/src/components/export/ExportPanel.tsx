@@ -0,0 +1,174 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { getExportData } from "@/app/api/export";
+import { getCategories, type Category } from "@/app/api/categories";
+import { expensesToCsv } from "@/utils/export";
+import { DEFAULT_PERIOD, getPeriodRange } from "@/utils/period";
+import { FileSpreadsheet, FileText, FileDown } from "lucide-react";
+import { useTimezone } from "@/providers/TimezoneProvider";
+
+type ExportFormat = "csv" | "xlsx" | "pdf";
+
+const inputClass =
+  "block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white text-sm";
+
+const formats: { format: ExportFormat; label: string; description: string; icon: typeof FileText }[] = [
+  { format: "csv", label: "CSV", description: "Every transaction, for spreadsheets and backups", icon: FileDown },
+  { format: "xlsx", label: "Excel (XLSX)", description: "Transactions plus a summary sheet per month", icon: FileSpreadsheet },
+  { format: "pdf", label: "PDF Statement", description: "Totals, budget vs actual and category breakdown", icon: FileText },
+];
+
+function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export default function ExportPanel() {
+  const { today } = useTimezone();
+  const [startDate, setStartDate] = useState(() => getPeriodRange(DEFAULT_PERIOD, today()).start);
+  const [endDate, setEndDate] = useState(today);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+  const [message, setMessage] = useState("");
+
+  useEffect(() => {
+    getCategories(true).then(setCategories);
+  }, []);
+
+  function toggleCategory(name: string) {
+    setSelected((prev) =>
+      prev.includes(name) ? prev.filter((category) => category !== name) : [...prev, name]
+    );
+  }
+
+  async function handleExport(format: ExportFormat) {
+    setExporting(format);
+    setMessage("");
+
+    const result = await getExportData(startDate, endDate, selected);
+
+    if (!result.success || !result.data) {
+      setMessage(result.error || "Failed to export");
+      setExporting(null);
+      return;
+    }
+
+    if (result.data.expenses.length === 0) {
+      setMessage("No expenses in this range to export.");
+      setExporting(null);
+      return;
+    }
+
+    const baseName = `pesopilot-${startDate}-to-${endDate}`;
+
+    // The spreadsheet and PDF libraries are large, so only load them when used
+    if (format === "csv") {
+      downloadBlob(
+        new Blob([expensesToCsv(result.data.expenses)], { type: "text/csv;charset=utf-8" }),
+        `${baseName}.csv`
+      );
+    } else if (format === "xlsx") {
+      const { buildExpenseWorkbook } = await import("@/utils/exportXlsx");
+      downloadBlob(await buildExpenseWorkbook(result.data), `${baseName}.xlsx`);
+    } else {
+      const { buildExpenseStatement } = await import("@/utils/exportPdf");
+      downloadBlob(buildExpenseStatement(result.data), `${baseName}.pdf`);
+    }
+
+    setExporting(null);
+  }
+
+  return (
+    <div className="space-y-6">
+      {message && (
+        <div className="px-4 py-3 rounded-md text-sm bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400">
+          {message}
+        </div>
+      )}
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6 border border-gray-200 dark:border-gray-700">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+          What to Export
+        </h3>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+          <div>
+            <label htmlFor="export-from" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              From
+            </label>
+            <input
+              id="export-from"
+              type="date"
+              required
+              value={startDate}
+              onChange={(e) => setStartDate(e.target.value)}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label htmlFor="export-to" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              To
+            </label>
+            <input
+              id="export-to"
+              type="date"
+              required
+              value={endDate}
+              onChange={(e) => setEndDate(e.target.value)}
+              className={inputClass}
+            />
+          </div>
+        </div>
+
+        <p className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+          Categories{" "}
+          <span className="font-normal text-gray-500 dark:text-gray-400">
+            ({selected.length === 0 ? "all" : `${selected.length} selected`})
+          </span>
+        </p>
+        <div className="flex flex-wrap gap-2">
+          {categories.map((category) => {
+            const active = selected.includes(category.name);
+            return (
+              <button
+                key={category.id}
+                type="button"
+                onClick={() => toggleCategory(category.name)}
+                className={`px-3 py-1 rounded-full text-sm border transition-colors ${
+                  active
+                    ? "bg-blue-600 border-blue-600 text-white"
+                    : "border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+                }`}
+              >
+                {category.name}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        {formats.map(({ format, label, description, icon: Icon }) => (
+          <button
+            key={format}
+            onClick={() => handleExport(format)}
+            disabled={exporting !== null || !startDate || !endDate}
+            className="flex flex-col items-start text-left bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6 border border-gray-200 dark:border-gray-700 hover:border-blue-500 dark:hover:border-blue-400 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            <Icon className="h-6 w-6 text-blue-600 dark:text-blue-400 mb-3" />
+            <span className="text-sm font-semibold text-gray-900 dark:text-white">
+              {exporting === format ? "Preparing..." : label}
+            </span>
+            <span className="text-xs text-gray-500 dark:text-gray-400 mt-1">{description}</span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,453 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import {
+  addGoalContribution,
+  archiveGoal,
+  createGoal,
+  deleteGoal,
+  deleteGoalContribution,
+  getGoalContributions,
+  getGoals,
+  type GoalContribution,
+  type GoalContributionType,
+  type SavingsGoalProgress,
+} from "@/app/api/goals";
+import { formatPeso } from "@/utils/currency";
+import AccountSelect from "@/components/account/AccountSelect";
+import GoalProgress from "./GoalProgress";
+import { Archive, History, Minus, Plus, Trash2 } from "lucide-react";
+import { useTimezone } from "@/providers/TimezoneProvider";
+
+const inputClass =
+  "block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white text-sm";
+
+const labelClass =
+  "block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1";
+
+export default function GoalManager() {
+  const { today } = useTimezone();
+  const [goals, setGoals] = useState<SavingsGoalProgress[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [message, setMessage] = useState("");
+
+  const [name, setName] = useState("");
+  const [targetAmount, setTargetAmount] = useState("");
+  const [targetDate, setTargetDate] = useState("");
+  const [accountId, setAccountId] = useState("");
+  const [savingGoal, setSavingGoal] = useState(false);
+
+  // The goal whose contribution form or history is open, if any
+  const [activeGoalId, setActiveGoalId] = useState<string | null>(null);
+  const [entryType, setEntryType] = useState<GoalContributionType>("contribution");
+  const [entryAmount, setEntryAmount] = useState("");
+  const [entryDate, setEntryDate] = useState(today());
+  const [entryNote, setEntryNote] = useState("");
+  const [savingEntry, setSavingEntry] = useState(false);
+  const [history, setHistory] = useState<GoalContribution[] | null>(null);
+
+  const loadGoals = useCallback(async () => {
+    setGoals(await getGoals());
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    getGoals().then((list) => {
+      setGoals(list);
+      setLoading(false);
+    });
+  }, []);
+
+  async function handleCreateGoal(e: React.FormEvent) {
+    e.preventDefault();
+    setSavingGoal(true);
+    setMessage("");
+
+    const result = await createGoal({
+      name,
+      target_amount: Number(targetAmount),
+      target_date: targetDate,
+      account_id: accountId || null,
+    });
+
+    if (result.success) {
+      setMessage("Goal added successfully!");
+      setName("");
+      setTargetAmount("");
+      setTargetDate("");
+      setAccountId("");
+      await loadGoals();
+    } else {
+      setMessage(result.error || "Failed to add goal");
+    }
+
+    setSavingGoal(false);
+  }
+
+  function openEntryForm(goal: SavingsGoalProgress, type: GoalContributionType) {
+    setActiveGoalId(goal.id);
+    setEntryType(type);
+    setEntryAmount("");
+    setEntryDate(today());
+    setEntryNote("");
+    setHistory(null);
+  }
+
+  async function openHistory(goal: SavingsGoalProgress) {
+    if (activeGoalId === goal.id && history) {
+      setActiveGoalId(null);
+      setHistory(null);
+      return;
+    }
+    setActiveGoalId(goal.id);
+    setHistory(await getGoalContributions(goal.id));
+  }
+
+  async function handleAddEntry(e: React.FormEvent) {
+    e.preventDefault();
+    if (!activeGoalId) return;
+    setSavingEntry(true);
+    setMessage("");
+
+    const result = await addGoalContribution(
+      activeGoalId,
+      entryType,
+      Number(entryAmount),
+      entryDate,
+      entryNote
+    );
+
+    if (result.success) {
+      setMessage(
+        entryType === "withdrawal"
+          ? "Withdrawal recorded successfully!"
+          : "Contribution recorded successfully!"
+      );
+      setActiveGoalId(null);
+      await loadGoals();
+    } else {
+      setMessage(result.error || "Failed to record the amount");
+    }
+
+    setSavingEntry(false);
+  }
+
+  async function handleDeleteEntry(entry: GoalContribution) {
+    if (!confirm(`Delete this ${entry.type} of ${formatPeso(entry.amount)}?`)) return;
+    const result = await deleteGoalContribution(entry.id);
+    if (!result.success) setMessage(result.error || "Failed to delete entry");
+    setHistory(await getGoalContributions(entry.goal_id));
+    await loadGoals();
+  }
+
+  async function handleArchive(goal: SavingsGoalProgress) {
+    if (!confirm(`Archive ${goal.name}? Its contributions are kept.`)) return;
+    const result = await archiveGoal(goal.id);
+    if (!result.success) setMessage(result.error || "Failed to archive goal");
+    await loadGoals();
+  }
+
+  async function handleDelete(goal: SavingsGoalProgress) {
+    if (!confirm(`Delete ${goal.name} and all of its contributions?`)) return;
+    const result = await deleteGoal(goal.id);
+    if (!result.success) setMessage(result.error || "Failed to delete goal");
+    await loadGoals();
+  }
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      {message && (
+        <div
+          className={`px-4 py-3 rounded-md text-sm ${
+            message.includes("success")
+              ? "bg-green-50 dark:bg-green-900/20 text-green-600 dark:text-green-400"
+              : "bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400"
+          }`}
+        >
+          {message}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        {/* New Goal */}
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6 border border-gray-200 dark:border-gray-700 h-fit">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+            New Goal
+          </h3>
+          <form onSubmit={handleCreateGoal} className="space-y-4">
+            <div>
+              <label htmlFor="goal-name" className={labelClass}>
+                Name
+              </label>
+              <input
+                id="goal-name"
+                type="text"
+                required
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                className={inputClass}
+                placeholder="e.g., Boracay trip"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label htmlFor="goal-target" className={labelClass}>
+                  Target (₱)
+                </label>
+                <input
+                  id="goal-target"
+                  type="number"
+                  min="0.01"
+                  step="0.01"
+                  required
+                  value={targetAmount}
+                  onChange={(e) => setTargetAmount(e.target.value)}
+                  className={inputClass}
+                  placeholder="0.00"
+                />
+              </div>
+              <div>
+                <label htmlFor="goal-date" className={labelClass}>
+                  Target Date
+                </label>
+                <input
+                  id="goal-date"
+                  type="date"
+                  required
+                  min={today()}
+                  value={targetDate}
+                  onChange={(e) => setTargetDate(e.target.value)}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+            <div>
+              <label htmlFor="goal-account" className={labelClass}>
+                Kept In (Optional)
+              </label>
+              <AccountSelect
+                id="goal-account"
+                value={accountId}
+                onChange={setAccountId}
+                className={inputClass}
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={savingGoal}
+              className="w-full flex justify-center items-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {savingGoal ? (
+                "Saving..."
+              ) : (
+                <>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Goal
+                </>
+              )}
+            </button>
+          </form>
+        </div>
+
+        {/* Goals */}
+        <div className="lg:col-span-2 space-y-4">
+          {goals.length === 0 ? (
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6 border border-gray-200 dark:border-gray-700">
+              <p className="text-center py-8 text-gray-500 dark:text-gray-400">
+                No goals yet. Start one for an emergency fund, a trip or a new gadget.
+              </p>
+            </div>
+          ) : (
+            goals.map((goal) => (
+              <div
+                key={goal.id}
+                className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6 border border-gray-200 dark:border-gray-700 group"
+              >
+                <div className="flex items-start justify-between mb-3">
+                  <div className="min-w-0">
+                    <h3 className="text-lg font-semibold text-gray-900 dark:text-white truncate">
+                      {goal.name}
+                    </h3>
+                    {goal.account_name && (
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        Kept in {goal.account_name}
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                    <button
+                      onClick={() => handleArchive(goal)}
+                      className="p-1 text-gray-400 hover:text-amber-600 dark:hover:text-amber-400"
+                      title="Archive goal"
+                    >
+                      <Archive className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(goal)}
+                      className="p-1 text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+                      title="Delete goal"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                </div>
+
+                <GoalProgress goal={goal} />
+
+                <div className="flex flex-wrap gap-2 mt-4">
+                  <button
+                    onClick={() => openEntryForm(goal, "contribution")}
+                    className="flex items-center px-3 py-1.5 rounded-md text-sm font-medium text-green-700 dark:text-green-400 bg-green-50 dark:bg-green-900/20 hover:bg-green-100 dark:hover:bg-green-900/40 transition-colors"
+                  >
+                    <Plus className="h-4 w-4 mr-1" />
+                    Add Money
+                  </button>
+                  <button
+                    onClick={() => openEntryForm(goal, "withdrawal")}
+                    disabled={goal.saved <= 0}
+                    className="flex items-center px-3 py-1.5 rounded-md text-sm font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  >
+                    <Minus className="h-4 w-4 mr-1" />
+                    Withdraw
+                  </button>
+                  <button
+                    onClick={() => openHistory(goal)}
+                    className="flex items-center px-3 py-1.5 rounded-md text-sm font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+                  >
+                    <History className="h-4 w-4 mr-1" />
+                    History
+                  </button>
+                </div>
+
+                {activeGoalId === goal.id && !history && (
+                  <form
+                    onSubmit={handleAddEntry}
+                    className="mt-4 p-4 bg-gray-50 dark:bg-gray-700/50 rounded-md space-y-3"
+                  >
+                    <p className="text-sm font-medium text-gray-900 dark:text-white">
+                      {entryType === "withdrawal" ? "Withdraw from" : "Add to"} {goal.name}
+                    </p>
+                    <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                      <div>
+                        <label htmlFor="entry-amount" className={labelClass}>
+                          Amount (₱)
+                        </label>
+                        <input
+                          id="entry-amount"
+                          type="number"
+                          min="0.01"
+                          step="0.01"
+                          required
+                          value={entryAmount}
+                          onChange={(e) => setEntryAmount(e.target.value)}
+                          className={inputClass}
+                          placeholder="0.00"
+                        />
+                      </div>
+                      <div>
+                        <label htmlFor="entry-date" className={labelClass}>
+                          Date
+                        </label>
+                        <input
+                          id="entry-date"
+                          type="date"
+                          required
+                          value={entryDate}
+                          onChange={(e) => setEntryDate(e.target.value)}
+                          className={inputClass}
+                        />
+                      </div>
+                      <div>
+                        <label htmlFor="entry-note" className={labelClass}>
+                          Note (Optional)
+                        </label>
+                        <input
+                          id="entry-note"
+                          type="text"
+                          value={entryNote}
+                          onChange={(e) => setEntryNote(e.target.value)}
+                          className={inputClass}
+                          placeholder="e.g., 13th month pay"
+                        />
+                      </div>
+                    </div>
+                    <div className="flex gap-2">
+                      <button
+                        type="submit"
+                        disabled={savingEntry}
+                        className="px-4 py-2 rounded-md text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                      >
+                        {savingEntry ? "Saving..." : "Save"}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setActiveGoalId(null)}
+                        className="px-4 py-2 rounded-md text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  </form>
+                )}
+
+                {activeGoalId === goal.id && history && (
+                  <div className="mt-4 space-y-2">
+                    {history.length === 0 ? (
+                      <p className="text-sm text-gray-500 dark:text-gray-400">
+                        Nothing saved toward this goal yet.
+                      </p>
+                    ) : (
+                      history.map((entry) => (
+                        <div
+                          key={entry.id}
+                          className="flex items-center justify-between p-3 bg-gray-50 dark:bg-gray-700/50 rounded-md group/entry"
+                        >
+                          <div className="min-w-0">
+                            <p className="text-sm font-medium text-gray-900 dark:text-white">
+                              {entry.type === "withdrawal" ? "Withdrawal" : "Contribution"}
+                            </p>
+                            <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                              {entry.date}
+                              {entry.note && ` • ${entry.note}`}
+                            </p>
+                          </div>
+                          <div className="flex items-center gap-2 ml-3">
+                            <span
+                              className={`text-sm font-semibold ${
+                                entry.type === "withdrawal"
+                                  ? "text-red-600 dark:text-red-400"
+                                  : "text-green-600 dark:text-green-400"
+                              }`}
+                            >
+                              {entry.type === "withdrawal" ? "-" : "+"}
+                              {formatPeso(entry.amount)}
+                            </span>
+                            <button
+                              onClick={() => handleDeleteEntry(entry)}
+                              className="p-1 text-gray-400 hover:text-red-600 dark:hover:text-red-400 opacity-0 group-hover/entry:opacity-100 transition-opacity"
+                              title="Delete entry"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </button>
+                          </div>
+                        </div>
+                      ))
+                    )}
+                  </div>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
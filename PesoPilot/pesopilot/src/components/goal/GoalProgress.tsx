@@ -0,0 +1,62 @@
+"use client";
+
+import type { SavingsGoalProgress } from "@/app/api/goals";
+import { GOAL_STATUS_LABELS, type GoalStatus } from "@/utils/goals";
+import { formatPeso } from "@/utils/currency";
+
+const statusStyles: Record<GoalStatus, { badge: string; bar: string }> = {
+  reached: {
+    badge: "bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-400",
+    bar: "bg-green-500",
+  },
+  on_pace: {
+    badge: "bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-400",
+    bar: "bg-blue-500",
+  },
+  behind: {
+    badge: "bg-yellow-100 dark:bg-yellow-900/30 text-yellow-700 dark:text-yellow-400",
+    bar: "bg-yellow-500",
+  },
+  overdue: {
+    badge: "bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-400",
+    bar: "bg-red-500",
+  },
+};
+
+interface GoalProgressProps {
+  goal: SavingsGoalProgress;
+}
+
+/**
+ * Progress bar, pace badge and the monthly amount still needed for a goal.
+ * Shared by the goals page and the dashboard widget.
+ */
+export default function GoalProgress({ goal }: GoalProgressProps) {
+  const styles = statusStyles[goal.status];
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-1">
+        <span className="text-sm text-gray-700 dark:text-gray-300">
+          {formatPeso(goal.saved)} of {formatPeso(goal.target_amount)}
+        </span>
+        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${styles.badge}`}>
+          {GOAL_STATUS_LABELS[goal.status]}
+        </span>
+      </div>
+      <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2.5">
+        <div
+          className={`h-2.5 rounded-full transition-all duration-500 ${styles.bar}`}
+          style={{ width: `${goal.percentage}%` }}
+        />
+      </div>
+      <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+        {goal.status === "reached"
+          ? `Target reached • due ${goal.target_date}`
+          : goal.status === "overdue"
+            ? `${formatPeso(goal.remaining)} short • was due ${goal.target_date}`
+            : `${formatPeso(goal.requiredMonthly)}/month to reach it by ${goal.target_date}`}
+      </p>
+    </div>
+  );
+}
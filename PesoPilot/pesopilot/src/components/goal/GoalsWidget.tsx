@@ -0,0 +1,77 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import { getGoals, type SavingsGoalProgress } from "@/app/api/goals";
+import GoalProgress from "./GoalProgress";
+import { Target } from "lucide-react";
+
+const MAX_GOALS_SHOWN = 3;
+
+/** Dashboard card with the nearest savings goals and whether each is on pace. */
+export default function GoalsWidget() {
+  const [goals, setGoals] = useState<SavingsGoalProgress[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    getGoals().then((list) => {
+      setGoals(list);
+      setLoading(false);
+    });
+  }, []);
+
+  if (loading) return null;
+
+  // Goals come sorted by target date, so finished ones would crowd out the rest
+  const shown = goals.filter((goal) => goal.status !== "reached").slice(0, MAX_GOALS_SHOWN);
+  const behind = goals.filter((goal) => goal.status === "behind" || goal.status === "overdue");
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6 border border-gray-200 dark:border-gray-700 mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <div className="p-2 bg-pink-100 dark:bg-pink-900/30 rounded-full">
+            <Target className="h-4 w-4 text-pink-600 dark:text-pink-400" />
+          </div>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+            Savings Goals
+          </h3>
+        </div>
+        <Link
+          href="/dashboard/goals"
+          className="text-sm font-medium text-blue-600 dark:text-blue-400 hover:underline"
+        >
+          {goals.length > 0 ? "Manage" : "Set a goal"}
+        </Link>
+      </div>
+
+      {goals.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Save toward an emergency fund, a trip or a new laptop and track your pace here.
+        </p>
+      ) : shown.length === 0 ? (
+        <p className="text-sm text-green-600 dark:text-green-400 font-medium">
+          🎉 Every goal has reached its target!
+        </p>
+      ) : (
+        <>
+          {behind.length > 0 && (
+            <p className="mb-4 text-sm text-yellow-600 dark:text-yellow-400 font-medium">
+              ⚠️ Behind on {behind.map((goal) => goal.name).join(", ")}
+            </p>
+          )}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            {shown.map((goal) => (
+              <div key={goal.id}>
+                <p className="text-sm font-medium text-gray-900 dark:text-white mb-2 truncate">
+                  {goal.name}
+                </p>
+                <GoalProgress goal={goal} />
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,300 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import {
+  getHouseholdOverview,
+  createHousehold,
+  inviteHouseholdMember,
+  acceptHouseholdInvite,
+  removeHouseholdMember,
+  switchWorkspace,
+  type HouseholdOverview,
+} from "@/app/api/household";
+import { Check, Mail, Plus, UserMinus, X } from "lucide-react";
+
+const inputClass =
+  "block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white text-sm";
+
+const buttonClass =
+  "flex justify-center items-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors";
+
+const emptyOverview: HouseholdOverview = {
+  currentUserId: null,
+  households: [],
+  activeHouseholdId: null,
+  members: [],
+  invites: [],
+};
+
+export default function HouseholdManager() {
+  const [overview, setOverview] = useState<HouseholdOverview>(emptyOverview);
+  const [loading, setLoading] = useState(true);
+  const [message, setMessage] = useState("");
+  const [name, setName] = useState("");
+  const [email, setEmail] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const loadOverview = useCallback(async () => {
+    setOverview(await getHouseholdOverview());
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    getHouseholdOverview().then((data) => {
+      setOverview(data);
+      setLoading(false);
+    });
+  }, []);
+
+  const active = overview.households.find(
+    (household) => household.id === overview.activeHouseholdId
+  );
+  const isOwner = active?.owner_id === overview.currentUserId;
+
+  async function handleCreate(e: React.FormEvent) {
+    e.preventDefault();
+    setSaving(true);
+    setMessage("");
+
+    const result = await createHousehold(name);
+
+    if (result.success) {
+      setMessage("Household created successfully!");
+      setName("");
+      await loadOverview();
+    } else {
+      setMessage(result.error || "Failed to create household");
+    }
+
+    setSaving(false);
+  }
+
+  async function handleInvite(e: React.FormEvent) {
+    e.preventDefault();
+    if (!active) return;
+    setSaving(true);
+    setMessage("");
+
+    const result = await inviteHouseholdMember(active.id, email);
+
+    if (result.success) {
+      setMessage(`Invitation created successfully! It will appear for ${email} after they sign in.`);
+      setEmail("");
+      await loadOverview();
+    } else {
+      setMessage(result.error || "Failed to invite member");
+    }
+
+    setSaving(false);
+  }
+
+  async function handleAccept(memberId: string) {
+    const result = await acceptHouseholdInvite(memberId);
+    setMessage(result.success ? "Joined household successfully!" : result.error || "Failed to accept invitation");
+    await loadOverview();
+  }
+
+  async function handleRemove(memberId: string, prompt: string) {
+    if (!confirm(prompt)) return;
+    const result = await removeHouseholdMember(memberId);
+    if (!result.success) setMessage(result.error || "Failed to remove member");
+    await loadOverview();
+  }
+
+  async function handleSwitch(householdId: string | null) {
+    const result = await switchWorkspace(householdId);
+    if (!result.success) setMessage(result.error || "Failed to switch household");
+    await loadOverview();
+  }
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      {message && (
+        <div
+          className={`px-4 py-3 rounded-md text-sm ${
+            message.includes("success")
+              ? "bg-green-50 dark:bg-green-900/20 text-green-600 dark:text-green-400"
+              : "bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400"
+          }`}
+        >
+          {message}
+        </div>
+      )}
+
+      {/* Pending Invitations */}
+      {overview.invites.length > 0 && (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6 border border-blue-200 dark:border-blue-800">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+            Invitations
+          </h3>
+          <div className="space-y-2">
+            {overview.invites.map((invite) => (
+              <div
+                key={invite.id}
+                className="flex items-center justify-between p-3 bg-gray-50 dark:bg-gray-700/50 rounded-md"
+              >
+                <p className="text-sm text-gray-900 dark:text-white">
+                  You&apos;ve been invited to{" "}
+                  <span className="font-semibold">{invite.household?.name ?? "a household"}</span>
+                </p>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => handleAccept(invite.id)}
+                    className="flex items-center px-3 py-1.5 text-sm font-medium text-white bg-green-600 hover:bg-green-700 rounded-md transition-colors"
+                  >
+                    <Check className="h-4 w-4 mr-1" />
+                    Accept
+                  </button>
+                  <button
+                    onClick={() => handleRemove(invite.id, "Decline this invitation?")}
+                    className="flex items-center px-3 py-1.5 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md transition-colors"
+                  >
+                    <X className="h-4 w-4 mr-1" />
+                    Decline
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        {/* Workspaces */}
+        <div className="space-y-6">
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6 border border-gray-200 dark:border-gray-700">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+              Workspaces
+            </h3>
+            <div className="space-y-2">
+              {[{ id: null, name: "Personal" }, ...overview.households].map((workspace) => {
+                const selected = workspace.id === overview.activeHouseholdId;
+                return (
+                  <button
+                    key={workspace.id ?? "personal"}
+                    onClick={() => handleSwitch(workspace.id)}
+                    disabled={selected}
+                    className={`w-full flex items-center justify-between p-3 rounded-md text-sm text-left transition-colors ${
+                      selected
+                        ? "bg-blue-50 dark:bg-blue-900/20 text-blue-700 dark:text-blue-300 font-medium"
+                        : "bg-gray-50 dark:bg-gray-700/50 text-gray-900 dark:text-white hover:bg-gray-100 dark:hover:bg-gray-700"
+                    }`}
+                  >
+                    {workspace.name}
+                    {selected && <Check className="h-4 w-4" />}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6 border border-gray-200 dark:border-gray-700">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+              New Household
+            </h3>
+            <form onSubmit={handleCreate} className="space-y-4">
+              <input
+                type="text"
+                required
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                className={inputClass}
+                placeholder="e.g., Dela Cruz Household"
+                aria-label="Household name"
+              />
+              <button type="submit" disabled={saving} className={`w-full ${buttonClass}`}>
+                <Plus className="h-4 w-4 mr-2" />
+                Create Household
+              </button>
+            </form>
+          </div>
+        </div>
+
+        {/* Members */}
+        <div className="lg:col-span-2 bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6 border border-gray-200 dark:border-gray-700 h-fit">
+          {!active ? (
+            <p className="text-center py-8 text-gray-500 dark:text-gray-400">
+              You&apos;re in your personal workspace. Create or switch to a household to
+              share a budget with others.
+            </p>
+          ) : (
+            <>
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-1">
+                {active.name}
+              </h3>
+              <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+                Everyone here shares one budget and can see each other&apos;s expenses.
+              </p>
+
+              <div className="space-y-2 mb-6">
+                {overview.members.map((member) => {
+                  const isSelf = member.user_id === overview.currentUserId;
+                  const canRemove = member.role !== "owner" && (isOwner || isSelf);
+                  return (
+                    <div
+                      key={member.id}
+                      className="flex items-center justify-between p-3 bg-gray-50 dark:bg-gray-700/50 rounded-md"
+                    >
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium text-gray-900 dark:text-white truncate">
+                          {member.display_name || member.email}
+                          {isSelf && " (you)"}
+                        </p>
+                        <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                          {member.email} • {member.role === "owner" ? "Owner" : "Member"}
+                          {member.status === "invited" && " • Invited"}
+                        </p>
+                      </div>
+                      {canRemove && (
+                        <button
+                          onClick={() =>
+                            handleRemove(
+                              member.id,
+                              isSelf
+                                ? `Leave ${active.name}?`
+                                : `Remove ${member.display_name || member.email} from ${active.name}?`
+                            )
+                          }
+                          className="flex items-center px-3 py-1.5 text-sm font-medium text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-md transition-colors"
+                        >
+                          <UserMinus className="h-4 w-4 mr-1" />
+                          {isSelf ? "Leave" : "Remove"}
+                        </button>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+
+              {isOwner && (
+                <form onSubmit={handleInvite} className="flex gap-3">
+                  <input
+                    type="email"
+                    required
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    className={inputClass}
+                    placeholder="partner@example.com"
+                    aria-label="Email to invite"
+                  />
+                  <button type="submit" disabled={saving} className={buttonClass}>
+                    <Mail className="h-4 w-4 mr-2" />
+                    Invite
+                  </button>
+                </form>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
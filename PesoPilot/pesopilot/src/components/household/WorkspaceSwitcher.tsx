@@ -0,0 +1,60 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import {
+  getHouseholdOverview,
+  switchWorkspace,
+  type Household,
+} from "@/app/api/household";
+import { Users } from "lucide-react";
+
+interface WorkspaceSwitcherProps {
+  onSwitch?: () => void;
+}
+
+/**
+ * Header dropdown for choosing between the personal budget and any shared
+ * household the user belongs to. Hidden until the user joins a household.
+ */
+export default function WorkspaceSwitcher({ onSwitch }: WorkspaceSwitcherProps) {
+  const [households, setHouseholds] = useState<Household[]>([]);
+  const [activeId, setActiveId] = useState("");
+  const [switching, setSwitching] = useState(false);
+
+  useEffect(() => {
+    getHouseholdOverview().then((overview) => {
+      setHouseholds(overview.households);
+      setActiveId(overview.activeHouseholdId ?? "");
+    });
+  }, []);
+
+  async function handleChange(householdId: string) {
+    setSwitching(true);
+    setActiveId(householdId);
+    const result = await switchWorkspace(householdId || null);
+    setSwitching(false);
+    if (result.success) onSwitch?.();
+  }
+
+  if (households.length === 0) return null;
+
+  return (
+    <div className="flex items-center">
+      <Users className="h-4 w-4 mr-2 text-gray-500 dark:text-gray-400" />
+      <select
+        value={activeId}
+        disabled={switching}
+        onChange={(e) => handleChange(e.target.value)}
+        className="px-2 py-1.5 border border-gray-300 dark:border-gray-600 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white disabled:opacity-50"
+        aria-label="Workspace"
+      >
+        <option value="">Personal</option>
+        {households.map((household) => (
+          <option key={household.id} value={household.id}>
+            {household.name}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
@@ -0,0 +1,363 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import {
+  findDuplicateExpenses,
+  importExpenses,
+  type ImportResult,
+} from "@/app/api/import";
+import { parseCsv } from "@/utils/csv";
+import {
+  buildImportRows,
+  guessMapping,
+  DATE_FORMATS,
+  IMPORT_FIELDS,
+  type ColumnMapping,
+  type DateFormat,
+  type ImportRow,
+} from "@/utils/import";
+import { formatPeso } from "@/utils/currency";
+import { AlertTriangle, CheckCircle2, FileUp, XCircle } from "lucide-react";
+
+type Step = "upload" | "map" | "preview" | "report";
+
+const inputClass =
+  "block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white text-sm";
+
+const primaryButtonClass =
+  "flex justify-center items-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors";
+
+const secondaryButtonClass =
+  "px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors";
+
+const cardClass =
+  "bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6 border border-gray-200 dark:border-gray-700";
+
+export default function CsvImport() {
+  const [step, setStep] = useState<Step>("upload");
+  const [fileName, setFileName] = useState("");
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [dataRows, setDataRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping>({
+    amount: null,
+    category: null,
+    description: null,
+    date: null,
+  });
+  const [dateFormat, setDateFormat] = useState<DateFormat>("YYYY-MM-DD");
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [duplicates, setDuplicates] = useState<Set<number>>(new Set());
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
+  const [results, setResults] = useState<ImportResult[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+
+  async function handleFile(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setError("");
+
+    const [headerRow, ...body] = parseCsv(await file.text());
+    if (!headerRow || body.length === 0) {
+      setError("That file has no data rows. The first row should contain column names.");
+      return;
+    }
+
+    setFileName(file.name);
+    setHeaders(headerRow.map((header) => header.trim()));
+    setDataRows(body);
+    setMapping(guessMapping(headerRow));
+    setStep("map");
+  }
+
+  async function handlePreview(e: React.FormEvent) {
+    e.preventDefault();
+    setBusy(true);
+    setError("");
+
+    const built = buildImportRows(dataRows, mapping, dateFormat);
+    const duplicateLines = await findDuplicateExpenses(built);
+
+    setRows(built);
+    setDuplicates(new Set(duplicateLines));
+    setStep("preview");
+    setBusy(false);
+  }
+
+  async function handleImport() {
+    setBusy(true);
+    setError("");
+
+    const result = await importExpenses(rows, skipDuplicates);
+
+    if (result.success) {
+      setResults(result.results);
+      setStep("report");
+    } else {
+      setError(result.error || "Import failed");
+    }
+
+    setBusy(false);
+  }
+
+  function reset() {
+    setStep("upload");
+    setFileName("");
+    setHeaders([]);
+    setDataRows([]);
+    setRows([]);
+    setDuplicates(new Set());
+    setResults([]);
+    setError("");
+  }
+
+  const invalidCount = rows.filter((row) => row.errors.length > 0).length;
+  const importableCount =
+    rows.length - invalidCount - (skipDuplicates ? duplicates.size : 0);
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="px-4 py-3 rounded-md text-sm bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400">
+          {error}
+        </div>
+      )}
+
+      {step === "upload" && (
+        <div className={cardClass}>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-1">
+            Upload a CSV File
+          </h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+            Export your spreadsheet as CSV. The first row should contain the column names.
+          </p>
+          <label className="flex flex-col items-center justify-center py-10 border-2 border-dashed border-gray-300 dark:border-gray-600 rounded-lg text-gray-600 dark:text-gray-400 hover:border-blue-500 hover:text-blue-600 dark:hover:border-blue-400 dark:hover:text-blue-400 cursor-pointer transition-colors">
+            <FileUp className="h-8 w-8 mb-2" />
+            <span className="text-sm font-medium">Choose a .csv file</span>
+            <input type="file" accept=".csv,text/csv" onChange={handleFile} className="hidden" />
+          </label>
+        </div>
+      )}
+
+      {step === "map" && (
+        <form onSubmit={handlePreview} className={cardClass}>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-1">
+            Map Columns
+          </h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+            {fileName} • {dataRows.length} row{dataRows.length === 1 ? "" : "s"}
+          </p>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {IMPORT_FIELDS.map(({ field, label, required }) => (
+              <div key={field}>
+                <label
+                  htmlFor={`map-${field}`}
+                  className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+                >
+                  {label}
+                  {!required && " (Optional)"}
+                </label>
+                <select
+                  id={`map-${field}`}
+                  required={required}
+                  value={mapping[field] ?? ""}
+                  onChange={(e) =>
+                    setMapping({
+                      ...mapping,
+                      [field]: e.target.value === "" ? null : Number(e.target.value),
+                    })
+                  }
+                  className={inputClass}
+                >
+                  <option value="">{required ? "Select a column" : "Don't import"}</option>
+                  {headers.map((header, index) => (
+                    <option key={index} value={index}>
+                      {header || `Column ${index + 1}`}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            ))}
+
+            <div>
+              <label
+                htmlFor="map-date-format"
+                className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+              >
+                Date Format
+              </label>
+              <select
+                id="map-date-format"
+                value={dateFormat}
+                onChange={(e) => setDateFormat(e.target.value as DateFormat)}
+                className={inputClass}
+              >
+                {DATE_FORMATS.map((format) => (
+                  <option key={format} value={format}>
+                    {format}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {mapping.category === null && (
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-3">
+              Without a category column every expense is filed under &quot;Other&quot;.
+            </p>
+          )}
+
+          <div className="flex justify-end space-x-3 mt-6">
+            <button type="button" onClick={reset} className={secondaryButtonClass}>
+              Start Over
+            </button>
+            <button type="submit" disabled={busy} className={primaryButtonClass}>
+              {busy ? "Checking..." : "Preview Import"}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {step === "preview" && (
+        <div className={cardClass}>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+            Review Rows
+          </h3>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+            <div className="p-3 bg-green-50 dark:bg-green-900/20 rounded-md text-sm text-green-700 dark:text-green-400">
+              {rows.length - invalidCount - duplicates.size} ready to import
+            </div>
+            <div className="p-3 bg-yellow-50 dark:bg-yellow-900/20 rounded-md text-sm text-yellow-700 dark:text-yellow-400">
+              {duplicates.size} possible duplicate{duplicates.size === 1 ? "" : "s"}
+            </div>
+            <div className="p-3 bg-red-50 dark:bg-red-900/20 rounded-md text-sm text-red-700 dark:text-red-400">
+              {invalidCount} with errors
+            </div>
+          </div>
+
+          {duplicates.size > 0 && (
+            <label className="flex items-center text-sm text-gray-700 dark:text-gray-300 mb-4">
+              <input
+                type="checkbox"
+                checked={skipDuplicates}
+                onChange={(e) => setSkipDuplicates(e.target.checked)}
+                className="mr-2 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              Skip possible duplicates (same date, amount and description)
+            </label>
+          )}
+
+          <div className="overflow-x-auto max-h-96 overflow-y-auto border border-gray-200 dark:border-gray-700 rounded-md">
+            <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+              <thead className="bg-gray-50 dark:bg-gray-700/50 sticky top-0">
+                <tr>
+                  {["Line", "Date", "Category", "Description", "Amount", "Status"].map((heading) => (
+                    <th
+                      key={heading}
+                      className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider"
+                    >
+                      {heading}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                {rows.map((row) => (
+                  <tr key={row.line}>
+                    <td className="px-4 py-2 text-gray-500 dark:text-gray-400">{row.line}</td>
+                    <td className="px-4 py-2 text-gray-900 dark:text-white whitespace-nowrap">
+                      {row.date || "—"}
+                    </td>
+                    <td className="px-4 py-2 text-gray-900 dark:text-white">{row.category}</td>
+                    <td className="px-4 py-2 text-gray-500 dark:text-gray-400">
+                      {row.description || "—"}
+                    </td>
+                    <td className="px-4 py-2 text-gray-900 dark:text-white whitespace-nowrap">
+                      {formatPeso(row.amount)}
+                    </td>
+                    <td className="px-4 py-2">
+                      {row.errors.length > 0 ? (
+                        <span className="text-red-600 dark:text-red-400">{row.errors.join("; ")}</span>
+                      ) : duplicates.has(row.line) ? (
+                        <span className="text-yellow-600 dark:text-yellow-400">Possible duplicate</span>
+                      ) : (
+                        <span className="text-green-600 dark:text-green-400">OK</span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex justify-end space-x-3 mt-6">
+            <button type="button" onClick={() => setStep("map")} className={secondaryButtonClass}>
+              Back
+            </button>
+            <button
+              onClick={handleImport}
+              disabled={busy || importableCount <= 0}
+              className={primaryButtonClass}
+            >
+              {busy ? "Importing..." : `Import ${importableCount} Expense${importableCount === 1 ? "" : "s"}`}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {step === "report" && (
+        <div className={cardClass}>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+            Import Report
+          </h3>
+
+          <div className="flex flex-wrap gap-6 mb-4 text-sm">
+            <span className="flex items-center text-green-600 dark:text-green-400">
+              <CheckCircle2 className="h-4 w-4 mr-1" />
+              {results.filter((r) => r.status === "imported").length} imported
+            </span>
+            <span className="flex items-center text-yellow-600 dark:text-yellow-400">
+              <AlertTriangle className="h-4 w-4 mr-1" />
+              {results.filter((r) => r.status === "skipped").length} skipped
+            </span>
+            <span className="flex items-center text-red-600 dark:text-red-400">
+              <XCircle className="h-4 w-4 mr-1" />
+              {results.filter((r) => r.status === "failed").length} failed
+            </span>
+          </div>
+
+          <div className="max-h-96 overflow-y-auto border border-gray-200 dark:border-gray-700 rounded-md divide-y divide-gray-200 dark:divide-gray-700">
+            {results.map((result) => (
+              <div key={result.line} className="flex items-center justify-between px-4 py-2 text-sm">
+                <span className="text-gray-500 dark:text-gray-400">Line {result.line}</span>
+                <span
+                  className={
+                    result.status === "imported"
+                      ? "text-green-600 dark:text-green-400"
+                      : result.status === "skipped"
+                        ? "text-yellow-600 dark:text-yellow-400"
+                        : "text-red-600 dark:text-red-400"
+                  }
+                >
+                  {result.status === "imported" ? "Imported" : result.message}
+                </span>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex justify-end space-x-3 mt-6">
+            <button onClick={reset} className={secondaryButtonClass}>
+              Import Another File
+            </button>
+            <Link href="/dashboard/transactions" className={primaryButtonClass}>
+              View Transactions
+            </Link>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
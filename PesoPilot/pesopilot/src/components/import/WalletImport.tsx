@@ -0,0 +1,426 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import { addExpense } from "@/app/api/budget";
+import { getCategories } from "@/app/api/categories";
+import { findDuplicateExpenses, type ImportResult } from "@/app/api/import";
+import { parseCsv } from "@/utils/csv";
+import { extractPdfLines } from "@/utils/pdfText";
+import {
+  detectWallet,
+  normalizeMobileNumber,
+  parseWalletCsv,
+  parseWalletStatement,
+  walletEntryToImportRow,
+  WALLET_FORMATS,
+  WALLET_KIND_LABELS,
+  WALLET_SOURCES,
+  type WalletEntry,
+  type WalletSource,
+} from "@/utils/wallets";
+import { formatPeso } from "@/utils/currency";
+import { CheckCircle2, Smartphone, XCircle } from "lucide-react";
+
+type Step = "upload" | "preview" | "report";
+
+const inputClass =
+  "block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white text-sm";
+
+const primaryButtonClass =
+  "flex justify-center items-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors";
+
+const secondaryButtonClass =
+  "px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors";
+
+const cardClass =
+  "bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6 border border-gray-200 dark:border-gray-700";
+
+export default function WalletImport() {
+  const [step, setStep] = useState<Step>("upload");
+  const [choice, setChoice] = useState<WalletSource | "auto">("auto");
+  const [source, setSource] = useState<WalletSource>("gcash");
+  const [ownNumbers, setOwnNumbers] = useState("");
+  const [pdfFile, setPdfFile] = useState<File | null>(null);
+  const [password, setPassword] = useState("");
+  const [categories, setCategories] = useState<string[]>([]);
+  const [entries, setEntries] = useState<WalletEntry[]>([]);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [duplicates, setDuplicates] = useState<Set<number>>(new Set());
+  const [results, setResults] = useState<ImportResult[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    getCategories().then((list) => setCategories(list.map((category) => category.name)));
+  }, []);
+
+  const expenses = entries.filter((entry) => entry.kind === "expense" && entry.errors.length === 0);
+
+  async function showPreview(parsed: { entries: WalletEntry[]; error?: string }) {
+    if (parsed.error) {
+      setError(parsed.error);
+      return;
+    }
+
+    const importable = parsed.entries.filter((entry) => entry.kind === "expense" && entry.errors.length === 0);
+    const duplicateLines = new Set(await findDuplicateExpenses(importable.map(walletEntryToImportRow)));
+
+    setEntries(parsed.entries);
+    setDuplicates(duplicateLines);
+    setSelected(new Set(importable.filter((entry) => !duplicateLines.has(entry.line)).map((entry) => entry.line)));
+    setStep("preview");
+  }
+
+  function ownNumberList() {
+    return ownNumbers
+      .split(",")
+      .map(normalizeMobileNumber)
+      .filter((number) => number.length === 10);
+  }
+
+  async function readPdf(file: File, filePassword?: string) {
+    const result = await extractPdfLines(file, filePassword);
+
+    if (!result.success || !result.lines) {
+      if (!result.needsPassword) setPdfFile(null);
+      setError(result.error || "This PDF could not be read.");
+      return;
+    }
+
+    setPdfFile(null);
+    const wallet = choice === "auto" ? detectWallet(file.name, result.lines.join("\n")) : choice;
+    setSource(wallet);
+    await showPreview(parseWalletStatement(result.lines, wallet, categories, ownNumberList()));
+  }
+
+  async function handleFile(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    setBusy(true);
+    setError("");
+    setPassword("");
+
+    if (file.name.toLowerCase().endsWith(".pdf")) {
+      setPdfFile(file);
+      await readPdf(file);
+    } else {
+      const text = await file.text();
+      const wallet = choice === "auto" ? detectWallet(file.name, text) : choice;
+      setSource(wallet);
+      await showPreview(parseWalletCsv(parseCsv(text), wallet, categories, ownNumberList()));
+    }
+
+    setBusy(false);
+  }
+
+  async function handleUnlock(e: React.FormEvent) {
+    e.preventDefault();
+    if (!pdfFile) return;
+    setBusy(true);
+    setError("");
+    await readPdf(pdfFile, password);
+    setBusy(false);
+  }
+
+  function toggle(line: number) {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(line)) next.delete(line);
+      else next.add(line);
+      return next;
+    });
+  }
+
+  function setCategory(line: number, category: string) {
+    setEntries((prev) => prev.map((entry) => (entry.line === line ? { ...entry, category } : entry)));
+  }
+
+  async function handleImport() {
+    setBusy(true);
+    setError("");
+
+    const imported: ImportResult[] = [];
+    for (const entry of expenses.filter((entry) => selected.has(entry.line))) {
+      const row = walletEntryToImportRow(entry);
+      const result = await addExpense(row.amount, row.category, row.description, row.date);
+      imported.push(
+        result.success
+          ? { line: entry.line, status: "imported" }
+          : { line: entry.line, status: "failed", message: result.error || "Could not be saved" }
+      );
+    }
+
+    setResults(imported);
+    setStep("report");
+    setBusy(false);
+  }
+
+  function reset() {
+    setStep("upload");
+    setPdfFile(null);
+    setPassword("");
+    setEntries([]);
+    setSelected(new Set());
+    setDuplicates(new Set());
+    setResults([]);
+    setError("");
+  }
+
+  const skippedCount = entries.length - expenses.length;
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="px-4 py-3 rounded-md text-sm bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400">
+          {error}
+        </div>
+      )}
+
+      {step === "upload" && (
+        <div className={cardClass}>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-1">
+            Upload a GCash or Maya Export
+          </h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+            Use the transaction history CSV from the app or the PDF statement sent to your email.
+            Cash-ins, money received and transfers between your own wallets are skipped.
+          </p>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+            <div>
+              <label htmlFor="wallet-source" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Wallet
+              </label>
+              <select
+                id="wallet-source"
+                value={choice}
+                onChange={(e) => setChoice(e.target.value as WalletSource | "auto")}
+                className={inputClass}
+              >
+                <option value="auto">Detect from the file</option>
+                {WALLET_SOURCES.map((wallet) => (
+                  <option key={wallet} value={wallet}>
+                    {WALLET_FORMATS[wallet].label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="wallet-own-numbers" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Your Other Wallet Numbers (Optional)
+              </label>
+              <input
+                id="wallet-own-numbers"
+                type="text"
+                value={ownNumbers}
+                onChange={(e) => setOwnNumbers(e.target.value)}
+                className={inputClass}
+                placeholder="e.g., 0917 123 4567, 0998 765 4321"
+              />
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                Transfers to these numbers are treated as moving your own money, not spending.
+              </p>
+            </div>
+          </div>
+
+          {pdfFile ? (
+            <form onSubmit={handleUnlock} className="space-y-3">
+              <label htmlFor="wallet-pdf-password" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                Password for {pdfFile.name}
+              </label>
+              <input
+                id="wallet-pdf-password"
+                type="password"
+                required
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className={inputClass}
+              />
+              <div className="flex justify-end space-x-3">
+                <button type="button" onClick={reset} className={secondaryButtonClass}>
+                  Cancel
+                </button>
+                <button type="submit" disabled={busy} className={primaryButtonClass}>
+                  {busy ? "Reading..." : "Open Statement"}
+                </button>
+              </div>
+            </form>
+          ) : (
+            <label className="flex flex-col items-center justify-center py-10 border-2 border-dashed border-gray-300 dark:border-gray-600 rounded-lg text-gray-600 dark:text-gray-400 hover:border-blue-500 hover:text-blue-600 dark:hover:border-blue-400 dark:hover:text-blue-400 cursor-pointer transition-colors">
+              <Smartphone className="h-8 w-8 mb-2" />
+              <span className="text-sm font-medium">{busy ? "Reading..." : "Choose a .csv or .pdf file"}</span>
+              <input
+                type="file"
+                accept=".csv,text/csv,.pdf,application/pdf"
+                onChange={handleFile}
+                disabled={busy}
+                className="hidden"
+              />
+            </label>
+          )}
+        </div>
+      )}
+
+      {step === "preview" && (
+        <div className={cardClass}>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+            Review {WALLET_FORMATS[source].label} Transactions
+          </h3>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+            <div className="p-3 bg-green-50 dark:bg-green-900/20 rounded-md text-sm text-green-700 dark:text-green-400">
+              {selected.size} of {expenses.length} expense{expenses.length === 1 ? "" : "s"} selected
+            </div>
+            <div className="p-3 bg-yellow-50 dark:bg-yellow-900/20 rounded-md text-sm text-yellow-700 dark:text-yellow-400">
+              {duplicates.size} possible duplicate{duplicates.size === 1 ? "" : "s"}
+            </div>
+            <div className="p-3 bg-gray-50 dark:bg-gray-700/50 rounded-md text-sm text-gray-600 dark:text-gray-300">
+              {skippedCount} skipped (money in, transfers or unreadable)
+            </div>
+          </div>
+
+          <div className="overflow-x-auto max-h-96 overflow-y-auto border border-gray-200 dark:border-gray-700 rounded-md">
+            <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+              <thead className="bg-gray-50 dark:bg-gray-700/50 sticky top-0">
+                <tr>
+                  {["", "Date", "Description", "Category", "Amount", "Status"].map((heading, index) => (
+                    <th
+                      key={index}
+                      className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider"
+                    >
+                      {heading}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                {entries.map((entry) => {
+                  const importable = entry.kind === "expense" && entry.errors.length === 0;
+                  return (
+                    <tr key={entry.line} className={importable ? "" : "opacity-60"}>
+                      <td className="px-4 py-2">
+                        {importable && (
+                          <input
+                            type="checkbox"
+                            checked={selected.has(entry.line)}
+                            onChange={() => toggle(entry.line)}
+                            aria-label={`Import ${entry.description}`}
+                            className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                          />
+                        )}
+                      </td>
+                      <td className="px-4 py-2 text-gray-900 dark:text-white whitespace-nowrap">
+                        {entry.date || "—"}
+                      </td>
+                      <td className="px-4 py-2 text-gray-500 dark:text-gray-400">
+                        {entry.description || "—"}
+                        {entry.reference && (
+                          <span className="block text-xs text-gray-400 dark:text-gray-500">
+                            Ref {entry.reference}
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-4 py-2">
+                        {importable ? (
+                          <select
+                            value={entry.category}
+                            onChange={(e) => setCategory(entry.line, e.target.value)}
+                            aria-label="Category"
+                            className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md text-sm dark:bg-gray-700 dark:text-white"
+                          >
+                            {[...new Set([entry.category, ...categories])].map((name) => (
+                              <option key={name} value={name}>
+                                {name}
+                              </option>
+                            ))}
+                          </select>
+                        ) : (
+                          <span className="text-gray-400 dark:text-gray-500">—</span>
+                        )}
+                      </td>
+                      <td
+                        className={`px-4 py-2 whitespace-nowrap ${
+                          entry.direction === "in" ? "text-green-600 dark:text-green-400" : "text-gray-900 dark:text-white"
+                        }`}
+                      >
+                        {entry.direction === "in" ? "+" : ""}
+                        {formatPeso(entry.amount)}
+                      </td>
+                      <td className="px-4 py-2">
+                        {entry.errors.length > 0 ? (
+                          <span className="text-red-600 dark:text-red-400">{entry.errors.join("; ")}</span>
+                        ) : entry.kind !== "expense" ? (
+                          <span className="text-gray-500 dark:text-gray-400">{WALLET_KIND_LABELS[entry.kind]}</span>
+                        ) : duplicates.has(entry.line) ? (
+                          <span className="text-yellow-600 dark:text-yellow-400">Possible duplicate</span>
+                        ) : (
+                          <span className="text-green-600 dark:text-green-400">Expense</span>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex justify-end space-x-3 mt-6">
+            <button type="button" onClick={reset} className={secondaryButtonClass}>
+              Start Over
+            </button>
+            <button
+              onClick={handleImport}
+              disabled={busy || selected.size === 0}
+              className={primaryButtonClass}
+            >
+              {busy ? "Importing..." : `Import ${selected.size} Expense${selected.size === 1 ? "" : "s"}`}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {step === "report" && (
+        <div className={cardClass}>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+            Import Report
+          </h3>
+
+          <div className="flex flex-wrap gap-6 mb-4 text-sm">
+            <span className="flex items-center text-green-600 dark:text-green-400">
+              <CheckCircle2 className="h-4 w-4 mr-1" />
+              {results.filter((r) => r.status === "imported").length} imported
+            </span>
+            <span className="flex items-center text-red-600 dark:text-red-400">
+              <XCircle className="h-4 w-4 mr-1" />
+              {results.filter((r) => r.status === "failed").length} failed
+            </span>
+          </div>
+
+          {results.some((r) => r.status === "failed") && (
+            <div className="max-h-96 overflow-y-auto border border-gray-200 dark:border-gray-700 rounded-md divide-y divide-gray-200 dark:divide-gray-700 mb-4">
+              {results
+                .filter((r) => r.status === "failed")
+                .map((result) => (
+                  <div key={result.line} className="flex items-center justify-between px-4 py-2 text-sm">
+                    <span className="text-gray-500 dark:text-gray-400">Line {result.line}</span>
+                    <span className="text-red-600 dark:text-red-400">{result.message}</span>
+                  </div>
+                ))}
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-3">
+            <button onClick={reset} className={secondaryButtonClass}>
+              Import Another File
+            </button>
+            <Link href="/dashboard/transactions" className={primaryButtonClass}>
+              View Transactions
+            </Link>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,228 @@
+"use client";
+
+import { useState } from "react";
+import { addIncome, type Income } from "@/app/api/income";
+import { Plus, X } from "lucide-react";
+import { useTimezone } from "@/providers/TimezoneProvider";
+import AccountSelect from "@/components/account/AccountSelect";
+
+interface AddIncomeFormProps {
+  onIncomeAdded?: (income: Income) => void;
+}
+
+const INCOME_SOURCES = [
+  "Salary",
+  "Freelance",
+  "Business",
+  "Padala (Remittance)",
+  "Allowance",
+  "13th Month & Bonus",
+  "Interest & Dividends",
+  "Other",
+];
+
+export default function AddIncomeForm({ onIncomeAdded }: AddIncomeFormProps) {
+  const { today } = useTimezone();
+  const [isOpen, setIsOpen] = useState(false);
+  const [amount, setAmount] = useState("");
+  const [source, setSource] = useState("");
+  const [description, setDescription] = useState("");
+  const [date, setDate] = useState(today());
+  const [accountId, setAccountId] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState("");
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setSaving(true);
+    setMessage("");
+
+    const result = await addIncome(
+      Number(amount),
+      source,
+      description,
+      date,
+      accountId || null
+    );
+
+    if (result.success && result.income) {
+      setMessage("Income added successfully!");
+      setTimeout(() => {
+        setIsOpen(false);
+        resetForm();
+      }, 1000);
+      onIncomeAdded?.(result.income);
+    } else {
+      setMessage(result.error || "Failed to add income");
+    }
+
+    setSaving(false);
+  }
+
+  function resetForm() {
+    setAmount("");
+    setSource("");
+    setDescription("");
+    setDate(today());
+    setAccountId("");
+    setMessage("");
+  }
+
+  if (!isOpen) {
+    return (
+      <button
+        onClick={() => setIsOpen(true)}
+        className="w-full flex items-center justify-center py-3 px-4 border-2 border-dashed border-gray-300 dark:border-gray-600 rounded-lg text-gray-600 dark:text-gray-400 hover:border-green-500 hover:text-green-600 dark:hover:border-green-400 dark:hover:text-green-400 transition-colors"
+      >
+        <Plus className="h-5 w-5 mr-2" />
+        Add Income
+      </button>
+    );
+  }
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6 border border-gray-200 dark:border-gray-700">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+          Add New Income
+        </h3>
+        <button
+          onClick={() => {
+            setIsOpen(false);
+            resetForm();
+          }}
+          className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+        >
+          <X className="h-5 w-5" />
+        </button>
+      </div>
+
+      {message && (
+        <div
+          className={`mb-4 px-4 py-3 rounded-md text-sm ${
+            message.includes("success")
+              ? "bg-green-50 dark:bg-green-900/20 text-green-600 dark:text-green-400"
+              : "bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400"
+          }`}
+        >
+          {message}
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div>
+          <label
+            htmlFor="income-amount"
+            className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+          >
+            Amount (₱)
+          </label>
+          <input
+            id="income-amount"
+            type="number"
+            min="0.01"
+            step="0.01"
+            required
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            className="block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-green-500 dark:bg-gray-700 dark:text-white text-sm"
+            placeholder="0.00"
+          />
+        </div>
+
+        <div>
+          <label
+            htmlFor="income-source"
+            className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+          >
+            Source
+          </label>
+          <select
+            id="income-source"
+            required
+            value={source}
+            onChange={(e) => setSource(e.target.value)}
+            className="block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-green-500 dark:bg-gray-700 dark:text-white text-sm"
+          >
+            <option value="">Select a source</option>
+            {INCOME_SOURCES.map((src) => (
+              <option key={src} value={src}>
+                {src}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label
+            htmlFor="income-description"
+            className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+          >
+            Description (Optional)
+          </label>
+          <input
+            id="income-description"
+            type="text"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            className="block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-green-500 dark:bg-gray-700 dark:text-white text-sm"
+            placeholder="e.g., Kinsenas from work"
+          />
+        </div>
+
+        <div>
+          <label
+            htmlFor="income-date"
+            className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+          >
+            Date
+          </label>
+          <input
+            id="income-date"
+            type="date"
+            required
+            value={date}
+            onChange={(e) => setDate(e.target.value)}
+            className="block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-green-500 dark:bg-gray-700 dark:text-white text-sm"
+          />
+        </div>
+
+        <div>
+          <label
+            htmlFor="income-account"
+            className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+          >
+            Received In (Optional)
+          </label>
+          <AccountSelect
+            id="income-account"
+            value={accountId}
+            onChange={setAccountId}
+            className="block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-green-500 dark:bg-gray-700 dark:text-white text-sm"
+          />
+        </div>
+
+        <div className="flex space-x-3 pt-2">
+          <button
+            type="submit"
+            disabled={saving}
+            className="flex-1 flex justify-center items-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-green-600 hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {saving ? "Adding..." : "Add Income"}
+          </button>
+
+          <button
+            type="button"
+            onClick={() => {
+              setIsOpen(false);
+              resetForm();
+            }}
+            className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500 transition-colors"
+          >
+            Cancel
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+"use client";
+
+import { useState } from "react";
+import { deleteIncome, type Income } from "@/app/api/income";
+import { formatPeso } from "@/utils/currency";
+import { Trash2 } from "lucide-react";
+
+interface IncomeListProps {
+  incomes: Income[];
+  onIncomeDeleted?: () => void;
+}
+
+export default function IncomeList({ incomes, onIncomeDeleted }: IncomeListProps) {
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  async function handleDelete(id: string) {
+    if (!confirm("Are you sure you want to delete this income?")) return;
+
+    setDeletingId(id);
+    const result = await deleteIncome(id);
+
+    if (result.success) {
+      onIncomeDeleted?.();
+    } else {
+      alert(result.error || "Failed to delete income");
+    }
+
+    setDeletingId(null);
+  }
+
+  if (incomes.length === 0) {
+    return (
+      <div className="text-center py-6 text-gray-500 dark:text-gray-400">
+        <p className="text-sm">No income recorded this period.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {incomes.map((income) => (
+        <div
+          key={income.id}
+          className="flex items-center justify-between p-3 bg-gray-50 dark:bg-gray-700/50 rounded-md group"
+        >
+          <div className="flex-1 min-w-0">
+            <p className="text-sm font-medium text-gray-900 dark:text-white truncate">
+              {income.source}
+            </p>
+            <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+              {new Date(income.date).toLocaleDateString("en-PH", {
+                month: "short",
+                day: "numeric",
+              })}
+              {income.description && ` • ${income.description}`}
+            </p>
+          </div>
+
+          <div className="flex items-center space-x-3 ml-4">
+            <span className="text-sm font-semibold text-green-600 dark:text-green-400">
+              +{formatPeso(income.amount)}
+            </span>
+
+            <button
+              onClick={() => handleDelete(income.id)}
+              disabled={deletingId === income.id}
+              className="p-1 text-gray-400 hover:text-red-600 dark:hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+              title="Delete income"
+            >
+              <Trash2 className="h-4 w-4" />
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+"use client";
+
+import Link from "next/link";
+import { ArrowLeft, type LucideIcon } from "lucide-react";
+
+// Spelled out in full so Tailwind finds the class names
+const ICON_COLORS = {
+  amber: "bg-amber-100 dark:bg-amber-900/30 text-amber-600 dark:text-amber-400",
+  blue: "bg-blue-100 dark:bg-blue-900/30 text-blue-600 dark:text-blue-400",
+  cyan: "bg-cyan-100 dark:bg-cyan-900/30 text-cyan-600 dark:text-cyan-400",
+  emerald: "bg-emerald-100 dark:bg-emerald-900/30 text-emerald-600 dark:text-emerald-400",
+  indigo: "bg-indigo-100 dark:bg-indigo-900/30 text-indigo-600 dark:text-indigo-400",
+  lime: "bg-lime-100 dark:bg-lime-900/30 text-lime-600 dark:text-lime-400",
+  orange: "bg-orange-100 dark:bg-orange-900/30 text-orange-600 dark:text-orange-400",
+  pink: "bg-pink-100 dark:bg-pink-900/30 text-pink-600 dark:text-pink-400",
+  purple: "bg-purple-100 dark:bg-purple-900/30 text-purple-600 dark:text-purple-400",
+  rose: "bg-rose-100 dark:bg-rose-900/30 text-rose-600 dark:text-rose-400",
+  sky: "bg-sky-100 dark:bg-sky-900/30 text-sky-600 dark:text-sky-400",
+  slate: "bg-slate-100 dark:bg-slate-900/30 text-slate-600 dark:text-slate-400",
+  teal: "bg-teal-100 dark:bg-teal-900/30 text-teal-600 dark:text-teal-400",
+  violet: "bg-violet-100 dark:bg-violet-900/30 text-violet-600 dark:text-violet-400",
+};
+
+interface DashboardSubpageProps {
+  icon: LucideIcon;
+  color: keyof typeof ICON_COLORS;
+  title: string;
+  subtitle: string;
+  /** Where the back link goes; the dashboard when omitted */
+  back?: { href: string; label: string };
+  /** More header links, shown before the back link */
+  actions?: React.ReactNode;
+  children: React.ReactNode;
+}
+
+/** A link styled for the header of a dashboard subpage. */
+export function SubpageLink({
+  href,
+  icon: Icon,
+  children,
+}: {
+  href: string;
+  icon: LucideIcon;
+  children: React.ReactNode;
+}) {
+  return (
+    <Link
+      href={href}
+      className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+    >
+      <Icon className="w-4 h-4" />
+      {children}
+    </Link>
+  );
+}
+
+/** The header and content area every page under /dashboard shares. */
+export default function DashboardSubpage({
+  icon: Icon,
+  color,
+  title,
+  subtitle,
+  back = { href: "/dashboard", label: "Dashboard" },
+  actions,
+  children,
+}: DashboardSubpageProps) {
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      {/* Header */}
+      <header className="bg-white dark:bg-gray-800 shadow-sm border-b border-gray-200 dark:border-gray-700">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <div className="flex items-center gap-3">
+              <div
+                className={`w-10 h-10 rounded-lg flex items-center justify-center ${ICON_COLORS[color]}`}
+              >
+                <Icon className="w-5 h-5" />
+              </div>
+              <div>
+                <h1 className="text-xl font-bold text-gray-900 dark:text-white">{title}</h1>
+                <p className="text-sm text-gray-500 dark:text-gray-400">{subtitle}</p>
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              {actions}
+              <SubpageLink href={back.href} icon={ArrowLeft}>
+                {back.label}
+              </SubpageLink>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">{children}</main>
+    </div>
+  );
+}
@@ -0,0 +1,368 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import {
+  getRecurringRules,
+  createRecurringRule,
+  setRecurringRuleStatus,
+  skipNextOccurrence,
+  type RecurringRule,
+} from "@/app/api/recurring";
+import { describeCadence, type RecurringCadence } from "@/utils/recurring";
+import { formatPeso } from "@/utils/currency";
+import CategorySelect from "@/components/category/CategorySelect";
+import { Pause, Play, SkipForward, Square, Plus, Repeat } from "lucide-react";
+import { useTimezone } from "@/providers/TimezoneProvider";
+
+const inputClass =
+  "block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white text-sm";
+
+const labelClass =
+  "block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1";
+
+const statusStyles: Record<RecurringRule["status"], string> = {
+  active: "bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-400",
+  paused: "bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-400",
+  ended: "bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-400",
+};
+
+export default function RecurringManager() {
+  const { today } = useTimezone();
+  const [rules, setRules] = useState<RecurringRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [processingId, setProcessingId] = useState<string | null>(null);
+  const [message, setMessage] = useState("");
+
+  const [amount, setAmount] = useState("");
+  const [category, setCategory] = useState("");
+  const [description, setDescription] = useState("");
+  const [cadence, setCadence] = useState<RecurringCadence>("monthly");
+  const [intervalDays, setIntervalDays] = useState("14");
+  const [dayOfMonth, setDayOfMonth] = useState("15");
+  const [startDate, setStartDate] = useState(today());
+  const [endDate, setEndDate] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const loadRules = useCallback(async () => {
+    const data = await getRecurringRules();
+    setRules(data);
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    getRecurringRules().then((data) => {
+      setRules(data);
+      setLoading(false);
+    });
+  }, []);
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setSaving(true);
+    setMessage("");
+
+    const result = await createRecurringRule({
+      amount: Number(amount),
+      category,
+      description,
+      cadence,
+      interval_days: Number(intervalDays),
+      day_of_month: Number(dayOfMonth),
+      start_date: startDate,
+      end_date: endDate || null,
+    });
+
+    if (result.success) {
+      setMessage("Recurring expense saved successfully!");
+      setAmount("");
+      setCategory("");
+      setDescription("");
+      setEndDate("");
+      await loadRules();
+    } else {
+      setMessage(result.error || "Failed to save recurring expense");
+    }
+
+    setSaving(false);
+  }
+
+  async function handleStatus(rule: RecurringRule, status: RecurringRule["status"]) {
+    if (status === "ended" && !confirm(`Stop "${rule.description || rule.category}" for good?`)) {
+      return;
+    }
+
+    setProcessingId(rule.id);
+    const result = await setRecurringRuleStatus(rule.id, status);
+    if (!result.success) {
+      setMessage(result.error || "Failed to update recurring expense");
+    }
+    await loadRules();
+    setProcessingId(null);
+  }
+
+  async function handleSkip(rule: RecurringRule) {
+    setProcessingId(rule.id);
+    const result = await skipNextOccurrence(rule.id);
+    if (result.success && result.skippedDate) {
+      setMessage(`Skipped the charge on ${result.skippedDate} successfully!`);
+    } else {
+      setMessage(result.error || "Failed to skip charge");
+    }
+    await loadRules();
+    setProcessingId(null);
+  }
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+      {/* New Rule Form */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6 border border-gray-200 dark:border-gray-700 h-fit">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+          New Recurring Expense
+        </h3>
+
+        {message && (
+          <div
+            className={`mb-4 px-4 py-3 rounded-md text-sm ${
+              message.includes("success")
+                ? "bg-green-50 dark:bg-green-900/20 text-green-600 dark:text-green-400"
+                : "bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400"
+            }`}
+          >
+            {message}
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label htmlFor="recurring-amount" className={labelClass}>
+              Amount (₱)
+            </label>
+            <input
+              id="recurring-amount"
+              type="number"
+              min="0.01"
+              step="0.01"
+              required
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              className={inputClass}
+              placeholder="0.00"
+            />
+          </div>
+
+          <div>
+            <label htmlFor="recurring-category" className={labelClass}>
+              Category
+            </label>
+            <CategorySelect
+              id="recurring-category"
+              required
+              value={category}
+              onChange={setCategory}
+              className={inputClass}
+            />
+          </div>
+
+          <div>
+            <label htmlFor="recurring-description" className={labelClass}>
+              Description (Optional)
+            </label>
+            <input
+              id="recurring-description"
+              type="text"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              className={inputClass}
+              placeholder="e.g., Netflix Premium"
+            />
+          </div>
+
+          <div>
+            <label htmlFor="recurring-cadence" className={labelClass}>
+              Repeats
+            </label>
+            <select
+              id="recurring-cadence"
+              value={cadence}
+              onChange={(e) => setCadence(e.target.value as RecurringCadence)}
+              className={inputClass}
+            >
+              <option value="weekly">Weekly</option>
+              <option value="monthly">Monthly (same day as start date)</option>
+              <option value="every_n_days">Every N days</option>
+              <option value="day_of_month">Specific day of the month</option>
+            </select>
+          </div>
+
+          {cadence === "every_n_days" && (
+            <div>
+              <label htmlFor="recurring-interval" className={labelClass}>
+                Days Between Charges
+              </label>
+              <input
+                id="recurring-interval"
+                type="number"
+                min="1"
+                required
+                value={intervalDays}
+                onChange={(e) => setIntervalDays(e.target.value)}
+                className={inputClass}
+              />
+            </div>
+          )}
+
+          {cadence === "day_of_month" && (
+            <div>
+              <label htmlFor="recurring-day" className={labelClass}>
+                Day of Month
+              </label>
+              <input
+                id="recurring-day"
+                type="number"
+                min="1"
+                max="31"
+                required
+                value={dayOfMonth}
+                onChange={(e) => setDayOfMonth(e.target.value)}
+                className={inputClass}
+              />
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label htmlFor="recurring-start" className={labelClass}>
+                Starts
+              </label>
+              <input
+                id="recurring-start"
+                type="date"
+                required
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label htmlFor="recurring-end" className={labelClass}>
+                Ends (Optional)
+              </label>
+              <input
+                id="recurring-end"
+                type="date"
+                value={endDate}
+                min={startDate}
+                onChange={(e) => setEndDate(e.target.value)}
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <button
+            type="submit"
+            disabled={saving}
+            className="w-full flex justify-center items-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {saving ? (
+              "Saving..."
+            ) : (
+              <>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Recurring Expense
+              </>
+            )}
+          </button>
+        </form>
+      </div>
+
+      {/* Rule List */}
+      <div className="lg:col-span-2 bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6 border border-gray-200 dark:border-gray-700">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+          Your Recurring Expenses
+        </h3>
+
+        {loading ? (
+          <div className="flex justify-center items-center h-32">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : rules.length === 0 ? (
+          <div className="text-center py-8 text-gray-500 dark:text-gray-400">
+            <Repeat className="h-8 w-8 mx-auto mb-2" />
+            <p>No recurring expenses yet.</p>
+            <p className="text-sm mt-1">Add bills and subscriptions you pay on a schedule.</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {rules.map((rule) => (
+              <div
+                key={rule.id}
+                className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 p-4 bg-gray-50 dark:bg-gray-700/50 rounded-md"
+              >
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <p className="text-sm font-medium text-gray-900 dark:text-white truncate">
+                      {rule.description || rule.category}
+                    </p>
+                    <span className={`text-xs px-2 py-0.5 rounded-full capitalize ${statusStyles[rule.status]}`}>
+                      {rule.status}
+                    </span>
+                  </div>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                    {rule.category} • {describeCadence(rule)}
+                    {rule.end_date && ` • until ${rule.end_date}`}
+                  </p>
+                </div>
+
+                <div className="flex items-center gap-3">
+                  <span className="text-sm font-semibold text-red-600 dark:text-red-400">
+                    -{formatPeso(rule.amount)}
+                  </span>
+
+                  {rule.status !== "ended" && (
+                    <>
+                      {rule.status === "active" ? (
+                        <button
+                          onClick={() => handleStatus(rule, "paused")}
+                          disabled={processingId === rule.id}
+                          className="p-1 text-gray-400 hover:text-amber-600 dark:hover:text-amber-400 disabled:opacity-50"
+                          title="Pause"
+                        >
+                          <Pause className="h-4 w-4" />
+                        </button>
+                      ) : (
+                        <button
+                          onClick={() => handleStatus(rule, "active")}
+                          disabled={processingId === rule.id}
+                          className="p-1 text-gray-400 hover:text-green-600 dark:hover:text-green-400 disabled:opacity-50"
+                          title="Resume"
+                        >
+                          <Play className="h-4 w-4" />
+                        </button>
+                      )}
+                      <button
+                        onClick={() => handleSkip(rule)}
+                        disabled={processingId === rule.id || rule.status !== "active"}
+                        className="p-1 text-gray-400 hover:text-blue-600 dark:hover:text-blue-400 disabled:opacity-50"
+                        title="Skip next charge"
+                      >
+                        <SkipForward className="h-4 w-4" />
+                      </button>
+                      <button
+                        onClick={() => handleStatus(rule, "ended")}
+                        disabled={processingId === rule.id}
+                        className="p-1 text-gray-400 hover:text-red-600 dark:hover:text-red-400 disabled:opacity-50"
+                        title="End"
+                      >
+                        <Square className="h-4 w-4" />
+                      </button>
+                    </>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
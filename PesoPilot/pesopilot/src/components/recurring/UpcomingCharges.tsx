@@ -0,0 +1,81 @@
+"use client";
+
+import Link from "next/link";
+import type { UpcomingCharge } from "@/app/api/budget";
+import { formatPeso } from "@/utils/currency";
+import { CalendarClock } from "lucide-react";
+
+interface UpcomingChargesProps {
+  charges: UpcomingCharge[];
+  total: number;
+  remaining: number;
+}
+
+export default function UpcomingCharges({
+  charges,
+  total,
+  remaining,
+}: UpcomingChargesProps) {
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6 border border-gray-200 dark:border-gray-700">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center">
+          <CalendarClock className="h-5 w-5 text-purple-600 dark:text-purple-400 mr-2" />
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+            Upcoming This Period
+          </h3>
+        </div>
+        <Link
+          href="/dashboard/recurring"
+          className="text-sm font-medium text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300"
+        >
+          Manage
+        </Link>
+      </div>
+
+      {charges.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          No recurring charges left this period.
+        </p>
+      ) : (
+        <>
+          <div className="space-y-2">
+            {charges.map((charge) => (
+              <div
+                key={`${charge.rule_id}-${charge.date}`}
+                className="flex items-center justify-between text-sm"
+              >
+                <div className="min-w-0">
+                  <p className="font-medium text-gray-900 dark:text-white truncate">
+                    {charge.description || charge.category}
+                  </p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {new Date(charge.date).toLocaleDateString("en-PH", {
+                      month: "short",
+                      day: "numeric",
+                    })}
+                  </p>
+                </div>
+                <span className="font-semibold text-gray-700 dark:text-gray-300 ml-4">
+                  {formatPeso(charge.amount)}
+                </span>
+              </div>
+            ))}
+          </div>
+
+          <div className="mt-4 pt-4 border-t border-gray-200 dark:border-gray-700 flex justify-between text-sm">
+            <span className="text-gray-600 dark:text-gray-400">Total upcoming</span>
+            <span className="font-semibold text-gray-900 dark:text-white">
+              {formatPeso(total)}
+            </span>
+          </div>
+          {total > remaining && (
+            <p className="mt-2 text-sm text-red-600 dark:text-red-400 font-medium">
+              ⚠️ Upcoming charges exceed what&apos;s left of your budget.
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
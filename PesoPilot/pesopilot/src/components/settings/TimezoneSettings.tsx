@@ -0,0 +1,96 @@
+"use client";
+
+import { useState } from "react";
+import { updateTimezone } from "@/app/api/profile";
+import { useTimezone } from "@/providers/TimezoneProvider";
+import { TIMEZONES, todayIn } from "@/utils/period";
+import { Globe } from "lucide-react";
+
+const inputClass =
+  "block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white text-sm";
+
+const labelClass =
+  "block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1";
+
+/** Picks the timezone that decides which day expenses land on and when periods turn over. */
+export default function TimezoneSettings() {
+  const { timezone, setTimezone } = useTimezone();
+  const [selected, setSelected] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState("");
+
+  const value = selected ?? timezone;
+  // Keep a timezone set elsewhere selectable even if it isn't in the list
+  const options = TIMEZONES.some((option) => option.value === timezone)
+    ? TIMEZONES
+    : [{ value: timezone, label: timezone }, ...TIMEZONES];
+
+  async function handleSave(e: React.FormEvent) {
+    e.preventDefault();
+    setSaving(true);
+    setMessage("");
+
+    const result = await updateTimezone(value);
+    if (result.success) {
+      setTimezone(value);
+      setSelected(null);
+      setMessage("Timezone saved successfully!");
+    } else {
+      setMessage(result.error || "Failed to save timezone");
+    }
+    setSaving(false);
+  }
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6 border border-gray-200 dark:border-gray-700 max-w-xl">
+      <div className="flex items-center gap-2 mb-2">
+        <Globe className="h-5 w-5 text-blue-600 dark:text-blue-400" />
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Timezone</h3>
+      </div>
+      <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+        Decides what day it is for you: the date new expenses default to and when each budget
+        period starts and ends.
+      </p>
+
+      {message && (
+        <div
+          className={`mb-4 px-4 py-3 rounded-md text-sm ${
+            message.includes("success")
+              ? "bg-green-50 dark:bg-green-900/20 text-green-600 dark:text-green-400"
+              : "bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400"
+          }`}
+        >
+          {message}
+        </div>
+      )}
+
+      <form onSubmit={handleSave} className="space-y-4">
+        <div>
+          <label className={labelClass}>Timezone</label>
+          <select
+            value={value}
+            onChange={(e) => setSelected(e.target.value)}
+            className={inputClass}
+          >
+            {options.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+            Today there is {todayIn(value)}.
+          </p>
+        </div>
+
+        <button
+          type="submit"
+          disabled={saving || value === timezone}
+          className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 transition-colors"
+        >
+          {saving ? "Saving..." : "Save"}
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,195 @@
+"use client";
+
+import { useState } from "react";
+import CategorySelect from "@/components/category/CategorySelect";
+import {
+  EXPENSE_SORTS,
+  type ExpenseFilters,
+  type ExpenseSort,
+} from "@/utils/transactions";
+import { Search, X } from "lucide-react";
+
+interface TransactionFiltersProps {
+  filters: ExpenseFilters;
+  onApply: (filters: ExpenseFilters) => void;
+}
+
+const inputClass =
+  "block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white text-sm";
+
+const labelClass =
+  "block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1";
+
+function toInput(value: number | undefined): string {
+  return value === undefined ? "" : String(value);
+}
+
+function fromInput(value: string): number | undefined {
+  return value === "" ? undefined : Number(value);
+}
+
+/**
+ * Filter form for the transaction history. Edits stay local until the
+ * user applies them; the page then writes them to the URL.
+ */
+export default function TransactionFilters({ filters, onApply }: TransactionFiltersProps) {
+  const [search, setSearch] = useState(filters.search ?? "");
+  const [category, setCategory] = useState(filters.category ?? "");
+  const [minAmount, setMinAmount] = useState(toInput(filters.minAmount));
+  const [maxAmount, setMaxAmount] = useState(toInput(filters.maxAmount));
+  const [startDate, setStartDate] = useState(filters.startDate ?? "");
+  const [endDate, setEndDate] = useState(filters.endDate ?? "");
+  const [sort, setSort] = useState<ExpenseSort>(filters.sort ?? "date_desc");
+
+  function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    onApply({
+      search: search.trim() || undefined,
+      category: category || undefined,
+      minAmount: fromInput(minAmount),
+      maxAmount: fromInput(maxAmount),
+      startDate: startDate || undefined,
+      endDate: endDate || undefined,
+      sort,
+    });
+  }
+
+  function handleClear() {
+    setSearch("");
+    setCategory("");
+    setMinAmount("");
+    setMaxAmount("");
+    setStartDate("");
+    setEndDate("");
+    setSort("date_desc");
+    onApply({});
+  }
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6 border border-gray-200 dark:border-gray-700"
+    >
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+        <div className="md:col-span-2">
+          <label htmlFor="filter-search" className={labelClass}>
+            Search
+          </label>
+          <input
+            id="filter-search"
+            type="search"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className={inputClass}
+            placeholder="Search descriptions"
+          />
+        </div>
+
+        <div>
+          <label htmlFor="filter-category" className={labelClass}>
+            Category
+          </label>
+          <CategorySelect
+            id="filter-category"
+            value={category}
+            onChange={setCategory}
+            placeholder="All categories"
+            className={inputClass}
+          />
+        </div>
+
+        <div>
+          <label htmlFor="filter-sort" className={labelClass}>
+            Sort By
+          </label>
+          <select
+            id="filter-sort"
+            value={sort}
+            onChange={(e) => setSort(e.target.value as ExpenseSort)}
+            className={inputClass}
+          >
+            {EXPENSE_SORTS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label htmlFor="filter-min" className={labelClass}>
+            Min Amount (₱)
+          </label>
+          <input
+            id="filter-min"
+            type="number"
+            min="0"
+            step="0.01"
+            value={minAmount}
+            onChange={(e) => setMinAmount(e.target.value)}
+            className={inputClass}
+          />
+        </div>
+
+        <div>
+          <label htmlFor="filter-max" className={labelClass}>
+            Max Amount (₱)
+          </label>
+          <input
+            id="filter-max"
+            type="number"
+            min="0"
+            step="0.01"
+            value={maxAmount}
+            onChange={(e) => setMaxAmount(e.target.value)}
+            className={inputClass}
+          />
+        </div>
+
+        <div>
+          <label htmlFor="filter-from" className={labelClass}>
+            From
+          </label>
+          <input
+            id="filter-from"
+            type="date"
+            value={startDate}
+            onChange={(e) => setStartDate(e.target.value)}
+            className={inputClass}
+          />
+        </div>
+
+        <div>
+          <label htmlFor="filter-to" className={labelClass}>
+            To
+          </label>
+          <input
+            id="filter-to"
+            type="date"
+            value={endDate}
+            onChange={(e) => setEndDate(e.target.value)}
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      <div className="flex justify-end space-x-3 mt-4">
+        <button
+          type="button"
+          onClick={handleClear}
+          className="flex items-center px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+        >
+          <X className="h-4 w-4 mr-2" />
+          Clear
+        </button>
+        <button
+          type="submit"
+          className="flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors"
+        >
+          <Search className="h-4 w-4 mr-2" />
+          Apply Filters
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,137 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import { searchExpenses, type Expense } from "@/app/api/budget";
+import { formatCurrency, formatPeso } from "@/utils/currency";
+import {
+  parseExpenseFilters,
+  expenseFiltersToQuery,
+  type ExpenseFilters,
+} from "@/utils/transactions";
+import TransactionFilters from "./TransactionFilters";
+
+/**
+ * Paginated, filterable list of every expense in the current workspace.
+ * Filters are read from and written to the URL so a view can be bookmarked;
+ * the pagination cursor is kept in state.
+ */
+export default function TransactionHistory() {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const query = searchParams.toString();
+  const filters = parseExpenseFilters(searchParams);
+
+  const [expenses, setExpenses] = useState<Expense[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadedQuery, setLoadedQuery] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+
+  useEffect(() => {
+    searchExpenses(parseExpenseFilters(new URLSearchParams(query))).then((page) => {
+      setExpenses(page.expenses);
+      setNextCursor(page.nextCursor);
+      setLoadedQuery(query);
+    });
+  }, [query]);
+
+  const loading = loadedQuery !== query;
+
+  function handleApply(next: ExpenseFilters) {
+    const nextQuery = expenseFiltersToQuery(next);
+    router.push(nextQuery ? `${pathname}?${nextQuery}` : pathname);
+  }
+
+  async function handleLoadMore() {
+    if (!nextCursor) return;
+    setLoadingMore(true);
+    const page = await searchExpenses(filters, nextCursor);
+    setExpenses((prev) => [...prev, ...page.expenses]);
+    setNextCursor(page.nextCursor);
+    setLoadingMore(false);
+  }
+
+  return (
+    <div className="space-y-6">
+      <TransactionFilters key={query} filters={filters} onApply={handleApply} />
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
+        {loading ? (
+          <div className="flex justify-center items-center h-64">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : expenses.length === 0 ? (
+          <div className="text-center py-12 text-gray-500 dark:text-gray-400">
+            <p>No transactions match these filters.</p>
+          </div>
+        ) : (
+          <>
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                <thead className="bg-gray-50 dark:bg-gray-700/50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                      Date
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                      Category
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                      Description
+                    </th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                      Amount
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {expenses.map((expense) => (
+                    <tr key={expense.id} className="hover:bg-gray-50 dark:hover:bg-gray-700/50">
+                      <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                        {new Date(expense.date).toLocaleDateString("en-PH", {
+                          year: "numeric",
+                          month: "short",
+                          day: "numeric",
+                        })}
+                      </td>
+                      <td className="px-6 py-3 whitespace-nowrap text-sm font-medium text-gray-900 dark:text-white">
+                        {expense.category}
+                      </td>
+                      <td className="px-6 py-3 text-sm text-gray-500 dark:text-gray-400">
+                        {expense.description || "—"}
+                      </td>
+                      <td className="px-6 py-3 whitespace-nowrap text-sm font-semibold text-right text-red-600 dark:text-red-400">
+                        -{formatPeso(expense.amount)}
+                        {expense.original_amount !== null && (
+                          <span className="block text-xs font-normal text-gray-500 dark:text-gray-400">
+                            {formatCurrency(expense.original_amount, expense.currency)}
+                          </span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="flex items-center justify-between px-6 py-4 border-t border-gray-200 dark:border-gray-700">
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                Showing {expenses.length} transaction{expenses.length === 1 ? "" : "s"}
+              </p>
+              {nextCursor && (
+                <button
+                  onClick={handleLoadMore}
+                  disabled={loadingMore}
+                  className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  {loadingMore ? "Loading..." : "Load More"}
+                </button>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,230 @@
+"use client";
+
+import { createContext, useCallback, useContext, useEffect, useRef, useState } from "react";
+import { syncExpenseChange } from "@/app/api/sync";
+import { enqueueChange, type ExpenseChange, type QueuedChange } from "@/utils/expenseQueue";
+import { clearOfflineData, readQueue, saveQueue } from "@/utils/offlineStore";
+import { createClient } from "@/utils/supabase/client";
+
+// Also the Background Sync tag the service worker listens for
+const SYNC_MESSAGE = "sync-expenses";
+
+interface OfflineSyncContextType {
+  /** Expense changes made offline that haven't reached the server yet */
+  queue: QueuedChange[];
+  online: boolean;
+  syncing: boolean;
+  queueChange: (change: ExpenseChange) => Promise<void>;
+  syncNow: () => Promise<void>;
+  /** Send the user's version anyway, or drop it in favour of the server's */
+  resolveConflict: (expenseId: string, keep: "mine" | "theirs") => Promise<void>;
+  /** Call `listener` whenever queued changes reach the server; returns an unsubscribe */
+  onSynced: (listener: () => void) => () => void;
+  /** Forget every queued change and cached list; call before signing out */
+  clearQueue: () => Promise<void>;
+}
+
+const OfflineSyncContext = createContext<OfflineSyncContextType | undefined>(undefined);
+
+type SyncRegistration = ServiceWorkerRegistration & {
+  sync?: { register: (tag: string) => Promise<void> };
+};
+
+// Read from the stored session, so this works offline while the token is valid
+async function sessionUserId(): Promise<string | null> {
+  const { data } = await createClient().auth.getSession();
+  return data.session?.user.id ?? null;
+}
+
+export function OfflineSyncProvider({ children }: { children: React.ReactNode }) {
+  const [queue, setQueue] = useState<QueuedChange[]>([]);
+  const [online, setOnline] = useState(true);
+  const [syncing, setSyncing] = useState(false);
+  const syncingRef = useRef(false);
+  const listeners = useRef(new Set<() => void>());
+  const ownerRef = useRef<string | null>(null);
+
+  // Whose queue to work on. Keeps the last user seen when the session can't be
+  // read, e.g. an expired token that can't be refreshed while offline.
+  const queueOwner = useCallback(async () => {
+    const userId = await sessionUserId().catch(() => null);
+    if (userId) ownerRef.current = userId;
+    return ownerRef.current;
+  }, []);
+
+  const storeQueue = useCallback(async (owner: string, next: QueuedChange[]) => {
+    setQueue(next);
+    await saveQueue(owner, next);
+  }, []);
+
+  const syncNow = useCallback(async () => {
+    if (syncingRef.current || !navigator.onLine) return;
+    syncingRef.current = true;
+    setSyncing(true);
+
+    let synced = false;
+    try {
+      const owner = await queueOwner();
+      if (!owner) return;
+
+      // What happened to each change sent, keyed by expense id
+      const settled = new Map<string, { queuedAt: string; conflict: string | null }>();
+      for (const item of await readQueue(owner)) {
+        if (item.conflict) continue;
+
+        let outcome;
+        try {
+          outcome = await syncExpenseChange(item.change);
+        } catch {
+          // Still can't reach the server; try again on the next sync
+          break;
+        }
+        if (outcome.status === "retry") break;
+
+        settled.set(item.change.expenseId, {
+          queuedAt: item.queuedAt,
+          conflict:
+            outcome.status === "conflict" ? outcome.error || "This change couldn't be saved" : null,
+        });
+      }
+
+      // Re-read so changes queued while this sync ran are kept
+      const latest = await readQueue(owner);
+      await storeQueue(
+        owner,
+        latest.flatMap((item) => {
+          const result = settled.get(item.change.expenseId);
+          if (!result || result.queuedAt !== item.queuedAt) return [item];
+          return result.conflict ? [{ ...item, conflict: result.conflict }] : [];
+        })
+      );
+      synced = Array.from(settled.values()).some((result) => result.conflict === null);
+    } catch (error) {
+      console.error("Error syncing offline changes:", error);
+    } finally {
+      syncingRef.current = false;
+      setSyncing(false);
+    }
+    if (synced) listeners.current.forEach((listener) => listener());
+  }, [queueOwner, storeQueue]);
+
+  useEffect(() => {
+    queueOwner()
+      .then((owner) => (owner ? readQueue(owner) : []))
+      .catch((error) => {
+        // e.g. IndexedDB blocked in private browsing; carry on without a queue
+        console.error("Error reading offline queue:", error);
+        return [];
+      })
+      .then((stored) => {
+        setQueue(stored);
+        setOnline(navigator.onLine);
+        syncNow();
+      });
+
+    // Cached pages would get in the way of development builds
+    if ("serviceWorker" in navigator && process.env.NODE_ENV === "production") {
+      navigator.serviceWorker.register("/sw.js").catch((error) => {
+        console.error("Error registering service worker:", error);
+      });
+    }
+
+    const handleOnline = () => {
+      setOnline(true);
+      syncNow();
+    };
+    const handleOffline = () => setOnline(false);
+    const handleMessage = (event: MessageEvent) => {
+      if (event.data?.type === SYNC_MESSAGE) syncNow();
+    };
+
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    navigator.serviceWorker?.addEventListener("message", handleMessage);
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+      navigator.serviceWorker?.removeEventListener("message", handleMessage);
+    };
+  }, [queueOwner, syncNow]);
+
+  const queueChange = useCallback(
+    async (change: ExpenseChange) => {
+      const owner = await queueOwner();
+      if (!owner) throw new Error("Sign in again to save changes offline");
+      await storeQueue(owner, enqueueChange(await readQueue(owner), change));
+
+      // Let the browser wake us when the connection is back, where supported
+      if ("serviceWorker" in navigator && navigator.serviceWorker.controller) {
+        const registration: SyncRegistration = await navigator.serviceWorker.ready;
+        await registration.sync?.register(SYNC_MESSAGE).catch(() => {});
+      }
+    },
+    [queueOwner, storeQueue]
+  );
+
+  const resolveConflict = useCallback(
+    async (expenseId: string, keep: "mine" | "theirs") => {
+      const owner = await queueOwner();
+      if (!owner) return;
+      const current = await readQueue(owner);
+      const item = current.find((other) => other.change.expenseId === expenseId);
+      if (!item) return;
+
+      if (keep === "mine") {
+        const outcome = await syncExpenseChange(item.change, true);
+        if (outcome.status !== "synced") {
+          await storeQueue(
+            owner,
+            current.map((other) =>
+              other === item ? { ...other, conflict: outcome.error || other.conflict } : other
+            )
+          );
+          return;
+        }
+      }
+
+      await storeQueue(owner, current.filter((other) => other !== item));
+      listeners.current.forEach((listener) => listener());
+    },
+    [queueOwner, storeQueue]
+  );
+
+  const onSynced = useCallback((listener: () => void) => {
+    listeners.current.add(listener);
+    return () => {
+      listeners.current.delete(listener);
+    };
+  }, []);
+
+  const clearQueue = useCallback(async () => {
+    ownerRef.current = null;
+    setQueue([]);
+    await clearOfflineData();
+  }, []);
+
+  return (
+    <OfflineSyncContext.Provider
+      value={{
+        queue,
+        online,
+        syncing,
+        queueChange,
+        syncNow,
+        resolveConflict,
+        onSynced,
+        clearQueue,
+      }}
+    >
+      {children}
+    </OfflineSyncContext.Provider>
+  );
+}
+
+export function useOfflineSync() {
+  const context = useContext(OfflineSyncContext);
+  if (context === undefined) {
+    throw new Error("useOfflineSync must be used within an OfflineSyncProvider");
+  }
+  return context;
+}
@@ -0,0 +1,38 @@
+"use client";
+
+import { createContext, useCallback, useContext, useEffect, useState } from "react";
+import { getTimezone } from "@/app/api/profile";
+import { DEFAULT_TIMEZONE, todayIn } from "@/utils/period";
+
+interface TimezoneContextType {
+  timezone: string;
+  setTimezone: (timezone: string) => void;
+  /** Today's date (YYYY-MM-DD) in the user's timezone */
+  today: () => string;
+}
+
+const TimezoneContext = createContext<TimezoneContextType | undefined>(undefined);
+
+export function TimezoneProvider({ children }: { children: React.ReactNode }) {
+  const [timezone, setTimezone] = useState(DEFAULT_TIMEZONE);
+
+  useEffect(() => {
+    getTimezone().then(setTimezone);
+  }, []);
+
+  const today = useCallback(() => todayIn(timezone), [timezone]);
+
+  return (
+    <TimezoneContext.Provider value={{ timezone, setTimezone, today }}>
+      {children}
+    </TimezoneContext.Provider>
+  );
+}
+
+export function useTimezone() {
+  const context = useContext(TimezoneContext);
+  if (context === undefined) {
+    throw new Error("useTimezone must be used within a TimezoneProvider");
+  }
+  return context;
+}
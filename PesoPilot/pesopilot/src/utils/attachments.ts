@@ -0,0 +1,36 @@
+export const RECEIPTS_BUCKET = "receipts";
+
+// File types a receipt can be, with the extension it's stored under. SVG is
+// left out on purpose: it can carry scripts.
+const ATTACHMENT_EXTENSIONS: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+  "image/heic": "heic",
+  "application/pdf": "pdf",
+};
+
+export const ATTACHMENT_ACCEPT = Object.keys(ATTACHMENT_EXTENSIONS).join(",");
+export const MAX_ATTACHMENT_BYTES = 5 * 1024 * 1024;
+export const MAX_ATTACHMENTS_PER_UPLOAD = 5;
+
+export function isImageAttachment(contentType: string): boolean {
+  return contentType.startsWith("image/");
+}
+
+/** Extension to store a file of this type under, or null if it isn't allowed. */
+export function attachmentExtension(contentType: string): string | null {
+  return Object.hasOwn(ATTACHMENT_EXTENSIONS, contentType)
+    ? ATTACHMENT_EXTENSIONS[contentType]
+    : null;
+}
+
+/** Why a file can't be attached, or null if it can. */
+export function attachmentError(file: { name: string; type: string; size: number }): string | null {
+  if (attachmentExtension(file.type) === null) {
+    return `${file.name} is not a JPEG, PNG, WebP, HEIC or PDF file`;
+  }
+  if (file.size === 0) return `${file.name} is empty`;
+  if (file.size > MAX_ATTACHMENT_BYTES) return `${file.name} is larger than 5 MB`;
+  return null;
+}
@@ -0,0 +1,113 @@
+import { formatCurrency, formatPeso } from "./currency";
+import { BUDGET_PERIODS, type BudgetPeriod } from "./period";
+import { ROLLOVER_MODES } from "./rollover";
+
+export type AuditTable = "expenses" | "budgets";
+
+export type AuditAction = "create" | "update" | "delete";
+
+export type AuditValues = Record<string, unknown>;
+
+export interface AuditChange {
+  field: string;
+  label: string;
+  before: string;
+  after: string;
+}
+
+// Fields shown in a timeline, in display order. Bookkeeping columns such as
+// created_at or rollover_since are left out.
+const TRACKED_FIELDS: Record<AuditTable, Record<string, string>> = {
+  expenses: {
+    amount: "Amount",
+    original_amount: "Amount paid",
+    exchange_rate: "Exchange rate",
+    category: "Category",
+    description: "Description",
+    date: "Date",
+    account_id: "Account",
+    tags: "Tags",
+  },
+  budgets: {
+    amount: "Amount",
+    period: "Period",
+    period_start_day: "Start day",
+    period_anchor: "First period starts",
+    rollover_mode: "Rollover",
+    rollover_cap: "Rollover cap",
+  },
+};
+
+/**
+ * Show a logged value the way the app shows it elsewhere. Account ids are
+ * looked up in `accountNames`; empty values show as a dash.
+ */
+export function formatAuditValue(
+  field: string,
+  value: unknown,
+  values: AuditValues,
+  accountNames: Record<string, string> = {}
+): string {
+  if (value === null || value === undefined || value === "") return "—";
+  if (Array.isArray(value)) {
+    return value.length > 0 ? value.map((tag) => `#${tag}`).join(" ") : "—";
+  }
+
+  switch (field) {
+    case "amount":
+    case "rollover_cap":
+      return formatPeso(Number(value));
+    case "original_amount":
+      return formatCurrency(Number(value), String(values.currency ?? ""));
+    case "account_id":
+      return accountNames[String(value)] ?? "Unknown account";
+    case "period":
+      return BUDGET_PERIODS[value as BudgetPeriod]?.label ?? String(value);
+    case "rollover_mode":
+      return ROLLOVER_MODES.find((mode) => mode.value === value)?.label ?? String(value);
+    default:
+      return String(value);
+  }
+}
+
+/** The tracked fields that differ between two logged versions of a row. */
+export function describeChanges(
+  table: AuditTable,
+  before: AuditValues | null,
+  after: AuditValues | null,
+  accountNames: Record<string, string> = {}
+): AuditChange[] {
+  return Object.entries(TRACKED_FIELDS[table]).flatMap(([field, label]) => {
+    const oldValue = before?.[field] ?? null;
+    const newValue = after?.[field] ?? null;
+    if (JSON.stringify(oldValue) === JSON.stringify(newValue)) return [];
+
+    return [
+      {
+        field,
+        label,
+        before: formatAuditValue(field, oldValue, before ?? {}, accountNames),
+        after: formatAuditValue(field, newValue, after ?? {}, accountNames),
+      },
+    ];
+  });
+}
+
+/**
+ * A short heading for a logged event. Moving an expense to the trash and
+ * restoring it are updates to deleted_at, so they get their own wording.
+ */
+export function auditEventTitle(
+  action: AuditAction,
+  before: AuditValues | null,
+  after: AuditValues | null
+): string {
+  if (action === "create") return "Created";
+  if (action === "delete") return "Deleted permanently";
+
+  const wasTrashed = Boolean(before?.deleted_at);
+  const isTrashed = Boolean(after?.deleted_at);
+  if (!wasTrashed && isTrashed) return "Moved to trash";
+  if (wasTrashed && !isTrashed) return "Restored from trash";
+  return "Edited";
+}
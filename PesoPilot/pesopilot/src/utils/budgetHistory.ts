@@ -0,0 +1,61 @@
+import {
+  addDays,
+  getNextPeriod,
+  getPeriodRange,
+  type PeriodRange,
+  type PeriodSettings,
+} from "./period";
+
+/** A budget's amount and periods as they were from `effective_from` on. */
+export interface BudgetVersion extends PeriodSettings {
+  amount: number;
+  effective_from: string;
+}
+
+/** One budget period with the amount that applied to it. */
+export interface VersionedPeriod extends PeriodRange {
+  budget: number;
+  settings: PeriodSettings;
+}
+
+/** The version in effect on `date`, given versions sorted oldest first. */
+export function versionOn<T extends BudgetVersion>(versions: T[], date: string): T | null {
+  let current: T | null = null;
+  for (const version of versions) {
+    if (version.effective_from > date) break;
+    current = version;
+  }
+  return current;
+}
+
+/**
+ * Every period from the first version up to the one containing `through`,
+ * oldest first, each laid out by and budgeted with the version in effect.
+ * When a version replaces another mid-period, the old period is cut short
+ * the day before.
+ */
+export function listVersionedPeriods(
+  versions: BudgetVersion[],
+  through: string
+): VersionedPeriod[] {
+  const periods: VersionedPeriod[] = [];
+
+  versions.forEach((version, index) => {
+    const until = versions[index + 1]?.effective_from ?? null;
+
+    for (
+      let range = getPeriodRange(version, version.effective_from);
+      range.start <= through && (until === null || range.start < until);
+      range = getNextPeriod(version, range)
+    ) {
+      periods.push({
+        start: range.start < version.effective_from ? version.effective_from : range.start,
+        end: until !== null && range.end >= until ? addDays(until, -1) : range.end,
+        budget: Number(version.amount),
+        settings: version,
+      });
+    }
+  });
+
+  return periods;
+}
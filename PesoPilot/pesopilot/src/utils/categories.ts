@@ -0,0 +1,69 @@
+import { FALLBACK_CATEGORY } from "./import";
+
+export interface CategoryPreset {
+  name: string;
+  color: string;
+  icon: string;
+}
+
+/**
+ * Categories every new user starts with. Colours match the palette the
+ * category chart has always used so existing data keeps its look.
+ */
+export const DEFAULT_CATEGORIES: CategoryPreset[] = [
+  { name: "Food & Dining", color: "#3B82F6", icon: "utensils" },
+  { name: "Transportation", color: "#EF4444", icon: "car" },
+  { name: "Shopping", color: "#10B981", icon: "shopping-bag" },
+  { name: "Entertainment", color: "#F59E0B", icon: "film" },
+  { name: "Bills & Utilities", color: "#8B5CF6", icon: "receipt" },
+  { name: "Health & Fitness", color: "#EC4899", icon: "heart-pulse" },
+  { name: "Education", color: "#06B6D4", icon: "graduation-cap" },
+  { name: "Travel", color: "#F97316", icon: "plane" },
+  { name: "Other", color: "#84CC16", icon: "tag" },
+];
+
+export const CATEGORY_COLORS = [
+  "#3B82F6", // blue
+  "#EF4444", // red
+  "#10B981", // green
+  "#F59E0B", // yellow
+  "#8B5CF6", // purple
+  "#EC4899", // pink
+  "#06B6D4", // cyan
+  "#F97316", // orange
+  "#84CC16", // lime
+];
+
+/**
+ * Stable fallback colour for a category name that has no stored colour
+ * (e.g. an archived or deleted category still referenced by old expenses).
+ */
+export function colorForName(name: string): string {
+  let hash = 0;
+  for (let i = 0; i < name.length; i++) {
+    hash = (hash * 31 + name.charCodeAt(i)) | 0;
+  }
+  return CATEGORY_COLORS[Math.abs(hash) % CATEGORY_COLORS.length];
+}
+
+// Checked in order, so "GrabFood" is filed under food before "Grab" matches transport
+const CATEGORY_KEYWORDS: [string, RegExp][] = [
+  ["Food & Dining", /jollibee|mcdo|mcdonald|chowking|greenwich|mang inasal|kfc|starbucks|grab\s?food|foodpanda|7-eleven|ministop|bakery|bakeshop|restaurant|cafe|coffee|pizza|kitchen|eatery/i],
+  ["Shopping", /shopee|lazada|tiktok shop|grab\s?mart|puregold|robinsons|savemore|sm (super|hyper)market|sm store|sm markets|waltermart|landers|s&r|uniqlo|ace hardware|department store/i],
+  ["Transportation", /\bgrab\b|angkas|joyride|move ?it|beep|\blrt\b|\bmrt\b|autosweep|easytrip|rfid|petron|\bshell\b|caltex|seaoil|parking/i],
+  ["Bills & Utilities", /meralco|maynilad|manila water|pldt|\bglobe\b|\bsmart\b|\bdito\b|converge|sky ?cable|cignal|buy load|\bload\b|pay bills|bills payment|postpaid|insurance|sss|philhealth|pag-?ibig/i],
+  ["Entertainment", /netflix|spotify|youtube|disney|\bviu\b|\bhbo\b|steam|playstation|nintendo|cinema|mobile legends|garena|codashop/i],
+  ["Health & Fitness", /mercury drug|watsons|southstar|rose pharmacy|generika|pharmacy|botika|hospital|clinic|medical|dental|\bgym\b|fitness/i],
+  ["Education", /school|university|college|tuition|academy|coursera|udemy|national book|fully booked|bookstore/i],
+  ["Travel", /cebu pacific|philippine airlines|airasia|agoda|booking\.com|airbnb|klook|hotel|resort|\b2go\b/i],
+];
+
+/**
+ * Guess the category from the merchant name, using one of the user's own
+ * categories when the guess matches it (case-insensitively).
+ */
+export function guessCategory(description: string, categories: string[]): string {
+  const match = CATEGORY_KEYWORDS.find(([, pattern]) => pattern.test(description));
+  const guess = match ? match[0] : FALLBACK_CATEGORY;
+  return categories.find((name) => name.toLowerCase() === guess.toLowerCase()) ?? guess;
+}
@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { parseCsv, toCsvCell } from "./csv";
+
+describe("toCsvCell", () => {
+  it("quotes delimiters, quotes and newlines", () => {
+    expect(toCsvCell("Lunch, drinks")).toBe('"Lunch, drinks"');
+    expect(toCsvCell('The "usual"')).toBe('"The ""usual"""');
+    expect(toCsvCell("two\nlines")).toBe('"two\nlines"');
+    expect(toCsvCell(null)).toBe("");
+  });
+
+  it("keeps text that looks like a formula from running in a spreadsheet", () => {
+    expect(toCsvCell("=HYPERLINK(\"http://example.com\")")).toBe(`"'=HYPERLINK(""http://example.com"")"`);
+    expect(toCsvCell("+63 917 123 4567")).toBe("'+63 917 123 4567");
+    expect(toCsvCell("-refund")).toBe("'-refund");
+    expect(toCsvCell("@SUM(A1)")).toBe("'@SUM(A1)");
+    expect(toCsvCell("\tcmd")).toBe("'\tcmd");
+  });
+
+  it("leaves numbers and ordinary text alone", () => {
+    expect(toCsvCell(-150)).toBe("-150");
+    expect(toCsvCell("Jollibee")).toBe("Jollibee");
+  });
+
+  it("reads back what it writes", () => {
+    const row = ["Lunch, drinks", 'The "usual"', "plain"].map(toCsvCell).join(",");
+    expect(parseCsv(row)).toEqual([["Lunch, drinks", 'The "usual"', "plain"]]);
+  });
+});
@@ -1,13 +1,64 @@
+export const BASE_CURRENCY = "PHP";
+
+/**
+ * Currencies offered when logging an expense. Any ISO 4217 code works with
+ * the helpers below; these are just the ones Filipinos travel or subscribe in.
+ */
+export const CURRENCIES = [
+  "PHP",
+  "USD",
+  "EUR",
+  "GBP",
+  "JPY",
+  "KRW",
+  "CNY",
+  "HKD",
+  "TWD",
+  "SGD",
+  "MYR",
+  "THB",
+  "VND",
+  "IDR",
+  "AUD",
+  "NZD",
+  "CAD",
+  "AED",
+  "SAR",
+  "QAR",
+];
+
+/**
+ * Format a number as an amount in any ISO currency, using the currency's own
+ * number of decimals (e.g. none for JPY)
+ */
+export function formatCurrency(amount: number, currency: string = BASE_CURRENCY): string {
+  try {
+    return new Intl.NumberFormat("en-PH", {
+      style: "currency",
+      currency,
+    }).format(amount);
+  } catch {
+    // Unknown currency code
+    return `${currency} ${formatNumber(amount)}`;
+  }
+}
+
 /**
  * Format a number as Philippine Peso currency
  */
 export function formatPeso(amount: number): string {
-  return new Intl.NumberFormat("en-PH", {
-    style: "currency",
-    currency: "PHP",
-    minimumFractionDigits: 2,
-    maximumFractionDigits: 2,
-  }).format(amount);
+  return formatCurrency(amount, BASE_CURRENCY);
+}
+
+export function isCurrencyCode(code: string): boolean {
+  return /^[A-Z]{3}$/.test(code);
+}
+
+/**
+ * Convert an amount in another currency to pesos, rounded to centavos
+ */
+export function convertToPeso(amount: number, rate: number): number {
+  return Math.round(amount * rate * 100) / 100;
 }
 
 /**
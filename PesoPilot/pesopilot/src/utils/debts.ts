@@ -0,0 +1,64 @@
+/** "lent" is money owed to the user; "borrowed" is money the user owes. */
+export type DebtDirection = "lent" | "borrowed";
+
+export const DEBT_DIRECTION_LABELS: Record<DebtDirection, string> = {
+  lent: "I lent",
+  borrowed: "I borrowed",
+};
+
+export interface CounterpartyBalance {
+  name: string;
+  owedToYou: number;
+  youOwe: number;
+  net: number;
+}
+
+interface OpenDebt {
+  counterparty: string;
+  direction: DebtDirection;
+  outstanding: number;
+  due_date: string | null;
+}
+
+/**
+ * Outstanding balances per person, in each direction. Names are matched
+ * without regard to case or extra spaces so "Tita Baby" and "tita baby "
+ * share a row. Sorted by the largest net amount either way.
+ */
+export function summarizeCounterparties(debts: OpenDebt[]): CounterpartyBalance[] {
+  const byName = new Map<string, CounterpartyBalance>();
+
+  debts.forEach((debt) => {
+    if (debt.outstanding <= 0) return;
+    const name = debt.counterparty.trim().replace(/\s+/g, " ");
+    const key = name.toLowerCase();
+    const balance = byName.get(key) ?? { name, owedToYou: 0, youOwe: 0, net: 0 };
+
+    if (debt.direction === "lent") balance.owedToYou += debt.outstanding;
+    else balance.youOwe += debt.outstanding;
+    balance.net = balance.owedToYou - balance.youOwe;
+
+    byName.set(key, balance);
+  });
+
+  return [...byName.values()].sort((a, b) => Math.abs(b.net) - Math.abs(a.net));
+}
+
+/** Still unpaid after its due date (YYYY-MM-DD). */
+export function isDebtOverdue(debt: OpenDebt, today: string): boolean {
+  return debt.outstanding > 0 && debt.due_date !== null && debt.due_date < today;
+}
+
+/**
+ * What repayments add to cash flow: money paid back to the user comes in,
+ * money the user pays back goes out.
+ */
+export function repaymentCashFlow(
+  payments: { amount: number; direction: DebtDirection }[]
+): number {
+  return payments.reduce(
+    (sum, payment) =>
+      sum + (payment.direction === "lent" ? Number(payment.amount) : -Number(payment.amount)),
+    0
+  );
+}
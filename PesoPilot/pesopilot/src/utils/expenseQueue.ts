@@ -0,0 +1,120 @@
+import type { Expense, ForeignAmount } from "@/app/api/budget";
+import { BASE_CURRENCY } from "./currency";
+
+/** The fields of an expense as entered in the add or edit form. */
+export interface QueuedExpenseValues {
+  amount: number;
+  category: string;
+  description: string;
+  date: string;
+  accountId: string | null;
+  foreign: ForeignAmount | null;
+}
+
+/**
+ * A change made while offline. Edits and deletes carry the expense's
+ * updated_at as it was when the change was made, so syncing can tell whether
+ * the expense was changed somewhere else in the meantime.
+ */
+export type ExpenseChange =
+  | { kind: "create"; expenseId: string; values: QueuedExpenseValues }
+  | { kind: "update"; expenseId: string; values: QueuedExpenseValues; baseUpdatedAt: string }
+  | { kind: "delete"; expenseId: string; baseUpdatedAt: string };
+
+export interface QueuedChange {
+  change: ExpenseChange;
+  queuedAt: string;
+  /** Why the server held the change back, until the user decides what to keep */
+  conflict: string | null;
+}
+
+/**
+ * Add a change to the queue, folding it into any change already queued for
+ * the same expense so each expense has at most one entry. Editing an expense
+ * that hasn't been sent yet just updates what will be sent, and deleting it
+ * drops it from the queue altogether.
+ */
+export function enqueueChange(
+  queue: QueuedChange[],
+  change: ExpenseChange,
+  now: Date = new Date()
+): QueuedChange[] {
+  const existing = queue.find((item) => item.change.expenseId === change.expenseId)?.change;
+  const rest = queue.filter((item) => item.change.expenseId !== change.expenseId);
+
+  let merged: ExpenseChange | null = change;
+  if (existing?.kind === "create") {
+    merged =
+      change.kind === "delete"
+        ? null
+        : { kind: "create", expenseId: change.expenseId, values: change.values };
+  } else if (existing && change.kind !== "create") {
+    // Compare against the version the first queued change was based on
+    merged = { ...change, baseUpdatedAt: existing.baseUpdatedAt };
+  }
+
+  return merged ? [...rest, { change: merged, queuedAt: now.toISOString(), conflict: null }] : rest;
+}
+
+/** The queued change for an expense, if there is one. */
+export function queuedChangeFor(queue: QueuedChange[], expenseId: string): QueuedChange | null {
+  return queue.find((item) => item.change.expenseId === expenseId) ?? null;
+}
+
+/**
+ * An expense as it will look once its queued change is synced, for showing
+ * in a list before the server has it.
+ */
+export function applyQueuedValues(
+  expense: Expense,
+  values: QueuedExpenseValues
+): Expense {
+  return {
+    ...expense,
+    amount: values.amount,
+    category: values.category,
+    description: values.description,
+    date: values.date,
+    account_id: values.accountId,
+    currency: values.foreign?.currency ?? BASE_CURRENCY,
+    original_amount: values.foreign?.amount ?? null,
+    exchange_rate: values.foreign?.rate ?? null,
+  };
+}
+
+/** A not-yet-synced new expense in the shape the expense list expects. */
+export function queuedExpense(
+  change: Extract<ExpenseChange, { kind: "create" }>,
+  queuedAt: string,
+  userId: string
+): Expense {
+  return applyQueuedValues(
+    {
+      id: change.expenseId,
+      user_id: userId,
+      amount: 0,
+      category: "",
+      description: "",
+      date: "",
+      account_id: null,
+      household_id: null,
+      currency: BASE_CURRENCY,
+      original_amount: null,
+      exchange_rate: null,
+      tags: [],
+      created_at: queuedAt,
+      updated_at: queuedAt,
+      deleted_at: null,
+    },
+    change.values
+  );
+}
+
+/**
+ * Whether a failed server call means the device couldn't reach the server,
+ * as opposed to the server refusing the change.
+ */
+export function isNetworkError(error: unknown): boolean {
+  if (typeof navigator !== "undefined" && !navigator.onLine) return true;
+  return error instanceof TypeError;
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import type { Budget, Expense } from "@/app/api/budget";
+import { budgetVsActual, type ExportData } from "./export";
+
+const budget: Budget = {
+  id: "budget-1",
+  user_id: "user-1",
+  household_id: null,
+  amount: 31000,
+  period: "monthly",
+  period_start_day: null,
+  period_anchor: null,
+  rollover_mode: "none",
+  rollover_cap: null,
+  rollover_since: null,
+  created_at: "2026-01-01T00:00:00Z",
+};
+
+function expense(date: string, amount: number): Expense {
+  return {
+    id: `expense-${date}`,
+    user_id: "user-1",
+    amount,
+    category: "Food & Dining",
+    description: "",
+    date,
+    account_id: null,
+    household_id: null,
+    currency: "PHP",
+    original_amount: null,
+    exchange_rate: null,
+    tags: [],
+    created_at: `${date}T00:00:00Z`,
+    updated_at: `${date}T00:00:00Z`,
+    deleted_at: null,
+  };
+}
+
+function exportData(overrides: Partial<ExportData> = {}): ExportData {
+  return {
+    startDate: "2026-03-22",
+    endDate: "2026-04-30",
+    categories: [],
+    expenses: [expense("2026-03-25", 2000), expense("2026-04-10", 5000)],
+    budget,
+    budgetVersions: [
+      { amount: 31000, period: "monthly", period_start_day: null, period_anchor: null, effective_from: "2026-01-01" },
+      { amount: 30000, period: "monthly", period_start_day: null, period_anchor: null, effective_from: "2026-04-01" },
+    ],
+    ...overrides,
+  };
+}
+
+describe("budgetVsActual", () => {
+  it("cuts a period the export only partly covers to that share of its budget", () => {
+    expect(budgetVsActual(exportData())).toEqual([
+      {
+        label: "Mar 22 – Mar 31, 2026",
+        startDate: "2026-03-22",
+        endDate: "2026-03-31",
+        budget: 10000,
+        actual: 2000,
+        remaining: 8000,
+      },
+      {
+        label: "Apr 2026",
+        startDate: "2026-04-01",
+        endDate: "2026-04-30",
+        budget: 30000,
+        actual: 5000,
+        remaining: 25000,
+      },
+    ]);
+  });
+
+  it("leaves the comparison out when only some categories are exported", () => {
+    expect(budgetVsActual(exportData({ categories: ["Food & Dining"] }))).toEqual([]);
+  });
+});
@@ -0,0 +1,134 @@
+import type { Budget, Expense } from "@/app/api/budget";
+import { versionOn, type BudgetVersion } from "./budgetHistory";
+import { toCsvCell } from "./csv";
+import { daysInRange, getNextPeriod, getPeriodRange, periodLabel } from "./period";
+
+/** Everything an export file is built from. */
+export interface ExportData {
+  startDate: string;
+  endDate: string;
+  categories: string[];
+  expenses: Expense[];
+  budget: Budget | null;
+  /** Every version of the budget, oldest first; empty without a budget */
+  budgetVersions: BudgetVersion[];
+}
+
+export interface CategoryTotal {
+  category: string;
+  total: number;
+  count: number;
+}
+
+/** Budget against actual spending for one budget period. */
+export interface BudgetPeriodActual {
+  label: string;
+  startDate: string;
+  endDate: string;
+  budget: number;
+  actual: number;
+  remaining: number;
+}
+
+/** "2026-03-14" -> "2026-03" */
+export function monthKey(date: string): string {
+  return date.slice(0, 7);
+}
+
+/** "2026-03" -> "Mar 2026" */
+export function monthLabel(month: string): string {
+  return new Date(`${month}-01T00:00:00Z`).toLocaleDateString("en-PH", {
+    year: "numeric",
+    month: "short",
+    timeZone: "UTC",
+  });
+}
+
+export function categoryTotals(expenses: Expense[]): CategoryTotal[] {
+  const totals = new Map<string, CategoryTotal>();
+
+  expenses.forEach((expense) => {
+    const entry = totals.get(expense.category) ?? { category: expense.category, total: 0, count: 0 };
+    entry.total += Number(expense.amount);
+    entry.count += 1;
+    totals.set(expense.category, entry);
+  });
+
+  return [...totals.values()].sort((a, b) => b.total - a.total);
+}
+
+/** Expenses grouped by calendar month, oldest month first. */
+export function expensesByMonth(expenses: Expense[]): [string, Expense[]][] {
+  const months = new Map<string, Expense[]>();
+
+  expenses.forEach((expense) => {
+    const key = monthKey(expense.date);
+    months.set(key, [...(months.get(key) ?? []), expense]);
+  });
+
+  return [...months.entries()].sort(([a], [b]) => a.localeCompare(b));
+}
+
+/**
+ * The same figures as the budget_vs_actual view, but for every budget period
+ * that overlaps `startDate`-`endDate` (the whole export by default) instead
+ * of only the current one. Periods follow the budget's own settings, matching
+ * the dashboard, and each is budgeted with the amount that applied when it
+ * started. A period the range only partly covers is cut to the days covered,
+ * with that share of its budget. Empty when the export is limited to some
+ * categories, which can't be compared with the whole budget.
+ */
+export function budgetVsActual(
+  data: ExportData,
+  startDate: string = data.startDate,
+  endDate: string = data.endDate
+): BudgetPeriodActual[] {
+  const { budget, budgetVersions } = data;
+  if (!budget || data.categories.length > 0) return [];
+
+  const periods: BudgetPeriodActual[] = [];
+
+  for (
+    let range = getPeriodRange(budget, startDate);
+    range.start <= endDate;
+    range = getNextPeriod(budget, range)
+  ) {
+    const start = range.start < startDate ? startDate : range.start;
+    const end = range.end > endDate ? endDate : range.end;
+    const actual = data.expenses
+      .filter((expense) => expense.date >= start && expense.date <= end)
+      .reduce((sum, expense) => sum + Number(expense.amount), 0);
+    const periodBudget = Number((versionOn(budgetVersions, range.start) ?? budget).amount);
+    const budgetAmount = (periodBudget * daysInRange({ start, end })) / daysInRange(range);
+
+    periods.push({
+      label: periodLabel(budget, { start, end }),
+      startDate: start,
+      endDate: end,
+      budget: budgetAmount,
+      actual,
+      remaining: budgetAmount - actual,
+    });
+  }
+
+  return periods;
+}
+
+export function expensesToCsv(expenses: Expense[]): string {
+  const header = ["Date", "Category", "Description", "Amount", "Currency", "Original Amount", "Exchange Rate"];
+  const lines = expenses.map((expense) =>
+    [
+      expense.date,
+      expense.category,
+      expense.description,
+      Number(expense.amount).toFixed(2),
+      expense.currency,
+      expense.original_amount,
+      expense.exchange_rate,
+    ]
+      .map(toCsvCell)
+      .join(",")
+  );
+
+  return [header.join(","), ...lines].join("\r\n");
+}
@@ -0,0 +1,103 @@
+import { jsPDF } from "jspdf";
+import autoTable from "jspdf-autotable";
+import { formatPeso } from "./currency";
+import { budgetVsActual, categoryTotals, type ExportData } from "./export";
+
+// jsPDF's built-in fonts have no peso sign, so spell the currency out
+function peso(amount: number): string {
+  return formatPeso(amount).replace("₱", "PHP ");
+}
+
+function finalY(doc: jsPDF): number {
+  return (doc as jsPDF & { lastAutoTable?: { finalY: number } }).lastAutoTable?.finalY ?? 0;
+}
+
+/** Draw a section heading below the last table and return where the next table starts. */
+function sectionTitle(doc: jsPDF, title: string): number {
+  let y = finalY(doc) + 10;
+  if (y > doc.internal.pageSize.getHeight() - 30) {
+    doc.addPage();
+    y = 20;
+  }
+  doc.setFontSize(13);
+  doc.text(title, 14, y);
+  return y + 4;
+}
+
+const HEAD_STYLE = { fillColor: [37, 99, 235] as [number, number, number] };
+
+/**
+ * Statement for the export range: totals, budget vs actual per budget
+ * period, a category breakdown and the full transaction list.
+ */
+export function buildExpenseStatement(data: ExportData): Blob {
+  const doc = new jsPDF();
+  const total = data.expenses.reduce((sum, expense) => sum + Number(expense.amount), 0);
+
+  doc.setFontSize(18);
+  doc.text("PesoPilot Expense Statement", 14, 20);
+  doc.setFontSize(10);
+  doc.setTextColor(100);
+  doc.text(`${data.startDate} to ${data.endDate}`, 14, 27);
+  if (data.categories.length > 0) {
+    doc.text(`Categories: ${data.categories.join(", ")}`, 14, 32, { maxWidth: 180 });
+  }
+  doc.setTextColor(0);
+
+  autoTable(doc, {
+    startY: 40,
+    theme: "plain",
+    body: [
+      ["Total spent", peso(total)],
+      ["Transactions", String(data.expenses.length)],
+    ],
+    columnStyles: { 0: { fontStyle: "bold" }, 1: { halign: "right" } },
+    tableWidth: 90,
+  });
+
+  const periods = budgetVsActual(data);
+  if (periods.length > 0) {
+    autoTable(doc, {
+      startY: sectionTitle(doc, "Budget vs Actual"),
+      head: [["Period", "Budget", "Actual", "Remaining"]],
+      body: periods.map((period) => [
+        period.label,
+        peso(period.budget),
+        peso(period.actual),
+        peso(period.remaining),
+      ]),
+      headStyles: HEAD_STYLE,
+      columnStyles: { 1: { halign: "right" }, 2: { halign: "right" }, 3: { halign: "right" } },
+    });
+  }
+
+  autoTable(doc, {
+    startY: sectionTitle(doc, "Spending by Category"),
+    head: [["Category", "Transactions", "Spent", "Share"]],
+    body: categoryTotals(data.expenses).map((category) => [
+      category.category,
+      String(category.count),
+      peso(category.total),
+      total > 0 ? `${((category.total / total) * 100).toFixed(1)}%` : "0%",
+    ]),
+    headStyles: HEAD_STYLE,
+    columnStyles: { 1: { halign: "right" }, 2: { halign: "right" }, 3: { halign: "right" } },
+  });
+
+  autoTable(doc, {
+    startY: sectionTitle(doc, "Transactions"),
+    head: [["Date", "Category", "Description", "Amount"]],
+    body: data.expenses.map((expense) => [
+      expense.date,
+      expense.category,
+      expense.description ?? "",
+      peso(Number(expense.amount)),
+    ]),
+    foot: [["", "", "Total", peso(total)]],
+    headStyles: HEAD_STYLE,
+    footStyles: { fillColor: [243, 244, 246], textColor: 0 },
+    columnStyles: { 3: { halign: "right" } },
+  });
+
+  return doc.output("blob");
+}
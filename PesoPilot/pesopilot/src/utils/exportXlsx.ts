@@ -0,0 +1,98 @@
+import ExcelJS from "exceljs";
+import {
+  budgetVsActual,
+  categoryTotals,
+  expensesByMonth,
+  monthLabel,
+  type ExportData,
+} from "./export";
+import { DEFAULT_PERIOD, getPeriodRange } from "./period";
+
+const PESO_FORMAT = '"₱"#,##0.00';
+
+function styleHeader(row: ExcelJS.Row) {
+  row.font = { bold: true };
+  row.fill = { type: "pattern", pattern: "solid", fgColor: { argb: "FFE5E7EB" } };
+}
+
+/**
+ * Workbook with every expense on one sheet, followed by a summary sheet per
+ * month (category breakdown and budget vs actual).
+ */
+export async function buildExpenseWorkbook(data: ExportData): Promise<Blob> {
+  const workbook = new ExcelJS.Workbook();
+  workbook.creator = "PesoPilot";
+  workbook.created = new Date();
+
+  const sheet = workbook.addWorksheet("Expenses");
+  sheet.columns = [
+    { header: "Date", key: "date", width: 12 },
+    { header: "Category", key: "category", width: 22 },
+    { header: "Description", key: "description", width: 40 },
+    { header: "Amount", key: "amount", width: 14, style: { numFmt: PESO_FORMAT } },
+  ];
+  styleHeader(sheet.getRow(1));
+  data.expenses.forEach((expense) =>
+    sheet.addRow({
+      date: expense.date,
+      category: expense.category,
+      description: expense.description ?? "",
+      amount: Number(expense.amount),
+    })
+  );
+  sheet.views = [{ state: "frozen", ySplit: 1 }];
+
+  expensesByMonth(data.expenses).forEach(([month, expenses]) => {
+    const summary = workbook.addWorksheet(monthLabel(month));
+    summary.columns = [
+      { key: "label", width: 26 },
+      { key: "a", width: 16 },
+      { key: "b", width: 16 },
+      { key: "c", width: 16 },
+    ];
+
+    const total = expenses.reduce((sum, expense) => sum + Number(expense.amount), 0);
+    summary.addRow({ label: `Summary for ${monthLabel(month)}` }).font = { bold: true, size: 14 };
+    summary.addRow({ label: "Total spent", a: total }).getCell("a").numFmt = PESO_FORMAT;
+    summary.addRow({ label: "Transactions", a: expenses.length });
+    summary.addRow({});
+
+    styleHeader(summary.addRow({ label: "Category", a: "Spent", b: "Share", c: "Transactions" }));
+    categoryTotals(expenses).forEach((category) => {
+      const row = summary.addRow({
+        label: category.category,
+        a: category.total,
+        b: total > 0 ? category.total / total : 0,
+        c: category.count,
+      });
+      row.getCell("a").numFmt = PESO_FORMAT;
+      row.getCell("b").numFmt = "0.0%";
+    });
+
+    const monthEnd = getPeriodRange(DEFAULT_PERIOD, `${month}-01`).end;
+    // The first and last months may only be partly in the export
+    const periods = budgetVsActual(
+      data,
+      `${month}-01` < data.startDate ? data.startDate : `${month}-01`,
+      monthEnd > data.endDate ? data.endDate : monthEnd
+    );
+    if (periods.length > 0) {
+      summary.addRow({});
+      styleHeader(summary.addRow({ label: "Budget Period", a: "Budget", b: "Actual", c: "Remaining" }));
+      periods.forEach((period) => {
+        const row = summary.addRow({
+          label: period.label,
+          a: period.budget,
+          b: period.actual,
+          c: period.remaining,
+        });
+        ["a", "b", "c"].forEach((key) => (row.getCell(key).numFmt = PESO_FORMAT));
+      });
+    }
+  });
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  return new Blob([buffer], {
+    type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  });
+}
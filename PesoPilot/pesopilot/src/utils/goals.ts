@@ -0,0 +1,73 @@
+export type GoalStatus = "reached" | "on_pace" | "behind" | "overdue";
+
+export interface GoalPace {
+  saved: number;
+  remaining: number;
+  percentage: number;
+  monthsLeft: number;
+  requiredMonthly: number;
+  expectedSaved: number;
+  status: GoalStatus;
+}
+
+export const GOAL_STATUS_LABELS: Record<GoalStatus, string> = {
+  reached: "Reached",
+  on_pace: "On pace",
+  behind: "Behind",
+  overdue: "Past due",
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function parseDate(value: string): number {
+  const [year, month, day] = value.split("-").map(Number);
+  return Date.UTC(year, month - 1, day);
+}
+
+/**
+ * Monthly contributions still possible from `from` up to `to`: one for each
+ * month boundary crossed, plus one for the partial month at the end.
+ */
+function monthsBetween(from: string, to: string): number {
+  if (to < from) return 0;
+  const [fromYear, fromMonth, fromDay] = from.split("-").map(Number);
+  const [toYear, toMonth, toDay] = to.split("-").map(Number);
+  return (toYear - fromYear) * 12 + (toMonth - fromMonth) + (toDay >= fromDay ? 1 : 0);
+}
+
+/**
+ * Where a goal stands on `today` (YYYY-MM-DD). The goal is on pace when the
+ * amount saved is at least a straight-line share of the target for the time
+ * that has passed since it was started. The required monthly contribution
+ * spreads what is left over the months remaining.
+ */
+export function getGoalPace(
+  targetAmount: number,
+  startDate: string,
+  targetDate: string,
+  saved: number,
+  today: string
+): GoalPace {
+  const target = Number(targetAmount);
+  const remaining = Math.max(0, target - saved);
+  const percentage = target > 0 ? Math.min(Math.max((saved / target) * 100, 0), 100) : 0;
+
+  const start = parseDate(startDate);
+  const end = parseDate(targetDate);
+  const now = parseDate(today);
+
+  const monthsLeft = monthsBetween(today, targetDate);
+  const requiredMonthly = monthsLeft > 0 ? remaining / monthsLeft : remaining;
+
+  const totalDays = Math.max(1, Math.round((end - start) / DAY_MS));
+  const elapsedDays = Math.min(totalDays, Math.max(0, Math.round((now - start) / DAY_MS)));
+  const expectedSaved = (target * elapsedDays) / totalDays;
+
+  let status: GoalStatus;
+  if (remaining === 0) status = "reached";
+  else if (now > end) status = "overdue";
+  else if (saved >= expectedSaved) status = "on_pace";
+  else status = "behind";
+
+  return { saved, remaining, percentage, monthsLeft, requiredMonthly, expectedSaved, status };
+}
@@ -0,0 +1,125 @@
+import { formatIsoDate } from "./period";
+
+export type ImportField = "amount" | "category" | "description" | "date";
+
+export type ColumnMapping = Record<ImportField, number | null>;
+
+export type DateFormat = "YYYY-MM-DD" | "MM/DD/YYYY" | "DD/MM/YYYY";
+
+export const IMPORT_FIELDS: { field: ImportField; label: string; required: boolean }[] = [
+  { field: "date", label: "Date", required: true },
+  { field: "amount", label: "Amount", required: true },
+  { field: "category", label: "Category", required: false },
+  { field: "description", label: "Description", required: false },
+];
+
+export const DATE_FORMATS: DateFormat[] = ["YYYY-MM-DD", "MM/DD/YYYY", "DD/MM/YYYY"];
+
+// Category used when the file has no category column or the cell is blank
+export const FALLBACK_CATEGORY = "Other";
+
+/** A CSV row after mapping, ready to preview and send to the server. */
+export interface ImportRow {
+  line: number;
+  amount: number;
+  category: string;
+  description: string;
+  date: string;
+  errors: string[];
+}
+
+const HEADER_HINTS: Record<ImportField, RegExp> = {
+  amount: /amount|halaga|debit|total|price|cost/i,
+  category: /category|kategorya|type/i,
+  description: /description|details|memo|note|particulars|merchant/i,
+  date: /date|petsa|posted|when/i,
+};
+
+/** Pre-select a column for each field from the header names. */
+export function guessMapping(headers: string[]): ColumnMapping {
+  const used = new Set<number>();
+  const mapping = {} as ColumnMapping;
+
+  (Object.keys(HEADER_HINTS) as ImportField[]).forEach((field) => {
+    const index = headers.findIndex(
+      (header, i) => !used.has(i) && HEADER_HINTS[field].test(header)
+    );
+    mapping[field] = index >= 0 ? index : null;
+    if (index >= 0) used.add(index);
+  });
+
+  return mapping;
+}
+
+/** "₱1,234.50", "1234.5" or "(1,234.50)" to a positive number. */
+export function parseAmount(value: string): number | null {
+  const cleaned = value.replace(/[₱$,\s]|PHP/gi, "").replace(/^\((.*)\)$/, "$1");
+  if (cleaned === "") return null;
+  const amount = Math.abs(Number(cleaned));
+  return Number.isFinite(amount) ? Math.round(amount * 100) / 100 : null;
+}
+
+/** Parse a date cell in the chosen format to YYYY-MM-DD. */
+export function parseDate(value: string, format: DateFormat): string | null {
+  const parts = value.trim().split(/[-/.]/).map(Number);
+  if (parts.length !== 3 || parts.some((part) => !Number.isInteger(part))) return null;
+
+  const [year, month, day] =
+    format === "YYYY-MM-DD"
+      ? parts
+      : format === "MM/DD/YYYY"
+        ? [parts[2], parts[0], parts[1]]
+        : [parts[2], parts[1], parts[0]];
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (
+    year < 1900 ||
+    date.getUTCFullYear() !== year ||
+    date.getUTCMonth() !== month - 1 ||
+    date.getUTCDate() !== day
+  ) {
+    return null;
+  }
+
+  return formatIsoDate(date);
+}
+
+/** Map and validate every data row of the file. */
+export function buildImportRows(
+  rows: string[][],
+  mapping: ColumnMapping,
+  dateFormat: DateFormat
+): ImportRow[] {
+  const cell = (row: string[], field: ImportField) => {
+    const index = mapping[field];
+    return index === null ? "" : (row[index] ?? "").trim();
+  };
+
+  return rows.map((row, i) => {
+    const errors: string[] = [];
+    const amount = parseAmount(cell(row, "amount"));
+    const date = parseDate(cell(row, "date"), dateFormat);
+
+    if (amount === null) errors.push("Amount is not a number");
+    else if (amount <= 0) errors.push("Amount must be greater than zero");
+    if (date === null) errors.push(`Date is not in ${dateFormat} format`);
+
+    return {
+      // Row numbers counting the header as row 1
+      line: i + 2,
+      amount: amount ?? 0,
+      category: cell(row, "category") || FALLBACK_CATEGORY,
+      description: cell(row, "description"),
+      date: date ?? "",
+      errors,
+    };
+  });
+}
+
+/**
+ * Rows that share a date, amount and description are treated as the same
+ * expense when looking for duplicates.
+ */
+export function duplicateKey(row: { date: string; amount: number; description: string | null }): string {
+  return `${row.date}|${Number(row.amount).toFixed(2)}|${(row.description ?? "").trim().toLowerCase()}`;
+}
@@ -0,0 +1,120 @@
+import type { QueuedChange } from "./expenseQueue";
+
+const DB_NAME = "pesopilot";
+const DB_VERSION = 2;
+const QUEUE_STORE = "expense-queue";
+// Lists the forms need (categories, accounts) as last loaded, keyed by name
+const LIST_STORE = "lists";
+
+/** A queued change as stored, tagged with the user who made it. */
+type StoredChange = QueuedChange & { userId?: string };
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(QUEUE_STORE)) {
+        db.createObjectStore(QUEUE_STORE, { keyPath: "change.expenseId" });
+      }
+      if (!db.objectStoreNames.contains(LIST_STORE)) db.createObjectStore(LIST_STORE);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * The user's changes waiting to sync, oldest first. Changes queued by anyone
+ * else who used this browser are left alone. Empty where IndexedDB isn't
+ * available.
+ */
+export async function readQueue(userId: string): Promise<QueuedChange[]> {
+  if (typeof indexedDB === "undefined") return [];
+
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(QUEUE_STORE).objectStore(QUEUE_STORE).getAll();
+    request.onsuccess = () => {
+      const items = (request.result as StoredChange[]).filter((item) => item.userId === userId);
+      resolve(items.sort((a, b) => a.queuedAt.localeCompare(b.queuedAt)));
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/** Replace the user's stored queue in one transaction. */
+export async function saveQueue(userId: string, queue: QueuedChange[]): Promise<void> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(QUEUE_STORE, "readwrite");
+    const store = transaction.objectStore(QUEUE_STORE);
+    const request = store.getAll();
+    request.onsuccess = () => {
+      (request.result as StoredChange[])
+        .filter((item) => item.userId === userId)
+        .forEach((item) => store.delete(item.change.expenseId));
+      queue.forEach((item) => store.put({ ...item, userId }));
+    };
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+async function readList<T>(name: string): Promise<T[] | null> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(LIST_STORE).objectStore(LIST_STORE).get(name);
+    request.onsuccess = () => resolve((request.result as T[] | undefined) ?? null);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function saveList<T>(name: string, items: T[]): Promise<void> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(LIST_STORE, "readwrite");
+    transaction.objectStore(LIST_STORE).put(items, name);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Load a list from the server and keep a copy on the device. When the server
+ * can't be reached, return the copy from the last time it loaded, or an
+ * empty list if there is none.
+ */
+export async function loadWithOfflineCopy<T>(
+  name: string,
+  load: () => Promise<T[]>
+): Promise<T[]> {
+  if (typeof indexedDB === "undefined") return load().catch(() => []);
+
+  try {
+    const items = await load();
+    await saveList(name, items).catch((error) => {
+      console.error(`Error caching ${name}:`, error);
+    });
+    return items;
+  } catch {
+    return (await readList<T>(name).catch(() => null)) ?? [];
+  }
+}
+
+/**
+ * Drop every queued change and cached list, e.g. when signing out of a
+ * shared device.
+ */
+export async function clearOfflineData(): Promise<void> {
+  if (typeof indexedDB === "undefined") return;
+
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([QUEUE_STORE, LIST_STORE], "readwrite");
+    transaction.objectStore(QUEUE_STORE).clear();
+    transaction.objectStore(LIST_STORE).clear();
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
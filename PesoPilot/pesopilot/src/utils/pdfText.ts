@@ -0,0 +1,62 @@
+import type { TextItem } from "pdfjs-dist/types/src/display/api";
+
+// Text items whose baselines are this close (in PDF units) share a line
+const LINE_TOLERANCE = 3;
+
+/**
+ * Read the text of a PDF in the browser as lines, top to bottom, with the
+ * pieces of each line joined left to right. Wallet statements emailed by
+ * GCash and Maya are password protected, so a password can be passed along.
+ */
+export async function extractPdfLines(
+  file: File,
+  password?: string
+): Promise<{ success: boolean; lines?: string[]; needsPassword?: boolean; error?: string }> {
+  const pdfjs = await import("pdfjs-dist");
+  pdfjs.GlobalWorkerOptions.workerSrc = new URL(
+    "pdfjs-dist/build/pdf.worker.min.mjs",
+    import.meta.url
+  ).toString();
+
+  try {
+    const pdf = await pdfjs.getDocument({ data: await file.arrayBuffer(), password }).promise;
+    const lines: string[] = [];
+
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const content = await page.getTextContent();
+      const rows: { y: number; items: TextItem[] }[] = [];
+
+      content.items.forEach((item) => {
+        if (!("str" in item) || item.str.trim() === "") return;
+        const y = item.transform[5];
+        const row = rows.find((candidate) => Math.abs(candidate.y - y) <= LINE_TOLERANCE);
+        if (row) row.items.push(item);
+        else rows.push({ y, items: [item] });
+      });
+
+      rows
+        .sort((a, b) => b.y - a.y)
+        .forEach((row) =>
+          lines.push(
+            row.items
+              .sort((a, b) => a.transform[4] - b.transform[4])
+              .map((item) => item.str.trim())
+              .join(" ")
+          )
+        );
+    }
+
+    return { success: true, lines };
+  } catch (error) {
+    if (error instanceof Error && error.name === "PasswordException") {
+      return {
+        success: false,
+        needsPassword: true,
+        error: password ? "That password is incorrect." : "This statement is password protected.",
+      };
+    }
+    console.error("Error reading PDF:", error);
+    return { success: false, error: "This PDF could not be read." };
+  }
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import {
+  getNextPeriod,
+  getPeriodRange,
+  getPreviousPeriod,
+  listPeriodsBetween,
+  todayIn,
+  type PeriodSettings,
+} from "./period";
+
+describe("todayIn", () => {
+  it("rolls over to the next day at midnight Manila time", () => {
+    expect(todayIn("Asia/Manila", new Date("2026-03-04T15:59:59Z"))).toBe("2026-03-04");
+    expect(todayIn("Asia/Manila", new Date("2026-03-04T16:00:00Z"))).toBe("2026-03-05");
+  });
+
+  it("rolls over the year ahead of UTC", () => {
+    expect(todayIn("Asia/Manila", new Date("2026-12-31T16:00:00Z"))).toBe("2027-01-01");
+  });
+
+  it("falls back to Manila for an unknown timezone", () => {
+    expect(todayIn("Not/AZone", new Date("2026-03-04T16:00:00Z"))).toBe("2026-03-05");
+  });
+});
+
+describe("monthly periods starting on the 31st", () => {
+  const settings: PeriodSettings = { period: "monthly", period_start_day: 31, period_anchor: null };
+
+  it("starts on the last day of February", () => {
+    expect(getPeriodRange(settings, "2026-02-10")).toEqual({ start: "2026-01-31", end: "2026-02-27" });
+    expect(getPeriodRange(settings, "2026-02-28")).toEqual({ start: "2026-02-28", end: "2026-03-30" });
+    expect(getPeriodRange(settings, "2028-02-29")).toEqual({ start: "2028-02-29", end: "2028-03-30" });
+  });
+
+  it("steps across February without skipping or overlapping", () => {
+    const february = getPeriodRange(settings, "2026-03-01");
+    expect(getPreviousPeriod(settings, february)).toEqual({ start: "2026-01-31", end: "2026-02-27" });
+    expect(getNextPeriod(settings, february)).toEqual({ start: "2026-03-31", end: "2026-04-29" });
+  });
+});
+
+describe("semi-monthly periods on the 15th and 30th", () => {
+  const settings: PeriodSettings = { period: "semi_monthly", period_start_day: 15, period_anchor: null };
+
+  it("moves the 30th payday to the last day of February", () => {
+    expect(getPeriodRange(settings, "2026-02-10")).toEqual({ start: "2026-01-30", end: "2026-02-14" });
+    expect(getPeriodRange(settings, "2026-02-20")).toEqual({ start: "2026-02-15", end: "2026-02-27" });
+    expect(getPeriodRange(settings, "2026-02-28")).toEqual({ start: "2026-02-28", end: "2026-03-14" });
+  });
+
+  it("lists every period through February in order", () => {
+    const before = getPeriodRange(settings, "2026-03-15");
+    expect(listPeriodsBetween(settings, "2026-01-31", before)).toEqual([
+      { start: "2026-01-30", end: "2026-02-14" },
+      { start: "2026-02-15", end: "2026-02-27" },
+      { start: "2026-02-28", end: "2026-03-14" },
+    ]);
+  });
+});
+
+describe("bi-weekly periods", () => {
+  const settings: PeriodSettings = { period: "biweekly", period_start_day: null, period_anchor: "2026-03-06" };
+
+  it("counts back from the anchor for dates before it", () => {
+    expect(getPeriodRange(settings, "2026-03-05")).toEqual({ start: "2026-02-20", end: "2026-03-05" });
+    expect(getPeriodRange(settings, "2026-02-20")).toEqual({ start: "2026-02-20", end: "2026-03-05" });
+    expect(getPeriodRange(settings, "2026-02-19")).toEqual({ start: "2026-02-06", end: "2026-02-19" });
+  });
+
+  it("counts back across a year boundary", () => {
+    expect(getPeriodRange(settings, "2025-12-31")).toEqual({ start: "2025-12-26", end: "2026-01-08" });
+  });
+
+  it("lines up with the periods after the anchor", () => {
+    const first = getPeriodRange(settings, "2026-02-25");
+    expect(getNextPeriod(settings, first)).toEqual({ start: "2026-03-06", end: "2026-03-19" });
+  });
+});
@@ -0,0 +1,255 @@
+export type BudgetPeriod = "weekly" | "monthly" | "semi_monthly" | "biweekly";
+
+/** How a budget's periods are laid out. */
+export interface PeriodSettings {
+  period: BudgetPeriod;
+  /**
+   * Weekday a weekly period starts on (0 = Sunday), or the day of the month
+   * a monthly or semi-monthly period starts on. Null uses the default.
+   */
+  period_start_day: number | null;
+  /** The first day of any one bi-weekly period, e.g. a payday */
+  period_anchor: string | null;
+}
+
+/** First and last day (YYYY-MM-DD, inclusive) of a budget period. */
+export interface PeriodRange {
+  start: string;
+  end: string;
+}
+
+export const DEFAULT_PERIOD: PeriodSettings = {
+  period: "monthly",
+  period_start_day: null,
+  period_anchor: null,
+};
+
+export const BUDGET_PERIODS: Record<BudgetPeriod, { label: string; noun: string }> = {
+  weekly: { label: "Weekly", noun: "week" },
+  biweekly: { label: "Bi-weekly", noun: "pay period" },
+  semi_monthly: { label: "Semi-monthly", noun: "pay period" },
+  monthly: { label: "Monthly", noun: "month" },
+};
+
+export const WEEKDAYS = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+/** Semi-monthly periods start on this day and 15 days later. */
+export const MAX_SEMI_MONTHLY_START_DAY = 15;
+
+/** Timezone for profiles that haven't picked one. */
+export const DEFAULT_TIMEZONE = "Asia/Manila";
+
+export const TIMEZONES: { value: string; label: string }[] = [
+  { value: "Asia/Manila", label: "Philippines (Manila)" },
+  { value: "Asia/Singapore", label: "Singapore" },
+  { value: "Asia/Hong_Kong", label: "Hong Kong" },
+  { value: "Asia/Tokyo", label: "Japan (Tokyo)" },
+  { value: "Asia/Seoul", label: "South Korea (Seoul)" },
+  { value: "Asia/Dubai", label: "United Arab Emirates (Dubai)" },
+  { value: "Asia/Riyadh", label: "Saudi Arabia (Riyadh)" },
+  { value: "Asia/Qatar", label: "Qatar (Doha)" },
+  { value: "Australia/Sydney", label: "Australia (Sydney)" },
+  { value: "Europe/London", label: "United Kingdom (London)" },
+  { value: "Europe/Rome", label: "Italy (Rome)" },
+  { value: "America/New_York", label: "US Eastern (New York)" },
+  { value: "America/Los_Angeles", label: "US Pacific (Los Angeles)" },
+  { value: "America/Toronto", label: "Canada (Toronto)" },
+  { value: "UTC", label: "UTC" },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function isValidTimezone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The calendar date (YYYY-MM-DD) in `timeZone` at the given moment. Use this
+ * rather than `toISOString()`, which gives the UTC date: 7:00 AM in Manila is
+ * still the day before in UTC.
+ */
+export function todayIn(timeZone: string, now: Date = new Date()): string {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: isValidTimezone(timeZone) ? timeZone : DEFAULT_TIMEZONE,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).formatToParts(now);
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((item) => item.type === type)?.value;
+  return `${part("year")}-${part("month")}-${part("day")}`;
+}
+
+/** A YYYY-MM-DD date as midnight UTC, so date arithmetic ignores the local timezone. */
+export function parseIsoDate(value: string): Date {
+  const [year, month, day] = value.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+/** The YYYY-MM-DD form of a date made by `parseIsoDate` or `Date.UTC`. */
+export function formatIsoDate(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
+
+export function addDays(value: string, days: number): string {
+  const date = parseIsoDate(value);
+  date.setUTCDate(date.getUTCDate() + days);
+  return formatIsoDate(date);
+}
+
+/** Number of days in a range, counting both ends. */
+export function daysInRange(range: PeriodRange): number {
+  const elapsed = parseIsoDate(range.end).getTime() - parseIsoDate(range.start).getTime();
+  return Math.round(elapsed / DAY_MS) + 1;
+}
+
+/**
+ * Date in the given month on the requested day, clamped to the last day of
+ * the month so a period or rule on the 30th still lands in February.
+ */
+export function clampedMonthDay(year: number, month: number, day: number): string {
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return formatIsoDate(new Date(Date.UTC(year, month, Math.min(day, lastDay))));
+}
+
+function periodStart(settings: PeriodSettings, date: string): string {
+  const day = parseIsoDate(date);
+  const year = day.getUTCFullYear();
+  const month = day.getUTCMonth();
+
+  switch (settings.period) {
+    case "weekly": {
+      const startDay = settings.period_start_day ?? 0;
+      return addDays(date, -((day.getUTCDay() - startDay + 7) % 7));
+    }
+    case "biweekly": {
+      const anchor = parseIsoDate(settings.period_anchor ?? date);
+      const elapsed = Math.round((day.getTime() - anchor.getTime()) / DAY_MS);
+      return addDays(date, -(((elapsed % 14) + 14) % 14));
+    }
+    case "semi_monthly": {
+      const startDay = Math.min(settings.period_start_day ?? 1, MAX_SEMI_MONTHLY_START_DAY);
+      const first = clampedMonthDay(year, month, startDay);
+      const second = clampedMonthDay(year, month, startDay + 15);
+      if (date >= second) return second;
+      if (date >= first) return first;
+      return clampedMonthDay(year, month - 1, startDay + 15);
+    }
+    default: {
+      const startDay = settings.period_start_day ?? 1;
+      const start = clampedMonthDay(year, month, startDay);
+      return date >= start ? start : clampedMonthDay(year, month - 1, startDay);
+    }
+  }
+}
+
+// Days after a period's start that always land in the next period
+const NEXT_PERIOD_OFFSET: Record<BudgetPeriod, number> = {
+  weekly: 7,
+  biweekly: 14,
+  semi_monthly: 17,
+  monthly: 32,
+};
+
+/**
+ * The period containing `date`. By default weeks run Sunday to Saturday and
+ * months from the 1st; semi-monthly periods split each month at the start
+ * day and 15 days later (1st-15th and 16th-end, or 15th-29th and 30th-14th
+ * for a 15th/30th payday).
+ */
+export function getPeriodRange(settings: PeriodSettings, date: string): PeriodRange {
+  const start = periodStart(settings, date);
+  const next = periodStart(settings, addDays(start, NEXT_PERIOD_OFFSET[settings.period]));
+  return { start, end: addDays(next, -1) };
+}
+
+/** The period just before `range`. */
+export function getPreviousPeriod(settings: PeriodSettings, range: PeriodRange): PeriodRange {
+  return getPeriodRange(settings, addDays(range.start, -1));
+}
+
+/** The period just after `range`. */
+export function getNextPeriod(settings: PeriodSettings, range: PeriodRange): PeriodRange {
+  return getPeriodRange(settings, addDays(range.end, 1));
+}
+
+/**
+ * Every period from the one containing `from` up to, but not including,
+ * `before`, oldest first.
+ */
+export function listPeriodsBetween(
+  settings: PeriodSettings,
+  from: string,
+  before: PeriodRange
+): PeriodRange[] {
+  const periods: PeriodRange[] = [];
+  for (
+    let range = getPeriodRange(settings, from);
+    range.start < before.start;
+    range = getNextPeriod(settings, range)
+  ) {
+    periods.push(range);
+  }
+  return periods;
+}
+
+/** Whether two budgets lay out their periods the same way. */
+export function samePeriodSettings(a: PeriodSettings, b: PeriodSettings): boolean {
+  return (
+    a.period === b.period &&
+    (a.period_start_day ?? null) === (b.period_start_day ?? null) &&
+    (a.period === "biweekly" ? a.period_anchor === b.period_anchor : true)
+  );
+}
+
+/** Short label for a budget's periods, e.g. "Semi-monthly from day 15 and 30". */
+export function describePeriod(settings: PeriodSettings): string {
+  const { label } = BUDGET_PERIODS[settings.period];
+
+  switch (settings.period) {
+    case "weekly":
+      return `${label} from ${WEEKDAYS[settings.period_start_day ?? 0]}`;
+    case "biweekly":
+      return settings.period_anchor ? `${label} from ${settings.period_anchor}` : label;
+    case "semi_monthly": {
+      const startDay = Math.min(settings.period_start_day ?? 1, MAX_SEMI_MONTHLY_START_DAY);
+      return `${label} from day ${startDay} and ${startDay + 15}`;
+    }
+    default:
+      return (settings.period_start_day ?? 1) === 1
+        ? label
+        : `${label} from day ${settings.period_start_day}`;
+  }
+}
+
+/**
+ * Label for one period: the month name for calendar months, otherwise its
+ * first and last day.
+ */
+export function periodLabel(settings: PeriodSettings, range: PeriodRange): string {
+  const format = (value: string, options: Intl.DateTimeFormatOptions) =>
+    parseIsoDate(value).toLocaleDateString("en-PH", { ...options, timeZone: "UTC" });
+
+  const wholeMonth = range.start.endsWith("-01") && addDays(range.end, 1).endsWith("-01");
+  if (settings.period === "monthly" && wholeMonth) {
+    return format(range.start, { year: "numeric", month: "short" });
+  }
+  return `${format(range.start, { month: "short", day: "numeric" })} – ${format(range.end, {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  })}`;
+}
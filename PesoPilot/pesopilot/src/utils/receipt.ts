@@ -0,0 +1,104 @@
+import { guessCategory } from "./categories";
+import { parseAmount, parseDate } from "./import";
+import { parseWalletDate } from "./wallets";
+
+/** What a receipt scan pre-fills in the add-expense form. */
+export interface ReceiptScan {
+  merchant: string | null;
+  total: number | null;
+  date: string | null;
+  category: string | null;
+}
+
+export const RECEIPT_SCANNERS = ["local", "openai"] as const;
+
+export type ReceiptScannerName = (typeof RECEIPT_SCANNERS)[number];
+
+// "Amount due" and "grand total" win over a plain "total" line
+const TOTAL_LINES = [/amount due|grand total|total amount due|total due|amount payable/i, /\btotal\b/i];
+const NOT_TOTAL = /sub\s?-?total|total (items?|qty|quantity|discount|savings)|vat|change|tendered|cash\b/i;
+const MONEY = /(?:₱|PHP|P)?\s?(\d{1,3}(?:,\d{3})+|\d+)[.,]\d{2}(?!\d)/gi;
+
+const DATE_IN_TEXT =
+  /\b(\d{4}-\d{1,2}-\d{1,2}|\d{1,2}[/-]\d{1,2}[/-]\d{2,4}|[A-Za-z]{3,9}\.? \d{1,2},? \d{4}|\d{1,2} [A-Za-z]{3,9}\.? \d{4})\b/;
+
+// Header lines printed on every BIR receipt that are never the store name
+const NOT_MERCHANT = /official receipt|sales invoice|\breceipt\b|\btin\b|vat reg|\bmin\b|\bs\/?n\b|tel|www\.|@|^\W*$/i;
+
+function lastAmount(line: string): number | null {
+  const amounts = [...line.matchAll(MONEY)];
+  if (amounts.length === 0) return null;
+  return parseAmount(amounts[amounts.length - 1][0].replace(/^P(?=\s?\d)/i, "").replace(/,(?=\d{2}$)/, "."));
+}
+
+function findTotal(lines: string[]): number | null {
+  for (const pattern of TOTAL_LINES) {
+    // The last matching line is the final total after any discounts
+    for (let i = lines.length - 1; i >= 0; i--) {
+      if (!pattern.test(lines[i]) || NOT_TOTAL.test(lines[i])) continue;
+      const amount = lastAmount(lines[i]) ?? (lines[i + 1] ? lastAmount(lines[i + 1]) : null);
+      if (amount !== null && amount > 0) return amount;
+    }
+  }
+  return null;
+}
+
+/** Slashed receipt dates are month first; two-digit years are 20xx. */
+function findDate(lines: string[]): string | null {
+  for (const line of lines) {
+    const match = line.match(DATE_IN_TEXT);
+    if (!match) continue;
+
+    const numeric = match[1].match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{2,4})$/);
+    const date = numeric
+      ? parseDate(`${numeric[1]}/${numeric[2]}/${numeric[3].length === 2 ? `20${numeric[3]}` : numeric[3]}`, "MM/DD/YYYY")
+      : parseWalletDate(match[1]);
+    if (date) return date;
+  }
+  return null;
+}
+
+function findMerchant(lines: string[]): string | null {
+  const line = lines
+    .slice(0, 6)
+    .find((candidate) => (candidate.match(/[A-Za-z]/g) ?? []).length >= 3 && !NOT_MERCHANT.test(candidate));
+  return line ? line.replace(/\s+/g, " ").trim() : null;
+}
+
+/** Best-effort reading of OCR text from a Philippine store receipt. */
+export function parseReceiptText(text: string, categories: string[]): ReceiptScan {
+  const lines = text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean);
+  const merchant = findMerchant(lines);
+
+  return {
+    merchant,
+    total: findTotal(lines),
+    date: findDate(lines),
+    category: guessCategory(merchant ?? lines.slice(0, 6).join(" "), categories),
+  };
+}
+
+/**
+ * Clean up a scan returned by an extraction service: wrong types, impossible
+ * dates and categories the user doesn't have are dropped or re-guessed.
+ */
+export function normalizeReceiptScan(raw: Record<string, unknown>, categories: string[]): ReceiptScan {
+  const merchant = typeof raw.merchant === "string" && raw.merchant.trim() ? raw.merchant.trim() : null;
+  const total =
+    typeof raw.total === "number" ? raw.total : typeof raw.total === "string" ? parseAmount(raw.total) : null;
+  const date = typeof raw.date === "string" ? parseDate(raw.date, "YYYY-MM-DD") : null;
+  const category =
+    typeof raw.category === "string"
+      ? categories.find((name) => name.toLowerCase() === (raw.category as string).toLowerCase())
+      : undefined;
+
+  return {
+    merchant,
+    total: total !== null && total > 0 ? Math.round(total * 100) / 100 : null,
+    date,
+    category: category ?? (merchant ? guessCategory(merchant, categories) : null),
+  };
+}
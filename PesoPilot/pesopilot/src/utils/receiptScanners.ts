@@ -0,0 +1,78 @@
+import { getCategories } from "@/app/api/categories";
+import {
+  parseReceiptText,
+  RECEIPT_SCANNERS,
+  type ReceiptScan,
+  type ReceiptScannerName,
+} from "./receipt";
+
+/**
+ * A way of reading a receipt photo. Add an engine by implementing this and
+ * registering it below; NEXT_PUBLIC_RECEIPT_SCANNER picks which one is used.
+ */
+interface ReceiptScanner {
+  scan(image: File): Promise<ReceiptScan>;
+}
+
+/**
+ * Tesseract running in the browser, so nothing leaves the device. Language
+ * data comes from the Tesseract CDN unless NEXT_PUBLIC_TESSERACT_LANG_PATH
+ * points at a self-hosted copy.
+ */
+const localScanner: ReceiptScanner = {
+  async scan(image) {
+    const [{ createWorker }, categories] = await Promise.all([
+      import("tesseract.js"),
+      getCategories(),
+    ]);
+    const langPath = process.env.NEXT_PUBLIC_TESSERACT_LANG_PATH;
+    const worker = await createWorker("eng", undefined, langPath ? { langPath } : {});
+
+    try {
+      const { data } = await worker.recognize(image);
+      return parseReceiptText(data.text, categories.map((category) => category.name));
+    } finally {
+      await worker.terminate();
+    }
+  },
+};
+
+/** OpenAI vision through /api/receipt-scan (needs OPENAI_API_KEY and premium). */
+const openaiScanner: ReceiptScanner = {
+  async scan(image) {
+    const formData = new FormData();
+    formData.append("receipt", image);
+
+    const response = await fetch("/api/receipt-scan", { method: "POST", body: formData });
+    const data = await response.json();
+
+    if (!response.ok) throw new Error(data.error || "Receipt scan failed");
+    return data.scan as ReceiptScan;
+  },
+};
+
+const scanners: Record<ReceiptScannerName, ReceiptScanner> = {
+  local: localScanner,
+  openai: openaiScanner,
+};
+
+function configuredScanner(): ReceiptScannerName {
+  const name = process.env.NEXT_PUBLIC_RECEIPT_SCANNER as ReceiptScannerName | undefined;
+  return name && RECEIPT_SCANNERS.includes(name) ? name : "local";
+}
+
+/**
+ * Read a receipt photo with the configured engine, falling back to the local
+ * one when the remote service is unavailable.
+ */
+export async function scanReceipt(image: File): Promise<ReceiptScan> {
+  const name = configuredScanner();
+
+  try {
+    return await scanners[name].scan(image);
+  } catch (error) {
+    if (name === "local") throw error;
+    console.error("Receipt scan failed, using the local scanner:", error);
+    return scanners.local.scan(image);
+  }
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { describeCadence, getOccurrences, type RecurringSchedule } from "./recurring";
+
+function schedule(overrides: Partial<RecurringSchedule>): RecurringSchedule {
+  return {
+    cadence: "monthly",
+    interval_days: null,
+    day_of_month: null,
+    start_date: "2026-01-31",
+    end_date: null,
+    skipped_dates: [],
+    ...overrides,
+  };
+}
+
+describe("getOccurrences", () => {
+  it("falls on the last day of shorter months", () => {
+    expect(getOccurrences(schedule({}), "2026-01-01", "2026-04-30")).toEqual([
+      "2026-01-31",
+      "2026-02-28",
+      "2026-03-31",
+      "2026-04-30",
+    ]);
+  });
+
+  it("uses the day of month when one is set", () => {
+    const rule = schedule({ cadence: "day_of_month", day_of_month: 15, start_date: "2026-01-20" });
+    expect(getOccurrences(rule, "2026-01-01", "2026-03-31")).toEqual(["2026-02-15", "2026-03-15"]);
+  });
+
+  it("steps weekly and every n days from the start date", () => {
+    expect(
+      getOccurrences(schedule({ cadence: "weekly", start_date: "2026-03-02" }), "2026-03-10", "2026-03-31")
+    ).toEqual(["2026-03-16", "2026-03-23", "2026-03-30"]);
+    expect(
+      getOccurrences(
+        schedule({ cadence: "every_n_days", interval_days: 14, start_date: "2025-12-26" }),
+        "2026-01-01",
+        "2026-02-10"
+      )
+    ).toEqual(["2026-01-09", "2026-01-23", "2026-02-06"]);
+  });
+
+  it("leaves out skipped dates and dates after the end date", () => {
+    const rule = schedule({
+      cadence: "weekly",
+      start_date: "2026-03-02",
+      end_date: "2026-03-20",
+      skipped_dates: ["2026-03-09"],
+    });
+    expect(getOccurrences(rule, "2026-03-01", "2026-03-31")).toEqual(["2026-03-02", "2026-03-16"]);
+  });
+
+  it("returns nothing before the start date", () => {
+    expect(getOccurrences(schedule({}), "2025-12-01", "2026-01-30")).toEqual([]);
+  });
+});
+
+describe("describeCadence", () => {
+  it("names the weekday and day of month", () => {
+    expect(describeCadence(schedule({ cadence: "weekly", start_date: "2026-03-02" }))).toBe("Weekly on Monday");
+    expect(describeCadence(schedule({}))).toBe("Monthly on day 31");
+  });
+});
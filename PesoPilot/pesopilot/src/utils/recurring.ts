@@ -0,0 +1,79 @@
+import { addDays, clampedMonthDay, daysInRange, parseIsoDate } from "./period";
+
+export type RecurringCadence =
+  | "weekly"
+  | "monthly"
+  | "every_n_days"
+  | "day_of_month";
+
+export interface RecurringSchedule {
+  cadence: RecurringCadence;
+  interval_days: number | null;
+  day_of_month: number | null;
+  start_date: string;
+  end_date: string | null;
+  skipped_dates: string[];
+}
+
+/**
+ * Every date (YYYY-MM-DD) a recurring schedule falls due between `from` and
+ * `to`, inclusive. Dates before the start date, after the end date or listed
+ * in `skipped_dates` are left out.
+ */
+export function getOccurrences(
+  schedule: RecurringSchedule,
+  from: string,
+  to: string
+): string[] {
+  const rangeStart = from < schedule.start_date ? schedule.start_date : from;
+  const rangeEnd = schedule.end_date && schedule.end_date < to ? schedule.end_date : to;
+  if (rangeStart > rangeEnd) return [];
+
+  const skipped = new Set(schedule.skipped_dates);
+  const dates: string[] = [];
+
+  if (schedule.cadence === "weekly" || schedule.cadence === "every_n_days") {
+    const step =
+      schedule.cadence === "weekly" ? 7 : Math.max(1, schedule.interval_days ?? 1);
+    const elapsed = daysInRange({ start: schedule.start_date, end: rangeStart }) - 1;
+    const offset = Math.ceil(elapsed / step) * step;
+    for (
+      let date = addDays(schedule.start_date, offset);
+      date <= rangeEnd;
+      date = addDays(date, step)
+    ) {
+      dates.push(date);
+    }
+  } else {
+    const startDay = parseIsoDate(schedule.start_date).getUTCDate();
+    const day =
+      schedule.cadence === "day_of_month" ? schedule.day_of_month ?? startDay : startDay;
+    const first = parseIsoDate(rangeStart);
+    for (let month = first.getUTCMonth(); ; month += 1) {
+      const candidate = clampedMonthDay(first.getUTCFullYear(), month, day);
+      if (candidate > rangeEnd) break;
+      if (candidate >= rangeStart) dates.push(candidate);
+    }
+  }
+
+  return dates.filter((date) => !skipped.has(date));
+}
+
+/**
+ * Short human-readable label for a schedule, e.g. "Every 14 days".
+ */
+export function describeCadence(schedule: RecurringSchedule): string {
+  switch (schedule.cadence) {
+    case "weekly":
+      return `Weekly on ${parseIsoDate(schedule.start_date).toLocaleDateString("en-PH", {
+        weekday: "long",
+        timeZone: "UTC",
+      })}`;
+    case "every_n_days":
+      return `Every ${schedule.interval_days ?? 1} days`;
+    case "day_of_month":
+      return `Monthly on day ${schedule.day_of_month}`;
+    default:
+      return `Monthly on day ${parseIsoDate(schedule.start_date).getUTCDate()}`;
+  }
+}
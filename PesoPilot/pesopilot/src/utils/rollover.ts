@@ -0,0 +1,50 @@
+/**
+ * What happens to a period's leftover budget: "surplus" carries unspent
+ * money forward, "deficit" carries overspending forward (shrinking the next
+ * budget) and "both" does either.
+ */
+export type RolloverMode = "none" | "surplus" | "deficit" | "both";
+
+export const ROLLOVER_MODES: { value: RolloverMode; label: string }[] = [
+  { value: "none", label: "Start each period fresh" },
+  { value: "surplus", label: "Carry unspent budget forward" },
+  { value: "deficit", label: "Carry overspending forward" },
+  { value: "both", label: "Carry both forward" },
+];
+
+/**
+ * The part of one period's leftover (budget plus what was carried in, minus
+ * spending) that moves to the next period. A cap limits the carry in either
+ * direction.
+ */
+export function carryForward(
+  mode: RolloverMode,
+  cap: number | null,
+  leftover: number
+): number {
+  let carried = 0;
+  if (leftover > 0 && (mode === "surplus" || mode === "both")) carried = leftover;
+  if (leftover < 0 && (mode === "deficit" || mode === "both")) carried = leftover;
+
+  if (cap !== null && cap > 0) {
+    carried = Math.max(-cap, Math.min(cap, carried));
+  }
+  return carried;
+}
+
+/**
+ * Amount carried into the current period after chaining every completed
+ * period's leftover, given each one's budget and spending (oldest first).
+ */
+export function computeRollover(
+  mode: RolloverMode,
+  cap: number | null,
+  periods: { budget: number; spent: number }[]
+): number {
+  if (mode === "none") return 0;
+
+  return periods.reduce(
+    (carried, { budget, spent }) => carryForward(mode, cap, budget + carried - spent),
+    0
+  );
+}
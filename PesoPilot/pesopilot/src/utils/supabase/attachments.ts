@@ -0,0 +1,35 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { RECEIPTS_BUCKET } from "@/utils/attachments";
+
+/**
+ * Storage paths of every attachment on the given expenses. Read these before
+ * deleting the expenses, since the attachment rows are removed with them.
+ */
+export async function getAttachmentPaths(
+  supabase: SupabaseClient,
+  expenseIds: string[]
+): Promise<string[]> {
+  if (expenseIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from("expense_attachments")
+    .select("storage_path")
+    .in("expense_id", expenseIds);
+
+  if (error) {
+    console.error("Error fetching attachment paths:", error);
+    return [];
+  }
+
+  return (data || []).map((attachment) => attachment.storage_path);
+}
+
+export async function removeAttachmentFiles(
+  supabase: SupabaseClient,
+  paths: string[]
+): Promise<void> {
+  if (paths.length === 0) return;
+
+  const { error } = await supabase.storage.from(RECEIPTS_BUCKET).remove(paths);
+  if (error) console.error("Error removing attachment files:", error);
+}
@@ -0,0 +1,74 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Budget } from "@/app/api/budget";
+import type { BudgetVersion } from "@/utils/budgetHistory";
+import { getPeriodRange, type PeriodRange } from "@/utils/period";
+import { workspaceFilter, type Workspace } from "./workspace";
+
+const FETCH_PAGE_SIZE = 1000;
+
+/**
+ * Every version of the budget, oldest first. A budget saved before versions
+ * were kept counts as one version from the period it was created in.
+ */
+export async function getBudgetVersions(
+  supabase: SupabaseClient,
+  budget: Budget
+): Promise<BudgetVersion[]> {
+  const { data, error } = await supabase
+    .from("budget_versions")
+    .select("amount, period, period_start_day, period_anchor, effective_from")
+    .eq("budget_id", budget.id)
+    .order("effective_from", { ascending: true });
+
+  if (error) console.error("Error fetching budget versions:", error);
+  if (data && data.length > 0) return data;
+
+  return [
+    {
+      amount: budget.amount,
+      period: budget.period,
+      period_start_day: budget.period_start_day,
+      period_anchor: budget.period_anchor,
+      effective_from: getPeriodRange(budget, budget.created_at.split("T")[0]).start,
+    },
+  ];
+}
+
+/**
+ * Total spending in each of the given periods, which must be consecutive and
+ * oldest first. Returns null if the expenses can't be read.
+ */
+export async function getSpendingByPeriod(
+  supabase: SupabaseClient,
+  workspace: Workspace,
+  periods: PeriodRange[]
+): Promise<number[] | null> {
+  const spent = periods.map(() => 0);
+  if (periods.length === 0) return spent;
+
+  for (let from = 0; ; from += FETCH_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("expenses")
+      .select("date, amount")
+      .or(workspaceFilter(workspace))
+      .is("deleted_at", null)
+      .gte("date", periods[0].start)
+      .lte("date", periods[periods.length - 1].end)
+      .order("date", { ascending: true })
+      .order("id", { ascending: true })
+      .range(from, from + FETCH_PAGE_SIZE - 1);
+
+    if (error) {
+      console.error("Error fetching spending by period:", error);
+      return null;
+    }
+
+    (data || []).forEach((expense) => {
+      const index = periods.findIndex((period) => expense.date <= period.end);
+      if (index >= 0) spent[index] += Number(expense.amount);
+    });
+    if (!data || data.length < FETCH_PAGE_SIZE) break;
+  }
+
+  return spent;
+}
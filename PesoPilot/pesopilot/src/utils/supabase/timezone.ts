@@ -0,0 +1,25 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { DEFAULT_TIMEZONE, isValidTimezone, todayIn } from "@/utils/period";
+
+/** The timezone on the user's profile, which decides what day it is for them. */
+export async function getUserTimezone(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<string> {
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("timezone")
+    .eq("id", userId)
+    .single();
+
+  const timezone: string | null = profile?.timezone ?? null;
+  return timezone && isValidTimezone(timezone) ? timezone : DEFAULT_TIMEZONE;
+}
+
+/** Today's date (YYYY-MM-DD) in the user's timezone. */
+export async function getUserToday(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<string> {
+  return todayIn(await getUserTimezone(supabase, userId));
+}
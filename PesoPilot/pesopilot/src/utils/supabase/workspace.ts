@@ -0,0 +1,45 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+/**
+ * What the signed-in user is currently looking at: their personal budget
+ * (householdId = null) or a household they share with other members.
+ */
+export interface Workspace {
+  userId: string;
+  householdId: string | null;
+}
+
+export async function getWorkspace(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<Workspace> {
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("active_household_id")
+    .eq("id", userId)
+    .single();
+
+  const householdId: string | null = profile?.active_household_id ?? null;
+  if (!householdId) return { userId, householdId: null };
+
+  // Fall back to the personal workspace if the user has left the household
+  const { data: membership } = await supabase
+    .from("household_members")
+    .select("id")
+    .eq("household_id", householdId)
+    .eq("user_id", userId)
+    .eq("status", "active")
+    .maybeSingle();
+
+  return { userId, householdId: membership ? householdId : null };
+}
+
+/**
+ * PostgREST filter for the rows of a shareable table (budgets, expenses,
+ * incomes) that belong to the workspace. Apply it with `query.or(...)`.
+ */
+export function workspaceFilter(workspace: Workspace): string {
+  return workspace.householdId
+    ? `household_id.eq.${workspace.householdId}`
+    : `and(user_id.eq.${workspace.userId},household_id.is.null)`;
+}
@@ -0,0 +1,14 @@
+const MAX_TAG_LENGTH = 30;
+
+/**
+ * Split comma-separated input into tags: trimmed, lowercased, without a
+ * leading "#", and with blanks and repeats dropped.
+ */
+export function parseTags(input: string): string[] {
+  const tags = input
+    .split(",")
+    .map((tag) => tag.trim().replace(/^#+/, "").toLowerCase().slice(0, MAX_TAG_LENGTH))
+    .filter((tag) => tag.length > 0);
+
+  return Array.from(new Set(tags));
+}
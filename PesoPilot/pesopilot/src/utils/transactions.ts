@@ -0,0 +1,74 @@
+export type ExpenseSort = "date_desc" | "date_asc" | "amount_desc" | "amount_asc";
+
+export interface ExpenseFilters {
+  search?: string;
+  category?: string;
+  minAmount?: number;
+  maxAmount?: number;
+  startDate?: string;
+  endDate?: string;
+  sort?: ExpenseSort;
+}
+
+export const EXPENSE_SORTS: { value: ExpenseSort; label: string }[] = [
+  { value: "date_desc", label: "Newest first" },
+  { value: "date_asc", label: "Oldest first" },
+  { value: "amount_desc", label: "Highest amount" },
+  { value: "amount_asc", label: "Lowest amount" },
+];
+
+// Short URL keys so bookmarked views stay readable
+const PARAM_KEYS = {
+  search: "q",
+  category: "category",
+  minAmount: "min",
+  maxAmount: "max",
+  startDate: "from",
+  endDate: "to",
+  sort: "sort",
+} as const;
+
+function toNumber(value: string | null): number | undefined {
+  if (value === null || value.trim() === "") return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : undefined;
+}
+
+/**
+ * Read transaction filters from the page URL. Unknown or malformed values
+ * are dropped rather than rejected so an edited bookmark still loads.
+ */
+export function parseExpenseFilters(params: URLSearchParams): ExpenseFilters {
+  const sort = params.get(PARAM_KEYS.sort);
+  const isDate = (value: string | null) =>
+    value && /^\d{4}-\d{2}-\d{2}$/.test(value) ? value : undefined;
+
+  return {
+    search: params.get(PARAM_KEYS.search) || undefined,
+    category: params.get(PARAM_KEYS.category) || undefined,
+    minAmount: toNumber(params.get(PARAM_KEYS.minAmount)),
+    maxAmount: toNumber(params.get(PARAM_KEYS.maxAmount)),
+    startDate: isDate(params.get(PARAM_KEYS.startDate)),
+    endDate: isDate(params.get(PARAM_KEYS.endDate)),
+    sort: EXPENSE_SORTS.some((option) => option.value === sort)
+      ? (sort as ExpenseSort)
+      : undefined,
+  };
+}
+
+/**
+ * Serialize filters back into a query string, leaving out empty values and
+ * the default sort.
+ */
+export function expenseFiltersToQuery(filters: ExpenseFilters): string {
+  const params = new URLSearchParams();
+
+  (Object.keys(PARAM_KEYS) as (keyof ExpenseFilters)[]).forEach((key) => {
+    const value = filters[key];
+    if (value === undefined || value === "") return;
+    if (key === "sort" && value === "date_desc") return;
+    params.set(PARAM_KEYS[key], String(value));
+  });
+
+  return params.toString();
+}
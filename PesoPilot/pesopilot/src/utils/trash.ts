@@ -0,0 +1,15 @@
+/** Deleted expenses stay in the trash this long before they are purged. */
+export const TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** The moment before which anything deleted is due to be purged. */
+export function purgeCutoff(now: Date = new Date()): string {
+  return new Date(now.getTime() - TRASH_RETENTION_DAYS * DAY_MS).toISOString();
+}
+
+/** Whole days left before an item deleted at `deletedAt` is purged, never below zero. */
+export function daysUntilPurge(deletedAt: string, now: Date = new Date()): number {
+  const purgeAt = new Date(deletedAt).getTime() + TRASH_RETENTION_DAYS * DAY_MS;
+  return Math.max(0, Math.ceil((purgeAt - now.getTime()) / DAY_MS));
+}
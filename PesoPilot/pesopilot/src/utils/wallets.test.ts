@@ -0,0 +1,140 @@
+import { readFileSync } from "node:fs";
+import { describe, expect, it } from "vitest";
+import { parseCsv } from "./csv";
+import {
+  WALLET_FORMATS,
+  classify,
+  parseWalletCsv,
+  parseWalletDate,
+  parseWalletStatement,
+} from "./wallets";
+
+const fixture = (name: string) =>
+  readFileSync(new URL(`./__fixtures__/${name}`, import.meta.url), "utf8");
+
+const categories = ["Food & Dining", "Health & Fitness", "Bills & Utilities"];
+const ownNumbers = ["9171234567"];
+
+describe("parseWalletDate", () => {
+  it("reads each date style the wallets print", () => {
+    expect(parseWalletDate("2026-03-05 10:21 AM")).toBe("2026-03-05");
+    expect(parseWalletDate("03/05/2026")).toBe("2026-03-05");
+    expect(parseWalletDate("Mar 5, 2026")).toBe("2026-03-05");
+    expect(parseWalletDate("05 Mar 2026")).toBe("2026-03-05");
+    expect(parseWalletDate("September 30, 2026 11:59 PM")).toBe("2026-09-30");
+  });
+
+  it("returns null for text that isn't a date", () => {
+    expect(parseWalletDate("Starting Balance")).toBeNull();
+    expect(parseWalletDate("05 Foo 2026")).toBeNull();
+  });
+});
+
+describe("classify", () => {
+  it("treats money out as an expense", () => {
+    expect(classify(WALLET_FORMATS.gcash, "out", "Payment to JOLLIBEE", [])).toBe("expense");
+  });
+
+  it("skips cash-ins and money received", () => {
+    expect(classify(WALLET_FORMATS.gcash, "in", "Cash-in from BPI", [])).toBe("cash_in");
+    expect(classify(WALLET_FORMATS.maya, "in", "Cash in from UnionBank", [])).toBe("cash_in");
+    expect(classify(WALLET_FORMATS.gcash, "in", "Received GCash from MARIA", [])).toBe("cash_in");
+    expect(classify(WALLET_FORMATS.maya, "in", "Payment from PEDRO", [])).toBe("money_in");
+  });
+
+  it("skips transfers between the user's own wallets", () => {
+    expect(classify(WALLET_FORMATS.gcash, "out", "Send Money to Maya", [])).toBe("own_transfer");
+    expect(classify(WALLET_FORMATS.gcash, "out", "GSave deposit", [])).toBe("own_transfer");
+    expect(classify(WALLET_FORMATS.maya, "out", "Transfer to GCash", [])).toBe("own_transfer");
+    expect(classify(WALLET_FORMATS.maya, "out", "Transfer to Maya Savings", [])).toBe("own_transfer");
+  });
+
+  it("skips transfers to one of the user's own numbers", () => {
+    expect(classify(WALLET_FORMATS.gcash, "out", "Transfer to 0917 123 4567", ownNumbers)).toBe(
+      "own_transfer"
+    );
+    expect(classify(WALLET_FORMATS.gcash, "out", "Transfer to 09181112222", ownNumbers)).toBe(
+      "expense"
+    );
+  });
+});
+
+describe("parseWalletCsv", () => {
+  it("reads GCash Debit and Credit columns below the account details", () => {
+    const { entries, error } = parseWalletCsv(parseCsv(fixture("gcash.csv")), "gcash", categories, ownNumbers);
+
+    expect(error).toBeUndefined();
+    expect(entries.map((entry) => [entry.amount, entry.direction, entry.kind])).toEqual([
+      [185, "out", "expense"],
+      [1000, "in", "cash_in"],
+      [500, "out", "own_transfer"],
+      [300, "out", "own_transfer"],
+      [250, "in", "cash_in"],
+      [1450.5, "out", "expense"],
+    ]);
+    expect(entries[0]).toMatchObject({
+      line: 4,
+      date: "2026-03-02",
+      description: "Payment to JOLLIBEE QUEZON AVE",
+      reference: "1001234567",
+      category: "Food & Dining",
+      errors: [],
+    });
+    expect(entries[5].category).toBe("Bills & Utilities");
+  });
+
+  it("reads the Maya signed Amount column", () => {
+    const { entries, error } = parseWalletCsv(parseCsv(fixture("maya.csv")), "maya", categories);
+
+    expect(error).toBeUndefined();
+    expect(entries.map((entry) => [entry.date, entry.amount, entry.direction, entry.kind])).toEqual([
+      ["2026-03-02", 320.75, "out", "expense"],
+      ["2026-03-03", 2000, "in", "cash_in"],
+      ["2026-03-04", 750, "out", "own_transfer"],
+      ["2026-03-05", 1000, "out", "own_transfer"],
+      ["2026-03-06", 150, "in", "cash_in"],
+    ]);
+    expect(entries[0]).toMatchObject({ reference: "MY-884201", category: "Health & Fitness" });
+  });
+
+  it("reports a file without a header row", () => {
+    expect(parseWalletCsv([["foo", "bar"]], "gcash", categories).error).toMatch(/header row/);
+  });
+});
+
+describe("parseWalletStatement", () => {
+  const lines = (name: string) => fixture(name).split("\n");
+
+  it("takes the direction from how the GCash running balance moved", () => {
+    const { entries, error } = parseWalletStatement(lines("gcash-statement.txt"), "gcash", categories);
+
+    expect(error).toBeUndefined();
+    expect(entries.map((entry) => [entry.amount, entry.direction, entry.kind])).toEqual([
+      [185, "out", "expense"],
+      [1000, "in", "cash_in"],
+      [500, "out", "own_transfer"],
+      [250, "in", "cash_in"],
+    ]);
+    expect(entries[0]).toMatchObject({
+      line: 5,
+      date: "2026-03-02",
+      description: "Payment to JOLLIBEE QUEZON AVE",
+      reference: "1001234567",
+    });
+  });
+
+  it("reads the Maya opening balance and negative amounts", () => {
+    const { entries } = parseWalletStatement(lines("maya-statement.txt"), "maya", categories);
+
+    expect(entries.map((entry) => [entry.date, entry.amount, entry.direction, entry.kind])).toEqual([
+      ["2026-03-02", 320.75, "out", "expense"],
+      ["2026-03-03", 2000, "in", "cash_in"],
+      ["2026-03-05", 750, "out", "own_transfer"],
+      ["2026-03-06", 150, "in", "cash_in"],
+    ]);
+  });
+
+  it("reports a statement without transactions", () => {
+    expect(parseWalletStatement(["Nothing to see"], "gcash", categories).error).toBeTruthy();
+  });
+});
@@ -0,0 +1,299 @@
+import { guessCategory } from "./categories";
+import { parseAmount, parseDate, type ImportRow } from "./import";
+
+export type WalletSource = "gcash" | "maya";
+
+/**
+ * What a wallet transaction is. Only "expense" entries are imported; the
+ * rest are shown in the preview with the reason they are skipped.
+ */
+export type WalletEntryKind = "expense" | "cash_in" | "money_in" | "own_transfer";
+
+/** One transaction read from a GCash or Maya export. */
+export interface WalletEntry {
+  line: number;
+  date: string;
+  description: string;
+  reference: string;
+  amount: number;
+  direction: "in" | "out";
+  kind: WalletEntryKind;
+  category: string;
+  errors: string[];
+}
+
+interface WalletFormat {
+  label: string;
+  /** Money coming in from a bank, an over-the-counter cash-in or a sender. */
+  cashIn: RegExp;
+  /** Money moved to the user's other wallet or savings, not spent. */
+  ownTransfer: RegExp;
+}
+
+export const WALLET_FORMATS: Record<WalletSource, WalletFormat> = {
+  gcash: {
+    label: "GCash",
+    cashIn: /cash[\s-]?in|add money|received (gcash|money)|transfer from|refund/i,
+    ownTransfer: /\b(pay)?maya\b|gsave|ginvest|gfunds|gcash jar|transfer to own/i,
+  },
+  maya: {
+    label: "Maya",
+    cashIn: /cash[\s-]?in|add money|received money|transfer from|refund/i,
+    ownTransfer: /\bgcash\b|g-xchange|maya savings|personal goal|transfer to own/i,
+  },
+};
+
+export const WALLET_SOURCES = Object.keys(WALLET_FORMATS) as WalletSource[];
+
+export const WALLET_KIND_LABELS: Record<WalletEntryKind, string> = {
+  expense: "Expense",
+  cash_in: "Cash-in",
+  money_in: "Money received",
+  own_transfer: "Transfer between your wallets",
+};
+
+/** Pick the wallet from the file name or content, defaulting to GCash. */
+export function detectWallet(fileName: string, content: string): WalletSource {
+  const text = `${fileName}\n${content.slice(0, 2000)}`;
+  if (/\b(pay)?maya\b/i.test(text) && !/\bgcash\b/i.test(text)) return "maya";
+  return "gcash";
+}
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+// Dates as the wallets print them, optionally followed by a time
+const DATE_PATTERN =
+  /^(\d{4}-\d{1,2}-\d{1,2}|\d{1,2}\/\d{1,2}\/\d{4}|[A-Za-z]{3,9}\.? \d{1,2},? \d{4}|\d{1,2} [A-Za-z]{3,9}\.? \d{4})(?:[ T,]+\d{1,2}:\d{2}(?::\d{2})?(?:\s?[AP]M)?)?/i;
+
+/**
+ * "2026-03-05 10:21 AM", "03/05/2026", "Mar 5, 2026" or "05 Mar 2026" to
+ * YYYY-MM-DD. Slashed dates are month first, as both apps print them.
+ */
+export function parseWalletDate(value: string): string | null {
+  const match = value.trim().match(DATE_PATTERN);
+  if (!match) return null;
+  const date = match[1];
+
+  if (/^\d{4}-/.test(date)) return parseDate(date, "YYYY-MM-DD");
+  if (date.includes("/")) return parseDate(date, "MM/DD/YYYY");
+
+  const parts = date.replace(/[.,]/g, "").split(" ");
+  const [monthName, day] = /^\d/.test(parts[0]) ? [parts[1], parts[0]] : [parts[0], parts[1]];
+  const month = MONTHS.indexOf(monthName.slice(0, 3).toLowerCase()) + 1;
+  if (month === 0) return null;
+
+  return parseDate(`${parts[2]}-${month}-${day}`, "YYYY-MM-DD");
+}
+
+/** Why a transaction is or isn't imported as an expense. */
+export function classify(
+  format: WalletFormat,
+  direction: "in" | "out",
+  description: string,
+  ownNumbers: string[]
+): WalletEntryKind {
+  const digits = description.replace(/\D/g, "");
+  const toOwnNumber = ownNumbers.some((number) => number.length >= 10 && digits.includes(number));
+
+  if (format.ownTransfer.test(description) || toOwnNumber) return "own_transfer";
+  if (direction === "out") return "expense";
+  return format.cashIn.test(description) ? "cash_in" : "money_in";
+}
+
+/** "0917 123 4567" or "+63 917 123 4567" to the last ten digits. */
+export function normalizeMobileNumber(value: string): string {
+  return value.replace(/\D/g, "").slice(-10);
+}
+
+function buildEntry(
+  source: WalletSource,
+  fields: {
+    line: number;
+    date: string;
+    description: string;
+    reference: string;
+    amount: number | null;
+    direction: "in" | "out";
+  },
+  categories: string[],
+  ownNumbers: string[]
+): WalletEntry {
+  const errors: string[] = [];
+  const date = parseWalletDate(fields.date);
+  const description = fields.description.replace(/\s+/g, " ").trim();
+
+  if (date === null) errors.push("Date could not be read");
+  if (fields.amount === null || fields.amount <= 0) errors.push("Amount could not be read");
+
+  return {
+    line: fields.line,
+    date: date ?? "",
+    description,
+    reference: fields.reference.trim(),
+    amount: fields.amount ?? 0,
+    direction: fields.direction,
+    kind: classify(WALLET_FORMATS[source], fields.direction, description, ownNumbers),
+    category: guessCategory(description, categories),
+    errors,
+  };
+}
+
+/** "-₱150.00", "₱-150.00" or "(150.00)" */
+function isNegative(value: string): boolean {
+  return /^[-(]/.test(value.replace(/[₱\s]|PHP/gi, ""));
+}
+
+// Claimed in this order, so "Transaction Date" is the date and not the description
+const COLUMN_HINTS = {
+  date: /date/i,
+  reference: /reference|ref\.? ?(no|id)/i,
+  debit: /debit|money out|withdraw/i,
+  credit: /credit|money in|deposit/i,
+  amount: /^amount/i,
+  description: /description|details|particulars|transaction/i,
+};
+
+type WalletColumn = keyof typeof COLUMN_HINTS;
+
+/**
+ * Parse a transaction history CSV. GCash exports separate Debit and Credit
+ * columns; Maya exports one signed Amount column (negative for money out).
+ */
+export function parseWalletCsv(
+  rows: string[][],
+  source: WalletSource,
+  categories: string[],
+  ownNumbers: string[] = []
+): { entries: WalletEntry[]; error?: string } {
+  // Some exports put the account name and period above the header row
+  const headerIndex = rows.findIndex(
+    (row) => row.some((cell) => COLUMN_HINTS.date.test(cell)) && row.some((cell) => COLUMN_HINTS.description.test(cell))
+  );
+  if (headerIndex < 0) {
+    return { entries: [], error: "No header row with Date and Description columns was found." };
+  }
+
+  const header = rows[headerIndex].map((cell) => cell.trim());
+  const used = new Set<number>();
+  const column = {} as Record<WalletColumn, number>;
+  (Object.keys(COLUMN_HINTS) as WalletColumn[]).forEach((key) => {
+    column[key] = header.findIndex((cell, i) => !used.has(i) && COLUMN_HINTS[key].test(cell));
+    if (column[key] >= 0) used.add(column[key]);
+  });
+
+  if (column.amount < 0 && column.debit < 0) {
+    return { entries: [], error: "No Amount or Debit column was found." };
+  }
+
+  const cell = (row: string[], key: WalletColumn) => (column[key] >= 0 ? (row[column[key]] ?? "").trim() : "");
+
+  const entries = rows.slice(headerIndex + 1).flatMap((row, i) => {
+    if (row.every((value) => value.trim() === "")) return [];
+
+    const debit = cell(row, "debit");
+    const signed = cell(row, "amount");
+    const outgoing = debit !== "" ? (parseAmount(debit) ?? 0) > 0 : isNegative(signed);
+    const amount = debit !== "" && outgoing ? parseAmount(debit) : parseAmount(cell(row, "credit") || signed);
+
+    return [
+      buildEntry(
+        source,
+        {
+          line: headerIndex + i + 2,
+          date: cell(row, "date"),
+          description: cell(row, "description"),
+          reference: cell(row, "reference"),
+          amount,
+          direction: outgoing ? "out" : "in",
+        },
+        categories,
+        ownNumbers
+      ),
+    ];
+  });
+
+  return { entries };
+}
+
+// Trailing money columns of a statement line: the amount, then the running balance
+const STATEMENT_AMOUNTS = /\s+(-?\s?(?:PHP|₱)?\s?-?[\d,]+\.\d{2})\s+(-?\s?(?:PHP|₱)?\s?[\d,]+\.\d{2})\s*$/i;
+const OPENING_BALANCE = /(starting|beginning|opening) balance\s+(?:PHP|₱)?\s?([\d,]+\.\d{2})/i;
+
+/**
+ * Parse the text lines of an emailed PDF statement. Each transaction line
+ * starts with a date and ends with the amount and running balance; whether
+ * money went in or out follows from how the balance moved.
+ */
+export function parseWalletStatement(
+  lines: string[],
+  source: WalletSource,
+  categories: string[],
+  ownNumbers: string[] = []
+): { entries: WalletEntry[]; error?: string } {
+  const entries: WalletEntry[] = [];
+  let balance: number | null = null;
+
+  lines.forEach((text, i) => {
+    const line = text.replace(/\s+/g, " ").trim();
+
+    const opening = line.match(OPENING_BALANCE);
+    if (opening) {
+      balance = parseAmount(opening[2]);
+      return;
+    }
+
+    const date = line.match(DATE_PATTERN);
+    const amounts = line.match(STATEMENT_AMOUNTS);
+    if (!date || !amounts) return;
+
+    let description = line.slice(date[0].length, amounts.index).trim();
+    let reference = "";
+    const referenceMatch = description.match(/\s(\d{6,})$/);
+    if (referenceMatch) {
+      reference = referenceMatch[1];
+      description = description.slice(0, referenceMatch.index).trim();
+    }
+
+    const amount = parseAmount(amounts[1]);
+    const newBalance = parseAmount(amounts[2]);
+    let direction: "in" | "out";
+    if (isNegative(amounts[1])) {
+      direction = "out";
+    } else if (balance !== null && newBalance !== null) {
+      direction = newBalance > balance ? "in" : "out";
+    } else {
+      direction = WALLET_FORMATS[source].cashIn.test(description) ? "in" : "out";
+    }
+    balance = newBalance;
+
+    entries.push(
+      buildEntry(
+        source,
+        { line: i + 1, date: date[0], description, reference, amount, direction },
+        categories,
+        ownNumbers
+      )
+    );
+  });
+
+  if (entries.length === 0) {
+    return { entries, error: "No transactions were found in this statement." };
+  }
+
+  return { entries };
+}
+
+/**
+ * Expense entries as import rows. The reference number is kept in the
+ * description so importing the same statement twice is caught as duplicates.
+ */
+export function walletEntryToImportRow(entry: WalletEntry): ImportRow {
+  return {
+    line: entry.line,
+    amount: entry.amount,
+    category: entry.category,
+    description: entry.reference ? `${entry.description} (Ref ${entry.reference})` : entry.description,
+    date: entry.date,
+    errors: entry.errors,
+  };
+}
@@ -39,7 +39,7 @@ CREATE TABLE IF NOT EXISTS budgets (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
   user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
   amount NUMERIC(12, 2) NOT NULL CHECK (amount > 0),
-  period TEXT NOT NULL CHECK (period IN ('weekly', 'monthly')),
+  period TEXT NOT NULL CHECK (period IN ('weekly', 'monthly', 'semi_monthly', 'biweekly')),
   created_at TIMESTAMPTZ DEFAULT NOW()
 );
 
@@ -127,7 +127,8 @@ CREATE OR REPLACE TRIGGER on_auth_user_created
 -- 5. USEFUL VIEWS
 -- ============================================
 
--- View: Monthly expense summary by category
+-- View: Monthly expense summary by category (redefined in section 21 to
+-- skip deleted expenses)
 CREATE OR REPLACE VIEW monthly_expense_summary AS
 SELECT 
   user_id,
@@ -138,27 +139,8 @@ SELECT
 FROM expenses
 GROUP BY user_id, DATE_TRUNC('month', date), category;
 
--- View: Budget vs Actual spending
-CREATE OR REPLACE VIEW budget_vs_actual AS
-SELECT 
-  b.user_id,
-  b.id AS budget_id,
-  b.amount AS budget_amount,
-  b.period,
-  COALESCE(SUM(e.amount), 0) AS actual_spent,
-  b.amount - COALESCE(SUM(e.amount), 0) AS remaining,
-  CASE 
-    WHEN b.period = 'monthly' THEN DATE_TRUNC('month', CURRENT_DATE)
-    WHEN b.period = 'weekly' THEN DATE_TRUNC('week', CURRENT_DATE)
-  END AS period_start
-FROM budgets b
-LEFT JOIN expenses e ON b.user_id = e.user_id 
-  AND (
-    (b.period = 'monthly' AND DATE_TRUNC('month', e.date) = DATE_TRUNC('month', CURRENT_DATE))
-    OR 
-    (b.period = 'weekly' AND DATE_TRUNC('week', e.date) = DATE_TRUNC('week', CURRENT_DATE))
-  )
-GROUP BY b.user_id, b.id, b.amount, b.period;
+-- View: Budget vs Actual spending is defined in section 21, once the
+-- budget period, timezone and trash columns it reads exist
 
 -- ============================================
 -- 6. PREMIUM REQUESTS TABLE
@@ -203,7 +185,1068 @@ CREATE INDEX idx_premium_requests_user_id ON premium_requests(user_id);
 CREATE INDEX idx_premium_requests_status ON premium_requests(status);
 
 -- ============================================
--- 7. MIGRATIONS (Run these for existing databases)
+-- 7. INCOMES TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS incomes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  amount NUMERIC(12, 2) NOT NULL CHECK (amount > 0),
+  source TEXT NOT NULL,
+  description TEXT,
+  date DATE NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Enable Row Level Security
+ALTER TABLE incomes ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies
+CREATE POLICY "Users can view own incomes"
+  ON incomes FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own incomes"
+  ON incomes FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own incomes"
+  ON incomes FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own incomes"
+  ON incomes FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Create indexes
+CREATE INDEX idx_incomes_user_id ON incomes(user_id);
+CREATE INDEX idx_incomes_user_date ON incomes(user_id, date);
+
+-- ============================================
+-- 8. RECURRING EXPENSES TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS recurring_expenses (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  amount NUMERIC(12, 2) NOT NULL CHECK (amount > 0),
+  category TEXT NOT NULL,
+  description TEXT,
+  cadence TEXT NOT NULL CHECK (cadence IN ('weekly', 'monthly', 'every_n_days', 'day_of_month')),
+  interval_days INTEGER CHECK (interval_days IS NULL OR interval_days > 0),
+  day_of_month INTEGER CHECK (day_of_month IS NULL OR day_of_month BETWEEN 1 AND 31),
+  start_date DATE NOT NULL,
+  end_date DATE,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'paused', 'ended')),
+  skipped_dates DATE[] NOT NULL DEFAULT '{}',
+  last_materialized_date DATE,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Enable Row Level Security
+ALTER TABLE recurring_expenses ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies
+CREATE POLICY "Users can view own recurring expenses"
+  ON recurring_expenses FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own recurring expenses"
+  ON recurring_expenses FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own recurring expenses"
+  ON recurring_expenses FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own recurring expenses"
+  ON recurring_expenses FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Create indexes
+CREATE INDEX idx_recurring_expenses_user_id ON recurring_expenses(user_id);
+
+-- Link generated expenses back to their rule. The unique index makes
+-- materialization idempotent: each rule can produce at most one expense per date.
+ALTER TABLE expenses ADD COLUMN IF NOT EXISTS recurring_id UUID REFERENCES recurring_expenses(id) ON DELETE SET NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_expenses_recurring_date ON expenses(recurring_id, date);
+
+-- ============================================
+-- 9. CATEGORY BUDGETS TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS category_budgets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  budget_id UUID NOT NULL REFERENCES budgets(id) ON DELETE CASCADE,
+  category TEXT NOT NULL,
+  amount NUMERIC(12, 2) NOT NULL CHECK (amount > 0),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (budget_id, category)
+);
+
+-- Enable Row Level Security
+ALTER TABLE category_budgets ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies
+CREATE POLICY "Users can view own category budgets"
+  ON category_budgets FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own category budgets"
+  ON category_budgets FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own category budgets"
+  ON category_budgets FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own category budgets"
+  ON category_budgets FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Create indexes
+CREATE INDEX idx_category_budgets_user_id ON category_budgets(user_id);
+CREATE INDEX idx_category_budgets_budget_id ON category_budgets(budget_id);
+
+-- ============================================
+-- 10. CATEGORIES TABLE
+-- ============================================
+-- Expenses, recurring rules and category budgets reference a category by
+-- name, so renames and merges re-point those rows in the server actions.
+CREATE TABLE IF NOT EXISTS categories (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  color TEXT NOT NULL DEFAULT '#3B82F6',
+  icon TEXT NOT NULL DEFAULT 'tag',
+  parent_id UUID REFERENCES categories(id) ON DELETE SET NULL,
+  archived BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (user_id, name)
+);
+
+-- Enable Row Level Security
+ALTER TABLE categories ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies
+CREATE POLICY "Users can view own categories"
+  ON categories FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own categories"
+  ON categories FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own categories"
+  ON categories FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own categories"
+  ON categories FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Create indexes
+CREATE INDEX idx_categories_user_id ON categories(user_id);
+CREATE INDEX idx_categories_parent_id ON categories(parent_id);
+
+-- ============================================
+-- 11. ACCOUNTS AND TRANSFERS TABLES
+-- ============================================
+CREATE TABLE IF NOT EXISTS accounts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  type TEXT NOT NULL CHECK (type IN ('cash', 'ewallet', 'bank', 'credit_card')),
+  opening_balance NUMERIC(12, 2) NOT NULL DEFAULT 0,
+  archived BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Enable Row Level Security
+ALTER TABLE accounts ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies
+CREATE POLICY "Users can view own accounts"
+  ON accounts FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own accounts"
+  ON accounts FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own accounts"
+  ON accounts FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own accounts"
+  ON accounts FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE INDEX idx_accounts_user_id ON accounts(user_id);
+
+-- Transfers move money between two of the user's accounts. They live in
+-- their own table so they never count as spending or income.
+CREATE TABLE IF NOT EXISTS transfers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  from_account_id UUID NOT NULL REFERENCES accounts(id) ON DELETE CASCADE,
+  to_account_id UUID NOT NULL REFERENCES accounts(id) ON DELETE CASCADE,
+  amount NUMERIC(12, 2) NOT NULL CHECK (amount > 0),
+  description TEXT,
+  date DATE NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (from_account_id <> to_account_id)
+);
+
+-- Enable Row Level Security
+ALTER TABLE transfers ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies
+CREATE POLICY "Users can view own transfers"
+  ON transfers FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own transfers"
+  ON transfers FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own transfers"
+  ON transfers FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE INDEX idx_transfers_user_id ON transfers(user_id);
+
+-- Record which account paid for an expense or received an income
+ALTER TABLE expenses ADD COLUMN IF NOT EXISTS account_id UUID REFERENCES accounts(id) ON DELETE SET NULL;
+ALTER TABLE incomes ADD COLUMN IF NOT EXISTS account_id UUID REFERENCES accounts(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_expenses_account_id ON expenses(account_id);
+CREATE INDEX IF NOT EXISTS idx_incomes_account_id ON incomes(account_id);
+
+-- ============================================
+-- 12. HOUSEHOLDS (SHARED BUDGETS)
+-- ============================================
+-- A household is a workspace shared by several users. Budgets, expenses and
+-- incomes with a household_id belong to the household instead of a single
+-- user; user_id still records who created the row.
+CREATE TABLE IF NOT EXISTS households (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  owner_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Invitations are member rows without a user_id. The invitee claims the row
+-- when they sign in with the invited email address.
+CREATE TABLE IF NOT EXISTS household_members (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  household_id UUID NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  email TEXT NOT NULL,
+  display_name TEXT,
+  role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('owner', 'member')),
+  status TEXT NOT NULL DEFAULT 'invited' CHECK (status IN ('invited', 'active')),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (household_id, email)
+);
+
+-- SECURITY DEFINER so policies can check membership without recursing
+-- through the household_members policies
+CREATE OR REPLACE FUNCTION public.is_household_member(target_household UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.household_members
+    WHERE household_id = target_household
+      AND user_id = auth.uid()
+      AND status = 'active'
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Enable Row Level Security
+ALTER TABLE households ENABLE ROW LEVEL SECURITY;
+ALTER TABLE household_members ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies
+CREATE POLICY "Members and invitees can view households"
+  ON households FOR SELECT
+  USING (
+    auth.uid() = owner_id
+    OR public.is_household_member(id)
+    OR EXISTS (
+      SELECT 1 FROM household_members m
+      WHERE m.household_id = households.id
+        AND lower(m.email) = lower(auth.jwt() ->> 'email')
+    )
+  );
+
+CREATE POLICY "Users can create households"
+  ON households FOR INSERT
+  WITH CHECK (auth.uid() = owner_id);
+
+CREATE POLICY "Owners can update households"
+  ON households FOR UPDATE
+  USING (auth.uid() = owner_id);
+
+CREATE POLICY "Owners can delete households"
+  ON households FOR DELETE
+  USING (auth.uid() = owner_id);
+
+CREATE POLICY "Members and invitees can view household members"
+  ON household_members FOR SELECT
+  USING (
+    public.is_household_member(household_id)
+    OR lower(email) = lower(auth.jwt() ->> 'email')
+  );
+
+CREATE POLICY "Owners can invite household members"
+  ON household_members FOR INSERT
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM households h
+    WHERE h.id = household_id AND h.owner_id = auth.uid()
+  ));
+
+-- There is no update policy: an invitee accepts through the function below,
+-- which can only claim their own pending invitation and can't touch the
+-- role, household or email
+DROP POLICY IF EXISTS "Invitees can accept their invitation" ON household_members;
+
+CREATE OR REPLACE FUNCTION public.accept_household_invite(member_id UUID, member_name TEXT)
+RETURNS UUID AS $$
+  UPDATE public.household_members
+  SET user_id = auth.uid(), display_name = member_name, status = 'active'
+  WHERE id = member_id
+    AND status = 'invited'
+    AND lower(email) = lower(auth.jwt() ->> 'email')
+  RETURNING household_id;
+$$ LANGUAGE sql VOLATILE SECURITY DEFINER SET search_path = public;
+
+CREATE POLICY "Owners, members and invitees can remove memberships"
+  ON household_members FOR DELETE
+  USING (
+    auth.uid() = user_id
+    OR lower(email) = lower(auth.jwt() ->> 'email')
+    OR EXISTS (
+      SELECT 1 FROM households h
+      WHERE h.id = household_id AND h.owner_id = auth.uid()
+    )
+  );
+
+-- Create indexes
+CREATE INDEX idx_household_members_household_id ON household_members(household_id);
+CREATE INDEX idx_household_members_user_id ON household_members(user_id);
+CREATE INDEX idx_household_members_email ON household_members(lower(email));
+
+-- The workspace each user is currently viewing (NULL = personal)
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS active_household_id UUID REFERENCES households(id) ON DELETE SET NULL;
+
+-- Shared rows
+ALTER TABLE budgets ADD COLUMN IF NOT EXISTS household_id UUID REFERENCES households(id) ON DELETE CASCADE;
+ALTER TABLE expenses ADD COLUMN IF NOT EXISTS household_id UUID REFERENCES households(id) ON DELETE CASCADE;
+ALTER TABLE incomes ADD COLUMN IF NOT EXISTS household_id UUID REFERENCES households(id) ON DELETE CASCADE;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_budgets_household_id ON budgets(household_id) WHERE household_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_expenses_household_date ON expenses(household_id, date);
+CREATE INDEX IF NOT EXISTS idx_incomes_household_date ON incomes(household_id, date);
+
+-- Members can read everything in the household and manage the shared budget.
+-- Expenses and incomes can only be edited or deleted by whoever logged them.
+CREATE POLICY "Household members can view shared budgets"
+  ON budgets FOR SELECT
+  USING (household_id IS NOT NULL AND public.is_household_member(household_id));
+
+CREATE POLICY "Household members can update shared budgets"
+  ON budgets FOR UPDATE
+  USING (household_id IS NOT NULL AND public.is_household_member(household_id));
+
+CREATE POLICY "Household members can view shared expenses"
+  ON expenses FOR SELECT
+  USING (household_id IS NOT NULL AND public.is_household_member(household_id));
+
+CREATE POLICY "Household members can view shared incomes"
+  ON incomes FOR SELECT
+  USING (household_id IS NOT NULL AND public.is_household_member(household_id));
+
+CREATE POLICY "Household members can manage shared category budgets"
+  ON category_budgets FOR ALL
+  USING (EXISTS (
+    SELECT 1 FROM budgets b
+    WHERE b.id = budget_id
+      AND b.household_id IS NOT NULL
+      AND public.is_household_member(b.household_id)
+  ));
+
+-- Replace the insert/update policies so a row can only be written into a
+-- household the user actually belongs to
+DROP POLICY IF EXISTS "Users can insert own budgets" ON budgets;
+CREATE POLICY "Users can insert own budgets"
+  ON budgets FOR INSERT
+  WITH CHECK (auth.uid() = user_id AND (household_id IS NULL OR public.is_household_member(household_id)));
+
+DROP POLICY IF EXISTS "Users can update own budgets" ON budgets;
+CREATE POLICY "Users can update own budgets"
+  ON budgets FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id AND (household_id IS NULL OR public.is_household_member(household_id)));
+
+DROP POLICY IF EXISTS "Users can insert own expenses" ON expenses;
+CREATE POLICY "Users can insert own expenses"
+  ON expenses FOR INSERT
+  WITH CHECK (auth.uid() = user_id AND (household_id IS NULL OR public.is_household_member(household_id)));
+
+DROP POLICY IF EXISTS "Users can update own expenses" ON expenses;
+CREATE POLICY "Users can update own expenses"
+  ON expenses FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id AND (household_id IS NULL OR public.is_household_member(household_id)));
+
+DROP POLICY IF EXISTS "Users can insert own incomes" ON incomes;
+CREATE POLICY "Users can insert own incomes"
+  ON incomes FOR INSERT
+  WITH CHECK (auth.uid() = user_id AND (household_id IS NULL OR public.is_household_member(household_id)));
+
+DROP POLICY IF EXISTS "Users can update own incomes" ON incomes;
+CREATE POLICY "Users can update own incomes"
+  ON incomes FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id AND (household_id IS NULL OR public.is_household_member(household_id)));
+
+-- ============================================
+-- 13. RECEIPT ATTACHMENTS
+-- ============================================
+-- Receipt photos and PDFs live in the private "receipts" storage bucket under
+-- <user_id>/<expense_id>/. The app only hands out short-lived signed URLs.
+CREATE TABLE IF NOT EXISTS expense_attachments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  expense_id UUID NOT NULL REFERENCES expenses(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  storage_path TEXT NOT NULL UNIQUE,
+  file_name TEXT NOT NULL,
+  content_type TEXT NOT NULL,
+  size_bytes INTEGER NOT NULL CHECK (size_bytes > 0),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Enable Row Level Security
+ALTER TABLE expense_attachments ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies
+CREATE POLICY "Users can view own attachments"
+  ON expense_attachments FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Household members can view shared attachments"
+  ON expense_attachments FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM expenses e
+    WHERE e.id = expense_id
+      AND e.household_id IS NOT NULL
+      AND public.is_household_member(e.household_id)
+  ));
+
+CREATE POLICY "Users can insert own attachments"
+  ON expense_attachments FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM expenses e WHERE e.id = expense_id AND e.user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can delete own attachments"
+  ON expense_attachments FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE INDEX idx_expense_attachments_expense_id ON expense_attachments(expense_id);
+
+-- Private bucket for the files themselves, limited to the types the app
+-- accepts (no SVG, which can carry scripts)
+INSERT INTO storage.buckets (id, name, public, allowed_mime_types)
+VALUES ('receipts', 'receipts', false, ARRAY['image/jpeg', 'image/png', 'image/webp', 'image/heic', 'application/pdf'])
+ON CONFLICT (id) DO UPDATE SET allowed_mime_types = EXCLUDED.allowed_mime_types;
+
+CREATE POLICY "Users can upload own receipts"
+  ON storage.objects FOR INSERT
+  WITH CHECK (bucket_id = 'receipts' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can view own receipts"
+  ON storage.objects FOR SELECT
+  USING (bucket_id = 'receipts' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Household members can view shared receipts"
+  ON storage.objects FOR SELECT
+  USING (
+    bucket_id = 'receipts'
+    AND EXISTS (
+      SELECT 1 FROM expense_attachments a
+      JOIN expenses e ON e.id = a.expense_id
+      WHERE a.storage_path = name
+        AND e.household_id IS NOT NULL
+        AND public.is_household_member(e.household_id)
+    )
+  );
+
+CREATE POLICY "Users can delete own receipts"
+  ON storage.objects FOR DELETE
+  USING (bucket_id = 'receipts' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+-- ============================================
+-- 14. FOREIGN CURRENCY EXPENSES AND EXCHANGE RATES
+-- ============================================
+-- expenses.amount is always in pesos so budgets, views and charts keep
+-- working unchanged. A foreign expense also records what was actually paid
+-- and the rate used to convert it.
+ALTER TABLE expenses ADD COLUMN IF NOT EXISTS currency TEXT NOT NULL DEFAULT 'PHP' CHECK (currency ~ '^[A-Z]{3}$');
+ALTER TABLE expenses ADD COLUMN IF NOT EXISTS original_amount NUMERIC(14, 2) CHECK (original_amount > 0);
+ALTER TABLE expenses ADD COLUMN IF NOT EXISTS exchange_rate NUMERIC(16, 6) CHECK (exchange_rate > 0);
+
+-- Pesos per one unit of a currency, as of a date. The rate for an expense
+-- is the latest one on or before its date.
+CREATE TABLE IF NOT EXISTS exchange_rates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  currency TEXT NOT NULL CHECK (currency ~ '^[A-Z]{3}$' AND currency <> 'PHP'),
+  rate NUMERIC(16, 6) NOT NULL CHECK (rate > 0),
+  effective_date DATE NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (user_id, currency, effective_date)
+);
+
+-- Enable Row Level Security
+ALTER TABLE exchange_rates ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies
+CREATE POLICY "Users can view own exchange rates"
+  ON exchange_rates FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own exchange rates"
+  ON exchange_rates FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own exchange rates"
+  ON exchange_rates FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own exchange rates"
+  ON exchange_rates FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE INDEX idx_exchange_rates_lookup ON exchange_rates(user_id, currency, effective_date DESC);
+
+-- ============================================
+-- 15. SAVINGS GOALS
+-- ============================================
+-- A goal is a target amount to reach by a date, optionally kept in one of
+-- the user's accounts. Progress is the sum of its contributions minus its
+-- withdrawals; neither counts as spending or income.
+CREATE TABLE IF NOT EXISTS savings_goals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  target_amount NUMERIC(12, 2) NOT NULL CHECK (target_amount > 0),
+  target_date DATE NOT NULL,
+  account_id UUID REFERENCES accounts(id) ON DELETE SET NULL,
+  archived BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Enable Row Level Security
+ALTER TABLE savings_goals ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies
+CREATE POLICY "Users can view own savings goals"
+  ON savings_goals FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own savings goals"
+  ON savings_goals FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own savings goals"
+  ON savings_goals FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own savings goals"
+  ON savings_goals FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE INDEX idx_savings_goals_user_id ON savings_goals(user_id);
+
+CREATE TABLE IF NOT EXISTS goal_contributions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  goal_id UUID NOT NULL REFERENCES savings_goals(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  type TEXT NOT NULL CHECK (type IN ('contribution', 'withdrawal')),
+  amount NUMERIC(12, 2) NOT NULL CHECK (amount > 0),
+  date DATE NOT NULL DEFAULT CURRENT_DATE,
+  note TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Enable Row Level Security
+ALTER TABLE goal_contributions ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies
+CREATE POLICY "Users can view own goal contributions"
+  ON goal_contributions FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own goal contributions"
+  ON goal_contributions FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own goal contributions"
+  ON goal_contributions FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own goal contributions"
+  ON goal_contributions FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE INDEX idx_goal_contributions_goal_id ON goal_contributions(goal_id, date DESC);
+
+-- ============================================
+-- 16. UTANG (MONEY LENT AND BORROWED)
+-- ============================================
+-- A debt is money lent to or borrowed from someone, paid back in one or
+-- more repayments. Neither is spending: a repayment only reaches the cash
+-- flow summary when post_to_cash_flow is set, and never the budget.
+CREATE TABLE IF NOT EXISTS debts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  counterparty TEXT NOT NULL,
+  direction TEXT NOT NULL CHECK (direction IN ('lent', 'borrowed')),
+  amount NUMERIC(12, 2) NOT NULL CHECK (amount > 0),
+  description TEXT,
+  date DATE NOT NULL DEFAULT CURRENT_DATE,
+  due_date DATE,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Enable Row Level Security
+ALTER TABLE debts ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies
+CREATE POLICY "Users can view own debts"
+  ON debts FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own debts"
+  ON debts FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own debts"
+  ON debts FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own debts"
+  ON debts FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE INDEX idx_debts_user_id ON debts(user_id, date DESC);
+
+CREATE TABLE IF NOT EXISTS debt_payments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  debt_id UUID NOT NULL REFERENCES debts(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  amount NUMERIC(12, 2) NOT NULL CHECK (amount > 0),
+  date DATE NOT NULL DEFAULT CURRENT_DATE,
+  note TEXT,
+  post_to_cash_flow BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Enable Row Level Security
+ALTER TABLE debt_payments ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies
+CREATE POLICY "Users can view own debt payments"
+  ON debt_payments FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own debt payments"
+  ON debt_payments FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own debt payments"
+  ON debt_payments FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own debt payments"
+  ON debt_payments FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE INDEX idx_debt_payments_debt_id ON debt_payments(debt_id);
+CREATE INDEX idx_debt_payments_user_date ON debt_payments(user_id, date);
+
+-- ============================================
+-- 17. BUDGET ROLLOVER
+-- ============================================
+-- Optionally carry a period's unspent budget and/or overspending into the
+-- next one. rollover_cap limits the carry either way; rollover_since is the
+-- first period whose leftover counts and is reset whenever rollover is
+-- switched on or the budget period changes.
+ALTER TABLE budgets ADD COLUMN IF NOT EXISTS rollover_mode TEXT NOT NULL DEFAULT 'none' CHECK (rollover_mode IN ('none', 'surplus', 'deficit', 'both'));
+ALTER TABLE budgets ADD COLUMN IF NOT EXISTS rollover_cap NUMERIC(12, 2) CHECK (rollover_cap > 0);
+ALTER TABLE budgets ADD COLUMN IF NOT EXISTS rollover_since DATE;
+
+-- ============================================
+-- 18. PAYDAY-ALIGNED BUDGET PERIODS
+-- ============================================
+-- Besides calendar weeks and months, a budget can run semi-monthly (split
+-- at period_start_day and 15 days later, e.g. the 15th/30th kinsenas) or
+-- bi-weekly from period_anchor. period_start_day also moves the start of a
+-- weekly (0 = Sunday) or monthly budget. These functions mirror
+-- src/utils/period.ts.
+ALTER TABLE budgets DROP CONSTRAINT IF EXISTS budgets_period_check;
+ALTER TABLE budgets ADD CONSTRAINT budgets_period_check CHECK (period IN ('weekly', 'monthly', 'semi_monthly', 'biweekly'));
+ALTER TABLE budgets ADD COLUMN IF NOT EXISTS period_start_day SMALLINT CHECK (period_start_day BETWEEN 0 AND 31);
+ALTER TABLE budgets ADD COLUMN IF NOT EXISTS period_anchor DATE;
+ALTER TABLE budgets DROP CONSTRAINT IF EXISTS budgets_biweekly_anchor_check;
+ALTER TABLE budgets ADD CONSTRAINT budgets_biweekly_anchor_check CHECK (period <> 'biweekly' OR period_anchor IS NOT NULL);
+
+-- The given day in the month starting at month_start, clamped to its last day
+CREATE OR REPLACE FUNCTION clamped_month_day(month_start DATE, day_of_month INT)
+RETURNS DATE
+LANGUAGE sql IMMUTABLE AS $$
+  SELECT month_start + (LEAST(day_of_month, EXTRACT(DAY FROM month_start + INTERVAL '1 month - 1 day')::INT) - 1);
+$$;
+
+-- First day of the budget period containing on_date
+CREATE OR REPLACE FUNCTION budget_period_start(
+  budget_period TEXT,
+  start_day INT,
+  anchor DATE,
+  on_date DATE
+)
+RETURNS DATE
+LANGUAGE plpgsql IMMUTABLE AS $$
+DECLARE
+  this_month DATE := DATE_TRUNC('month', on_date)::DATE;
+  last_month DATE := (DATE_TRUNC('month', on_date) - INTERVAL '1 month')::DATE;
+  day_of_month INT;
+  first_start DATE;
+  second_start DATE;
+BEGIN
+  IF budget_period = 'weekly' THEN
+    RETURN on_date - ((EXTRACT(DOW FROM on_date)::INT - COALESCE(start_day, 0) + 7) % 7);
+  ELSIF budget_period = 'biweekly' THEN
+    RETURN on_date - (((on_date - COALESCE(anchor, on_date)) % 14 + 14) % 14);
+  ELSIF budget_period = 'semi_monthly' THEN
+    day_of_month := LEAST(COALESCE(start_day, 1), 15);
+    first_start := clamped_month_day(this_month, day_of_month);
+    second_start := clamped_month_day(this_month, day_of_month + 15);
+    IF on_date >= second_start THEN RETURN second_start; END IF;
+    IF on_date >= first_start THEN RETURN first_start; END IF;
+    RETURN clamped_month_day(last_month, day_of_month + 15);
+  ELSE
+    day_of_month := COALESCE(start_day, 1);
+    first_start := clamped_month_day(this_month, day_of_month);
+    IF on_date >= first_start THEN RETURN first_start; END IF;
+    RETURN clamped_month_day(last_month, day_of_month);
+  END IF;
+END;
+$$;
+
+-- Last day of the budget period containing on_date: the day before the
+-- next period starts. The offsets always land inside the next period.
+CREATE OR REPLACE FUNCTION budget_period_end(
+  budget_period TEXT,
+  start_day INT,
+  anchor DATE,
+  on_date DATE
+)
+RETURNS DATE
+LANGUAGE sql IMMUTABLE AS $$
+  SELECT budget_period_start(
+    budget_period,
+    start_day,
+    anchor,
+    budget_period_start(budget_period, start_day, anchor, on_date) +
+      CASE budget_period
+        WHEN 'weekly' THEN 7
+        WHEN 'biweekly' THEN 14
+        WHEN 'semi_monthly' THEN 17
+        ELSE 32
+      END
+  ) - 1;
+$$;
+
+-- View: Budget vs Actual spending is defined in section 21, which works out
+-- the current period in each owner's timezone.
+
+-- ============================================
+-- 19. BUDGET HISTORY
+-- ============================================
+-- Each change to a budget's amount or periods is kept as a version that
+-- applies from the start of the period it was made in, so earlier periods
+-- stay measured against what was budgeted at the time. Access follows the
+-- budget, which also covers household budgets.
+CREATE TABLE IF NOT EXISTS budget_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  budget_id UUID NOT NULL REFERENCES budgets(id) ON DELETE CASCADE,
+  amount NUMERIC(12, 2) NOT NULL CHECK (amount > 0),
+  period TEXT NOT NULL CHECK (period IN ('weekly', 'monthly', 'semi_monthly', 'biweekly')),
+  period_start_day SMALLINT CHECK (period_start_day BETWEEN 0 AND 31),
+  period_anchor DATE,
+  effective_from DATE NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (budget_id, effective_from)
+);
+
+-- Enable Row Level Security
+ALTER TABLE budget_versions ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies
+CREATE POLICY "Users can view own budget versions"
+  ON budget_versions FOR SELECT
+  USING (EXISTS (SELECT 1 FROM budgets b WHERE b.id = budget_versions.budget_id));
+
+CREATE POLICY "Users can insert own budget versions"
+  ON budget_versions FOR INSERT
+  WITH CHECK (EXISTS (SELECT 1 FROM budgets b WHERE b.id = budget_versions.budget_id));
+
+CREATE POLICY "Users can update own budget versions"
+  ON budget_versions FOR UPDATE
+  USING (EXISTS (SELECT 1 FROM budgets b WHERE b.id = budget_versions.budget_id));
+
+CREATE POLICY "Users can delete own budget versions"
+  ON budget_versions FOR DELETE
+  USING (EXISTS (SELECT 1 FROM budgets b WHERE b.id = budget_versions.budget_id));
+
+-- Budgets saved before versions were kept start with their current settings
+INSERT INTO budget_versions (budget_id, amount, period, period_start_day, period_anchor, effective_from)
+SELECT
+  id,
+  amount,
+  period,
+  period_start_day,
+  period_anchor,
+  budget_period_start(period, period_start_day, period_anchor, created_at::DATE)
+FROM budgets
+ON CONFLICT (budget_id, effective_from) DO NOTHING;
+
+-- ============================================
+-- 20. PROFILE TIMEZONE
+-- ============================================
+-- The IANA timezone that decides what day it is for the user, so an expense
+-- logged at 7 AM in Manila isn't filed under the previous (UTC) day. The app
+-- validates the name; the view falls back to Manila for profiles without one.
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS timezone TEXT NOT NULL DEFAULT 'Asia/Manila';
+
+-- budget_vs_actual, which reads the timezone, is defined in section 21
+
+-- ============================================
+-- 21. EXPENSE TRASH
+-- ============================================
+-- Deleting an expense only sets deleted_at, so it can be undone or restored
+-- from the trash. The app purges rows (and their receipt files) 30 days
+-- after deletion. Every total and view skips deleted rows.
+ALTER TABLE expenses ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_expenses_deleted_at ON expenses(user_id, deleted_at) WHERE deleted_at IS NOT NULL;
+
+-- View: Monthly expense summary by category
+CREATE OR REPLACE VIEW monthly_expense_summary AS
+SELECT
+  user_id,
+  DATE_TRUNC('month', date) AS month,
+  category,
+  SUM(amount) AS total_amount,
+  COUNT(*) AS transaction_count
+FROM expenses
+WHERE deleted_at IS NULL
+GROUP BY user_id, DATE_TRUNC('month', date), category;
+
+-- View: Budget vs Actual spending in the current period, in the owner's timezone.
+-- A household budget counts every member's household expenses; a personal
+-- budget only the owner's personal ones.
+DROP VIEW IF EXISTS budget_vs_actual;
+CREATE VIEW budget_vs_actual AS
+SELECT
+  b.user_id,
+  b.id AS budget_id,
+  b.amount AS budget_amount,
+  b.period,
+  COALESCE(SUM(e.amount), 0) AS actual_spent,
+  b.amount - COALESCE(SUM(e.amount), 0) AS remaining,
+  p.period_start,
+  p.period_end
+FROM budgets b
+LEFT JOIN profiles pr ON pr.id = b.user_id
+CROSS JOIN LATERAL (
+  SELECT (NOW() AT TIME ZONE COALESCE(pr.timezone, 'Asia/Manila'))::DATE AS today
+) t
+CROSS JOIN LATERAL (
+  SELECT
+    budget_period_start(b.period, b.period_start_day, b.period_anchor, t.today) AS period_start,
+    budget_period_end(b.period, b.period_start_day, b.period_anchor, t.today) AS period_end
+) p
+LEFT JOIN expenses e ON e.household_id IS NOT DISTINCT FROM b.household_id
+  AND (b.household_id IS NOT NULL OR e.user_id = b.user_id)
+  AND e.date BETWEEN p.period_start AND p.period_end
+  AND e.deleted_at IS NULL
+GROUP BY b.user_id, b.id, b.amount, b.period, p.period_start, p.period_end;
+
+-- ============================================
+-- 22. BULK EXPENSE ACTIONS
+-- ============================================
+-- Free-form labels for grouping expenses across categories, e.g. a trip
+ALTER TABLE expenses ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_expenses_tags ON expenses USING GIN (tags);
+
+-- Apply one change to many expenses in a single transaction. Every row is
+-- checked first and reported on; if any row fails, nothing is changed.
+-- Runs with the caller's rights, so row level security still applies.
+CREATE OR REPLACE FUNCTION bulk_update_expenses(
+  expense_ids UUID[],
+  bulk_action TEXT,
+  new_category TEXT DEFAULT NULL,
+  new_date DATE DEFAULT NULL,
+  new_tags TEXT[] DEFAULT NULL
+)
+RETURNS TABLE (expense_id UUID, ok BOOLEAN, problem TEXT)
+LANGUAGE plpgsql AS $$
+DECLARE
+  target UUID;
+  owner_id UUID;
+  trashed_at TIMESTAMPTZ;
+  any_failed BOOLEAN := FALSE;
+BEGIN
+  IF bulk_action NOT IN ('recategorize', 'move_date', 'add_tags', 'delete', 'restore') THEN
+    RAISE EXCEPTION 'Unknown bulk action: %', bulk_action;
+  END IF;
+
+  FOR target IN SELECT DISTINCT unnest(expense_ids) LOOP
+    SELECT e.user_id, e.deleted_at INTO owner_id, trashed_at
+    FROM expenses e
+    WHERE e.id = target
+    FOR UPDATE;
+
+    expense_id := target;
+    problem := CASE
+      WHEN NOT FOUND THEN 'Expense not found'
+      WHEN owner_id <> auth.uid() THEN 'Only whoever logged this expense can change it'
+      WHEN bulk_action = 'restore' AND trashed_at IS NULL THEN 'Expense is not in the trash'
+      WHEN bulk_action <> 'restore' AND trashed_at IS NOT NULL THEN 'Expense is in the trash'
+    END;
+    ok := problem IS NULL;
+    any_failed := any_failed OR NOT ok;
+    RETURN NEXT;
+  END LOOP;
+
+  IF any_failed THEN
+    RETURN;
+  END IF;
+
+  UPDATE expenses e SET
+    category = CASE WHEN bulk_action = 'recategorize' THEN new_category ELSE e.category END,
+    date = CASE WHEN bulk_action = 'move_date' THEN new_date ELSE e.date END,
+    tags = CASE
+      WHEN bulk_action = 'add_tags'
+        THEN ARRAY(SELECT DISTINCT t FROM unnest(e.tags || new_tags) AS t ORDER BY t)
+      ELSE e.tags
+    END,
+    deleted_at = CASE
+      WHEN bulk_action = 'delete' THEN NOW()
+      WHEN bulk_action = 'restore' THEN NULL
+      ELSE e.deleted_at
+    END
+  WHERE e.id = ANY(expense_ids);
+END;
+$$;
+
+-- ============================================
+-- 23. AUDIT TRAIL
+-- ============================================
+-- Append-only history of every change to expenses and budgets, with the
+-- row as it was before and after. Only the trigger writes here: there are
+-- no insert, update or delete policies, so nobody can rewrite the history.
+-- The owner and household are copied onto each entry so it stays readable
+-- after the row itself is gone.
+CREATE TABLE IF NOT EXISTS audit_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  table_name TEXT NOT NULL CHECK (table_name IN ('expenses', 'budgets')),
+  record_id UUID NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('create', 'update', 'delete')),
+  owner_id UUID NOT NULL,
+  household_id UUID,
+  changed_by UUID,
+  changed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  old_values JSONB,
+  new_values JSONB
+);
+
+ALTER TABLE audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view history of own rows"
+  ON audit_log FOR SELECT
+  USING (auth.uid() = owner_id);
+
+CREATE POLICY "Household members can view shared history"
+  ON audit_log FOR SELECT
+  USING (household_id IS NOT NULL AND public.is_household_member(household_id));
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_record ON audit_log(table_name, record_id, changed_at);
+
+-- SECURITY DEFINER so the trigger can write past row level security
+CREATE OR REPLACE FUNCTION public.record_audit_event()
+RETURNS TRIGGER AS $$
+DECLARE
+  old_row JSONB := CASE WHEN TG_OP IN ('UPDATE', 'DELETE') THEN to_jsonb(OLD) END;
+  new_row JSONB := CASE WHEN TG_OP IN ('INSERT', 'UPDATE') THEN to_jsonb(NEW) END;
+  row_data JSONB := COALESCE(new_row, old_row);
+BEGIN
+  -- Saving a row without changing anything isn't worth an entry
+  IF old_row - 'updated_at' = new_row - 'updated_at' THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.audit_log
+    (table_name, record_id, action, owner_id, household_id, changed_by, old_values, new_values)
+  VALUES (
+    TG_TABLE_NAME,
+    (row_data->>'id')::UUID,
+    CASE TG_OP WHEN 'INSERT' THEN 'create' WHEN 'UPDATE' THEN 'update' ELSE 'delete' END,
+    (row_data->>'user_id')::UUID,
+    (row_data->>'household_id')::UUID,
+    auth.uid(),
+    old_row,
+    new_row
+  );
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS audit_expenses ON expenses;
+CREATE TRIGGER audit_expenses
+  AFTER INSERT OR UPDATE OR DELETE ON expenses
+  FOR EACH ROW EXECUTE FUNCTION public.record_audit_event();
+
+DROP TRIGGER IF EXISTS audit_budgets ON budgets;
+CREATE TRIGGER audit_budgets
+  AFTER INSERT OR UPDATE OR DELETE ON budgets
+  FOR EACH ROW EXECUTE FUNCTION public.record_audit_event();
+
+-- ============================================
+-- 24. OFFLINE SYNC
+-- ============================================
+-- Expenses logged offline are queued on the device and sent once it is back
+-- online. A queued edit or delete remembers updated_at as it was when the
+-- change was made. If the row has moved on since then, the change is held
+-- for the user to resolve instead of overwriting the newer version.
+ALTER TABLE expenses ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+
+CREATE OR REPLACE FUNCTION public.touch_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at := NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS touch_expenses_updated_at ON expenses;
+CREATE TRIGGER touch_expenses_updated_at
+  BEFORE UPDATE ON expenses
+  FOR EACH ROW EXECUTE FUNCTION public.touch_updated_at();
+
+-- ============================================
+-- 25. MIGRATIONS (Run these for existing databases)
 -- ============================================
 
 -- Migration: Add premium columns to existing profiles table